@@ -201,8 +201,8 @@ function getTeamDisplayName(userInfo, ffuService) {
   }
   
   // Use FFU service to get team name from mapping
-  if (userInfo?.userId) {
-    return ffuService.getTeamName(userInfo.userId);
+  if (userInfo?.ffuUserId) {
+    return ffuService.getTeamName(userInfo.ffuUserId);
   }
   
   return 'Unknown Team';
@@ -63,7 +63,7 @@ export async function execute(interaction, ffuService) {
     // Create standings text (limit to prevent embed size issues)
     let standingsText = '';
     const teamsToShow = Math.min(sortedStandings.length, 10); // Limit to 10 teams max
-    sortedStandings.slice(0, teamsToShow).forEach((team, index) => {
+    for (const [index, team] of sortedStandings.slice(0, teamsToShow).entries()) {
       const rank = team.rank || (index + 1);
       const teamName = getTeamDisplayName(team, ffuService);
       const record = `${team.wins}-${team.losses}`;
@@ -78,7 +78,7 @@ export async function execute(interaction, ffuService) {
         standingsText += '... (truncated)';
         break;
       }
-    });
+    }
     
     console.log(`[STANDINGS] Generated standings text: ${standingsText.length} characters`);
 
@@ -151,8 +151,8 @@ function getTeamDisplayName(team, ffuService) {
   }
   
   // Use FFU service to get team name from mapping
-  if (team.userId) {
-    return ffuService.getTeamName(team.userId);
+  if (team.ffuUserId) {
+    return ffuService.getTeamName(team.ffuUserId);
   }
   
   return 'Unknown Team';
@@ -39,7 +39,7 @@ export async function execute(interaction, ffuService) {
 
     // Test 3: Team name mapping
     try {
-      const testTeamName = ffuService.getTeamName('331590801261883392');
+      const testTeamName = ffuService.getTeamName('ffu-001');
       testResults += `✅ **Team mapping**: OK (${testTeamName})\n`;
     } catch (mappingError) {
       testResults += `❌ **Team mapping**: Failed - ${mappingError.message}\n`;
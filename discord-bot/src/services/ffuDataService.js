@@ -10,64 +10,72 @@ export class FFUDataService {
     this.cache = new Map();
     this.cacheTimeout = 5 * 60 * 1000; // 5 minutes
     
-    // Team name mapping from your constants
+    // Team name mapping keyed by ffuUserId, from the site's member registry (src/config/members.json).
+    // Season files are schema v2: every team reference is an ffuUserId, not a Sleeper user ID.
     this.teamMapping = new Map([
-      ['331590801261883392', 'The Stallions'],
-      ['396808818157182976', 'FFUcked Up'],
-      ['398574272387297280', 'Dmandre161'],
-      ['398576262546735104', 'Blood, Sweat, and Beers'],
-      ['467404039059927040', 'Malibu Leopards'],
-      ['470715135581745152', 'Pottsville Maroons'],
-      ['705642514408886272', 'Dark Knights'],
-      ['710981985102802944', 'Frank\'s Little Beauties'],
-      ['727368657923063808', 'Fort Wayne Banana Bread'],
-      ['729741648338210816', 'ChicagoPick6'],
-      ['798327505219096576', 'TKO Blow'],
-      ['860973514839199744', 'Show Biz Kitten'],
-      ['862142522036703232', 'Boca Ciega Banditos'],
-      ['84604928349585408', 'The (Teddy) Bears'],
-      ['398552306884345856', 'arcorey15'],
-      ['578691097983754240', 'MustachePapi'],
-      ['602712418325442560', 'The Riveters'],
-      ['804551335088361472', 'Crawfordsville\'s Finest'],
-      ['821067488811909120', 'LegendsRise'],
-      ['856248808915480576', 'The Tooth Tuggers'],
-      ['864966364937461760', 'Nighthawks'],
-      ['865078270985629696', 'The Gaston Ramblers'],
-      ['84006772809285632', 'The Minutemen'],
-      ['325766631336714240', 'Act More Stupidly'],
-      ['386791325690994688', 'Indianapolis Aztecs'],
-      ['462383465753473024', 'Raging Rhinos'],
-      ['465884883869233152', 'CamDelphia'],
-      ['507633950666584064', 'El Guapo Puto'],
-      ['508719015656099840', 'Team Pancake'],
-      ['527884868880531456', 'Johnkshire Cats'],
-      ['726572095210930176', 'Team Dogecoin'],
-      ['731211092713402368', 'Team Dogecoin'],
-      ['639877229681147904', 'He Hate Me'],
-      ['664739261735591936', 'CENATION'],
-      ['715362669380591616', 'ZBoser'],
-      ['727366898383122432', 'Big Ten Bandits'],
-      ['865323291064291328', 'Head Cow Always Grazing'],
-      ['1124071986805829632', 'Odin\'s Herr'],
-      ['1133491276038426624', 'Bucky Badgers'],
-      ['1133492104077946880', 'The Sha\'Dynasty'],
-      ['399322397750124544', 'Team Jacamart'],
-      ['472876832719368192', 'Stark Direwolves'],
-      ['399297882890440704', 'Circle City Phantoms'],
-      ['467553389673181184', 'Shton\'s Strikers'],
-      ['599711204499312640', 'Team Black Death'],
-      ['739275676649144320', 'Birds of War'],
-      ['563223565497249792', 'bstarrr'],
-      ['1003144735223099392', 'dewdoc'],
-      ['726584695151734784', 'The Ducklings'],
-      ['729571025750208512', 'chetmaynard'],
-      ['399379352174768128', 'Stone Cold Steve Irwins'],
-      ['1132015239492591616', 'The Steel Tigers'],
-      ['1256013880681832448', 'Jawn of Arc'],
-      ['1259227854642622464', 'The Underdogs'],
-      ['797222154151247872', 'Dawn Island Straw Hats'],
-      ['866063012375719936', 'The Inferno Swarm']
+      ['ffu-001', 'The Stallions'],
+      ['ffu-002', 'FFUcked Up'],
+      ['ffu-003', 'Dmandre161'],
+      ['ffu-004', 'Blood, Sweat, and Beers'],
+      ['ffu-005', 'Malibu Leopards'],
+      ['ffu-006', 'Pottsville Maroons'],
+      ['ffu-007', 'Dark Knights'],
+      ['ffu-008', 'Frank\'s Little Beauties'],
+      ['ffu-009', 'Fort Wayne Banana Bread'],
+      ['ffu-010', 'ChicagoPick6'],
+      ['ffu-011', 'TKO Blow'],
+      ['ffu-012', 'Show Biz Kitten'],
+      ['ffu-013', 'Boca Ciega Banditos'],
+      ['ffu-014', 'The (Teddy) Bears'],
+      ['ffu-015', 'arcorey15'],
+      ['ffu-016', 'MustachePapi'],
+      ['ffu-017', 'The Riveters'],
+      ['ffu-018', 'Crawfordsville\'s Finest'],
+      ['ffu-019', 'LegendsRise'],
+      ['ffu-020', 'The Tooth Tuggers'],
+      ['ffu-021', 'Nighthawks'],
+      ['ffu-022', 'The Gaston Ramblers'],
+      ['ffu-023', 'The Minutemen'],
+      ['ffu-024', 'Act More Stupidly'],
+      ['ffu-025', 'Indianapolis Aztecs'],
+      ['ffu-026', 'Raging Rhinos'],
+      ['ffu-027', 'CamDelphia'],
+      ['ffu-028', 'El Guapo Puto'],
+      ['ffu-029', 'Team Pancake'],
+      ['ffu-030', 'Johnkshire Cats'],
+      ['ffu-031', 'Team Dogecoin'],
+      ['ffu-033', 'He Hate Me'],
+      ['ffu-034', 'CENATION'],
+      ['ffu-035', 'ZBoser'],
+      ['ffu-036', 'Big Ten Bandits'],
+      ['ffu-037', 'Head Cow Always Grazing'],
+      ['ffu-038', 'Odin\'s Herr'],
+      ['ffu-039', 'Bucky Badgers'],
+      ['ffu-040', 'The Sha\'Dynasty'],
+      ['ffu-041', 'Team Jacamart'],
+      ['ffu-042', 'Stark Direwolves'],
+      ['ffu-043', 'Circle City Phantoms'],
+      ['ffu-044', 'Shton\'s Strikers'],
+      ['ffu-045', 'Team Black Death'],
+      ['ffu-046', 'Birds of War'],
+      ['ffu-047', 'bstarrr'],
+      ['ffu-048', 'dewdoc'],
+      ['ffu-049', 'The Ducklings'],
+      ['ffu-050', 'chetmaynard'],
+      ['ffu-051', 'Stone Cold Steve Irwins'],
+      ['ffu-052', 'The Steel Tigers'],
+      ['ffu-053', 'Jawn of Arc'],
+      ['ffu-054', 'The Underdogs'],
+      ['ffu-055', 'Dawn Island Straw Hats'],
+      ['ffu-056', 'The Inferno Swarm'],
+      ['ffu-h01', 'Naptown Makos'],
+      ['ffu-h02', 'Speedway\'s Ritual Cog'],
+      ['ffu-h03', 'The Well Done Stakes'],
+      ['ffu-h04', 'Durham Handsome Devils'],
+      ['ffu-h05', 'The Losers'],
+      ['ffu-h06', 'Gingy Flame'],
+      ['ffu-h07', 'Not Your Average Joes'],
+      ['ffu-h08', 'Team Team Casa']
     ]);
   }
 
@@ -165,11 +173,11 @@ export class FFUDataService {
   }
 
   /**
-   * Get team info by user ID
+   * Get team info by FFU user ID
    */
-  async getTeamInfo(league, year, userId) {
+  async getTeamInfo(league, year, ffuUserId) {
     const standings = await this.getStandings(league, year);
-    return standings.find(team => team.userId === userId) || null;
+    return standings.find(team => team.ffuUserId === ffuUserId) || null;
   }
 
   /**
@@ -230,10 +238,10 @@ export class FFUDataService {
   }
 
   /**
-   * Get team name for a user ID
+   * Get team name for an FFU user ID
    */
-  getTeamName(userId) {
-    return this.teamMapping.get(userId) || `Team ${userId?.slice(-4) || 'Unknown'}`;
+  getTeamName(ffuUserId) {
+    return this.teamMapping.get(ffuUserId) || `Team ${ffuUserId || 'Unknown'}`;
   }
 
   /**
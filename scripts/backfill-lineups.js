@@ -0,0 +1,156 @@
+/**
+ * Script to add matchup lineups (starters, bench and per-player points) to Sleeper-era
+ * season files that were generated before lineups were stored. Only lineups are fetched;
+ * scores, standings and everything else in the file are left exactly as they are.
+ * Regenerating a season with generate-historical-data.js stores lineups too, but rebuilds
+ * the whole file from the live API.
+ *
+ * Usage: node scripts/backfill-lineups.js [--check] [--year 2024] [--league PREMIER]
+ *
+ * --check fetches and reports how many matchups would get lineups without writing anything.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { HistoricalDataGenerator } from './generate-historical-data.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
+
+class LineupBackfiller {
+  constructor(options = {}) {
+    this.checkOnly = options.check || false;
+    this.year = options.year || null;
+    this.league = options.league ? options.league.toUpperCase() : null;
+    this.generator = new HistoricalDataGenerator();
+    this.dataDir = this.generator.outputDir;
+  }
+
+  getSeasonFiles() {
+    return fs.readdirSync(this.dataDir)
+      .filter(entry => /^\d{4}$/.test(entry) && (!this.year || entry === this.year))
+      .sort()
+      .flatMap(year => fs.readdirSync(path.join(this.dataDir, year))
+        .filter(file => file.endsWith('.json') && (!this.league || file === `${this.league.toLowerCase()}.json`))
+        .map(file => path.join(this.dataDir, year, file)));
+  }
+
+  // Stored and fetched matchups are matched on the two teams, whichever side won
+  getPairKey(userA, userB) {
+    return [userA, userB].sort().join('|');
+  }
+
+  async backfillFile(filePath, schema) {
+    const relativePath = path.relative(rootDir, filePath);
+    const content = fs.readFileSync(filePath, 'utf8');
+    const data = schema.normalizeHistoricalData(JSON.parse(content));
+
+    if (!data.leagueId || data.leagueId.startsWith('espn-')) {
+      console.log(`⏭️  ${relativePath}: ESPN era, no Sleeper lineups`);
+      return 'skipped';
+    }
+
+    const missingWeeks = Object.entries(data.matchupsByWeek)
+      .filter(([, matchups]) => matchups.some(matchup => !matchup.lineups))
+      .map(([week]) => parseInt(week));
+
+    if (missingWeeks.length === 0) {
+      console.log(`⏭️  ${relativePath}: lineups already stored`);
+      return 'skipped';
+    }
+
+    const rosters = await this.generator.sleeperService.getLeagueRosters(data.leagueId);
+    let filled = 0;
+    let unmatched = 0;
+
+    for (const week of missingWeeks) {
+      const rawMatchups = await this.generator.sleeperService.getMatchupsForWeek(data.leagueId, week);
+      const fetched = new Map(
+        this.generator.processRawMatchups(rawMatchups, rosters)
+          .map(matchup => [this.getPairKey(matchup.winner, matchup.loser), matchup])
+      );
+
+      data.matchupsByWeek[week].forEach(matchup => {
+        if (matchup.lineups) return;
+
+        const source = fetched.get(this.getPairKey(matchup.winner, matchup.loser));
+        if (!source) {
+          unmatched++;
+          return;
+        }
+
+        // Keep the stored winner/loser, even where a tie or stat correction flipped the live result
+        matchup.lineups = source.winner === matchup.winner
+          ? source.lineups
+          : { winner: source.lineups.loser, loser: source.lineups.winner };
+        filled++;
+      });
+
+      // Be respectful to the Sleeper API
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+
+    if (!this.checkOnly && filled > 0) {
+      const trailingNewline = content.endsWith('\n') ? '\n' : '';
+      fs.writeFileSync(filePath, `${JSON.stringify(schema.migrateToFFUIds(data), null, 2)}${trailingNewline}`);
+    }
+    console.log(`✅ ${relativePath}: ${filled} matchups ${this.checkOnly ? 'to fill' : 'filled'} across ${missingWeeks.length} weeks${unmatched > 0 ? ` (${unmatched} not found on Sleeper)` : ''}`);
+    return unmatched > 0 ? 'partial' : 'filled';
+  }
+
+  async run() {
+    try {
+      const schema = await this.generator.loadSchema();
+      await this.generator.loadPlayerData();
+
+      const files = this.getSeasonFiles();
+      console.log(`🔄 ${this.checkOnly ? 'Checking' : 'Backfilling'} lineups in ${files.length} season files`);
+
+      const results = [];
+      for (const filePath of files) {
+        try {
+          results.push(await this.backfillFile(filePath, schema));
+        } catch (error) {
+          console.error(`❌ ${path.relative(rootDir, filePath)}: ${error.message}`);
+          results.push('failed');
+        }
+      }
+
+      const count = (result) => results.filter(r => r === result).length;
+      console.log(`\n📊 ${count('filled')} ${this.checkOnly ? 'to fill' : 'filled'}, ${count('partial')} partial, ${count('skipped')} skipped, ${count('failed')} failed`);
+
+      if (count('failed') > 0 || count('partial') > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('💥 Script failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await this.generator.closeSchema();
+    }
+  }
+}
+
+// Run the script
+async function main() {
+  const args = process.argv.slice(2);
+  const getArg = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const backfiller = new LineupBackfiller({
+    check: args.includes('--check'),
+    year: getArg('--year'),
+    league: getArg('--league')
+  });
+  await backfiller.run();
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { LineupBackfiller };
@@ -0,0 +1,124 @@
+/**
+ * Script to replay recorded Sleeper responses through season-rollover.js and compare the
+ * patch it writes against the expected patch, so changes to the rollover service or the
+ * config files it edits can be checked offline.
+ *
+ * Usage: node scripts/check-season-rollover.js [--update]
+ *
+ * --update rewrites the expected patches from the current output after a deliberate change.
+ * Record a new scenario with `node scripts/season-rollover.js ... --record <fixtures.json>`
+ * and add it to SCENARIOS.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { SeasonRollover } from './season-rollover.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const fixturesDir = path.join(__dirname, 'fixtures');
+
+// Replaying an already-configured season should leave the config untouched. The 2025
+// responses were rebuilt from the stored 2025 season files (league IDs, rosters, divisions
+// and draft times) rather than recorded live; re-record them with --record when convenient.
+//
+// The 2027 scenario covers a season that isn't configured yet, so the patch adds the leagues,
+// moves CURRENT_YEAR and HISTORICAL_YEARS, fills DRAFT_DATES and the league settings, and adds
+// a member. Its responses are the 2025 ones carried forward (placeholder league and draft IDs,
+// drafts two years later, one National owner replaced by a new user); record the real leagues
+// over them once the next season is created on Sleeper.
+const SCENARIOS = [
+  {
+    year: '2025',
+    leagueIds: {
+      PREMIER: '1256010768692805632',
+      MASTERS: '1256011253583708161',
+      NATIONAL: '1256012193275576320'
+    },
+    fixtures: 'season-rollover-2025.json',
+    expected: 'season-rollover-2025.patch'
+  },
+  {
+    year: '2027',
+    leagueIds: {
+      PREMIER: '1310000000000000001',
+      MASTERS: '1310000000000000002',
+      NATIONAL: '1310000000000000003'
+    },
+    fixtures: 'season-rollover-2027.json',
+    expected: 'season-rollover-2027.patch'
+  }
+];
+
+class SeasonRolloverCheck {
+  constructor(options = {}) {
+    this.update = options.update || false;
+  }
+
+  async checkScenario(scenario) {
+    const outFile = path.join(os.tmpdir(), `season-rollover-${scenario.year}-${process.pid}.patch`);
+    const expectedFile = path.join(fixturesDir, scenario.expected);
+
+    try {
+      const rollover = new SeasonRollover({
+        year: scenario.year,
+        leagueIds: scenario.leagueIds,
+        fixtures: path.join(fixturesDir, scenario.fixtures),
+        out: outFile
+      });
+      await rollover.run();
+
+      if (process.exitCode) {
+        console.error(`❌ ${scenario.year}: rollover failed`);
+        return false;
+      }
+
+      const patch = fs.readFileSync(outFile, 'utf8');
+      if (this.update) {
+        fs.writeFileSync(expectedFile, patch);
+        console.log(`💾 ${scenario.year}: updated ${path.relative(process.cwd(), expectedFile)}`);
+        return true;
+      }
+
+      const expected = fs.existsSync(expectedFile) ? fs.readFileSync(expectedFile, 'utf8') : null;
+      if (patch !== expected) {
+        console.error(`❌ ${scenario.year}: patch differs from ${path.relative(process.cwd(), expectedFile)}`);
+        console.error(patch || '(empty patch)');
+        return false;
+      }
+
+      console.log(`✅ ${scenario.year}: patch matches`);
+      return true;
+    } finally {
+      fs.rmSync(outFile, { force: true });
+    }
+  }
+
+  async run() {
+    let passed = 0;
+    for (const scenario of SCENARIOS) {
+      // SeasonRollover reports a failed run through the exit code
+      process.exitCode = 0;
+      if (await this.checkScenario(scenario)) passed++;
+    }
+
+    console.log(`\n📊 ${passed}/${SCENARIOS.length} rollover scenarios ${this.update ? 'updated' : 'match'}`);
+    if (passed < SCENARIOS.length) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+// Run the script
+async function main() {
+  const check = new SeasonRolloverCheck({ update: process.argv.includes('--update') });
+  await check.run();
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { SeasonRolloverCheck };
@@ -0,0 +1,115 @@
+/**
+ * Script to build the NFL schedule registry (src/constants/nfl-schedules.ts) from the
+ * nflverse games file. Run once the NFL releases the schedule for a new season.
+ *
+ * Usage: node scripts/fetch-nfl-schedule.js [--file path/to/games.csv] [--from 2018]
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
+
+class NFLScheduleFetcher {
+  constructor(options = {}) {
+    this.localFile = options.file || null;
+    this.firstSeason = options.firstSeason || 2018;
+    this.outputPath = path.join(rootDir, 'src/constants/nfl-schedules.ts');
+  }
+
+  // Parsing and week boundaries live in the app's NFLverseService; Vite loads it as-is
+  async loadService(server) {
+    const { NFLverseService } = await server.ssrLoadModule('/src/services/nflverse.service.ts');
+    return new NFLverseService();
+  }
+
+  async loadGames(service) {
+    if (this.localFile) {
+      console.log(`📂 Reading games from ${this.localFile}`);
+      return service.parseGamesCSV(fs.readFileSync(this.localFile, 'utf8'));
+    }
+
+    console.log('📥 Fetching nflverse games');
+    const games = await service.fetchAllGames();
+    if (games.length === 0) {
+      throw new Error('No games data retrieved');
+    }
+
+    console.log(`✅ Retrieved ${games.length} games`);
+    return games;
+  }
+
+  writeRegistry(schedules) {
+    const header = [
+      "import type { NFLSeasonSchedule } from '../types';",
+      '',
+      '// NFL regular season calendars keyed by season.',
+      '// Generated by `npm run fetch-nfl-schedule` from the nflverse games file - do not edit by hand.',
+      '// Seasons missing here fall back to an estimated calendar (see utils/nfl-schedule.ts).'
+    ].join('\n');
+    const body = `export const NFL_SCHEDULES: Record<string, NFLSeasonSchedule> = ${JSON.stringify(schedules, null, 2)};\n`;
+
+    fs.writeFileSync(this.outputPath, `${header}\n${body}`);
+    console.log(`💾 Wrote ${Object.keys(schedules).length} seasons to ${this.outputPath}`);
+  }
+
+  async run() {
+    const server = await createServer({
+      root: rootDir,
+      configFile: false,
+      logLevel: 'error',
+      server: { middlewareMode: true },
+      optimizeDeps: { noDiscovery: true },
+      appType: 'custom'
+    });
+
+    try {
+      const service = await this.loadService(server);
+      const games = await this.loadGames(service);
+      const seasons = [...new Set(games.map(game => game.season))]
+        .filter(season => season >= this.firstSeason)
+        .sort((a, b) => a - b);
+
+      const schedules = {};
+      seasons.forEach(season => {
+        const schedule = service.buildSeasonSchedule(games, season);
+        if (schedule.weeks.length === 0) return;
+        schedules[schedule.season] = schedule;
+        console.log(`📅 ${season}: ${schedule.weeks.length} weeks, ${schedule.weeks.reduce((sum, week) => sum + week.games.length, 0)} games`);
+      });
+
+      this.writeRegistry(schedules);
+      console.log('🎉 NFL schedule registry updated!');
+    } catch (error) {
+      console.error('💥 Script failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await server.close();
+    }
+  }
+}
+
+// Run the script
+async function main() {
+  const args = process.argv.slice(2);
+  const getArg = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const fetcher = new NFLScheduleFetcher({
+    file: getArg('--file'),
+    firstSeason: getArg('--from') ? parseInt(getArg('--from'), 10) : undefined
+  });
+  await fetcher.run();
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { NFLScheduleFetcher };
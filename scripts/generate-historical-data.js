@@ -1,6 +1,7 @@
 /**
  * Script to generate historical data JSON files from Sleeper API
  * Run this script to populate the /public/data directory with historical league data
+ * Files are written on the current schema, keyed by ffuUserId (see src/utils/data-schema.ts)
  * 
  * Usage: node scripts/generate-historical-data.js
  */
@@ -8,6 +9,7 @@
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
 
 // NFL 2025 Season Week Schedule - simplified for script use
 const NFL_2025_SCHEDULE = [
@@ -45,6 +47,7 @@ const isNFLWeekComplete = (week, currentDate) => {
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
 
 // We'll load the league constants from the main config file
 // For now, keep local constants but will filter by completion status
@@ -175,6 +178,29 @@ class SleeperAPIService {
     return response.json();
   }
 
+  async getTransactions(leagueId, round) {
+    const response = await fetch(`${this.baseUrl}/league/${leagueId}/transactions/${round}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch transactions for league ${leagueId} round ${round}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async getAllSeasonTransactions(leagueId, startRound = 1, endRound = 18) {
+    const roundPromises = [];
+    for (let round = startRound; round <= endRound; round++) {
+      roundPromises.push(
+        this.getTransactions(leagueId, round).catch(error => {
+          console.warn(`Failed to fetch transactions for round ${round} of league ${leagueId}:`, error);
+          return [];
+        })
+      );
+    }
+
+    const results = await Promise.all(roundPromises);
+    return results.flat();
+  }
+
   async getNFLPlayers() {
     const response = await fetch(`${this.baseUrl}/players/nfl`);
     if (!response.ok) {
@@ -189,6 +215,32 @@ class HistoricalDataGenerator {
     this.sleeperService = new SleeperAPIService();
     this.outputDir = path.join(__dirname, '../public/data');
     this.playerData = null;
+    this.schemaServer = null;
+    this.schema = null;
+  }
+
+  // The season file schema lives in the app's TypeScript modules; Vite loads them as-is
+  async loadSchema() {
+    if (this.schema) return this.schema;
+
+    this.schemaServer = await createServer({
+      root: rootDir,
+      configFile: false,
+      logLevel: 'error',
+      server: { middlewareMode: true },
+      optimizeDeps: { noDiscovery: true },
+      appType: 'custom'
+    });
+    this.schema = await this.schemaServer.ssrLoadModule('/src/utils/data-schema.ts');
+    return this.schema;
+  }
+
+  async closeSchema() {
+    if (this.schemaServer) {
+      await this.schemaServer.close();
+      this.schemaServer = null;
+      this.schema = null;
+    }
   }
 
   async loadPlayerData() {
@@ -245,6 +297,9 @@ class HistoricalDataGenerator {
       // Generate playoff results first
       const playoffResults = this.parsePlayoffResults(winnersBracket, losersBracket, rosters);
 
+      // Player positions are stored with each lineup
+      await this.loadPlayerData();
+
       // Get all matchups
       const allWeekData = await this.sleeperService.getAllSeasonMatchups(league.sleeperId);
       const matchupsByWeek = {};
@@ -282,6 +337,15 @@ class HistoricalDataGenerator {
         console.warn(`⚠️ Could not fetch draft data for ${league.tier} ${league.year}:`, error.message);
       }
 
+      // Get trades, waiver claims and free agent moves
+      let transactions = [];
+      try {
+        transactions = await this.generateTransactionData(league.sleeperId, rosters);
+        console.log(`✅ ${transactions.length} transactions for ${league.tier} ${league.year}`);
+      } catch (error) {
+        console.warn(`⚠️ Could not fetch transactions for ${league.tier} ${league.year}:`, error.message);
+      }
+
       const historicalData = {
         league: league.tier,
         year: league.year,
@@ -293,6 +357,7 @@ class HistoricalDataGenerator {
         matchupsByWeek: matchupsByWeek,
         memberGameStats: memberGameStats,
         draftData: draftData,
+        transactions: transactions,
         divisionNames: Object.keys(divisionNames).length > 0 ? divisionNames : undefined
       };
 
@@ -528,14 +593,16 @@ class HistoricalDataGenerator {
             winner: team1Owner,
             loser: team2Owner,
             winnerScore: team1.points,
-            loserScore: team2.points
+            loserScore: team2.points,
+            lineups: { winner: this.buildLineup(team1), loser: this.buildLineup(team2) }
           });
         } else {
           weekMatchups.push({
             winner: team2Owner,
             loser: team1Owner,
             winnerScore: team2.points,
-            loserScore: team1.points
+            loserScore: team1.points,
+            lineups: { winner: this.buildLineup(team2), loser: this.buildLineup(team1) }
           });
         }
       }
@@ -544,6 +611,24 @@ class HistoricalDataGenerator {
     return weekMatchups;
   }
 
+  /**
+   * Starters (in slot order), bench and per-player points for one side of a matchup
+   */
+  buildLineup(matchup) {
+    const playerPoints = matchup.players_points || {};
+    const starters = matchup.starters || [];
+    const toLineupPlayer = playerId => ({
+      playerId,
+      points: playerPoints[playerId] || 0,
+      position: this.playerData?.[playerId]?.position
+    });
+
+    return {
+      starters: starters.map(toLineupPlayer),
+      bench: (matchup.players || []).filter(playerId => !starters.includes(playerId)).map(toLineupPlayer)
+    };
+  }
+
   calculatePromotions(tier, standings) {
     if (tier === 'PREMIER') return [];
     return standings.slice(0, 2).map(s => s.userId);
@@ -853,6 +938,53 @@ class HistoricalDataGenerator {
     };
   }
 
+  // Mirrors normalizeTransactions in src/utils/transactions.ts
+  async generateTransactionData(leagueId, rosters) {
+    const playerMap = await this.loadPlayerData();
+    const rawTransactions = await this.sleeperService.getAllSeasonTransactions(leagueId);
+    const rosterOwnerMap = this.sleeperService.createRosterOwnerMap(rosters);
+    const toUserId = (rosterId) => rosterOwnerMap[rosterId] || `roster-${rosterId}`;
+
+    const toMoves = (moves) => Object.entries(moves || {}).map(([playerId, rosterId]) => {
+      const player = playerMap[playerId] || {};
+      return {
+        playerId,
+        playerInfo: {
+          name: player.full_name || `${player.first_name || ''} ${player.last_name || ''}`.trim() || 'Unknown Player',
+          position: player.position || 'UNK',
+          team: player.team || null
+        },
+        userId: toUserId(rosterId)
+      };
+    });
+
+    return rawTransactions
+      .filter(transaction => transaction.status === 'complete')
+      .map(transaction => ({
+        transactionId: transaction.transaction_id,
+        type: transaction.type,
+        week: transaction.leg,
+        timestamp: transaction.status_updated || transaction.created,
+        userIds: transaction.roster_ids.map(toUserId),
+        adds: toMoves(transaction.adds),
+        drops: toMoves(transaction.drops),
+        draftPicks: (transaction.draft_picks || []).map(pick => ({
+          season: pick.season,
+          round: pick.round,
+          originalOwner: toUserId(pick.roster_id),
+          from: toUserId(pick.previous_owner_id),
+          to: toUserId(pick.owner_id)
+        })),
+        faabTransfers: (transaction.waiver_budget || []).map(transfer => ({
+          from: toUserId(transfer.sender),
+          to: toUserId(transfer.receiver),
+          amount: transfer.amount
+        })),
+        waiverBid: transaction.type === 'waiver' ? transaction.settings?.waiver_bid : undefined
+      }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
   getDraftTypeName(draftType) {
     switch (draftType) {
       case 0: return 'Snake';
@@ -870,8 +1002,10 @@ class HistoricalDataGenerator {
 
     const filename = `${tier.toLowerCase()}.json`;
     const filepath = path.join(yearDir, filename);
-    
-    fs.writeFileSync(filepath, JSON.stringify(data, null, 2));
+
+    // Built with Sleeper user IDs, written keyed by ffuUserId
+    const schema = await this.loadSchema();
+    fs.writeFileSync(filepath, JSON.stringify(schema.migrateToFFUIds(data), null, 2));
   }
 
   async generateAllHistoricalData() {
@@ -894,11 +1028,15 @@ class HistoricalDataGenerator {
 
     console.log(`📊 Processing ${historicalLeagues.length} completed Sleeper leagues and ${activeLeagues.length} active leagues...`);
     
-    for (const league of allLeagues) {
-      console.log(`📈 Processing ${league.tier} ${league.year} (Status: ${league.status})`);
-      await this.generateLeagueData(league);
-      // Add delay to be respectful to Sleeper API
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    try {
+      for (const league of allLeagues) {
+        console.log(`📈 Processing ${league.tier} ${league.year} (Status: ${league.status})`);
+        await this.generateLeagueData(league);
+        // Add delay to be respectful to Sleeper API
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    } finally {
+      await this.closeSchema();
     }
 
     console.log('✅ Data generation complete!');
@@ -917,11 +1055,15 @@ class HistoricalDataGenerator {
 
     console.log(`📊 Processing ${activeLeagues.length} active leagues for current season...`);
     
-    for (const league of activeLeagues) {
-      console.log(`📈 Processing ${league.tier} ${league.year} (Status: ${league.status})`);
-      await this.generateLeagueData(league);
-      // Add delay to be respectful to Sleeper API
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    try {
+      for (const league of activeLeagues) {
+        console.log(`📈 Processing ${league.tier} ${league.year} (Status: ${league.status})`);
+        await this.generateLeagueData(league);
+        // Add delay to be respectful to Sleeper API
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+    } finally {
+      await this.closeSchema();
     }
 
     console.log('✅ Current season data generation complete!');
@@ -0,0 +1,123 @@
+/**
+ * Script to migrate the static season files (public/data/<year>/<league>.json) to the
+ * current schema, keyed by ffuUserId (see src/utils/data-schema.ts). Files already on the
+ * current schema are re-checked and rewritten only if a team reference is still a season
+ * user ID; files that fail validation are reported and not written.
+ *
+ * Usage: node scripts/migrate-data-schema.js [--check] [--year 2024]
+ *
+ * --check validates and reports what would change without writing anything.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
+
+class DataSchemaMigrator {
+  constructor(options = {}) {
+    this.checkOnly = options.check || false;
+    this.year = options.year || null;
+    this.dataDir = path.join(rootDir, 'public/data');
+  }
+
+  getSeasonFiles() {
+    return fs.readdirSync(this.dataDir)
+      .filter(entry => /^\d{4}$/.test(entry) && (!this.year || entry === this.year))
+      .sort()
+      .flatMap(year => fs.readdirSync(path.join(this.dataDir, year))
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.join(this.dataDir, year, file)));
+  }
+
+  // The schema and validation live in the app's TypeScript modules; Vite loads them as-is
+  async loadModules(server) {
+    const schema = await server.ssrLoadModule('/src/utils/data-schema.ts');
+    const { dataService } = await server.ssrLoadModule('/src/services/data.service.ts');
+    return { schema, dataService };
+  }
+
+  migrateFile(filePath, { schema, dataService }) {
+    const relativePath = path.relative(rootDir, filePath);
+    const content = fs.readFileSync(filePath, 'utf8');
+    const data = JSON.parse(content);
+    const version = schema.getSchemaVersion(data);
+    const migrated = schema.migrateToFFUIds(data);
+
+    if (JSON.stringify(migrated) === JSON.stringify(data)) {
+      console.log(`⏭️  ${relativePath}: already v${version}`);
+      return 'skipped';
+    }
+
+    const validation = dataService.validateHistoricalData(schema.normalizeHistoricalData(migrated));
+    if (!validation.isValid) {
+      console.error(`❌ ${relativePath}: ${validation.errors.length} errors, not migrated`);
+      validation.errors.forEach(error => console.error(`     ${error}`));
+      return 'failed';
+    }
+
+    if (!this.checkOnly) {
+      const trailingNewline = content.endsWith('\n') ? '\n' : '';
+      fs.writeFileSync(filePath, `${JSON.stringify(migrated, null, 2)}${trailingNewline}`);
+    }
+    console.log(`✅ ${relativePath}: v${version} -> v${migrated.schemaVersion}${version === migrated.schemaVersion ? ' (repaired)' : ''}${validation.warnings.length > 0 ? ` (${validation.warnings.length} warnings)` : ''}`);
+    return 'migrated';
+  }
+
+  async run() {
+    const server = await createServer({
+      root: rootDir,
+      configFile: false,
+      logLevel: 'error',
+      server: { middlewareMode: true },
+      optimizeDeps: { noDiscovery: true },
+      appType: 'custom'
+    });
+
+    try {
+      const modules = await this.loadModules(server);
+      const files = this.getSeasonFiles();
+      console.log(`🔄 ${this.checkOnly ? 'Checking' : 'Migrating'} ${files.length} season files to schema v${modules.schema.HISTORICAL_DATA_SCHEMA_VERSION}`);
+
+      const results = files.map(filePath => this.migrateFile(filePath, modules));
+      const count = (result) => results.filter(r => r === result).length;
+      console.log(`\n📊 ${count('migrated')} ${this.checkOnly ? 'to migrate' : 'migrated'}, ${count('skipped')} already current, ${count('failed')} failed`);
+
+      if (count('failed') > 0) {
+        process.exitCode = 1;
+      } else if (!this.checkOnly) {
+        console.log('🎉 Season data is on the current schema!');
+      }
+    } catch (error) {
+      console.error('💥 Script failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await server.close();
+    }
+  }
+}
+
+// Run the script
+async function main() {
+  const args = process.argv.slice(2);
+  const getArg = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const migrator = new DataSchemaMigrator({
+    check: args.includes('--check'),
+    year: getArg('--year')
+  });
+  await migrator.run();
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { DataSchemaMigrator };
@@ -0,0 +1,156 @@
+/**
+ * Script to stand up a new season from its Sleeper league IDs. Checks the leagues against
+ * the league settings, finds new members needing FFU IDs and writes a reviewable patch
+ * for src/config/constants.ts, src/config/members.json and src/config/league-settings.ts.
+ *
+ * Usage: node scripts/season-rollover.js --year 2026 --premier <id> --masters <id> --national <id>
+ *          [--record fixtures.json | --fixtures fixtures.json] [--out rollover.patch]
+ *
+ * --record saves every Sleeper response so the same run can be replayed offline with --fixtures.
+ * Apply the result with `git apply rollover.patch`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const rootDir = path.join(__dirname, '..');
+
+const CONSTANTS_PATH = 'src/config/constants.ts';
+const MEMBERS_PATH = 'src/config/members.json';
+const LEAGUE_SETTINGS_PATH = 'src/config/league-settings.ts';
+
+class SeasonRollover {
+  constructor(options = {}) {
+    this.year = options.year;
+    this.leagueIds = options.leagueIds || {};
+    this.fixturesFile = options.fixtures || null;
+    this.recordFile = options.record || null;
+    this.outFile = options.out || null;
+  }
+
+  // The rollover logic lives in the app's TypeScript services; Vite loads them as-is
+  async loadServices(server) {
+    const sleeper = await server.ssrLoadModule('/src/services/sleeper.service.ts');
+    const rollover = await server.ssrLoadModule('/src/services/season-rollover.service.ts');
+    return { sleeper, rollover };
+  }
+
+  createFetch(sleeper) {
+    if (this.fixturesFile) {
+      console.error(`📂 Replaying Sleeper responses from ${this.fixturesFile}`);
+      return { fetchFn: sleeper.createFixtureFetch(JSON.parse(fs.readFileSync(this.fixturesFile, 'utf8'))) };
+    }
+    if (this.recordFile) {
+      const recorded = {};
+      return { fetchFn: sleeper.createRecordingFetch(recorded), recorded };
+    }
+    return { fetchFn: undefined };
+  }
+
+  printPlan(plan) {
+    console.error(`\n📋 ${plan.year} season rollover`);
+    plan.leagues.forEach(league => {
+      console.error(`  🏈 ${league.tier}: ${league.name} (${league.sleeperId}), ${league.memberIds.length} members, draft ${league.draftDate || 'TBD'}`);
+    });
+    console.error(`  👥 ${plan.returningUsers.length} returning members, ${plan.newUsers.length} new`);
+    plan.newUsers.forEach(user => {
+      console.error(`  🆕 ${user.ffuId} ${user.teamName} [${user.abbreviation}] (${user.displayName}, ${user.league})`);
+    });
+
+    if (plan.checks.length === 0) {
+      console.error('  ✅ All checks passed');
+    }
+    plan.checks.forEach(check => {
+      console.error(`  ${check.level === 'error' ? '❌' : '⚠️ '} ${check.league ? `${check.league}: ` : ''}${check.message}`);
+    });
+  }
+
+  async run() {
+    if (!this.year || Object.keys(this.leagueIds).length === 0) {
+      console.error('Usage: node scripts/season-rollover.js --year <year> --premier <id> [--masters <id>] [--national <id>]');
+      process.exit(1);
+    }
+
+    const server = await createServer({
+      root: rootDir,
+      configFile: false,
+      logLevel: 'error',
+      server: { middlewareMode: true },
+      optimizeDeps: { noDiscovery: true },
+      appType: 'custom'
+    });
+
+    try {
+      const { sleeper, rollover } = await this.loadServices(server);
+      const { fetchFn, recorded } = this.createFetch(sleeper);
+      const service = new rollover.SeasonRolloverService(new sleeper.SleeperService(fetchFn));
+
+      console.error(`🔍 Fetching ${Object.keys(this.leagueIds).length} Sleeper leagues for ${this.year}`);
+      const plan = await service.planRollover(this.year, this.leagueIds);
+
+      if (recorded) {
+        fs.writeFileSync(this.recordFile, `${JSON.stringify(recorded, null, 2)}\n`);
+        console.error(`💾 Recorded ${Object.keys(recorded).length} Sleeper responses to ${this.recordFile}`);
+      }
+
+      this.printPlan(plan);
+
+      const readSource = (filePath) => ({ path: filePath, content: fs.readFileSync(path.join(rootDir, filePath), 'utf8') });
+      const patch = service.buildRolloverPatch(plan, {
+        constants: readSource(CONSTANTS_PATH),
+        members: readSource(MEMBERS_PATH),
+        leagueSettings: readSource(LEAGUE_SETTINGS_PATH)
+      });
+
+      if (this.outFile) {
+        fs.writeFileSync(this.outFile, patch);
+        console.error(`\n💾 Wrote patch to ${this.outFile} - review it, then \`git apply ${this.outFile}\``);
+      } else {
+        process.stdout.write(patch);
+      }
+
+      if (plan.checks.some(check => check.level === 'error')) {
+        console.error('\n❌ Rollover has errors, fix them before applying the patch');
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error('💥 Script failed:', error);
+      process.exitCode = 1;
+    } finally {
+      await server.close();
+    }
+  }
+}
+
+// Run the script
+async function main() {
+  const args = process.argv.slice(2);
+  const getArg = (name) => {
+    const index = args.indexOf(name);
+    return index !== -1 ? args[index + 1] : undefined;
+  };
+
+  const leagueIds = {};
+  if (getArg('--premier')) leagueIds.PREMIER = getArg('--premier');
+  if (getArg('--masters')) leagueIds.MASTERS = getArg('--masters');
+  if (getArg('--national')) leagueIds.NATIONAL = getArg('--national');
+
+  const rollover = new SeasonRollover({
+    year: getArg('--year'),
+    leagueIds,
+    fixtures: getArg('--fixtures'),
+    record: getArg('--record'),
+    out: getArg('--out')
+  });
+  await rollover.run();
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch(console.error);
+}
+
+export { SeasonRollover };
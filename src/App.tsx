@@ -6,11 +6,17 @@ import { Members } from './pages/Members';
 import { Matchups } from './pages/Matchups';
 import { Draft } from './pages/Draft';
 import { DraftFunFacts } from './pages/DraftFunFacts';
+import { DraftSlots } from './pages/DraftSlots';
 import { Records } from './pages/Records';
 import { AllTimeStats } from './pages/AllTimeStats';
 import { H2HMatrix } from './pages/H2HMatrix';
 import { SecretDak } from './pages/SecretDak';
 import { PlayoffMachine } from './pages/PlayoffMachine';
+import { MidSeasonTournament } from './pages/MidSeasonTournament';
+import { StandingsExplorer } from './pages/StandingsExplorer';
+import { PlayerProfile } from './pages/PlayerProfile';
+import { Transactions } from './pages/Transactions';
+import { TradeDetail } from './pages/TradeDetail';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { TeamProfileModalProvider, useTeamProfileModal } from './contexts/TeamProfileModalContext';
 import { TeamProfileModal } from './components/Common/TeamProfileModal';
@@ -26,13 +32,19 @@ const AppContent = () => {
             <Route index element={<Overview />} />
             <Route path="standings" element={<Standings />} />
             <Route path="playoff-machine" element={<PlayoffMachine />} />
+            <Route path="standings-explorer" element={<StandingsExplorer />} />
             <Route path="members" element={<Members />} />
             <Route path="matchups" element={<Matchups />} />
             <Route path="drafts" element={<Draft />} />
             <Route path="draft-fun-facts" element={<DraftFunFacts />} />
+            <Route path="draft-slots" element={<DraftSlots />} />
+            <Route path="players/:playerId" element={<PlayerProfile />} />
+            <Route path="transactions" element={<Transactions />} />
+            <Route path="trades/:year/:league/:transactionId" element={<TradeDetail />} />
             <Route path="records" element={<Records />} />
             <Route path="stats" element={<AllTimeStats />} />
             <Route path="h2h-matrix" element={<H2HMatrix />} />
+            <Route path="tournament" element={<MidSeasonTournament />} />
             <Route path="secret-dak" element={<SecretDak />} />
           </Route>
         </Routes>
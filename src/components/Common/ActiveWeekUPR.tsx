@@ -3,6 +3,7 @@ import { useAllStandings } from '../../hooks/useLeagues';
 import { LoadingSpinner } from './LoadingSpinner';
 import { TeamLogo } from './TeamLogo';
 import { getCurrentNFLWeek, isNFLWeekComplete } from '../../utils/nfl-schedule';
+import { getLastRegularSeasonWeek } from '../../utils/era-detection';
 import { getDisplayTeamName, getCurrentTeamName, getCurrentAbbreviation } from '../../config/constants';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
 import type { LeagueTier, EnhancedSeasonStandings } from '../../types';
@@ -28,9 +29,10 @@ export const ActiveWeekUPR = () => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [isHovered, setIsHovered] = useState(false);
 
-  const currentNFLWeek = getCurrentNFLWeek();
+  const currentNFLWeek = getCurrentNFLWeek('2025');
+  const lastRegularSeasonWeek = getLastRegularSeasonWeek('2025');
 
-  // UPR is a regular season stat (weeks 1-14), so cap at week 14
+  // UPR is a regular season stat, so cap at the last regular season week
   // Show the current week if its games are complete (Tue/Wed), otherwise show previous week
   const completedWeek = useMemo(() => {
     if (!currentNFLWeek) return null;
@@ -38,16 +40,16 @@ export const ActiveWeekUPR = () => {
     let week: number;
 
     // Check if current week's games are complete (it's Tuesday or later)
-    if (isNFLWeekComplete(currentNFLWeek)) {
+    if (isNFLWeekComplete(currentNFLWeek, '2025')) {
       week = currentNFLWeek;
     } else {
       // Games not complete yet, show previous week
       week = currentNFLWeek - 1;
     }
 
-    // Cap at week 14 (end of regular season)
-    return Math.min(week, 14);
-  }, [currentNFLWeek]);
+    // Cap at the end of the regular season
+    return Math.min(week, lastRegularSeasonWeek);
+  }, [currentNFLWeek, lastRegularSeasonWeek]);
 
   const uprData = useMemo(() => {
     console.log('UPR DEBUG: Starting calculation', {
@@ -225,7 +227,7 @@ export const ActiveWeekUPR = () => {
           </h3>
         </div>
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-          {completedWeek === 14 && currentNFLWeek && currentNFLWeek > 14
+          {completedWeek === lastRegularSeasonWeek && currentNFLWeek && currentNFLWeek > lastRegularSeasonWeek
             ? 'Regular Season'
             : `Through Week ${completedWeek}`
           }
@@ -0,0 +1,67 @@
+import type { ClinchInfo } from '../../utils/clinch-calculator';
+import { getClinchBadge, describeClinchPath } from '../../utils/clinch-calculator';
+
+interface ClinchBadgeProps {
+  info?: ClinchInfo;
+  getTeamLabel: (userId: string) => string;
+}
+
+const badgeClasses = {
+  z: 'bg-green-600 text-white',
+  y: 'bg-green-500 text-white',
+  x: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
+  e: 'bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400'
+};
+
+export const ClinchBadge = ({ info, getTeamLabel }: ClinchBadgeProps) => {
+  if (!info) return null;
+
+  const badge = getClinchBadge(info);
+  const clinchPath = describeClinchPath(info, getTeamLabel);
+
+  if (badge) {
+    return (
+      <span
+        className={`inline-flex items-center justify-center w-4 h-4 text-[10px] font-bold uppercase rounded-sm flex-shrink-0 ${badgeClasses[badge.code]}`}
+        title={badge.label}
+      >
+        {badge.code}
+      </span>
+    );
+  }
+
+  // Still alive: show what it takes to clinch
+  const tooltip = clinchPath
+    ? `Clinches with: ${clinchPath}`
+    : info.playoffMagicNumber !== null
+      ? `Playoff magic number: ${info.playoffMagicNumber}`
+      : null;
+
+  if (!tooltip) return null;
+
+  return (
+    <span
+      className="inline-flex items-center justify-center min-w-4 h-4 px-0.5 text-[10px] font-mono font-bold rounded-sm flex-shrink-0 border border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400"
+      title={tooltip}
+    >
+      {clinchPath ? '?' : info.playoffMagicNumber}
+    </span>
+  );
+};
+
+export const ClinchLegend = () => (
+  <div className="flex flex-wrap items-center gap-3 text-[10px] text-gray-500 dark:text-gray-400">
+    {(['z', 'y', 'x', 'e'] as const).map(code => (
+      <span key={code} className="inline-flex items-center gap-1">
+        <span className={`inline-flex items-center justify-center w-4 h-4 font-bold uppercase rounded-sm ${badgeClasses[code]}`}>
+          {code}
+        </span>
+        {code === 'z' ? 'Bye' : code === 'y' ? 'Division' : code === 'x' ? 'Playoffs' : 'Eliminated'}
+      </span>
+    ))}
+    <span className="inline-flex items-center gap-1">
+      <span className="inline-flex items-center justify-center w-4 h-4 font-mono font-bold rounded-sm border border-gray-300 dark:border-gray-600">#</span>
+      Magic number
+    </span>
+  </div>
+);
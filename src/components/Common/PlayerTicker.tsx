@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useNFLStats } from '../../hooks/useNFLStats';
 import { LoadingSpinner } from './LoadingSpinner';
 import type { NFLPlayerStats } from '../../types/nfl-stats';
@@ -134,9 +135,12 @@ const PlayerCard = ({ player, position }: PlayerCardProps) => {
       {/* Top row: Player info and score */}
       <div className="flex items-start justify-between mb-2">
         <div className="flex-1 pr-2">
-          <div className="text-sm font-semibold text-gray-900 dark:text-gray-100 truncate">
+          <Link
+            to={`/players/${player.player_id}`}
+            className="block text-sm font-semibold text-gray-900 dark:text-gray-100 truncate hover:underline"
+          >
             {displayName}
-          </div>
+          </Link>
           <div className="flex items-center space-x-2 mt-1">
             <span className={`text-xs font-bold px-2 py-1 rounded ${getPositionColors(position)}`}>
               {position}
@@ -191,7 +191,7 @@ export const PlayerTickerSidebar = () => {
   const [matchupsCache, setMatchupsCache] = useState<Map<LeagueTier, WeekMatchupsResponse>>(new Map());
   const [isLoadingMatchup, setIsLoadingMatchup] = useState(false);
 
-  const currentNFLWeek = getCurrentNFLWeek();
+  const currentNFLWeek = getCurrentNFLWeek('2025');
 
   // Pre-fetch matchup data for all leagues when component mounts
   useEffect(() => {
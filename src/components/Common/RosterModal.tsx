@@ -1,12 +1,16 @@
 import { useState, useEffect, useMemo } from 'react';
 import { X } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { SleeperService } from '../../services/sleeper.service';
+import { dataService } from '../../services/data.service';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
 import { TeamLogo } from './TeamLogo';
-import { getUserInfoBySleeperId } from '../../config/constants';
-import { shouldShowMatchupColors } from '../../utils/nfl-schedule';
-import type { SleeperRoster, SleeperUser, SleeperPlayer } from '../../types';
+import { getAllLeagueConfigs, getUserInfoBySleeperId, isActiveYear } from '../../config/constants';
+import { isNFLWeekComplete, shouldShowMatchupColors } from '../../utils/nfl-schedule';
+import { calculateLineupEfficiency, formatEfficiency } from '../../utils/lineup-efficiency';
+import { getRosterSlots } from '../../utils/era-detection';
+import type { SleeperPlayer, TeamLineup } from '../../types';
 
 interface RosterModalProps {
   isOpen: boolean;
@@ -23,14 +27,26 @@ interface RosterModalProps {
 }
 
 interface TeamRosterData {
-  roster: SleeperRoster;
-  user: SleeperUser;
   starters: string[];
   bench: string[];
-  matchupData: any;
+  playerPoints: Record<string, number>;
+  playerPositions: Record<string, string>; // Only set for stored lineups
   totalPoints: number;
 }
 
+const toTeamRosterData = (lineup: TeamLineup): TeamRosterData => {
+  const allPlayers = [...lineup.starters, ...lineup.bench];
+  return {
+    starters: lineup.starters.map(player => player.playerId),
+    bench: lineup.bench.map(player => player.playerId),
+    playerPoints: Object.fromEntries(allPlayers.map(player => [player.playerId, player.points])),
+    playerPositions: Object.fromEntries(
+      allPlayers.filter(player => player.position).map(player => [player.playerId, player.position!])
+    ),
+    totalPoints: lineup.starters.reduce((sum, player) => sum + player.points, 0)
+  };
+};
+
 interface MatchupRosterData {
   winnerData: TeamRosterData;
   loserData: TeamRosterData;
@@ -44,6 +60,10 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
 
   const sleeperService = useMemo(() => new SleeperService(), []);
   const baseUrl = import.meta.env.BASE_URL.replace(/\/$/, '');
+  const rosterSlots = useMemo(() => {
+    const leagueConfig = getAllLeagueConfigs().find(l => l.sleeperId === leagueId && l.year === year);
+    return getRosterSlots(year, leagueConfig?.tier);
+  }, [leagueId, year]);
 
   // Check if matchup is complete (both teams have points > 0)
   const isMatchupComplete = useMemo(() => {
@@ -67,16 +87,62 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
     return matchupData.winnerData.totalPoints === matchupData.loserData.totalPoints;
   }, [matchupData]);
 
+  // Actual vs optimal lineup for each side
+  const lineupEfficiency = useMemo(() => {
+    if (!matchupData) return null;
+
+    const getEfficiency = (teamData: TeamRosterData) => {
+      const toLineupPlayer = (playerId: string) => ({
+        playerId,
+        points: teamData.playerPoints[playerId] || 0,
+        position: matchupData.players[playerId]?.position || teamData.playerPositions[playerId]
+      });
+      const { actualPoints, optimalPoints } = calculateLineupEfficiency({
+        starters: teamData.starters.map(toLineupPlayer),
+        bench: teamData.bench.map(toLineupPlayer)
+      }, rosterSlots);
+      return {
+        efficiency: optimalPoints > 0 ? actualPoints / optimalPoints : 1,
+        benchPoints: optimalPoints - actualPoints,
+        optimalPoints
+      };
+    };
+
+    return { winner: getEfficiency(matchupData.winnerData), loser: getEfficiency(matchupData.loserData) };
+  }, [matchupData, rosterSlots]);
+
   useEffect(() => {
     if (!isOpen || !leagueId || !winnerUserId || !loserUserId) {
       return;
     }
 
+    // Completed weeks use the lineups stored in the static season data when they exist
+    const loadStoredLineups = async (): Promise<[TeamLineup, TeamLineup] | null> => {
+      if (isActiveYear(year) && !isNFLWeekComplete(week, year)) return null;
+
+      const leagueConfig = getAllLeagueConfigs().find(l => l.sleeperId === leagueId && l.year === year);
+      if (!leagueConfig) return null;
+
+      const historicalData = await dataService.loadHistoricalLeagueData(leagueConfig.tier, year);
+      return historicalData ? dataService.getMatchupLineups(historicalData, week, winnerUserId, loserUserId) : null;
+    };
+
     const fetchMatchupData = async () => {
       setIsLoading(true);
       setError(null);
       
       try {
+        const storedLineups = await loadStoredLineups();
+        if (storedLineups) {
+          const playersResponse = await fetch(`${baseUrl}/data/players/nfl-players-compressed.json`).then(res => res.json());
+          setMatchupData({
+            winnerData: toTeamRosterData(storedLineups[0]),
+            loserData: toTeamRosterData(storedLineups[1]),
+            players: playersResponse.players || playersResponse
+          });
+          return;
+        }
+
         const [rosters, users, matchups, playersResponse] = await Promise.all([
           sleeperService.getLeagueRosters(leagueId),
           sleeperService.getLeagueUsers(leagueId),
@@ -134,19 +200,17 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
 
         setMatchupData({
           winnerData: {
-            roster: winnerRoster,
-            user: winnerUser,
             starters: winnerStarters,
             bench: winnerBench,
-            matchupData: winnerMatchup,
+            playerPoints: winnerPlayerPoints,
+            playerPositions: {},
             totalPoints: winnerMatchup.points || 0
           },
           loserData: {
-            roster: loserRoster,
-            user: loserUser,
             starters: loserStarters,
             bench: loserBench,
-            matchupData: loserMatchup,
+            playerPoints: loserPlayerPoints,
+            playerPositions: {},
             totalPoints: loserMatchup.points || 0
           },
           players
@@ -161,28 +225,37 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
     };
 
     fetchMatchupData();
-  }, [isOpen, leagueId, winnerUserId, loserUserId, week, sleeperService]);
+  }, [isOpen, leagueId, winnerUserId, loserUserId, week, year, sleeperService]);
 
-  const getPlayerInfo = (playerId: string) => {
+  const getPlayerInfo = (playerId: string, teamData: TeamRosterData) => {
     const player = matchupData?.players[playerId];
     if (!player) {
       return {
         name: '--',
-        position: 'N/A',
+        position: teamData.playerPositions[playerId] || 'N/A',
         team: 'N/A'
       };
     }
 
     return {
       name: `${player.first_name || ''} ${player.last_name || ''}`.trim() || '--',
-      position: player.position || 'N/A',
+      position: player.position || teamData.playerPositions[playerId] || 'N/A',
       team: player.team || 'N/A'
     };
   };
 
+  // Player names link to their FFU history page (closing the modal on the way out)
+  const renderPlayerName = (playerId: string, name: string) => {
+    if (playerId === '0' || !matchupData?.players[playerId]) return name;
+    return (
+      <Link to={`/players/${playerId}`} onClick={onClose} className="hover:underline">
+        {name}
+      </Link>
+    );
+  };
+
   const getPlayerPoints = (playerId: string, teamData: TeamRosterData) => {
-    if (!teamData.matchupData || !teamData.matchupData.players_points) return 0;
-    return teamData.matchupData.players_points[playerId] || 0;
+    return teamData.playerPoints[playerId] || 0;
   };
 
   const getPositionBadgeClass = (position: string) => {
@@ -202,6 +275,20 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
     return rounded % 0.1 === 0 ? rounded.toFixed(1) : rounded.toFixed(2);
   };
 
+  const renderEfficiency = (
+    data: { efficiency: number; benchPoints: number; optimalPoints: number },
+    lost: boolean,
+    opponentPoints: number
+  ) => (
+    <div className="w-32 text-center">
+      <div className="font-bold text-gray-900 dark:text-gray-100">{formatEfficiency(data.efficiency)} efficient</div>
+      <div>{formatScore(data.benchPoints)} left on bench</div>
+      {lost && data.optimalPoints > opponentPoints && (
+        <div className="font-semibold text-amber-600 dark:text-amber-400">Optimal lineup wins</div>
+      )}
+    </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -300,14 +387,23 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                     </div>
                   </div>
 
+                  {/* Lineup Efficiency */}
+                  {isMatchupComplete && lineupEfficiency && (
+                    <div className="flex items-start justify-center gap-8 mb-3 text-xs text-gray-600 dark:text-gray-400">
+                      {renderEfficiency(lineupEfficiency.winner, false, matchupData.loserData.totalPoints)}
+                      <div className="w-20 text-center font-bold text-gray-900 dark:text-gray-100">Lineup</div>
+                      {renderEfficiency(lineupEfficiency.loser, !isTie, matchupData.winnerData.totalPoints)}
+                    </div>
+                  )}
+
                   {/* Lineup Positions */}
                   <div className="space-y-1">
-                    {['QB', 'RB', 'RB', 'WR', 'WR', 'TE', 'FLEX', 'FLEX', 'DEF'].map((position, index) => {
+                    {rosterSlots.map((position, index) => {
                       const winnerPlayer = matchupData.winnerData.starters[index];
                       const loserPlayer = matchupData.loserData.starters[index];
                       
-                      const winnerPlayerInfo = winnerPlayer ? getPlayerInfo(winnerPlayer) : null;
-                      const loserPlayerInfo = loserPlayer ? getPlayerInfo(loserPlayer) : null;
+                      const winnerPlayerInfo = winnerPlayer ? getPlayerInfo(winnerPlayer, matchupData.winnerData) : null;
+                      const loserPlayerInfo = loserPlayer ? getPlayerInfo(loserPlayer, matchupData.loserData) : null;
                       
                       const winnerPoints = winnerPlayer ? getPlayerPoints(winnerPlayer, matchupData.winnerData) : 0;
                       const loserPoints = loserPlayer ? getPlayerPoints(loserPlayer, matchupData.loserData) : 0;
@@ -320,7 +416,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                               {winnerPlayerInfo ? (
                                 <div>
                                   <div className="font-medium text-xs sm:text-sm text-gray-900 dark:text-gray-100 leading-tight">
-                                    {winnerPlayerInfo.name}
+                                    {renderPlayerName(winnerPlayer, winnerPlayerInfo.name)}
                                   </div>
                                   <div className="text-xs text-gray-600 dark:text-gray-400 hidden sm:block">
                                     {winnerPlayerInfo.position} • {winnerPlayerInfo.team}
@@ -349,7 +445,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                               {loserPlayerInfo ? (
                                 <div>
                                   <div className="font-medium text-xs sm:text-sm text-gray-900 dark:text-gray-100 leading-tight">
-                                    {loserPlayerInfo.name}
+                                    {renderPlayerName(loserPlayer, loserPlayerInfo.name)}
                                   </div>
                                   <div className="text-xs text-gray-600 dark:text-gray-400 hidden sm:block">
                                     {loserPlayerInfo.position} • {loserPlayerInfo.team}
@@ -379,7 +475,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                     <div className="space-y-2 sm:space-y-4">
                       <div className="space-y-1 sm:space-y-2">
                         {matchupData.winnerData.bench.map((playerId) => {
-                          const playerInfo = getPlayerInfo(playerId);
+                          const playerInfo = getPlayerInfo(playerId, matchupData.winnerData);
                           const points = getPlayerPoints(playerId, matchupData.winnerData);
                           
                           return (
@@ -387,7 +483,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                               <div className="flex items-center justify-between w-full">
                                 <div className="text-right flex-1 mr-2">
                                   <div className="font-medium text-xs sm:text-sm text-gray-900 dark:text-gray-100 leading-tight">
-                                    {playerInfo.name}
+                                    {renderPlayerName(playerId, playerInfo.name)}
                                   </div>
                                   <div className="text-xs text-gray-600 dark:text-gray-400 hidden sm:block">
                                     {playerInfo.position} • {playerInfo.team}
@@ -412,7 +508,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                     <div className="space-y-2 sm:space-y-4">
                       <div className="space-y-1 sm:space-y-2">
                         {matchupData.loserData.bench.map((playerId) => {
-                          const playerInfo = getPlayerInfo(playerId);
+                          const playerInfo = getPlayerInfo(playerId, matchupData.loserData);
                           const points = getPlayerPoints(playerId, matchupData.loserData);
                           
                           return (
@@ -423,7 +519,7 @@ export const RosterModal = ({ isOpen, onClose, leagueId, winnerUserId, loserUser
                                 </div>
                                 <div className="text-left flex-1 ml-2">
                                   <div className="font-medium text-xs sm:text-sm text-gray-900 dark:text-gray-100 leading-tight">
-                                    {playerInfo.name}
+                                    {renderPlayerName(playerId, playerInfo.name)}
                                   </div>
                                   <div className="text-xs text-gray-600 dark:text-gray-400 hidden sm:block">
                                     {playerInfo.position} • {playerInfo.team}
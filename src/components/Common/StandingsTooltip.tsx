@@ -5,13 +5,14 @@ import type { TiebreakerInfo } from '../../utils/ranking';
 interface StandingsTooltipProps {
   tiebreakerInfo: TiebreakerInfo;
   size?: 'sm' | 'md';
+  title?: string; // e.g. "Regular Season Seed #3" for past seasons
 }
 
 /**
  * Displays a clickable popup with standings information
  * Shows head-to-head records and indicates whether Points For is being used as tiebreaker
  */
-export const StandingsTooltip = ({ tiebreakerInfo, size = 'md' }: StandingsTooltipProps) => {
+export const StandingsTooltip = ({ tiebreakerInfo, size = 'md', title = 'Tiebreakers' }: StandingsTooltipProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const iconSize = size === 'sm' ? 'h-3.5 w-3.5' : 'h-4 w-4';
   const fontSize = size === 'sm' ? 'text-xs' : 'text-sm';
@@ -62,7 +63,7 @@ export const StandingsTooltip = ({ tiebreakerInfo, size = 'md' }: StandingsToolt
           >
             {/* Header */}
             <div className="sticky top-0 bg-gray-900 dark:bg-gray-800 px-4 py-3 border-b border-gray-700 flex items-center justify-between">
-              <div className="font-bold text-white">Tiebreakers</div>
+              <div className="font-bold text-white">{title}</div>
               <button
                 onClick={() => setIsOpen(false)}
                 className="text-gray-400 hover:text-white transition-colors"
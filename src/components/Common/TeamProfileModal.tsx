@@ -1,13 +1,15 @@
 import { useMemo, useState } from 'react';
-import { useAllStandings } from '../../hooks/useLeagues';
+import { useAllStandings, useTradeAnalyses } from '../../hooks/useLeagues';
 import { LoadingSpinner } from './LoadingSpinner';
 import { ErrorMessage } from './ErrorMessage';
 import { TeamLogo } from './TeamLogo';
 import { LeagueBadge } from '../League/LeagueBadge';
 import { LeagueProgressionChart } from '../Members/LeagueProgressionChart';
-import { getFFUIdBySleeperId, getSleeperIdByFFUId, isActiveYear } from '../../config/constants';
+import { PositionalScoringChart } from '../Members/PositionalScoringChart';
+import { getFFUIdBySleeperId, getUserIdsByFFUId, isActiveYear } from '../../config/constants';
+import { calculateTradeRecords } from '../../utils/trade-analyzer';
 import type { LeagueTier, UserInfo } from '../../types';
-import { Trophy, Medal, Award, TrendingDown, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Trophy, Medal, Award, TrendingDown, ChevronDown, ChevronUp, X, ArrowLeftRight } from 'lucide-react';
 
 type SeasonSortKey = 'year' | 'league' | 'wins' | 'winPct' | 'pointsFor' | 'pointsAgainst' | 'placement' | 'upr';
 type SortOrder = 'asc' | 'desc';
@@ -90,6 +92,7 @@ interface PlayerCareerStats {
 
 export const TeamProfileModal = ({ isOpen, onClose, teamUserId }: TeamProfileModalProps) => {
   const { data: standings, isLoading, error } = useAllStandings();
+  const { data: tradeAnalyses } = useTradeAnalyses();
   const [sortKey, setSortKey] = useState<SeasonSortKey>('year');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
 
@@ -256,16 +259,20 @@ export const TeamProfileModal = ({ isOpen, onClose, teamUserId }: TeamProfileMod
       if (player) return player;
     }
     
-    // Try converting FFU ID to Sleeper ID and matching  
-    const sleeperId = getSleeperIdByFFUId(teamUserId);
-    if (sleeperId) {
-      player = allPlayers.find(p => p.userId === sleeperId);
-      if (player) return player;
-    }
+    // Try every account the FFU ID has played under
+    const userIds = getUserIdsByFFUId(teamUserId);
+    player = allPlayers.find(p => userIds.includes(p.userId));
+    if (player) return player;
     
     return undefined;
   }, [teamUserId, allPlayers]);
 
+  // Career trade record, scored after the fact (see utils/trade-analyzer.ts)
+  const tradeRecord = useMemo(() => {
+    if (!selectedPlayer) return undefined;
+    return calculateTradeRecords(tradeAnalyses).get(selectedPlayer.ffuUserId);
+  }, [tradeAnalyses, selectedPlayer]);
+
   // Sort handling functions
   const handleSort = (key: SeasonSortKey) => {
     if (sortKey === key) {
@@ -475,12 +482,40 @@ export const TeamProfileModal = ({ isOpen, onClose, teamUserId }: TeamProfileMod
                         </div>
                       </div>
                     </div>
+
+                    {/* Trades */}
+                    {tradeRecord && (
+                      <div className="bg-white dark:bg-[rgb(20,20,22)] border border-gray-200 dark:border-gray-600 p-3">
+                        <div className="grid grid-cols-3 gap-3">
+                          <div className="text-center">
+                            <div className="flex items-center justify-center space-x-1 mb-1">
+                              <ArrowLeftRight className="h-4 w-4 text-purple-600" />
+                              <span className="text-lg font-bold text-gray-900 dark:text-gray-100">{tradeRecord.trades}</span>
+                            </div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400">Trades</div>
+                          </div>
+                          <div className="text-center">
+                            <div className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-1">
+                              {tradeRecord.wins}-{tradeRecord.losses}{tradeRecord.ties > 0 ? `-${tradeRecord.ties}` : ''}
+                            </div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400">Trade Record</div>
+                          </div>
+                          <div className="text-center">
+                            <div className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-1">{(tradeRecord.winRate * 100).toFixed(0)}%</div>
+                            <div className="text-xs text-gray-600 dark:text-gray-400">Trade Win Rate</div>
+                          </div>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
 
                 {/* League Tier Progression Chart */}
                 <LeagueProgressionChart seasonHistory={selectedPlayer.seasonHistory} />
 
+                {/* Points by position (Sleeper-era seasons) */}
+                <PositionalScoringChart ffuUserId={selectedPlayer.ffuUserId} />
+
                 {/* Season History */}
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Season History</h3>
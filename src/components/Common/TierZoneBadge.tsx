@@ -0,0 +1,43 @@
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import type { TierZone } from '../../utils/promotion-relegation';
+
+interface TierZoneBadgeProps {
+  zone?: TierZone;
+  isFinal: boolean; // Completed season: the move happened, otherwise the team is in the zone
+}
+
+const zoneClasses = {
+  promotion: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300',
+  relegation: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300'
+};
+
+const getZoneLabel = (zone: TierZone, isFinal: boolean): string => {
+  if (isFinal) return zone === 'promotion' ? 'Promoted' : 'Relegated';
+  return zone === 'promotion' ? 'Promotion zone' : 'Relegation zone';
+};
+
+export const TierZoneBadge = ({ zone, isFinal }: TierZoneBadgeProps) => {
+  if (!zone) return null;
+
+  const Icon = zone === 'promotion' ? ArrowUp : ArrowDown;
+
+  return (
+    <span
+      className={`inline-flex items-center justify-center w-4 h-4 rounded-sm flex-shrink-0 ${zoneClasses[zone]}`}
+      title={getZoneLabel(zone, isFinal)}
+    >
+      <Icon className="h-3 w-3" />
+    </span>
+  );
+};
+
+export const TierZoneLegend = ({ isFinal }: { isFinal: boolean }) => (
+  <div className="flex flex-wrap items-center gap-3 text-[10px] text-gray-500 dark:text-gray-400">
+    {(['promotion', 'relegation'] as const).map(zone => (
+      <span key={zone} className="inline-flex items-center gap-1">
+        <TierZoneBadge zone={zone} isFinal={isFinal} />
+        {getZoneLabel(zone, isFinal)}
+      </span>
+    ))}
+  </div>
+);
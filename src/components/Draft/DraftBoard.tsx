@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import type { DraftData, DraftPick, UserInfo } from '../../types';
+import type { DraftData, DraftGrades, DraftPick, UserInfo } from '../../types';
+import { Link } from 'react-router-dom';
 import { TeamLogo } from '../Common/TeamLogo';
+import { DraftGradeBadge, ValueOverExpected } from './DraftGradeBadge';
 import { getDisplayTeamName, getCurrentTeamName, getCurrentAbbreviation } from '../../config/constants';
 import { historicalTeamResolver } from '../../utils/historical-team-resolver';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
@@ -8,13 +10,16 @@ import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
 interface DraftBoardProps {
   draftData: DraftData;
   userMap: Record<string, UserInfo>;
+  grades?: DraftGrades; // This draft's grades, once its season has been graded
 }
 
-export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) => {
+export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap, grades }) => {
   const { picks, settings } = draftData;
   const { teams, rounds } = settings;
   const [selectedTeamUserId, setSelectedTeamUserId] = useState<string | null>(null);
   const { openTeamProfile } = useTeamProfileModal();
+  const pickGrades = new Map((grades?.picks || []).map(grade => [grade.pickNumber, grade]));
+  const teamGrades = new Map((grades?.teams || []).map(grade => [grade.userId, grade]));
 
   // Create a grid of picks organized by round and team
   const draftGrid: (DraftPick | null)[][] = [];
@@ -94,6 +99,13 @@ export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) =>
     return columnUserId ? pick.pickedBy !== columnUserId : false;
   };
 
+  // Season production against the slot's expectation, for graded drafts
+  const getGradeTooltip = (pick: DraftPick): string => {
+    const grade = pickGrades.get(pick.pickNumber);
+    if (!grade) return '';
+    return `\n${grade.seasonPoints.toFixed(1)} pts (${grade.startedPoints.toFixed(1)} started), ${grade.expectedPoints.toFixed(1)} expected`;
+  };
+
   // Get the team info for who actually made the pick
   const getTradingTeamInfo = (pick: DraftPick): string => {
     const tradingUserInfo = userMap[pick.pickedBy];
@@ -247,6 +259,15 @@ export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) =>
                       {getCurrentTeamName(team.userId || '', team.teamName)}
                     </div>
                     <div className="text-xs opacity-75 text-center">{getCurrentAbbreviation(team.userId || '', team.abbreviation)}</div>
+                    {team.userId && teamGrades.has(team.userId) && (() => {
+                      const teamGrade = teamGrades.get(team.userId)!;
+                      return (
+                        <DraftGradeBadge
+                          grade={teamGrade.grade}
+                          title={`${teamGrade.seasonPoints.toFixed(1)} pts vs ${teamGrade.expectedPoints.toFixed(1)} expected`}
+                        />
+                      );
+                    })()}
                   </div>
                 </th>
               ))}
@@ -282,7 +303,7 @@ export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) =>
                         height: '100px',
                         minHeight: '100px'
                       }}
-                      title={pick ? `${pick.playerInfo.name}${isPickTraded(pick, teamHeaders[teamIndex]?.userId) ? `\nDrafted by: ${userMap[pick.pickedBy]?.teamName ? getDisplayTeamName(pick.pickedBy, userMap[pick.pickedBy].teamName, draftData.year) : userMap[pick.pickedBy]?.abbreviation || 'Unknown'}` : ''}` : ''}
+                      title={pick ? `${pick.playerInfo.name}${isPickTraded(pick, teamHeaders[teamIndex]?.userId) ? `\nDrafted by: ${userMap[pick.pickedBy]?.teamName ? getDisplayTeamName(pick.pickedBy, userMap[pick.pickedBy].teamName, draftData.year) : userMap[pick.pickedBy]?.abbreviation || 'Unknown'}` : ''}${getGradeTooltip(pick)}` : ''}
                       onClick={pick ? (e) => {
                         e.stopPropagation();
                         setSelectedTeamUserId(selectedTeamUserId === pick.pickedBy ? null : pick.pickedBy);
@@ -301,10 +322,14 @@ export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) =>
                         {(() => {
                           const playerName = formatPlayerName(pick.playerInfo.name, pick.playerInfo.position);
                           return (
-                            <div className="font-semibold text-gray-900 dark:text-white text-sm leading-tight mb-2">
+                            <Link
+                              to={`/players/${pick.playerId}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="block font-semibold hover:underline text-gray-900 dark:text-white text-sm leading-tight mb-2"
+                            >
                               <div>{playerName.firstName}</div>
                               {playerName.lastName && <div>{playerName.lastName}</div>}
-                            </div>
+                            </Link>
                           );
                         })()}
                         <div className="space-y-2">
@@ -326,6 +351,9 @@ export const DraftBoard: React.FC<DraftBoardProps> = ({ draftData, userMap }) =>
                             <div className="text-gray-500 dark:text-gray-400 text-[10px] font-mono text-right">
                               <div>{formatPickNumber(roundIndex + 1, teamIndex)}</div>
                               <div className="mt-0.5">#{pick.pickNumber}</div>
+                              {pickGrades.has(pick.pickNumber) && (
+                                <ValueOverExpected value={pickGrades.get(pick.pickNumber)!.valueOverExpected} className="block mt-0.5 font-bold" />
+                              )}
                             </div>
                           </div>
                         </div>
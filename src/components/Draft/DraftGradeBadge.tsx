@@ -0,0 +1,24 @@
+interface DraftGradeBadgeProps {
+  grade: string;
+  title?: string;
+}
+
+const getGradeClasses = (grade: string): string => {
+  if (grade.startsWith('A')) return 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300';
+  if (grade.startsWith('B')) return 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300';
+  if (grade.startsWith('C')) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300';
+  return 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300';
+};
+
+export const DraftGradeBadge = ({ grade, title }: DraftGradeBadgeProps) => (
+  <span className={`inline-block min-w-[2rem] px-1.5 py-0.5 text-xs font-bold text-center rounded-sm ${getGradeClasses(grade)}`} title={title}>
+    {grade}
+  </span>
+);
+
+// Points over (or under) what the slot usually produces
+export const ValueOverExpected = ({ value, className = '' }: { value: number; className?: string }) => (
+  <span className={`font-mono ${value >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'} ${className}`}>
+    {value >= 0 ? '+' : ''}{value.toFixed(1)}
+  </span>
+);
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useDraftGrades } from '../../hooks/useLeagues';
+import { LoadingSpinner } from '../Common/LoadingSpinner';
+import { ErrorMessage } from '../Common/ErrorMessage';
+import { TeamLogo } from '../Common/TeamLogo';
+import { LeagueBadge } from '../League/LeagueBadge';
+import { DraftGradeBadge, ValueOverExpected } from './DraftGradeBadge';
+import { getDisplayTeamName, getUserInfoBySleeperId } from '../../config/constants';
+import { getDraftHighlightsByYear, summarizeDraftManagers } from '../../utils/draft-grades';
+import type { DraftPickGrade } from '../../types';
+
+type LeaderboardMode = 'career' | 'drafts' | 'picks';
+
+export const DraftGradesLeaderboard = () => {
+  const { data: grades, isLoading, error } = useDraftGrades();
+  const [mode, setMode] = useState<LeaderboardMode>('career');
+  const [selectedYear, setSelectedYear] = useState<string>();
+
+  const managers = useMemo(() => summarizeDraftManagers(grades.teams), [grades.teams]);
+  const highlights = useMemo(() => getDraftHighlightsByYear(grades.picks), [grades.picks]);
+  const yearHighlights = highlights.find(highlight => highlight.year === selectedYear) || highlights[0];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  const renderTeam = (userId: string, year?: string) => {
+    const userInfo = getUserInfoBySleeperId(userId);
+    const teamName = year
+      ? getDisplayTeamName(userId, userInfo?.teamName || 'Unknown Team', year)
+      : userInfo?.teamName || 'Unknown Team';
+    return (
+      <div className="flex items-center space-x-2">
+        <TeamLogo teamName={teamName} abbreviation={userInfo?.abbreviation || 'UNK'} size="sm" />
+        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{teamName}</span>
+      </div>
+    );
+  };
+
+  const renderPickTable = (title: string, picks: DraftPickGrade[]) => (
+    <div>
+      <h4 className="text-sm font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">{title}</h4>
+      <div className="overflow-x-auto">
+        <table className="min-w-full table">
+          <thead className="table-header">
+            <tr>
+              <th className="text-left">Pick</th>
+              <th className="text-left">Player</th>
+              <th className="text-left hidden sm:table-cell">Team</th>
+              <th className="text-center">Pts</th>
+              <th className="text-center">+/-</th>
+            </tr>
+          </thead>
+          <tbody>
+            {picks.map(pick => (
+              <tr key={`${pick.league}-${pick.pickNumber}`} className="table-row">
+                <td>
+                  <div className="flex items-center gap-1">
+                    <LeagueBadge league={pick.league} />
+                    <span className="font-mono text-xs text-gray-700 dark:text-gray-300">#{pick.pickNumber}</span>
+                  </div>
+                </td>
+                <td>
+                  <Link to={`/players/${pick.playerId}`} className="font-medium text-gray-900 dark:text-gray-100 text-sm hover:underline">
+                    {pick.playerInfo.name}
+                  </Link>
+                  <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{pick.playerInfo.position}</span>
+                </td>
+                <td className="hidden sm:table-cell">{renderTeam(pick.pickedBy, pick.year)}</td>
+                <td className="text-center font-mono text-gray-900 dark:text-gray-100" title={`${pick.startedPoints.toFixed(1)} started · ${pick.expectedPoints.toFixed(1)} expected`}>
+                  {pick.seasonPoints.toFixed(1)}
+                </td>
+                <td className="text-center"><ValueOverExpected value={pick.valueOverExpected} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Draft Grades</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Each pick's regular season points against what picks around the same slot scored across every graded FFU draft.
+            Grades compare each team's total to every other team draft.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['career', 'drafts', 'picks'] as LeaderboardMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                mode === option
+                  ? 'bg-ffu-red text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option === 'career' ? 'All-Time' : option === 'drafts' ? 'Best Drafts' : 'Steals & Busts'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {grades.teams.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No graded drafts yet. Drafts are graded once their season has weekly lineups.</p>
+      ) : mode === 'career' ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Member</th>
+                <th className="text-center">Grade</th>
+                <th className="text-center">Drafts</th>
+                <th className="text-center hidden sm:table-cell">Started Pts</th>
+                <th className="text-center">+/- per Draft</th>
+              </tr>
+            </thead>
+            <tbody>
+              {managers.map((manager, index) => (
+                <tr key={manager.ffuUserId} className="table-row">
+                  <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                  <td>{renderTeam(manager.userId)}</td>
+                  <td className="text-center"><DraftGradeBadge grade={manager.grade} /></td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300">{manager.drafts}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{manager.startedPoints.toFixed(1)}</td>
+                  <td className="text-center"><ValueOverExpected value={manager.averageValueOverExpected} className="font-bold" /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : mode === 'drafts' ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Team</th>
+                <th className="text-center">Draft</th>
+                <th className="text-center">Grade</th>
+                <th className="text-center hidden sm:table-cell">Season Pts</th>
+                <th className="text-center hidden sm:table-cell">Started Pts</th>
+                <th className="text-center">+/-</th>
+              </tr>
+            </thead>
+            <tbody>
+              {grades.teams.map((team, index) => (
+                <tr key={`${team.year}-${team.league}-${team.userId}`} className="table-row">
+                  <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                  <td>{renderTeam(team.userId, team.year)}</td>
+                  <td className="text-center">
+                    <Link
+                      to={`/drafts?league=${team.league}&year=${team.year}`}
+                      className="inline-flex items-center justify-center gap-1 hover:underline"
+                    >
+                      <LeagueBadge league={team.league} />
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{team.year}</span>
+                    </Link>
+                  </td>
+                  <td className="text-center"><DraftGradeBadge grade={team.grade} /></td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{team.seasonPoints.toFixed(1)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{team.startedPoints.toFixed(1)}</td>
+                  <td className="text-center"><ValueOverExpected value={team.valueOverExpected} className="font-bold" /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {highlights.map(highlight => (
+              <button
+                key={highlight.year}
+                onClick={() => setSelectedYear(highlight.year)}
+                className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                  highlight.year === yearHighlights?.year
+                    ? 'bg-ffu-red text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                }`}
+              >
+                {highlight.year}
+              </button>
+            ))}
+          </div>
+          {yearHighlights && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {renderPickTable('Best Picks', yearHighlights.bestPicks)}
+              {renderPickTable('Biggest Busts', yearHighlights.busts)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
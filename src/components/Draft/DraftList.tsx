@@ -1,15 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { useSearchParams } from 'react-router-dom';
-import type { DraftData, UserInfo } from '../../types';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { DraftData, DraftGrades, UserInfo } from '../../types';
 import { historicalTeamResolver } from '../../utils/historical-team-resolver';
 import { getUserInfoBySleeperId } from '../../config/constants';
+import { DraftGradeBadge, ValueOverExpected } from './DraftGradeBadge';
 
 interface DraftListProps {
   draftData: DraftData;
   userMap: Record<string, UserInfo>;
+  grades?: DraftGrades; // This draft's grades, once its season has been graded
 }
 
-export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
+export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap, grades }) => {
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Get member filter from URL
@@ -28,6 +30,7 @@ export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
   );
 
   const { picks } = draftData;
+  const pickGrades = new Map((grades?.picks || []).map(grade => [grade.pickNumber, grade]));
   // const { teams, rounds } = settings;
 
   // Update URL when member filter changes
@@ -144,6 +147,16 @@ export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
           {draftData.metadata.name} - {draftData.year}
         </h2>
+        {grades && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {grades.teams.map(team => (
+              <span key={team.userId} className="inline-flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                <DraftGradeBadge grade={team.grade} title={`${team.seasonPoints.toFixed(1)} pts vs ${team.expectedPoints.toFixed(1)} expected`} />
+                {getUserInfoBySleeperId(team.userId)?.teamName || userMap[team.userId]?.teamName || `User ${team.userId}`}
+              </span>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Filters */}
@@ -212,6 +225,9 @@ export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
                 <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-white uppercase tracking-wider">Player</th>
                 <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-white uppercase tracking-wider">Pos</th>
                 <th className="px-2 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-white uppercase tracking-wider">Team</th>
+                {grades && (
+                  <th className="px-2 sm:px-4 py-2 sm:py-3 text-right text-xs font-medium text-white uppercase tracking-wider" title="Regular season points against what picks around this slot usually score">Pts</th>
+                )}
               </tr>
             </thead>
             <tbody>
@@ -234,7 +250,9 @@ export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
                     </td>
                     <td className="px-2 sm:px-4 py-2 sm:py-3">
                       <div className="text-xs sm:text-sm font-medium text-gray-900 dark:text-white">
-                        {pick.playerInfo.name}
+                        <Link to={`/players/${pick.playerId}`} className="hover:underline">
+                          {pick.playerInfo.name}
+                        </Link>
                       </div>
                       <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
                         {currentTeamName}
@@ -246,6 +264,19 @@ export const DraftList: React.FC<DraftListProps> = ({ draftData, userMap }) => {
                       </span>
                     </td>
                     <td className="px-2 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900 dark:text-white">{historicalTeamResolver.getDisplayTeam(pick, parseInt(draftData.year, 10)) || '-'}</td>
+                    {grades && (() => {
+                      const grade = pickGrades.get(pick.pickNumber);
+                      return (
+                        <td className="px-2 sm:px-4 py-2 sm:py-3 text-right text-xs sm:text-sm" title={grade ? `${grade.startedPoints.toFixed(1)} started, ${grade.expectedPoints.toFixed(1)} expected` : undefined}>
+                          {grade ? (
+                            <>
+                              <div className="font-mono text-gray-900 dark:text-white">{grade.seasonPoints.toFixed(1)}</div>
+                              <ValueOverExpected value={grade.valueOverExpected} className="text-xs" />
+                            </>
+                          ) : '-'}
+                        </td>
+                      );
+                    })()}
                   </tr>
                 );
               })}
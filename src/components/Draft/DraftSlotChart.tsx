@@ -0,0 +1,222 @@
+import { useMemo, useEffect, useState } from 'react';
+import type { DraftSlotSeason, LeagueTier } from '../../types';
+import { summarizeDraftSlots } from '../../utils/draft-slots';
+
+interface DraftSlotChartProps {
+  seasons: DraftSlotSeason[];
+}
+
+const LEAGUE_COLORS: Record<LeagueTier, string> = {
+  'PREMIER': '#eab308', // yellow-500 (matches premier-colors)
+  'MASTERS': '#a855f7', // purple-500 (matches masters-colors)
+  'NATIONAL': '#dc2626'  // red-600 (matches national-colors)
+};
+
+const LEAGUE_NAMES: Record<LeagueTier, string> = {
+  'PREMIER': 'Premier',
+  'MASTERS': 'Masters',
+  'NATIONAL': 'National'
+};
+
+const ALL_LEAGUES_COLOR = '#6b7280'; // gray-500
+
+export const DraftSlotChart: React.FC<DraftSlotChartProps> = ({ seasons }) => {
+  const [containerWidth, setContainerWidth] = useState(800);
+  const [isMobile, setIsMobile] = useState(false);
+
+  useEffect(() => {
+    const handleResize = () => {
+      const width = window.innerWidth;
+      setIsMobile(width < 768);
+      setContainerWidth(Math.max(width - 100, 400)); // Account for padding
+    };
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const chartData = useMemo(() => {
+    if (!seasons.length) return null;
+
+    const slotCount = Math.max(...seasons.map(season => season.draftSlot));
+    const teamCount = Math.max(...seasons.map(season => season.teams));
+    const slots = Array.from({ length: slotCount }, (_, i) => i + 1);
+
+    // One line per tier plus every tier together
+    const leagues = (['PREMIER', 'MASTERS', 'NATIONAL'] as LeagueTier[]).filter(league => seasons.some(season => season.league === league));
+    const lines = [
+      { key: 'ALL', label: 'All Leagues', color: ALL_LEAGUES_COLOR, summaries: summarizeDraftSlots(seasons) },
+      ...leagues.map(league => ({
+        key: league,
+        label: LEAGUE_NAMES[league],
+        color: LEAGUE_COLORS[league],
+        summaries: summarizeDraftSlots(seasons.filter(season => season.league === league))
+      }))
+    ];
+
+    // Responsive chart dimensions - always fit container width
+    const chartWidth = containerWidth;
+    const chartHeight = isMobile ? 220 : 300;
+    const padding = isMobile ? 30 : 40;
+    const plotWidth = chartWidth - (padding * 2);
+    const plotHeight = chartHeight - (padding * 2);
+
+    // X-axis: draft slots
+    const xScale = (slot: number) => padding + ((slot - 1) / Math.max(slotCount - 1, 1)) * plotWidth;
+
+    // Y-axis: average finish, 1st at the top
+    const yScale = (finish: number) => padding + ((finish - 1) / Math.max(teamCount - 1, 1)) * plotHeight;
+
+    return {
+      slots,
+      lines,
+      teamCount,
+      chartWidth,
+      chartHeight,
+      padding,
+      xScale,
+      yScale
+    };
+  }, [seasons, containerWidth, isMobile]);
+
+  if (!chartData) {
+    return (
+      <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+        No draft slot history available
+      </div>
+    );
+  }
+
+  const { slots, lines, teamCount, chartWidth, chartHeight, padding, xScale, yScale } = chartData;
+  const finishTicks = [1, Math.round(teamCount / 4), (teamCount + 1) / 2, Math.round(teamCount * 3 / 4), teamCount];
+
+  return (
+    <div className="card">
+      <h3 className={`font-semibold text-gray-900 dark:text-gray-100 mb-2 ${isMobile ? 'text-base' : 'text-lg'}`}>
+        Average Finish by Draft Slot
+      </h3>
+
+      {/* Legend */}
+      <div className={`flex flex-wrap justify-center ${isMobile ? 'gap-2' : 'gap-4'}`}>
+        {lines.map((line) => (
+          <div key={`legend-${line.key}`} className={`flex items-center ${isMobile ? 'space-x-1' : 'space-x-2'}`}>
+            <div
+              className={`rounded-full border border-white dark:border-gray-600 ${isMobile ? 'w-2.5 h-2.5' : 'w-3 h-3'}`}
+              style={{ backgroundColor: line.color }}
+            />
+            <span className={`text-gray-700 dark:text-gray-300 ${isMobile ? 'text-sm' : 'text-base'}`}>
+              {line.label}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <svg
+          width="100%"
+          height={chartHeight}
+          viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="block w-full"
+        >
+          {/* Background grid lines - horizontal (finish), the middle line is a coin flip */}
+          {finishTicks.map((finish) => (
+            <g key={`grid-h-${finish}`}>
+              <line
+                x1={padding}
+                y1={yScale(finish)}
+                x2={chartWidth - padding}
+                y2={yScale(finish)}
+                stroke={finish === (teamCount + 1) / 2 ? '#9ca3af' : '#e5e7eb'}
+                strokeWidth="1"
+                strokeDasharray="2,2"
+                className="dark:stroke-gray-600"
+              />
+              <text
+                x={padding - 6}
+                y={yScale(finish) + 4}
+                textAnchor="end"
+                className="fill-gray-500 dark:fill-gray-400 text-xs"
+              >
+                {Number.isInteger(finish) ? finish : finish.toFixed(1)}
+              </text>
+            </g>
+          ))}
+
+          {/* Background grid lines - vertical (slots) */}
+          {slots.map((slot) => (
+            <line
+              key={`grid-v-${slot}`}
+              x1={xScale(slot)}
+              y1={padding}
+              x2={xScale(slot)}
+              y2={chartHeight - padding}
+              stroke="#e5e7eb"
+              strokeWidth="1"
+              strokeDasharray="2,2"
+              className="dark:stroke-gray-600"
+            />
+          ))}
+
+          {/* X-axis labels (slots) */}
+          {slots.map((slot) => (
+            <text
+              key={`x-label-${slot}`}
+              x={xScale(slot)}
+              y={chartHeight - (isMobile ? 8 : 12)}
+              textAnchor="middle"
+              className={`font-medium fill-gray-700 dark:fill-gray-300 ${isMobile ? 'text-xs' : 'text-sm'}`}
+            >
+              {isMobile ? slot : `1.${slot.toString().padStart(2, '0')}`}
+            </text>
+          ))}
+
+          {/* One line per tier */}
+          {lines.map((line) => (
+            <g key={`line-${line.key}`}>
+              <path
+                d={line.summaries
+                  .map((summary, index) => `${index === 0 ? 'M' : 'L'} ${xScale(summary.draftSlot)} ${yScale(summary.averageFinish)}`)
+                  .join(' ')}
+                stroke={line.color}
+                strokeWidth={line.key === 'ALL' ? 3 : 2}
+                strokeDasharray={line.key === 'ALL' ? undefined : '6,3'}
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+
+              {line.summaries.map((summary) => (
+                <g key={`point-${line.key}-${summary.draftSlot}`}>
+                  <circle
+                    cx={xScale(summary.draftSlot)}
+                    cy={yScale(summary.averageFinish)}
+                    r={line.key === 'ALL' ? (isMobile ? '5' : '6') : (isMobile ? '3' : '4')}
+                    fill={line.color}
+                    stroke="white"
+                    strokeWidth="1.5"
+                    className="drop-shadow-sm"
+                  />
+
+                  {/* Hover area for tooltip */}
+                  <circle
+                    cx={xScale(summary.draftSlot)}
+                    cy={yScale(summary.averageFinish)}
+                    r={isMobile ? '10' : '12'}
+                    fill="transparent"
+                    className="cursor-pointer"
+                  >
+                    <title>
+                      {line.label} slot {summary.draftSlot}: {summary.averageFinish.toFixed(1)} avg finish, {Math.round(summary.playoffRate * 100)}% playoffs, {Math.round(summary.titleRate * 100)}% titles ({summary.seasons} seasons)
+                    </title>
+                  </circle>
+                </g>
+              ))}
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import type { DraftData, DraftPick, UserInfo } from '../../types';
+import { Link } from 'react-router-dom';
 import { TeamLogo } from '../Common/TeamLogo';
 import { getDisplayTeamName, getCurrentTeamName, getCurrentAbbreviation } from '../../config/constants';
 import { historicalTeamResolver } from '../../utils/historical-team-resolver';
@@ -241,10 +242,14 @@ export const MobileDraftBoard: React.FC<MobileDraftBoardProps> = ({ draftData, u
                         {(() => {
                           const playerName = formatPlayerName(pick.playerInfo.name, pick.playerInfo.position);
                           return (
-                            <div className="font-semibold text-gray-900 dark:text-white text-sm leading-tight mb-1 text-left">
+                            <Link
+                              to={`/players/${pick.playerId}`}
+                              onClick={(e) => e.stopPropagation()}
+                              className="block font-semibold hover:underline text-gray-900 dark:text-white text-sm leading-tight mb-1 text-left"
+                            >
                               <div>{playerName.firstName}</div>
                               {playerName.lastName && <div>{playerName.lastName}</div>}
-                            </div>
+                            </Link>
                           );
                         })()}
                         <div className="flex items-center justify-between">
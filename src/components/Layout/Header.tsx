@@ -1,5 +1,5 @@
 import { Link, useLocation } from 'react-router-dom';
-import { Users, Calendar, BarChart3, Award, Menu, X, UserPlus, TrendingUp, Grid3x3 } from 'lucide-react';
+import { Users, Calendar, BarChart3, Award, Menu, X, UserPlus, TrendingUp, Grid3x3, Swords, ArrowLeftRight } from 'lucide-react';
 import { ThemeToggle } from '../Common/ThemeToggle';
 import { useState } from 'react';
 
@@ -12,9 +12,11 @@ export const Header = () => {
     { path: '/members', label: 'Members', icon: BarChart3 },
     { path: '/matchups', label: 'Matchups', icon: Calendar },
     { path: '/drafts', label: 'Drafts', icon: UserPlus },
+    { path: '/transactions', label: 'Transactions', icon: ArrowLeftRight },
     { path: '/records', label: 'Records', icon: Award },
     { path: '/stats', label: 'Stats', icon: TrendingUp },
     { path: '/h2h-matrix', label: 'H2H Matrix', icon: Grid3x3 },
+    { path: '/tournament', label: 'Tournament', icon: Swords },
   ];
 
   return (
@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import { ArrowDown, ArrowUp, Minus } from 'lucide-react';
+import { useLeagueStandings, useSeasonLineupMatchups } from '../../hooks/useLeagues';
+import { LoadingSpinner } from '../Common/LoadingSpinner';
+import { ErrorMessage } from '../Common/ErrorMessage';
+import { TeamLogo } from '../Common/TeamLogo';
+import { getCurrentAbbreviation, getDisplayTeamName } from '../../config/constants';
+import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
+import { compareSeeds } from '../../utils/alternative-standings';
+import { getPlayoffTeamCount } from '../../utils/era-detection';
+import type { LeagueTier } from '../../types';
+
+interface BestBallStandingsTableProps {
+  league: LeagueTier;
+  year: string;
+}
+
+export const BestBallStandingsTable = ({ league, year }: BestBallStandingsTableProps) => {
+  const { data: leagueData, isLoading: standingsLoading, error: standingsError } = useLeagueStandings(league, year);
+  // Stored lineups, or Sleeper's weekly matchups for seasons without them
+  const { data: lineupMatchups, isLoading: lineupsLoading, error: lineupsError } = useSeasonLineupMatchups(league, year);
+  const { openTeamProfile } = useTeamProfileModal();
+  const playoffSpots = getPlayoffTeamCount(year, league);
+
+  const seeds = useMemo(() => {
+    if (!leagueData || !lineupMatchups) return [];
+    return compareSeeds(leagueData.standings, lineupMatchups, year, 'bestBall', league);
+  }, [leagueData, lineupMatchups, year, league]);
+
+  const isLoading = standingsLoading || lineupsLoading;
+  const error = standingsError || lineupsError;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  if (seeds.length === 0) {
+    return (
+      <div className="card text-center text-gray-500 dark:text-gray-400">
+        No lineups for {year}. Best ball standings need every regular season lineup from Sleeper.
+      </div>
+    );
+  }
+
+  return (
+    <div className="card">
+      <div className="overflow-x-auto">
+        <table className="min-w-full table">
+          <thead className="table-header">
+            <tr>
+              <th className="text-left">Seed</th>
+              <th className="text-left">Team</th>
+              <th className="text-center">Record</th>
+              <th className="text-center hidden sm:table-cell">PF</th>
+              <th className="text-center">Actual Seed</th>
+              <th className="text-center">Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {seeds.map(seed => {
+              const { standing } = seed;
+              return (
+                <tr
+                  key={seed.userId}
+                  className={`table-row ${seed.alternativeSeed === playoffSpots ? 'border-b-2 border-gray-400 dark:border-gray-500' : ''}`}
+                >
+                  <td className="font-bold text-gray-900 dark:text-gray-100">{seed.alternativeSeed}</td>
+                  <td>
+                    <div className="flex items-center space-x-2">
+                      <TeamLogo
+                        teamName={standing.userInfo.teamName}
+                        abbreviation={getCurrentAbbreviation(standing.userId, standing.userInfo.abbreviation)}
+                        size="sm"
+                        clickable
+                        onClick={() => openTeamProfile(standing.userId, standing.userInfo.teamName)}
+                      />
+                      <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+                        {getDisplayTeamName(standing.userId, standing.userInfo.teamName, year)}
+                      </span>
+                    </div>
+                  </td>
+                  <td className="text-center font-mono text-gray-900 dark:text-gray-100">
+                    {standing.wins}-{standing.losses}{standing.ties ? `-${standing.ties}` : ''}
+                  </td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                    {standing.pointsFor.toFixed(2)}
+                  </td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300">{seed.actualSeed}</td>
+                  <td className="text-center">
+                    <span className={`inline-flex items-center gap-0.5 font-mono font-bold text-sm ${
+                      seed.seedChange > 0 ? 'text-green-600 dark:text-green-400'
+                        : seed.seedChange < 0 ? 'text-red-600 dark:text-red-400'
+                          : 'text-gray-400'
+                    }`}>
+                      {seed.seedChange > 0 ? <ArrowUp className="h-3.5 w-3.5" />
+                        : seed.seedChange < 0 ? <ArrowDown className="h-3.5 w-3.5" />
+                          : <Minus className="h-3.5 w-3.5" />}
+                      {seed.seedChange !== 0 && Math.abs(seed.seedChange)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 italic">
+        Every regular season game re-decided with both teams starting their optimal lineup. Actual seeds are rebuilt with the league's tiebreakers. The line marks the {playoffSpots}-team playoff cut.
+      </p>
+    </div>
+  );
+};
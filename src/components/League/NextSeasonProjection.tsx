@@ -0,0 +1,78 @@
+import { AlertTriangle } from 'lucide-react';
+import type { EnhancedLeagueSeasonData, EnhancedSeasonStandings } from '../../types';
+import { getLeagueName } from '../../constants/leagues';
+import { getDisplayTeamName } from '../../config/constants';
+import { getLeagueSettings } from '../../config/league-settings';
+import { projectNextSeasonTiers } from '../../utils/promotion-relegation';
+import { TierZoneBadge } from '../Common/TierZoneBadge';
+
+interface NextSeasonProjectionProps {
+  seasons: EnhancedLeagueSeasonData[];
+  year: string;
+}
+
+export const NextSeasonProjection = ({ seasons, year }: NextSeasonProjectionProps) => {
+  const projection = projectNextSeasonTiers(seasons, year);
+  const { promotionSpots, relegationSpots } = getLeagueSettings(year);
+
+  const standingsById = new Map<string, EnhancedSeasonStandings>();
+  seasons.forEach(season => season.standings.forEach(standing => standingsById.set(standing.userId, standing)));
+
+  const getTeamName = (userId: string) => {
+    const standing = standingsById.get(userId);
+    return standing ? getDisplayTeamName(userId, standing.userInfo.teamName, year) : 'Unknown Team';
+  };
+
+  return (
+    <div className="card">
+      <div className="mb-4">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">{projection.year} Tiers</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Projected from {year} final standings: top {promotionSpots} move up, bottom {relegationSpots} move down
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {projection.tiers.map(tier => (
+          <div key={tier.league}>
+            <h4 className="text-sm font-bold uppercase tracking-wide text-gray-700 dark:text-gray-300 mb-2">
+              {getLeagueName(tier.league)}
+            </h4>
+            <ul className="space-y-1">
+              {tier.members.map(member => (
+                <li key={member.userId} className="flex items-center gap-1.5 text-sm text-gray-900 dark:text-gray-100">
+                  <TierZoneBadge
+                    zone={member.movement === 'promoted' ? 'promotion' : member.movement === 'relegated' ? 'relegation' : undefined}
+                    isFinal
+                  />
+                  <span className={member.movement ? 'font-semibold' : ''}>{getTeamName(member.userId)}</span>
+                  {member.movement && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">from {getLeagueName(member.fromLeague)}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {projection.tierStructureChanges && (
+        <p className="mt-4 text-xs text-gray-500 dark:text-gray-400 italic">
+          The league's tier structure changed for {projection.year}, so actual placements differ from this projection.
+        </p>
+      )}
+
+      {projection.discrepancies.length > 0 && (
+        <div className="mt-4 px-3 py-2 text-xs rounded bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 border border-amber-200 dark:border-amber-800 flex gap-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+          <div>
+            Stored promotions/relegations disagree with the rules:{' '}
+            {projection.discrepancies.map(d =>
+              `${getTeamName(d.userId)} (${d.inStoredData ? 'stored' : 'missing'} ${d.movement}, ${getLeagueName(d.league)})`
+            ).join(', ')}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
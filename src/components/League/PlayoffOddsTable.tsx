@@ -0,0 +1,100 @@
+import type { EnhancedSeasonStandings } from '../../types';
+import type { PlayoffOdds } from '../../utils/playoff-simulator';
+import { getDisplayTeamName } from '../../config/constants';
+import { getPlayoffByeCount, getPlayoffTeamCount } from '../../utils/era-detection';
+
+interface PlayoffOddsTableProps {
+  odds: PlayoffOdds[];
+  standings: EnhancedSeasonStandings[];
+  year: string;
+  showDivisions: boolean;
+}
+
+const formatPercent = (value: number): string => {
+  if (value === 0) return '—';
+  if (value === 1) return '100%';
+  if (value < 0.001) return '<0.1%';
+  if (value > 0.999) return '>99.9%';
+  return `${(value * 100).toFixed(1)}%`;
+};
+
+// Shade seed cells by likelihood so the most likely finish stands out
+const getSeedCellClass = (value: number): string => {
+  if (value >= 0.5) return 'bg-green-200 dark:bg-green-800/60';
+  if (value >= 0.25) return 'bg-green-100 dark:bg-green-900/50';
+  if (value >= 0.1) return 'bg-green-50 dark:bg-green-900/20';
+  return '';
+};
+
+export const PlayoffOddsTable = ({ odds, standings, year, showDivisions }: PlayoffOddsTableProps) => {
+  const standingsMap = new Map(standings.map(s => [s.userId, s]));
+  const sortedOdds = [...odds].sort((a, b) =>
+    b.makePlayoffs - a.makePlayoffs || b.firstRoundBye - a.firstRoundBye || b.averageWins - a.averageWins
+  );
+  const seedCount = odds[0]?.seedOdds.length || 0;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="border-b-2 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 uppercase">
+            <th className="py-2 px-2 text-left font-semibold">Team</th>
+            <th className="py-2 px-2 text-right font-semibold">Avg W</th>
+            <th className="py-2 px-2 text-right font-semibold">Playoffs</th>
+            <th className="py-2 px-2 text-right font-semibold">Bye</th>
+            {showDivisions && <th className="py-2 px-2 text-right font-semibold">Division</th>}
+            {Array.from({ length: seedCount }, (_, index) => (
+              <th key={index} className="py-2 px-1 text-center font-semibold w-12">{index + 1}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedOdds.map(teamOdds => {
+            const standing = standingsMap.get(teamOdds.userId);
+            const teamName = standing
+              ? getDisplayTeamName(standing.userId, standing.userInfo.teamName, year)
+              : 'Unknown Team';
+
+            return (
+              <tr key={teamOdds.userId} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+                <td className="py-1.5 px-2 font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                  {teamName}
+                  {standing && (
+                    <span className="ml-1 text-gray-500 dark:text-gray-400 font-mono">
+                      ({standing.wins}-{standing.losses}{standing.ties ? `-${standing.ties}` : ''})
+                    </span>
+                  )}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                  {teamOdds.averageWins.toFixed(1)}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono font-bold text-gray-900 dark:text-gray-100">
+                  {formatPercent(teamOdds.makePlayoffs)}
+                </td>
+                <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                  {formatPercent(teamOdds.firstRoundBye)}
+                </td>
+                {showDivisions && (
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                    {formatPercent(teamOdds.winDivision)}
+                  </td>
+                )}
+                {teamOdds.seedOdds.map((value, index) => (
+                  <td
+                    key={index}
+                    className={`py-1.5 px-1 text-center font-mono text-[10px] text-gray-700 dark:text-gray-300 ${getSeedCellClass(value)}`}
+                  >
+                    {value > 0 ? Math.round(value * 100) || '<1' : ''}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-2 text-[10px] text-gray-500 dark:text-gray-400 italic">
+        Seed columns show the percent chance of finishing in each seed. Top {getPlayoffTeamCount(year)} make the playoffs, top {getPlayoffByeCount(year)} earn a bye.
+      </p>
+    </div>
+  );
+};
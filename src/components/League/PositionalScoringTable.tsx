@@ -0,0 +1,177 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown } from 'lucide-react';
+import { useLeagueStandings, usePlayerData, useSeasonLineupMatchups } from '../../hooks/useLeagues';
+import { LoadingSpinner } from '../Common/LoadingSpinner';
+import { ErrorMessage } from '../Common/ErrorMessage';
+import { TeamLogo } from '../Common/TeamLogo';
+import { getAllYears, getAvailableLeagues, getCurrentAbbreviation, getDisplayTeamName } from '../../config/constants';
+import { isSleeperEra } from '../../utils/era-detection';
+import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
+import { calculatePositionalScoring, SCORING_POSITIONS } from '../../utils/positional-scoring';
+import type { ScoringPosition } from '../../utils/positional-scoring';
+import type { LeagueTier } from '../../types';
+
+type SortKey = ScoringPosition | 'total';
+
+interface PositionalScoringTableProps {
+  league: LeagueTier;
+  year: string;
+  onLeagueChange: (league: LeagueTier) => void;
+  onYearChange: (year: string) => void;
+}
+
+const selectClassName = 'block pl-2 pr-6 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none';
+
+export const PositionalScoringTable = ({ league, year, onLeagueChange, onYearChange }: PositionalScoringTableProps) => {
+  const { data: leagueData, isLoading: standingsLoading, error: standingsError } = useLeagueStandings(league, year);
+  const { data: lineupMatchups, isLoading: lineupsLoading, error: lineupsError } = useSeasonLineupMatchups(league, year);
+  const { data: playerData } = usePlayerData();
+  const { openTeamProfile } = useTeamProfileModal();
+  const [sortKey, setSortKey] = useState<SortKey>('total');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  const isLoading = standingsLoading || lineupsLoading;
+  const error = standingsError || lineupsError;
+
+  // Lineups only exist for Sleeper-era seasons
+  const validYears = getAllYears().filter(option => isSleeperEra(option) && getAvailableLeagues(option).includes(league));
+
+  const rows = useMemo(() => {
+    if (!leagueData || !lineupMatchups) return [];
+    const scoring = calculatePositionalScoring(lineupMatchups, year, league, playerData);
+
+    return scoring
+      .map(team => ({ team, standing: leagueData.standings.find(standing => standing.userId === team.userId) }))
+      .sort((a, b) => {
+        const valueA = sortKey === 'total' ? a.team.total : a.team.season[sortKey];
+        const valueB = sortKey === 'total' ? b.team.total : b.team.season[sortKey];
+        return sortOrder === 'asc' ? valueA - valueB : valueB - valueA;
+      });
+  }, [leagueData, lineupMatchups, year, league, playerData, sortKey, sortOrder]);
+
+  // Hide positions nobody started (e.g. K in seasons without a kicker slot)
+  const positions = SCORING_POSITIONS.filter(position => rows.some(row => row.team.season[position] !== 0));
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortOrder('desc');
+    }
+  };
+
+  const getSortIcon = (key: SortKey) => {
+    if (sortKey !== key) return <ArrowUpDown className="h-3 w-3 inline-block ml-1 opacity-0 group-hover:opacity-50" />;
+    return sortOrder === 'asc'
+      ? <ArrowUp className="h-3 w-3 inline-block ml-1" />
+      : <ArrowDown className="h-3 w-3 inline-block ml-1" />;
+  };
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Scoring by Position</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Regular season starter points by lineup slot, with each team's league rank at the position.
+          </p>
+        </div>
+        <div className="flex flex-row gap-2 items-center">
+          <div className="relative">
+            <select
+              value={league}
+              onChange={(e) => onLeagueChange(e.target.value as LeagueTier)}
+              className={`${selectClassName} w-28`}
+            >
+              <option value="PREMIER">Premier</option>
+              <option value="MASTERS">Masters</option>
+              <option value="NATIONAL">National</option>
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center pr-1 pointer-events-none">
+              <ChevronDown className="h-3 w-3 text-gray-400" />
+            </div>
+          </div>
+          <div className="relative">
+            <select
+              value={year}
+              onChange={(e) => onYearChange(e.target.value)}
+              className={`${selectClassName} w-20`}
+            >
+              {validYears.map(yearOption => (
+                <option key={yearOption} value={yearOption}>{yearOption}</option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center pr-1 pointer-events-none">
+              <ChevronDown className="h-3 w-3 text-gray-400" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center min-h-64">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : error ? (
+        <ErrorMessage error={error} />
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No lineups found for this season, stored or on Sleeper.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">Team</th>
+                {positions.map(position => (
+                  <th key={position} className="text-center cursor-pointer group" onClick={() => handleSort(position)}>
+                    {position}{getSortIcon(position)}
+                  </th>
+                ))}
+                <th className="text-center cursor-pointer group" onClick={() => handleSort('total')}>
+                  Total{getSortIcon('total')}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ team, standing }) => {
+                const teamName = standing ? getDisplayTeamName(team.userId, standing.userInfo.teamName, year) : 'Unknown Team';
+                return (
+                  <tr key={team.userId} className="table-row">
+                    <td>
+                      <div className="flex items-center space-x-2">
+                        <TeamLogo
+                          teamName={teamName}
+                          abbreviation={getCurrentAbbreviation(team.userId, standing?.userInfo.abbreviation || 'UNK')}
+                          size="sm"
+                          clickable
+                          onClick={() => openTeamProfile(team.userId, teamName)}
+                        />
+                        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm whitespace-nowrap">{teamName}</span>
+                      </div>
+                    </td>
+                    {positions.map(position => (
+                      <td key={position} className="text-center font-mono text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                        {team.season[position].toFixed(1)}
+                        <span className={`ml-1 text-xs ${
+                          team.ranks[position] === 1 ? 'text-green-600 dark:text-green-400 font-bold'
+                            : team.ranks[position] === rows.length ? 'text-red-600 dark:text-red-400 font-bold'
+                              : 'text-gray-500 dark:text-gray-400'
+                        }`}>
+                          #{team.ranks[position]}
+                        </span>
+                      </td>
+                    ))}
+                    <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{team.total.toFixed(1)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
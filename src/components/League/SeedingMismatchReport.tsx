@@ -0,0 +1,63 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import type { LeagueTier, SeedingMismatch } from '../../types';
+import { getLeagueName } from '../../constants/leagues';
+import { getCurrentAbbreviation, getUserInfoBySleeperId } from '../../config/constants';
+import { useSeedingMismatches } from '../../hooks/useLeagues';
+
+interface SeedingMismatchReportProps {
+  onSelectSeason: (year: string, league: LeagueTier) => void;
+}
+
+const describeMismatch = (mismatch: SeedingMismatch) => {
+  const abbreviation = getCurrentAbbreviation(mismatch.userId, getUserInfoBySleeperId(mismatch.userId)?.abbreviation || 'UNK');
+  const actual = mismatch.actualTier === 'missed' ? 'missed playoffs' : mismatch.actualTier === 'bye' ? 'had a bye' : 'played wild card';
+  return `${abbreviation} (seed #${mismatch.recomputedSeed}, ${actual})`;
+};
+
+export const SeedingMismatchReport = ({ onSelectSeason }: SeedingMismatchReportProps) => {
+  const { data: seasons, isLoading, error } = useSeedingMismatches();
+
+  if (isLoading || error || seasons.length === 0) {
+    return null;
+  }
+
+  const disagreeing = seasons
+    .filter(season => season.mismatches.length > 0)
+    .sort((a, b) => b.year.localeCompare(a.year));
+
+  return (
+    <div className="card">
+      <div className="mb-4">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-gray-100">Seeding Check</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Regular season seeds rebuilt with tiebreakers, against the bracket that was played.{' '}
+          {seasons.length - disagreeing.length} of {seasons.length} completed Sleeper-era seasons agree.
+        </p>
+      </div>
+
+      {disagreeing.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle className="h-4 w-4" />
+          Every season matches its bracket
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {disagreeing.map(season => (
+            <li key={`${season.year}-${season.league}`}>
+              <button
+                onClick={() => onSelectSeason(season.year, season.league)}
+                className="w-full text-left px-3 py-2 text-xs rounded bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 border border-amber-200 dark:border-amber-800 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+              >
+                <span className="inline-flex items-center gap-1 font-bold">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  {season.year} {getLeagueName(season.league)}:
+                </span>{' '}
+                {season.mismatches.map(describeMismatch).join(', ')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -5,10 +5,18 @@ import { Trophy, Medal, Award, Star, LayoutGrid, List, ArrowUpDown, ArrowUp, Arr
 import { getLeagueName } from '../../constants/leagues';
 import { getDisplayTeamName, getCurrentTeamName, getCurrentAbbreviation, isActiveYear } from '../../config/constants';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
-import { calculateRankings, getTiebreakerInfo, groupStandingsByDivision, identifyDivisionLeaders } from '../../utils/ranking';
+import { calculateRankings, getSeedingMismatches, getTiebreakerInfo, groupStandingsByDivision, identifyDivisionLeaders, supportsTiebreakers } from '../../utils/ranking';
 import { StandingsTooltip } from '../Common/StandingsTooltip';
+import { ClinchBadge, ClinchLegend } from '../Common/ClinchBadge';
+import { calculateClinchScenarios, getRemainingRegularSeasonWeeks } from '../../utils/clinch-calculator';
+import { TierZoneBadge, TierZoneLegend } from '../Common/TierZoneBadge';
+import { getFinalOrder, getTierZones } from '../../utils/promotion-relegation';
+import type { TierZone } from '../../utils/promotion-relegation';
+import { calculateAllPlayRecords, formatLuck } from '../../utils/all-play';
+import { calculateStrengthOfSchedule, formatAllPlayPct } from '../../utils/strength-of-schedule';
+import type { OpponentStrength } from '../../utils/strength-of-schedule';
 
-type SortField = 'rank' | 'team' | 'wins' | 'pointsFor' | 'pointsAgainst' | 'highGame' | 'lowGame' | 'upr';
+type SortField = 'rank' | 'team' | 'wins' | 'pointsFor' | 'pointsAgainst' | 'highGame' | 'lowGame' | 'upr' | 'allPlay' | 'luck' | 'sos' | 'remainingSos';
 type SortDirection = 'asc' | 'desc';
 
 interface StandingsTableProps {
@@ -29,6 +37,17 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
   // Only calculate rankings for active seasons, use original for historical
   const rankedStandings = isActiveSeason ? calculateRankings(standings, matchupsByWeek, year) : standings;
 
+  // Historical ranks are final placements, so past seeds are rebuilt from the regular season matchups
+  const seededStandings = useMemo(() => {
+    if (isActiveSeason || !matchupsByWeek || !supportsTiebreakers(year)) return null;
+    return calculateRankings(standings, matchupsByWeek, year);
+  }, [isActiveSeason, standings, matchupsByWeek, year]);
+
+  const seedingMismatches = useMemo(() => {
+    if (!seededStandings || !matchupsByWeek) return [];
+    return getSeedingMismatches(standings, matchupsByWeek, year, seededStandings);
+  }, [seededStandings, standings, matchupsByWeek, year]);
+
   // Group by divisions if division data exists (Sleeper era only, 2021+)
   const divisionGroups = groupStandingsByDivision(rankedStandings, divisionNames);
   const hasDivisions = divisionGroups !== null;
@@ -36,6 +55,39 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
   // Identify division leaders for star icons (only for active season)
   const divisionLeaderInfo = isActiveSeason ? identifyDivisionLeaders(rankedStandings, matchupsByWeek, year) : null;
 
+  // Clinch/elimination status (only for active seasons)
+  const clinchInfo = useMemo(() => {
+    if (!isActiveSeason || !matchupsByWeek) return null;
+    return calculateClinchScenarios(standings, matchupsByWeek, year, getRemainingRegularSeasonWeeks(matchupsByWeek, year));
+  }, [isActiveSeason, standings, matchupsByWeek, year]);
+
+  // All-play record and luck (every team vs every other team each week)
+  const allPlayRecords = useMemo(
+    () => matchupsByWeek ? calculateAllPlayRecords(matchupsByWeek, year) : new Map(),
+    [matchupsByWeek, year]
+  );
+  const hasAllPlay = allPlayRecords.size > 0;
+
+  // Strength of schedule by opponents' all-play win rate, split into played and remaining games
+  const strengthOfSchedule = useMemo(
+    () => matchupsByWeek ? calculateStrengthOfSchedule(standings, matchupsByWeek, year) : new Map(),
+    [standings, matchupsByWeek, year]
+  );
+  const hasStrengthOfSchedule = strengthOfSchedule.size > 0;
+  const hasRemainingSchedule = Array.from(strengthOfSchedule.values()).some(sos => sos.remaining.games > 0);
+
+  // Promotion/relegation: live zones during the season, actual moves once it's final
+  const tierZones = getTierZones(
+    league as LeagueTier,
+    year,
+    isActiveSeason ? rankedStandings.map(s => s.userId) : getFinalOrder(standings)
+  );
+
+  const getTeamAbbreviation = (userId: string) => {
+    const standing = standings.find(s => s.userId === userId);
+    return standing ? getCurrentAbbreviation(userId, standing.userInfo.abbreviation) : 'TBD';
+  };
+
   // Determine which view to show based on toggle (only for active seasons)
   const shouldShowDivisions = isActiveSeason && hasDivisions && viewMode === 'divisions';
 
@@ -95,6 +147,22 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
           aVal = a.unionPowerRating || 0;
           bVal = b.unionPowerRating || 0;
           break;
+        case 'allPlay':
+          aVal = allPlayRecords.get(a.userId)?.expectedWins || 0;
+          bVal = allPlayRecords.get(b.userId)?.expectedWins || 0;
+          break;
+        case 'luck':
+          aVal = allPlayRecords.get(a.userId)?.luck || 0;
+          bVal = allPlayRecords.get(b.userId)?.luck || 0;
+          break;
+        case 'sos':
+          aVal = strengthOfSchedule.get(a.userId)?.played.opponentAllPlayPct || 0;
+          bVal = strengthOfSchedule.get(b.userId)?.played.opponentAllPlayPct || 0;
+          break;
+        case 'remainingSos':
+          aVal = strengthOfSchedule.get(a.userId)?.remaining.opponentAllPlayPct || 0;
+          bVal = strengthOfSchedule.get(b.userId)?.remaining.opponentAllPlayPct || 0;
+          break;
       }
 
       // Handle string vs number comparison
@@ -108,7 +176,7 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
     });
 
     return sorted;
-  }, [rankedStandings, sortField, sortDirection, viewMode, year]);
+  }, [rankedStandings, sortField, sortDirection, viewMode, year, allPlayRecords, strengthOfSchedule]);
 
   // Get the standings to display based on view mode
   const displayStandings = viewMode === 'all' ? sortedStandings : rankedStandings;
@@ -145,8 +213,14 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
 
   const leagueColors = getLeagueColors(league);
 
-  const getRowClasses = (rank: number) => {
+  const getRowClasses = (rank: number, zone?: TierZone) => {
     let classes = 'table-row';
+
+    if (isActiveSeason && zone) {
+      classes += zone === 'promotion'
+        ? ' bg-green-50/60 dark:bg-green-900/10'
+        : ' bg-red-50/60 dark:bg-red-900/10';
+    }
     
     if (!isActiveSeason) {
       if (rank === 1) {
@@ -192,13 +266,28 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
     return <ArrowUpDown className="h-3 w-3 inline-block ml-1 opacity-0 group-hover:opacity-50" />;
   };
 
+  const renderScheduleStrength = (strength?: OpponentStrength) => (
+    <span
+      className="font-bold text-gray-900 dark:text-gray-100 font-mono text-xs sm:text-sm"
+      title={strength && strength.games > 0
+        ? `${strength.games} games • Opp ${strength.opponentPointsFor.toFixed(1)} PF/G • Opp UPR ${strength.opponentUPR.toFixed(1)}`
+        : undefined}
+    >
+      {strength && strength.games > 0 ? formatAllPlayPct(strength.opponentAllPlayPct) : '—'}
+    </span>
+  );
+
   // Helper function to render table rows for standings
   const renderStandingsRows = (standingsToRender: EnhancedSeasonStandings[]) => {
     return standingsToRender.map((standing) => {
-      const tiebreakerInfo = getTiebreakerInfo(rankedStandings, rankedStandings.indexOf(standing), matchupsByWeek, year);
+      const seedIndex = seededStandings ? seededStandings.findIndex(s => s.userId === standing.userId) : -1;
+      const tiebreakerInfo = seededStandings
+        ? getTiebreakerInfo(seededStandings, seedIndex, matchupsByWeek, year)
+        : getTiebreakerInfo(rankedStandings, rankedStandings.indexOf(standing), matchupsByWeek, year);
+      const tooltipTitle = seededStandings ? `Regular Season Seed #${seedIndex + 1}` : undefined;
 
       return (
-        <tr key={standing.userId} className={getRowClasses(standing.rank)}>
+        <tr key={standing.userId} className={getRowClasses(standing.rank, tierZones.get(standing.userId))}>
           <td className="text-left pl-2 sm:pl-4">
             <div className="flex items-center space-x-1 min-h-[28px]">
               {!isActiveSeason && getRankIcon(standing)}
@@ -225,7 +314,7 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
               )}
               <span className="inline-flex items-center" style={{ minWidth: tiebreakerInfo ? 'auto' : '24px', minHeight: '24px' }}>
                 {tiebreakerInfo && (
-                  <StandingsTooltip tiebreakerInfo={tiebreakerInfo} size="md" />
+                  <StandingsTooltip tiebreakerInfo={tiebreakerInfo} size="md" title={tooltipTitle} />
                 )}
               </span>
             </div>
@@ -240,8 +329,10 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
               onClick={() => openTeamProfile(standing.userId, standing.userInfo.teamName)}
             />
             <div>
-              <div className="font-bold text-gray-900 dark:text-gray-100 text-xs sm:text-sm">
+              <div className="font-bold text-gray-900 dark:text-gray-100 text-xs sm:text-sm flex items-center gap-1.5">
                 {getDisplayTeamName(standing.userId, standing.userInfo.teamName, year)}
+                {clinchInfo && <ClinchBadge info={clinchInfo.get(standing.userId)} getTeamLabel={getTeamAbbreviation} />}
+                <TierZoneBadge zone={tierZones.get(standing.userId)} isFinal={!isActiveSeason} />
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400 sm:hidden font-mono">{getCurrentAbbreviation(standing.userId, standing.userInfo.abbreviation)}</div>
             </div>
@@ -277,6 +368,40 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
             {standing.unionPowerRating?.toFixed(2) || '0.00'}
           </span>
         </td>
+        {hasAllPlay && (() => {
+          const allPlay = allPlayRecords.get(standing.userId);
+          return (
+            <>
+              <td className="text-center hidden md:table-cell">
+                <span
+                  className="font-bold text-gray-900 dark:text-gray-100 font-mono text-xs sm:text-sm"
+                  title={allPlay ? `${allPlay.expectedWins.toFixed(1)} expected wins` : undefined}
+                >
+                  {allPlay ? `${allPlay.wins}-${allPlay.losses}${allPlay.ties ? `-${allPlay.ties}` : ''}` : '—'}
+                </span>
+              </td>
+              <td className="text-center hidden md:table-cell">
+                <span className={`font-bold font-mono text-xs sm:text-sm ${
+                  !allPlay || Math.abs(allPlay.luck) < 0.05
+                    ? 'text-gray-900 dark:text-gray-100'
+                    : allPlay.luck > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                }`}>
+                  {allPlay ? formatLuck(allPlay.luck) : '—'}
+                </span>
+              </td>
+            </>
+          );
+        })()}
+        {hasStrengthOfSchedule && (
+          <td className="text-center hidden md:table-cell">
+            {renderScheduleStrength(strengthOfSchedule.get(standing.userId)?.played)}
+          </td>
+        )}
+        {hasRemainingSchedule && (
+          <td className="text-center hidden md:table-cell">
+            {renderScheduleStrength(strengthOfSchedule.get(standing.userId)?.remaining)}
+          </td>
+        )}
       </tr>
       );
     });
@@ -353,6 +478,20 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
           )}
         </div>
         <div className={`h-0.5 ${leagueColors.iconBg}`}></div>
+        {(clinchInfo || tierZones.size > 0) && (
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            {clinchInfo && <ClinchLegend />}
+            {tierZones.size > 0 && <TierZoneLegend isFinal={!isActiveSeason} />}
+          </div>
+        )}
+        {seedingMismatches.length > 0 && (
+          <div className="mt-2 px-3 py-2 text-xs rounded bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 border border-amber-200 dark:border-amber-800">
+            Recomputed seeds disagree with the playoff bracket:{' '}
+            {seedingMismatches.map(mismatch =>
+              `${getTeamAbbreviation(mismatch.userId)} (seed #${mismatch.recomputedSeed}, ${mismatch.actualTier === 'missed' ? 'missed playoffs' : mismatch.actualTier === 'bye' ? 'had a bye' : 'played wild card'})`
+            ).join(', ')}
+          </div>
+        )}
       </div>
 
       {/* Display divisions if toggle is set to divisions, otherwise single table */}
@@ -382,6 +521,18 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
                         <th className="text-center text-white font-bold hidden lg:table-cell text-xs sm:text-sm">High</th>
                         <th className="text-center text-white font-bold hidden lg:table-cell text-xs sm:text-sm">Low</th>
                         <th className="text-center text-white font-bold text-xs sm:text-sm">UPR</th>
+                        {hasAllPlay && (
+                          <>
+                            <th className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm">All-Play</th>
+                            <th className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm">Luck</th>
+                          </>
+                        )}
+                        {hasStrengthOfSchedule && (
+                          <th className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm">SOS</th>
+                        )}
+                        {hasRemainingSchedule && (
+                          <th className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm">Rem. SOS</th>
+                        )}
                       </tr>
                     </thead>
                     <tbody>
@@ -448,6 +599,40 @@ export const StandingsTable = ({ standings, league, year, matchupsByWeek, divisi
                   >
                     UPR{getSortIcon('upr')}
                   </th>
+                  {hasAllPlay && (
+                    <>
+                      <th
+                        className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm cursor-pointer hover:bg-white/10 transition-colors group"
+                        onClick={() => handleSort('allPlay')}
+                      >
+                        All-Play{getSortIcon('allPlay')}
+                      </th>
+                      <th
+                        className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm cursor-pointer hover:bg-white/10 transition-colors group"
+                        onClick={() => handleSort('luck')}
+                      >
+                        Luck{getSortIcon('luck')}
+                      </th>
+                    </>
+                  )}
+                  {hasStrengthOfSchedule && (
+                    <th
+                      className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm cursor-pointer hover:bg-white/10 transition-colors group"
+                      onClick={() => handleSort('sos')}
+                      title="Opponents' all-play win rate in games played"
+                    >
+                      SOS{getSortIcon('sos')}
+                    </th>
+                  )}
+                  {hasRemainingSchedule && (
+                    <th
+                      className="text-center text-white font-bold hidden md:table-cell text-xs sm:text-sm cursor-pointer hover:bg-white/10 transition-colors group"
+                      onClick={() => handleSort('remainingSos')}
+                      title="Opponents' all-play win rate for games still to play"
+                    >
+                      Rem. SOS{getSortIcon('remainingSos')}
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { EnhancedSeasonStandings, WeekMatchup } from '../../types';
+import { getDisplayTeamName } from '../../config/constants';
+import { calculateStrengthOfSchedule, formatAllPlayPct } from '../../utils/strength-of-schedule';
+import type { OpponentStrength } from '../../utils/strength-of-schedule';
+
+type SortField = 'team' | 'playedPointsFor' | 'playedUPR' | 'playedAllPlay' | 'remainingPointsFor' | 'remainingUPR' | 'remainingAllPlay';
+
+interface StrengthOfScheduleTableProps {
+  standings: EnhancedSeasonStandings[];
+  matchupsByWeek: Record<number, WeekMatchup[]>;
+  year: string;
+  remainingWeeks: number[];
+}
+
+const getSortValue = (field: SortField, played: OpponentStrength, remaining: OpponentStrength): number => {
+  switch (field) {
+    case 'playedPointsFor': return played.opponentPointsFor;
+    case 'playedUPR': return played.opponentUPR;
+    case 'playedAllPlay': return played.opponentAllPlayPct;
+    case 'remainingPointsFor': return remaining.opponentPointsFor;
+    case 'remainingUPR': return remaining.opponentUPR;
+    case 'remainingAllPlay': return remaining.opponentAllPlayPct;
+    default: return 0;
+  }
+};
+
+export const StrengthOfScheduleTable = ({ standings, matchupsByWeek, year, remainingWeeks }: StrengthOfScheduleTableProps) => {
+  const [sortField, setSortField] = useState<SortField>(remainingWeeks.length > 0 ? 'remainingAllPlay' : 'playedAllPlay');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const strengths = useMemo(
+    () => calculateStrengthOfSchedule(standings, matchupsByWeek, year, remainingWeeks),
+    [standings, matchupsByWeek, year, remainingWeeks]
+  );
+
+  const rows = useMemo(() => {
+    return standings
+      .map(standing => ({ standing, strength: strengths.get(standing.userId) }))
+      .filter((row): row is { standing: EnhancedSeasonStandings; strength: NonNullable<typeof row.strength> } => !!row.strength)
+      .sort((a, b) => {
+        if (sortField === 'team') {
+          const nameA = getDisplayTeamName(a.standing.userId, a.standing.userInfo.teamName, year);
+          const nameB = getDisplayTeamName(b.standing.userId, b.standing.userInfo.teamName, year);
+          return sortDirection === 'asc' ? nameA.localeCompare(nameB) : nameB.localeCompare(nameA);
+        }
+        const valueA = getSortValue(sortField, a.strength.played, a.strength.remaining);
+        const valueB = getSortValue(sortField, b.strength.played, b.strength.remaining);
+        return sortDirection === 'asc' ? valueA - valueB : valueB - valueA;
+      });
+  }, [standings, strengths, sortField, sortDirection, year]);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'team' ? 'asc' : 'desc');
+    }
+  };
+
+  const getSortIcon = (field: SortField) => {
+    if (sortField === field) {
+      return sortDirection === 'asc'
+        ? <ArrowUp className="h-3 w-3 inline-block ml-1" />
+        : <ArrowDown className="h-3 w-3 inline-block ml-1" />;
+    }
+    return <ArrowUpDown className="h-3 w-3 inline-block ml-1 opacity-0 group-hover:opacity-50" />;
+  };
+
+  const renderHeader = (field: SortField, label: string, className = 'text-right') => (
+    <th
+      className={`py-2 px-2 font-semibold cursor-pointer hover:text-gray-900 dark:hover:text-gray-100 group ${className}`}
+      onClick={() => handleSort(field)}
+    >
+      {label}{getSortIcon(field)}
+    </th>
+  );
+
+  const hasRemaining = remainingWeeks.length > 0;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 dark:text-gray-400 uppercase">
+            <th />
+            <th colSpan={3} className="pt-1 px-2 text-center font-semibold border-b border-gray-200 dark:border-gray-700">Played</th>
+            {hasRemaining && (
+              <th colSpan={3} className="pt-1 px-2 text-center font-semibold border-b border-gray-200 dark:border-gray-700">Remaining</th>
+            )}
+          </tr>
+          <tr className="border-b-2 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 uppercase">
+            {renderHeader('team', 'Team', 'text-left')}
+            {renderHeader('playedPointsFor', 'Opp PF/G')}
+            {renderHeader('playedUPR', 'Opp UPR')}
+            {renderHeader('playedAllPlay', 'Opp All-Play')}
+            {hasRemaining && (
+              <>
+                {renderHeader('remainingPointsFor', 'Opp PF/G')}
+                {renderHeader('remainingUPR', 'Opp UPR')}
+                {renderHeader('remainingAllPlay', 'Opp All-Play')}
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ standing, strength }) => (
+            <tr key={standing.userId} className="border-b border-gray-200 dark:border-gray-700 last:border-0">
+              <td className="py-1.5 px-2 font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                {getDisplayTeamName(standing.userId, standing.userInfo.teamName, year)}
+                <span className="ml-1 text-gray-500 dark:text-gray-400 font-mono">
+                  ({standing.wins}-{standing.losses}{standing.ties ? `-${standing.ties}` : ''})
+                </span>
+              </td>
+              <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                {strength.played.games > 0 ? strength.played.opponentPointsFor.toFixed(1) : '—'}
+              </td>
+              <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                {strength.played.games > 0 ? strength.played.opponentUPR.toFixed(1) : '—'}
+              </td>
+              <td className="py-1.5 px-2 text-right font-mono font-bold text-gray-900 dark:text-gray-100">
+                {strength.played.games > 0 ? formatAllPlayPct(strength.played.opponentAllPlayPct) : '—'}
+              </td>
+              {hasRemaining && (
+                <>
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                    {strength.remaining.games > 0 ? strength.remaining.opponentPointsFor.toFixed(1) : '—'}
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono text-gray-700 dark:text-gray-300">
+                    {strength.remaining.games > 0 ? strength.remaining.opponentUPR.toFixed(1) : '—'}
+                  </td>
+                  <td className="py-1.5 px-2 text-right font-mono font-bold text-gray-900 dark:text-gray-100">
+                    {strength.remaining.games > 0 ? formatAllPlayPct(strength.remaining.opponentAllPlayPct) : '—'}
+                  </td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
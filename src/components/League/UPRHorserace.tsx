@@ -3,9 +3,9 @@ import { useAllStandings } from '../../hooks/useLeagues';
 import { LoadingSpinner } from '../Common/LoadingSpinner';
 import { ErrorMessage } from '../Common/ErrorMessage';
 import { Play, Pause, RotateCcw, ChevronDown } from 'lucide-react';
-import { getDisplayTeamName } from '../../config/constants';
+import { getAllYears, getDisplayTeamName } from '../../config/constants';
 import { TeamLogo } from '../Common/TeamLogo';
-import { isRegularSeasonWeek } from '../../utils/era-detection';
+import { getLastRegularSeasonWeek, isLeagueAvailableInYear, isRegularSeasonWeek } from '../../utils/era-detection';
 import { leagueApi } from '../../services/api';
 import { calculateUPR } from '../../utils/upr-calculator';
 import type { LeagueTier, UserInfo } from '../../types';
@@ -50,12 +50,6 @@ const TEAM_COLORS = [
 ];
 
 export const UPRHorserace = ({ league, year, onLeagueChange, onYearChange }: UPRHorseraceProps) => {
-  // Valid years by league - matches the logic from AllTimeStats
-  const validYearsByLeague: Record<string, string[]> = {
-    PREMIER: ['2025', '2024', '2023', '2022', '2021', '2020', '2019', '2018'],
-    NATIONAL: ['2025', '2024', '2023', '2022', '2021', '2020', '2019', '2018'],
-    MASTERS: ['2025', '2024', '2023', '2022'], // Masters started in 2022
-  };
   const { data: allStandings, isLoading: standingsLoading, error: standingsError } = useAllStandings();
   const [teamData, setTeamData] = useState<TeamUPRProgress[]>([]);
   const { openTeamProfile } = useTeamProfileModal();
@@ -68,11 +62,11 @@ export const UPRHorserace = ({ league, year, onLeagueChange, onYearChange }: UPR
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Get valid years for current league
-  const validYears = validYearsByLeague[league] || [];
+  const validYears = getAllYears().filter(option => isLeagueAvailableInYear(league, option));
 
   // Get current league standings to determine teams
   const leagueStandings = allStandings?.find(s => s.league === league && s.year === year);
-  const maxWeek = parseInt(year) >= 2021 ? 14 : 13; // Era-aware week count (14 regular season weeks for Sleeper era)
+  const maxWeek = getLastRegularSeasonWeek(year, league);
   
 
   useEffect(() => {
@@ -1,5 +1,7 @@
 import { useMemo, useEffect, useState } from 'react';
 import type { LeagueTier, UserInfo } from '../../types';
+import { getAllYears } from '../../config/constants';
+import { getAvailableLeagues } from '../../utils/era-detection';
 
 interface MemberSeasonHistory {
   year: string;
@@ -70,10 +72,8 @@ export const ComparisonLeagueProgressionChart: React.FC<ComparisonLeagueProgress
   const chartData = useMemo(() => {
     if (!player1 || !player2) return null;
 
-    // Get complete timeline
-    const currentYear = new Date().getFullYear();
-    const startYear = 2018;
-    const allYears = Array.from({ length: currentYear - startYear + 1 }, (_, i) => String(startYear + i));
+    // Get complete timeline, oldest season first
+    const allYears = [...getAllYears()].reverse();
     
     // All possible league tiers
     const allPossibleLeagues = new Set<LeagueTier>(['PREMIER', 'MASTERS', 'NATIONAL']);
@@ -286,12 +286,11 @@ export const ComparisonLeagueProgressionChart: React.FC<ComparisonLeagueProgress
             />
           ))}
           
-          {/* Masters Introduction Line - between 2021 and 2022 */}
+          {/* Masters Introduction Line - before the first season with a Masters league */}
           {(() => {
-            const year2021Index = allYears.indexOf('2021');
-            const year2022Index = allYears.indexOf('2022');
-            if (year2021Index !== -1 && year2022Index !== -1) {
-              const lineX = (xScale(year2021Index) + xScale(year2022Index)) / 2;
+            const mastersYearIndex = allYears.findIndex(year => getAvailableLeagues(year).includes('MASTERS'));
+            if (mastersYearIndex > 0) {
+              const lineX = (xScale(mastersYearIndex - 1) + xScale(mastersYearIndex)) / 2;
               return (
                 <g key="masters-intro">
                   <line
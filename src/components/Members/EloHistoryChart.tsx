@@ -0,0 +1,225 @@
+import { useMemo, useEffect, useState } from 'react';
+import type { EloRatingPoint, LeagueTier } from '../../types';
+import { getSeasonLength } from '../../utils/era-detection';
+import { ELO_BASE_RATING } from '../../utils/elo-calculator';
+
+interface EloHistoryChartProps {
+  history: EloRatingPoint[];
+}
+
+const LEAGUE_COLORS: Record<LeagueTier, string> = {
+  'PREMIER': '#eab308', // yellow-500 (matches premier-colors)
+  'MASTERS': '#a855f7', // purple-500 (matches masters-colors)
+  'NATIONAL': '#dc2626'  // red-600 (matches national-colors)
+};
+
+const LEAGUE_NAMES: Record<LeagueTier, string> = {
+  'PREMIER': 'Premier',
+  'MASTERS': 'Masters',
+  'NATIONAL': 'National'
+};
+
+export const EloHistoryChart: React.FC<EloHistoryChartProps> = ({ history }) => {
+  const [containerWidth, setContainerWidth] = useState(800);
+  const [isMobile, setIsMobile] = useState(false);
+
+  useEffect(() => {
+    const handleResize = () => {
+      const width = window.innerWidth;
+      setIsMobile(width < 768);
+      setContainerWidth(Math.max(width - 100, 400)); // Account for padding
+    };
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  const chartData = useMemo(() => {
+    if (!history.length) return null;
+
+    // Timeline runs from 2018 through the member's last season, one equal-width slot per year
+    const startYear = 2018;
+    const endYear = parseInt(history[history.length - 1].year);
+    const allYears = Array.from({ length: endYear - startYear + 1 }, (_, i) => String(startYear + i));
+
+    const chartWidth = containerWidth;
+    const chartHeight = isMobile ? 180 : 220;
+    const padding = isMobile ? 30 : 40;
+    const plotWidth = chartWidth - (padding * 2);
+    const plotHeight = chartHeight - (padding * 2);
+
+    const ratings = history.map(point => point.rating);
+    const minRating = Math.min(...ratings, ELO_BASE_RATING) - 20;
+    const maxRating = Math.max(...ratings, ELO_BASE_RATING) + 20;
+
+    const yearWidth = plotWidth / allYears.length;
+    const xScale = (year: string, week: number) => {
+      const yearIndex = allYears.indexOf(year);
+      return padding + yearIndex * yearWidth + (week / (getSeasonLength(year) + 1)) * yearWidth;
+    };
+    const yScale = (rating: number) =>
+      padding + ((maxRating - rating) / (maxRating - minRating)) * plotHeight;
+
+    const dataPoints = history.map(point => ({
+      ...point,
+      x: xScale(point.year, point.week),
+      y: yScale(point.rating)
+    }));
+
+    // Mark where each season finished
+    const seasonEnds = dataPoints.filter((point, index) =>
+      index === dataPoints.length - 1 || dataPoints[index + 1].year !== point.year
+    );
+
+    return {
+      allYears,
+      dataPoints,
+      seasonEnds,
+      chartWidth,
+      chartHeight,
+      padding,
+      yearWidth,
+      baselineY: yScale(ELO_BASE_RATING),
+      minRating,
+      maxRating
+    };
+  }, [history, containerWidth, isMobile]);
+
+  if (!chartData) {
+    return (
+      <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+        No rating history available
+      </div>
+    );
+  }
+
+  const { allYears, dataPoints, seasonEnds, chartWidth, chartHeight, padding, yearWidth, baselineY, minRating, maxRating } = chartData;
+
+  // Break the line between seasons the member sat out
+  const linePath = dataPoints
+    .map((point, index) => {
+      if (index === 0) return `M ${point.x} ${point.y}`;
+      const yearGap = parseInt(point.year) - parseInt(dataPoints[index - 1].year);
+      return `${yearGap > 1 ? 'M' : 'L'} ${point.x} ${point.y}`;
+    })
+    .join(' ');
+
+  const usedLeagues = (['PREMIER', 'MASTERS', 'NATIONAL'] as LeagueTier[])
+    .filter(league => history.some(point => point.league === league));
+
+  return (
+    <div className="card">
+      <h3 className={`font-semibold text-gray-900 dark:text-gray-100 mb-2 ${isMobile ? 'text-base' : 'text-lg'}`}>
+        Elo Rating History
+      </h3>
+
+      <div className={`flex flex-wrap justify-center ${isMobile ? 'gap-2' : 'gap-4'}`}>
+        {usedLeagues.map(league => (
+          <div key={`legend-${league}`} className={`flex items-center ${isMobile ? 'space-x-1' : 'space-x-2'}`}>
+            <div
+              className={`rounded-full border border-white dark:border-gray-600 ${isMobile ? 'w-2.5 h-2.5' : 'w-3 h-3'}`}
+              style={{ backgroundColor: LEAGUE_COLORS[league] }}
+            />
+            <span className={`text-gray-700 dark:text-gray-300 ${isMobile ? 'text-sm' : 'text-base'}`}>
+              {LEAGUE_NAMES[league]}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <svg
+          width="100%"
+          height={chartHeight}
+          viewBox={`0 0 ${chartWidth} ${chartHeight}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="block w-full"
+        >
+          {/* Season boundaries */}
+          {allYears.map((year, index) => (
+            <line
+              key={`grid-v-${year}`}
+              x1={padding + index * yearWidth}
+              y1={padding}
+              x2={padding + index * yearWidth}
+              y2={chartHeight - padding}
+              stroke="#e5e7eb"
+              strokeWidth="1"
+              strokeDasharray="2,2"
+              className="dark:stroke-gray-600"
+            />
+          ))}
+
+          {/* League average rating */}
+          <line
+            x1={padding}
+            y1={baselineY}
+            x2={chartWidth - padding}
+            y2={baselineY}
+            stroke="#9ca3af"
+            strokeWidth="1"
+            strokeDasharray="4,4"
+          />
+          <text
+            x={padding - 4}
+            y={baselineY + 4}
+            textAnchor="end"
+            className="fill-gray-500 dark:fill-gray-400 text-xs"
+          >
+            {ELO_BASE_RATING}
+          </text>
+
+          {/* Y-axis range labels */}
+          <text x={padding - 4} y={padding + 4} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-xs">
+            {Math.round(maxRating)}
+          </text>
+          <text x={padding - 4} y={chartHeight - padding} textAnchor="end" className="fill-gray-500 dark:fill-gray-400 text-xs">
+            {Math.round(minRating)}
+          </text>
+
+          {/* X-axis labels (years) */}
+          {allYears.map((year, index) => (
+            <text
+              key={`x-label-${year}`}
+              x={padding + (index + 0.5) * yearWidth}
+              y={chartHeight - (isMobile ? 8 : 12)}
+              textAnchor="middle"
+              className={`font-medium fill-gray-700 dark:fill-gray-300 ${isMobile ? 'text-xs' : 'text-sm'}`}
+            >
+              {isMobile ? `'${year.slice(-2)}` : year}
+            </text>
+          ))}
+
+          {/* Rating line */}
+          <path
+            d={linePath}
+            stroke="#6b7280"
+            strokeWidth="2"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+
+          {/* Season-end ratings, colored by tier */}
+          {seasonEnds.map(point => (
+            <circle
+              key={`season-end-${point.year}`}
+              cx={point.x}
+              cy={point.y}
+              r={isMobile ? '4' : '5'}
+              fill={LEAGUE_COLORS[point.league]}
+              stroke="white"
+              strokeWidth="2"
+              className="cursor-pointer"
+            >
+              <title>
+                {point.year} ({LEAGUE_NAMES[point.league]}): {Math.round(point.rating)}
+              </title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useEloRatings } from '../../hooks/useLeagues';
+import { LoadingSpinner } from '../Common/LoadingSpinner';
+import { ErrorMessage } from '../Common/ErrorMessage';
+import { TeamLogo } from '../Common/TeamLogo';
+import { LeagueBadge } from '../League/LeagueBadge';
+import { EloHistoryChart } from './EloHistoryChart';
+import { getUserInfoBySleeperId } from '../../config/constants';
+import { ELO_BASE_RATING, ELO_K_FACTOR, SEASON_REGRESSION, TIER_SPREAD } from '../../utils/elo-calculator';
+
+export const EloLeaderboard = () => {
+  const { data: ratings, isLoading, error } = useEloRatings();
+  const [selectedFFUUserId, setSelectedFFUUserId] = useState<string | null>(null);
+  const [showCurrentOnly, setShowCurrentOnly] = useState(true);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  // "Current" members played in the most recent season with results
+  const latestYear = ratings.reduce((latest, member) => member.lastYear > latest ? member.lastYear : latest, '');
+  const visibleRatings = showCurrentOnly ? ratings.filter(member => member.lastYear === latestYear) : ratings;
+  const selectedMember = ratings.find(member => member.ffuUserId === selectedFFUUserId) || visibleRatings[0];
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">All-Time Elo Ratings</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Every matchup since 2018 in order (K={ELO_K_FACTOR}). Tiers start ±{TIER_SPREAD} from {ELO_BASE_RATING} and
+              ratings regress {SEASON_REGRESSION * 100}% toward the new tier's baseline each season.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={showCurrentOnly}
+              onChange={(e) => setShowCurrentOnly(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            {latestYear} members only
+          </label>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Team</th>
+                <th className="text-center">Rating</th>
+                <th className="text-center">Peak</th>
+                <th className="text-center hidden sm:table-cell">Low</th>
+                <th className="text-center hidden sm:table-cell">Games</th>
+                <th className="text-center">Last Season</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRatings.map((member, index) => {
+                const userInfo = getUserInfoBySleeperId(member.userId);
+                const isSelected = selectedMember?.ffuUserId === member.ffuUserId;
+
+                return (
+                  <tr
+                    key={member.ffuUserId}
+                    onClick={() => setSelectedFFUUserId(member.ffuUserId)}
+                    className={`table-row cursor-pointer ${isSelected ? 'bg-gray-100 dark:bg-gray-700/50' : ''}`}
+                  >
+                    <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                    <td>
+                      <div className="flex items-center space-x-2">
+                        <TeamLogo
+                          teamName={userInfo?.teamName || 'Unknown Team'}
+                          abbreviation={userInfo?.abbreviation || 'UNK'}
+                          size="sm"
+                        />
+                        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+                          {userInfo?.teamName || 'Unknown Team'}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">
+                      {Math.round(member.rating)}
+                    </td>
+                    <td className="text-center font-mono text-green-600 dark:text-green-400">
+                      {Math.round(member.peakRating)}
+                      <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({member.peakYear})</span>
+                    </td>
+                    <td className="text-center font-mono text-red-600 dark:text-red-400 hidden sm:table-cell">
+                      {Math.round(member.lowRating)}
+                    </td>
+                    <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                      {member.gamesPlayed}
+                    </td>
+                    <td className="text-center">
+                      <div className="flex items-center justify-center gap-1">
+                        <LeagueBadge league={member.lastLeague} />
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{member.lastYear}</span>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selectedMember && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            {getUserInfoBySleeperId(selectedMember.userId)?.teamName || 'Unknown Team'}
+          </h4>
+          <EloHistoryChart history={selectedMember.history} />
+        </div>
+      )}
+    </div>
+  );
+};
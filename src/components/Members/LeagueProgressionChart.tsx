@@ -1,5 +1,7 @@
 import { useMemo, useEffect, useState } from 'react';
 import type { LeagueTier } from '../../types';
+import { getAllYears } from '../../config/constants';
+import { getAvailableLeagues } from '../../utils/era-detection';
 
 interface LeagueProgressionChartProps {
   seasonHistory: {
@@ -55,10 +57,8 @@ export const LeagueProgressionChart: React.FC<LeagueProgressionChartProps> = ({
     // Sort seasons by year (oldest first)
     const sortedSeasons = [...seasonHistory].sort((a, b) => a.year.localeCompare(b.year));
     
-    // Get ALL years from 2018 to current year (complete timeline)
-    const currentYear = new Date().getFullYear();
-    const startYear = 2018;
-    const allYears = Array.from({ length: currentYear - startYear + 1 }, (_, i) => String(startYear + i));
+    // Get ALL league seasons, oldest first (complete timeline)
+    const allYears = [...getAllYears()].reverse();
     
     // Always show ALL possible league tiers for complete scale
     const allPossibleLeagues = new Set<LeagueTier>(['PREMIER', 'MASTERS', 'NATIONAL']);
@@ -197,12 +197,11 @@ export const LeagueProgressionChart: React.FC<LeagueProgressionChartProps> = ({
             />
           ))}
           
-          {/* Masters Introduction Line - between 2021 and 2022 */}
+          {/* Masters Introduction Line - before the first season with a Masters league */}
           {(() => {
-            const year2021Index = allYears.indexOf('2021');
-            const year2022Index = allYears.indexOf('2022');
-            if (year2021Index !== -1 && year2022Index !== -1) {
-              const lineX = (xScale(year2021Index) + xScale(year2022Index)) / 2;
+            const mastersYearIndex = allYears.findIndex(year => getAvailableLeagues(year).includes('MASTERS'));
+            if (mastersYearIndex > 0) {
+              const lineX = (xScale(mastersYearIndex - 1) + xScale(mastersYearIndex)) / 2;
               return (
                 <g key="masters-intro">
                   {/* Vertical line */}
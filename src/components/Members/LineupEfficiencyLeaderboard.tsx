@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { useLineupSeasons } from '../../hooks/useLeagues';
+import { LoadingSpinner } from '../Common/LoadingSpinner';
+import { ErrorMessage } from '../Common/ErrorMessage';
+import { TeamLogo } from '../Common/TeamLogo';
+import { LeagueBadge } from '../League/LeagueBadge';
+import { getFFUIdBySleeperId, getUserInfoBySleeperId } from '../../config/constants';
+import { calculateSeasonEfficiency, formatEfficiency, summarizeEfficiency } from '../../utils/lineup-efficiency';
+import type { EfficiencySummary, LineupEfficiency } from '../../utils/lineup-efficiency';
+import type { LeagueTier } from '../../types';
+
+type LeaderboardMode = 'season' | 'career' | 'game';
+type SortKey = 'efficiency' | 'benchPoints' | 'lineupLosses';
+
+interface LineupEfficiencyLeaderboardProps {
+  league?: LeagueTier;
+  year?: string;
+}
+
+interface LeaderboardRow extends EfficiencySummary {
+  key: string;
+  year?: string;
+  league?: LeagueTier;
+  week?: number;
+}
+
+const MAX_GAME_ROWS = 25;
+
+export const LineupEfficiencyLeaderboard = ({ league, year }: LineupEfficiencyLeaderboardProps) => {
+  const { data: lineupSeasons, isLoading, error } = useLineupSeasons();
+  const [mode, setMode] = useState<LeaderboardMode>('season');
+  const [sortKey, setSortKey] = useState<SortKey>('efficiency');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+
+  // Weekly efficiency for every lineup in the selected leagues/years
+  const seasonEntries = useMemo(() => {
+    return lineupSeasons
+      .filter(season => (!league || season.league === league) && (!year || season.year === year))
+      .map(season => ({
+        year: season.year,
+        league: season.league,
+        entries: calculateSeasonEfficiency(season.matchupsByWeek, season.year, season.league)
+      }))
+      .filter(season => season.entries.length > 0);
+  }, [lineupSeasons, league, year]);
+
+  const rows = useMemo((): LeaderboardRow[] => {
+    if (mode === 'career') {
+      return summarizeEfficiency(seasonEntries.flatMap(season => season.entries))
+        .map(summary => ({ ...summary, key: summary.ffuUserId }));
+    }
+
+    if (mode === 'season') {
+      return seasonEntries.flatMap(season =>
+        summarizeEfficiency(season.entries).map(summary => ({
+          ...summary,
+          key: `${summary.ffuUserId}-${season.year}-${season.league}`,
+          year: season.year,
+          league: season.league
+        }))
+      );
+    }
+
+    const toGameRow = (entry: LineupEfficiency, gameLeague: LeagueTier): LeaderboardRow => ({
+      key: `${entry.userId}-${entry.year}-${gameLeague}-${entry.week}`,
+      userId: entry.userId,
+      ffuUserId: getFFUIdBySleeperId(entry.userId, entry.year) || entry.userId,
+      games: 1,
+      actualPoints: entry.actualPoints,
+      optimalPoints: entry.optimalPoints,
+      benchPoints: entry.benchPoints,
+      efficiency: entry.efficiency,
+      lineupLosses: entry.lostDueToLineup ? 1 : 0,
+      year: entry.year,
+      league: gameLeague,
+      week: entry.week
+    });
+    return seasonEntries.flatMap(season => season.entries.map(entry => toGameRow(entry, season.league)));
+  }, [mode, seasonEntries]);
+
+  const sortedRows = useMemo(() => {
+    const sorted = [...rows].sort((a, b) => {
+      const diff = a[sortKey] - b[sortKey];
+      return sortOrder === 'asc' ? diff : -diff;
+    });
+    return mode === 'game' ? sorted.slice(0, MAX_GAME_ROWS) : sorted;
+  }, [rows, sortKey, sortOrder, mode]);
+
+  const handleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortOrder('desc');
+    }
+  };
+
+  const getSortIcon = (key: SortKey) => {
+    if (sortKey !== key) return <ArrowUpDown className="h-3 w-3 inline-block ml-1 opacity-0 group-hover:opacity-50" />;
+    return sortOrder === 'asc'
+      ? <ArrowUp className="h-3 w-3 inline-block ml-1" />
+      : <ArrowDown className="h-3 w-3 inline-block ml-1" />;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Lineup Efficiency</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Points scored vs the best possible lineup from the same roster. Lineup losses are games the optimal lineup would have won.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['season', 'career', 'game'] as LeaderboardMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                mode === option
+                  ? 'bg-ffu-red text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option === 'season' ? 'Season' : option === 'career' ? 'Career' : 'Single Game'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {sortedRows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No lineups found. Lineups come from the season files, or from Sleeper when a season has none stored.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Team</th>
+                {mode !== 'career' && <th className="text-center">{mode === 'game' ? 'Game' : 'Season'}</th>}
+                <th className="text-center hidden sm:table-cell">{mode === 'game' ? 'Pts' : 'Games'}</th>
+                <th className="text-center cursor-pointer group" onClick={() => handleSort('efficiency')}>
+                  Efficiency{getSortIcon('efficiency')}
+                </th>
+                <th className="text-center cursor-pointer group" onClick={() => handleSort('benchPoints')}>
+                  Left on Bench{getSortIcon('benchPoints')}
+                </th>
+                {mode !== 'game' && (
+                  <th className="text-center cursor-pointer group" onClick={() => handleSort('lineupLosses')}>
+                    Lineup Losses{getSortIcon('lineupLosses')}
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row, index) => {
+                const userInfo = getUserInfoBySleeperId(row.userId);
+                return (
+                  <tr key={row.key} className="table-row">
+                    <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                    <td>
+                      <div className="flex items-center space-x-2">
+                        <TeamLogo
+                          teamName={userInfo?.teamName || 'Unknown Team'}
+                          abbreviation={userInfo?.abbreviation || 'UNK'}
+                          size="sm"
+                        />
+                        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+                          {userInfo?.teamName || 'Unknown Team'}
+                        </span>
+                      </div>
+                    </td>
+                    {mode !== 'career' && (
+                      <td className="text-center">
+                        <div className="flex items-center justify-center gap-1">
+                          {row.league && <LeagueBadge league={row.league} />}
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            {row.year}{row.week ? ` Wk ${row.week}` : ''}
+                          </span>
+                        </div>
+                      </td>
+                    )}
+                    <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                      {mode === 'game'
+                        ? `${row.actualPoints.toFixed(2)} / ${row.optimalPoints.toFixed(2)}`
+                        : row.games}
+                    </td>
+                    <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">
+                      {formatEfficiency(row.efficiency)}
+                    </td>
+                    <td className="text-center font-mono text-red-600 dark:text-red-400">
+                      {row.benchPoints.toFixed(2)}
+                    </td>
+                    {mode !== 'game' && (
+                      <td className="text-center font-mono text-gray-700 dark:text-gray-300">
+                        {row.lineupLosses}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
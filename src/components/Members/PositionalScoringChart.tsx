@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { useLineupSeasons, usePlayerData } from '../../hooks/useLeagues';
+import { getFFUIdBySleeperId } from '../../config/constants';
+import { calculatePositionalScoring, SCORING_POSITIONS } from '../../utils/positional-scoring';
+import type { PositionPoints, ScoringPosition, TeamPositionalScoring } from '../../utils/positional-scoring';
+import type { LeagueTier } from '../../types';
+
+interface PositionalScoringChartProps {
+  ffuUserId: string;
+}
+
+interface ChartBar {
+  key: string;
+  label: string;
+  sublabel?: string;
+  points: PositionPoints;
+  ranks?: PositionPoints;
+}
+
+const POSITION_COLORS: Record<ScoringPosition, string> = {
+  QB: '#ef4444', // red-500
+  RB: '#22c55e', // green-500
+  WR: '#3b82f6', // blue-500
+  TE: '#f59e0b', // amber-500
+  FLEX: '#14b8a6', // teal-500
+  K: '#ec4899', // pink-500
+  DEF: '#a855f7' // purple-500
+};
+
+const LEAGUE_INITIALS: Record<LeagueTier, string> = {
+  PREMIER: 'P',
+  MASTERS: 'M',
+  NATIONAL: 'N'
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 16, right: 8, bottom: 32, left: 40 };
+
+const sumPoints = (points: PositionPoints) => SCORING_POSITIONS.reduce((sum, position) => sum + points[position], 0);
+
+export const PositionalScoringChart = ({ ffuUserId }: PositionalScoringChartProps) => {
+  const { data: lineupSeasons } = useLineupSeasons();
+  const { data: playerData } = usePlayerData();
+  const [selectedSeason, setSelectedSeason] = useState<string>('ALL');
+
+  // This member's positional scoring in every season with lineups, under any of their Sleeper accounts
+  const seasons = useMemo(() => {
+    return lineupSeasons
+      .map(season => ({
+        key: `${season.year}-${season.league}`,
+        year: season.year,
+        league: season.league,
+        scoring: calculatePositionalScoring(season.matchupsByWeek, season.year, season.league, playerData)
+          .find(team => getFFUIdBySleeperId(team.userId, season.year) === ffuUserId)
+      }))
+      .filter((season): season is { key: string; year: string; league: LeagueTier; scoring: TeamPositionalScoring } => !!season.scoring)
+      .sort((a, b) => a.year.localeCompare(b.year));
+  }, [lineupSeasons, ffuUserId, playerData]);
+
+  const activeSeason = seasons.find(season => season.key === selectedSeason);
+
+  const bars = useMemo((): ChartBar[] => {
+    if (activeSeason) {
+      return activeSeason.scoring.weeks.map(week => ({
+        key: `week-${week.week}`,
+        label: `W${week.week}`,
+        points: week.points
+      }));
+    }
+    return seasons.map(season => ({
+      key: season.key,
+      label: season.year,
+      sublabel: LEAGUE_INITIALS[season.league],
+      points: season.scoring.season,
+      ranks: season.scoring.ranks
+    }));
+  }, [seasons, activeSeason]);
+
+  if (seasons.length === 0) return null;
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxTotal = Math.max(...bars.map(bar => sumPoints(bar.points)), 1);
+  const slotWidth = plotWidth / bars.length;
+  const barWidth = Math.min(slotWidth * 0.7, 48);
+  const yScale = (points: number) => (points / maxTotal) * plotHeight;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Scoring by Position</h3>
+        <div className="relative">
+          <select
+            value={selectedSeason}
+            onChange={(e) => setSelectedSeason(e.target.value)}
+            className="block w-36 pl-2 pr-6 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded appearance-none"
+          >
+            <option value="ALL">All Seasons</option>
+            {seasons.map(season => (
+              <option key={season.key} value={season.key}>{season.year} by Week</option>
+            ))}
+          </select>
+          <div className="absolute inset-y-0 right-0 flex items-center pr-1 pointer-events-none">
+            <ChevronDown className="h-3 w-3 text-gray-400" />
+          </div>
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {/* Gridlines */}
+        {[0, 0.5, 1].map(fraction => {
+          const y = PADDING.top + plotHeight - fraction * plotHeight;
+          return (
+            <g key={fraction}>
+              <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y} y2={y} stroke="currentColor" className="text-gray-200 dark:text-gray-700" />
+              <text x={PADDING.left - 4} y={y + 3} textAnchor="end" fontSize="9" className="fill-gray-500 dark:fill-gray-400">
+                {Math.round(maxTotal * fraction)}
+              </text>
+            </g>
+          );
+        })}
+
+        {bars.map((bar, index) => {
+          const x = PADDING.left + index * slotWidth + (slotWidth - barWidth) / 2;
+          let stackTop = PADDING.top + plotHeight;
+
+          return (
+            <g key={bar.key}>
+              {SCORING_POSITIONS.map(position => {
+                const height = yScale(bar.points[position]);
+                if (height <= 0) return null;
+                stackTop -= height;
+                return (
+                  <rect key={position} x={x} y={stackTop} width={barWidth} height={height} fill={POSITION_COLORS[position]}>
+                    <title>
+                      {`${bar.label} ${position}: ${bar.points[position].toFixed(1)}${bar.ranks ? ` (#${bar.ranks[position]} in league)` : ''}`}
+                    </title>
+                  </rect>
+                );
+              })}
+              <text x={x + barWidth / 2} y={CHART_HEIGHT - PADDING.bottom + 12} textAnchor="middle" fontSize="9" className="fill-gray-600 dark:fill-gray-300">
+                {bar.label}
+              </text>
+              {bar.sublabel && (
+                <text x={x + barWidth / 2} y={CHART_HEIGHT - PADDING.bottom + 23} textAnchor="middle" fontSize="8" className="fill-gray-400">
+                  {bar.sublabel}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend, with season totals and league ranks when a season is selected */}
+      <div className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {SCORING_POSITIONS.map(position => (
+          <span key={position} className="inline-flex items-center gap-1">
+            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: POSITION_COLORS[position] }} />
+            {position}
+            {activeSeason && (
+              <span className="font-mono text-gray-900 dark:text-gray-100">
+                {activeSeason.scoring.season[position].toFixed(1)}
+                <span className="ml-0.5 text-gray-500 dark:text-gray-400">#{activeSeason.scoring.ranks[position]}</span>
+              </span>
+            )}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
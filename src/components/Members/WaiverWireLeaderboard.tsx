@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { TeamLogo } from '../Common/TeamLogo';
+import { LeagueBadge } from '../League/LeagueBadge';
+import { getUserInfoBySleeperId } from '../../config/constants';
+import { summarizePickupManagers } from '../../utils/waiver-pickups';
+import type { PickupManagerSummary } from '../../utils/waiver-pickups';
+import type { LeagueTier, PickupValue } from '../../types';
+
+type LeaderboardMode = 'pickups' | 'season' | 'career';
+
+interface WaiverWireLeaderboardProps {
+  pickups: PickupValue[];
+  league?: LeagueTier;
+  year?: string;
+}
+
+interface ManagerRow extends PickupManagerSummary {
+  key: string;
+  year?: string;
+  league?: LeagueTier;
+}
+
+const MAX_PICKUP_ROWS = 25;
+
+const formatFaab = (amount: number | undefined) => amount === undefined ? '—' : `$${amount}`;
+
+export const WaiverWireLeaderboard = ({ pickups, league, year }: WaiverWireLeaderboardProps) => {
+  const [mode, setMode] = useState<LeaderboardMode>('pickups');
+
+  const filteredPickups = useMemo(() => {
+    return pickups.filter(pickup => (!league || pickup.league === league) && (!year || pickup.year === year));
+  }, [pickups, league, year]);
+
+  const bestPickups = useMemo(() => {
+    return [...filteredPickups]
+      .filter(pickup => pickup.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .slice(0, MAX_PICKUP_ROWS);
+  }, [filteredPickups]);
+
+  // Most active managers, per league season or across the whole filter
+  const managerRows = useMemo((): ManagerRow[] => {
+    if (mode === 'career') {
+      return summarizePickupManagers(filteredPickups).map(summary => ({ ...summary, key: summary.ffuUserId }));
+    }
+
+    const seasons = new Map<string, PickupValue[]>();
+    filteredPickups.forEach(pickup => {
+      const key = `${pickup.year}-${pickup.league}`;
+      seasons.set(key, [...(seasons.get(key) || []), pickup]);
+    });
+    return Array.from(seasons.values())
+      .flatMap(seasonPickups => summarizePickupManagers(seasonPickups).map(summary => ({
+        ...summary,
+        key: `${summary.ffuUserId}-${seasonPickups[0].year}-${seasonPickups[0].league}`,
+        year: seasonPickups[0].year,
+        league: seasonPickups[0].league
+      })))
+      .sort((a, b) => b.pickups - a.pickups || b.points - a.points);
+  }, [mode, filteredPickups]);
+
+  const renderTeam = (userId: string) => {
+    const userInfo = getUserInfoBySleeperId(userId);
+    return (
+      <div className="flex items-center space-x-2">
+        <TeamLogo
+          teamName={userInfo?.teamName || 'Unknown Team'}
+          abbreviation={userInfo?.abbreviation || 'UNK'}
+          size="sm"
+        />
+        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+          {userInfo?.teamName || 'Unknown Team'}
+        </span>
+      </div>
+    );
+  };
+
+  const renderSeason = (seasonLeague?: LeagueTier, seasonYear?: string, week?: number) => (
+    <div className="flex items-center justify-center gap-1">
+      {seasonLeague && <LeagueBadge league={seasonLeague} />}
+      <span className="text-xs text-gray-500 dark:text-gray-400">
+        {seasonYear}{week ? ` Wk ${week}` : ''}
+      </span>
+    </div>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Waiver Wire</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Waiver claims and free agent adds, valued by the points each player scored in the manager's starting lineup until dropped.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['pickups', 'season', 'career'] as LeaderboardMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                mode === option
+                  ? 'bg-ffu-red text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option === 'pickups' ? 'Best Pickups' : option === 'season' ? 'Season' : 'Career'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {filteredPickups.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No pickups found. Transactions are saved when season data is regenerated from Sleeper.
+        </p>
+      ) : mode === 'pickups' ? (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Player</th>
+                <th className="text-left">Team</th>
+                <th className="text-center hidden sm:table-cell">Added</th>
+                <th className="text-center hidden sm:table-cell">Starts</th>
+                <th className="text-center">Points</th>
+                <th className="text-center">FAAB</th>
+                <th className="text-center hidden sm:table-cell">$/Pt</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bestPickups.map((pickup, index) => (
+                <tr key={`${pickup.transactionId}-${pickup.playerId}`} className="table-row">
+                  <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                  <td>
+                    <Link to={`/players/${pickup.playerId}`} className="font-medium text-gray-900 dark:text-gray-100 text-sm hover:underline">
+                      {pickup.playerInfo.name}
+                    </Link>
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{pickup.playerInfo.position}</span>
+                  </td>
+                  <td>{renderTeam(pickup.userId)}</td>
+                  <td className="text-center hidden sm:table-cell">{renderSeason(pickup.league, pickup.year, pickup.week)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{pickup.starts}</td>
+                  <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{pickup.points.toFixed(2)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300">{formatFaab(pickup.faabBid)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                    {pickup.costPerPoint !== null ? `$${pickup.costPerPoint.toFixed(2)}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">#</th>
+                <th className="text-left">Team</th>
+                {mode === 'season' && <th className="text-center">Season</th>}
+                <th className="text-center">Pickups</th>
+                <th className="text-center hidden sm:table-cell">Waiver / FA</th>
+                <th className="text-center">Points</th>
+                <th className="text-center hidden sm:table-cell">Pts/Pickup</th>
+                <th className="text-center">FAAB Spent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {managerRows.map((row, index) => (
+                <tr key={row.key} className="table-row">
+                  <td className="font-bold text-gray-900 dark:text-gray-100">{index + 1}</td>
+                  <td>{renderTeam(row.userId)}</td>
+                  {mode === 'season' && <td className="text-center">{renderSeason(row.league, row.year)}</td>}
+                  <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{row.pickups}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{row.waiverClaims} / {row.freeAgentAdds}</td>
+                  <td className="text-center font-mono text-gray-900 dark:text-gray-100">{row.points.toFixed(2)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{row.pointsPerPickup.toFixed(2)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300">${row.faabSpent}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
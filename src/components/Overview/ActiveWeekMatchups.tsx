@@ -25,7 +25,7 @@ export const ActiveWeekMatchups = () => {
   ]);
   
   const { openTeamProfile } = useTeamProfileModal();
-  const currentNFLWeek = getCurrentNFLWeek();
+  const currentNFLWeek = getCurrentNFLWeek('2025');
   
   const [showUnavailablePopup, setShowUnavailablePopup] = useState<boolean>(false);
   const [rosterModal, setRosterModal] = useState<{
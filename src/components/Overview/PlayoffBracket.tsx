@@ -4,6 +4,7 @@ import type { LeagueTier } from '../../types';
 import { getLeagueName } from '../../constants/leagues';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
 import { shouldShowMatchupColors } from '../../utils/nfl-schedule';
+import { getPlayoffWeeks } from '../../utils/era-detection';
 
 interface ProcessedMatchup {
   team1UserId: string;
@@ -78,18 +79,10 @@ export const PlayoffBracket = ({
   const colors = colorMap[league];
   const { openTeamProfile } = useTeamProfileModal();
 
-  // Group by week
-  const playoffByWeek = {
-    15: playoffMatchups.filter(m => m.week === 15),
-    16: playoffMatchups.filter(m => m.week === 16),
-    17: playoffMatchups.filter(m => m.week === 17)
-  };
-
-  const consolationByWeek = {
-    15: consolationMatchups.filter(m => m.week === 15),
-    16: consolationMatchups.filter(m => m.week === 16),
-    17: consolationMatchups.filter(m => m.week === 17)
-  };
+  // Group by round, using the league's playoff weeks that season
+  const playoffWeeks = getPlayoffWeeks(year, league);
+  const playoffByRound = playoffWeeks.map(week => playoffMatchups.filter(m => m.week === week));
+  const consolationByRound = playoffWeeks.map(week => consolationMatchups.filter(m => m.week === week));
 
   const renderEmptyMatchup = () => (
     <div className="bg-gray-50 dark:bg-gray-800/50 py-3 px-2 rounded-lg h-[92px] flex items-center justify-center border-2 border-dashed border-gray-300 dark:border-gray-600">
@@ -194,7 +187,7 @@ export const PlayoffBracket = ({
 
         {/* Bracket Layout */}
         <div className="flex gap-8 items-start relative">
-          {/* Round 1: Week 15 (Quarterfinals) */}
+          {/* Round 1 (Quarterfinals) */}
           <div className="flex-1 relative">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Quarterfinals</span>
@@ -202,17 +195,17 @@ export const PlayoffBracket = ({
             <div className="space-y-4">
               {/* Top quarterfinal */}
               <div>
-                {playoffByWeek[15][0] ? renderMatchup(playoffByWeek[15][0]) : renderEmptyMatchup()}
+                {playoffByRound[0][0] ? renderMatchup(playoffByRound[0][0]) : renderEmptyMatchup()}
               </div>
 
               {/* Bottom quarterfinal */}
               <div>
-                {playoffByWeek[15][1] ? renderMatchup(playoffByWeek[15][1]) : renderEmptyMatchup()}
+                {playoffByRound[0][1] ? renderMatchup(playoffByRound[0][1]) : renderEmptyMatchup()}
               </div>
             </div>
           </div>
 
-          {/* Round 2: Week 16 (Semifinals) */}
+          {/* Round 2 (Semifinals) */}
           <div className="flex-1">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Semifinals</span>
@@ -221,8 +214,8 @@ export const PlayoffBracket = ({
               <div className="space-y-4">
                 {/* Top semifinal - aligns with Q1 */}
                 <div>
-                  {playoffByWeek[16][0]
-                    ? renderMatchup(playoffByWeek[16][0])
+                  {playoffByRound[1][0]
+                    ? renderMatchup(playoffByRound[1][0])
                     : playoffByeTeams[0]
                       ? renderByeMatchup(playoffByeTeams[0], "Plays lowest remaining seed")
                       : renderEmptyMatchup()
@@ -231,8 +224,8 @@ export const PlayoffBracket = ({
 
                 {/* Bottom semifinal - aligns with Q2 */}
                 <div>
-                  {playoffByWeek[16][1]
-                    ? renderMatchup(playoffByWeek[16][1])
+                  {playoffByRound[1][1]
+                    ? renderMatchup(playoffByRound[1][1])
                     : playoffByeTeams[1]
                       ? renderByeMatchup(playoffByeTeams[1], "Plays highest remaining seed")
                       : renderEmptyMatchup()
@@ -246,13 +239,13 @@ export const PlayoffBracket = ({
                   <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400">5th Place</span>
                 </div>
                 <div>
-                  {playoffByWeek[16][2] ? renderMatchup(playoffByWeek[16][2]) : renderEmptyMatchup()}
+                  {playoffByRound[1][2] ? renderMatchup(playoffByRound[1][2]) : renderEmptyMatchup()}
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Round 3: Week 17 (Championship) */}
+          {/* Round 3 (Championship) */}
           <div className="flex-1">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Championship</span>
@@ -260,7 +253,7 @@ export const PlayoffBracket = ({
             <div className="space-y-4">
               <div style={{ paddingTop: '46px' }}>
                 <div>
-                  {playoffByWeek[17][0] ? renderMatchup(playoffByWeek[17][0]) : renderEmptyMatchup()}
+                  {playoffByRound[2][0] ? renderMatchup(playoffByRound[2][0]) : renderEmptyMatchup()}
                 </div>
               </div>
 
@@ -270,7 +263,7 @@ export const PlayoffBracket = ({
                   <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400">3rd Place</span>
                 </div>
                 <div>
-                  {playoffByWeek[17][1] ? renderMatchup(playoffByWeek[17][1]) : renderEmptyMatchup()}
+                  {playoffByRound[2][1] ? renderMatchup(playoffByRound[2][1]) : renderEmptyMatchup()}
                 </div>
               </div>
             </div>
@@ -294,7 +287,7 @@ export const PlayoffBracket = ({
 
         {/* Bracket Layout */}
         <div className="flex gap-8 items-start relative">
-          {/* Round 1: Week 15 */}
+          {/* Round 1 */}
           <div className="flex-1 relative">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 1</span>
@@ -302,17 +295,17 @@ export const PlayoffBracket = ({
             <div className="space-y-4">
               {/* Round 1 matchup 1 */}
               <div key="cons-r1-m1">
-                {consolationByWeek[15][0] ? renderMatchup(consolationByWeek[15][0]) : renderEmptyMatchup()}
+                {consolationByRound[0][0] ? renderMatchup(consolationByRound[0][0]) : renderEmptyMatchup()}
               </div>
 
               {/* Round 1 matchup 2 */}
               <div key="cons-r1-m2">
-                {consolationByWeek[15][1] ? renderMatchup(consolationByWeek[15][1]) : renderEmptyMatchup()}
+                {consolationByRound[0][1] ? renderMatchup(consolationByRound[0][1]) : renderEmptyMatchup()}
               </div>
             </div>
           </div>
 
-          {/* Round 2: Week 16 */}
+          {/* Round 2 */}
           <div className="flex-1">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 2</span>
@@ -321,8 +314,8 @@ export const PlayoffBracket = ({
               <div className="space-y-4">
                 {/* Top round 2 - aligns with R1 match 1 */}
                 <div>
-                  {consolationByWeek[16][0]
-                    ? renderMatchup(consolationByWeek[16][0])
+                  {consolationByRound[1][0]
+                    ? renderMatchup(consolationByRound[1][0])
                     : consolationByeTeams[0]
                       ? renderByeMatchup(consolationByeTeams[0], "Plays lowest remaining seed")
                       : renderEmptyMatchup()
@@ -331,8 +324,8 @@ export const PlayoffBracket = ({
 
                 {/* Bottom round 2 - aligns with R1 match 2 */}
                 <div>
-                  {consolationByWeek[16][1]
-                    ? renderMatchup(consolationByWeek[16][1])
+                  {consolationByRound[1][1]
+                    ? renderMatchup(consolationByRound[1][1])
                     : consolationByeTeams[1]
                       ? renderByeMatchup(consolationByeTeams[1], "Plays highest remaining seed")
                       : renderEmptyMatchup()
@@ -346,13 +339,13 @@ export const PlayoffBracket = ({
                   <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400">8th Place (to loser)</span>
                 </div>
                 <div>
-                  {consolationByWeek[16][2] ? renderMatchup(consolationByWeek[16][2]) : renderEmptyMatchup()}
+                  {consolationByRound[1][2] ? renderMatchup(consolationByRound[1][2]) : renderEmptyMatchup()}
                 </div>
               </div>
             </div>
           </div>
 
-          {/* Round 3: Week 17 (Finals) */}
+          {/* Round 3 (Finals) */}
           <div className="flex-1">
             <div className="text-center py-1 mb-3">
               <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">Finals</span>
@@ -360,7 +353,7 @@ export const PlayoffBracket = ({
             <div className="space-y-4">
               <div style={{ paddingTop: '46px' }}>
                 <div>
-                  {consolationByWeek[17][0] ? renderMatchup(consolationByWeek[17][0]) : renderEmptyMatchup()}
+                  {consolationByRound[2][0] ? renderMatchup(consolationByRound[2][0]) : renderEmptyMatchup()}
                 </div>
               </div>
 
@@ -370,7 +363,7 @@ export const PlayoffBracket = ({
                   <span className="text-[10px] font-semibold text-gray-500 dark:text-gray-400">10th Place (to loser)</span>
                 </div>
                 <div>
-                  {consolationByWeek[17][1] ? renderMatchup(consolationByWeek[17][1]) : renderEmptyMatchup()}
+                  {consolationByRound[2][1] ? renderMatchup(consolationByRound[2][1]) : renderEmptyMatchup()}
                 </div>
               </div>
             </div>
@@ -12,6 +12,7 @@ import { calculateRankings } from '../../utils/ranking';
 import type { LeagueTier } from '../../types';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
 import { shouldShowMatchupColors } from '../../utils/nfl-schedule';
+import { getPlayoffByeCount, getPlayoffWeeks } from '../../utils/era-detection';
 
 interface BracketMatch {
   r: number; // round
@@ -57,8 +58,9 @@ interface LeagueBrackets {
   error?: string;
 }
 
-const PLAYOFF_WEEKS = [15, 16, 17];
 const CURRENT_YEAR = '2025';
+const PLAYOFF_WEEKS = getPlayoffWeeks(CURRENT_YEAR);
+const PLAYOFF_BYES = getPlayoffByeCount(CURRENT_YEAR);
 
 export const PlayoffMatchupList = () => {
   const { data: allStandings } = useAllStandings();
@@ -165,9 +167,9 @@ export const PlayoffMatchupList = () => {
             rosterToOwner[roster.roster_id] = roster.owner_id;
           });
 
-          // Get bye teams (seeds 1-2 for playoff, 7-8 for consolation)
+          // Get bye teams (top seeds for playoff, bottom seeds for consolation)
           const playoffByeTeams: ByeTeam[] = rankedStandings
-            .slice(0, 2)
+            .slice(0, PLAYOFF_BYES)
             .map(standing => ({
               userId: standing.userId,
               teamName: getCurrentTeamName(standing.userId, standing.userInfo.teamName),
@@ -175,9 +177,9 @@ export const PlayoffMatchupList = () => {
               seed: standing.rank
             }));
 
-          // Consolation/Toilet Bowl - seeds 11-12 get byes (worst teams)
+          // Consolation/Toilet Bowl - the bottom seeds get byes (worst teams)
           const consolationByeTeams: ByeTeam[] = rankedStandings
-            .slice(10, 12)
+            .slice(-PLAYOFF_BYES)
             .map(standing => ({
               userId: standing.userId,
               teamName: getCurrentTeamName(standing.userId, standing.userInfo.teamName),
@@ -247,11 +249,11 @@ export const PlayoffMatchupList = () => {
       matchesByRound[match.r].push(match);
     });
 
-    // Process each round (1 = quarterfinals/week 15, 2 = semifinals/week 16, 3 = finals/week 17)
-    [1, 2, 3].forEach(round => {
+    // Process each round (1 = quarterfinals, 2 = semifinals, 3 = finals), one playoff week each
+    PLAYOFF_WEEKS.forEach((week, roundIndex) => {
+      const round = roundIndex + 1;
       const roundMatches = matchesByRound[round] || [];
-      const week = PLAYOFF_WEEKS[round - 1]; // round 1 = week 15, etc.
-      const weekMatchupData = weekMatchups[round - 1] || [];
+      const weekMatchupData = weekMatchups[roundIndex] || [];
 
       roundMatches.forEach(match => {
         // Check if this is a bye (only one team)
@@ -432,7 +434,7 @@ export const PlayoffMatchupList = () => {
               Playoff Brackets
             </h1>
             <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-              Weeks 15-17
+              Weeks {PLAYOFF_WEEKS[0]}-{PLAYOFF_WEEKS[PLAYOFF_WEEKS.length - 1]}
             </p>
           </div>
         </div>
@@ -465,18 +467,10 @@ export const PlayoffMatchupList = () => {
         .map((leagueData) => {
           const colors = colorMap[leagueData.league];
 
-          // Group matchups by week for bracket display
-          const playoffByWeek = {
-            15: leagueData.playoffMatchups.filter(m => m.week === 15),
-            16: leagueData.playoffMatchups.filter(m => m.week === 16),
-            17: leagueData.playoffMatchups.filter(m => m.week === 17)
-          };
-
-          const consolationByWeek = {
-            15: leagueData.consolationMatchups.filter(m => m.week === 15),
-            16: leagueData.consolationMatchups.filter(m => m.week === 16),
-            17: leagueData.consolationMatchups.filter(m => m.week === 17)
-          };
+          // Group matchups by round for bracket display, using the league's playoff weeks
+          const playoffWeeks = getPlayoffWeeks(CURRENT_YEAR, leagueData.league);
+          const playoffByRound = playoffWeeks.map(week => leagueData.playoffMatchups.filter(m => m.week === week));
+          const consolationByRound = playoffWeeks.map(week => leagueData.consolationMatchups.filter(m => m.week === week));
 
           return (
             <div key={leagueData.league} className="py-4">
@@ -531,34 +525,34 @@ export const PlayoffMatchupList = () => {
                       {leagueData.playoffByeTeams.map(byeTeam => renderByeTeam(byeTeam, leagueData.league))}
                     </div>
 
-                    {/* Week 15 */}
+                    {/* Round 1 */}
                     <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                      <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Quarterfinals • Week 15</span>
+                      <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Quarterfinals • Week {playoffWeeks[0]}</span>
                     </div>
                     <div className="space-y-2">
-                      {playoffByWeek[15].map(matchup => renderMatchup(matchup, leagueData.league))}
+                      {playoffByRound[0].map(matchup => renderMatchup(matchup, leagueData.league))}
                     </div>
 
-                    {/* Week 16 */}
-                    {playoffByWeek[16].length > 0 && (
+                    {/* Round 2 */}
+                    {playoffByRound[1].length > 0 && (
                       <>
                         <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Semifinals • Week 16</span>
+                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Semifinals • Week {playoffWeeks[1]}</span>
                         </div>
                         <div className="space-y-2">
-                          {playoffByWeek[16].map(matchup => renderMatchup(matchup, leagueData.league))}
+                          {playoffByRound[1].map(matchup => renderMatchup(matchup, leagueData.league))}
                         </div>
                       </>
                     )}
 
-                    {/* Week 17 */}
-                    {playoffByWeek[17].length > 0 && (
+                    {/* Round 3 */}
+                    {playoffByRound[2].length > 0 && (
                       <>
                         <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Championship • Week 17</span>
+                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Championship • Week {playoffWeeks[2]}</span>
                         </div>
                         <div className="space-y-2">
-                          {playoffByWeek[17].map(matchup => renderMatchup(matchup, leagueData.league))}
+                          {playoffByRound[2].map(matchup => renderMatchup(matchup, leagueData.league))}
                         </div>
                       </>
                     )}
@@ -597,34 +591,34 @@ export const PlayoffMatchupList = () => {
                       {leagueData.consolationByeTeams.map(byeTeam => renderByeTeam(byeTeam, leagueData.league))}
                     </div>
 
-                    {/* Week 15 */}
+                    {/* Round 1 */}
                     <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                      <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 1 • Week 15</span>
+                      <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 1 • Week {playoffWeeks[0]}</span>
                     </div>
                     <div className="space-y-2">
-                      {consolationByWeek[15].map(matchup => renderMatchup(matchup, leagueData.league))}
+                      {consolationByRound[0].map(matchup => renderMatchup(matchup, leagueData.league))}
                     </div>
 
-                    {/* Week 16 */}
-                    {consolationByWeek[16].length > 0 && (
+                    {/* Round 2 */}
+                    {consolationByRound[1].length > 0 && (
                       <>
                         <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 2 • Week 16</span>
+                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Round 2 • Week {playoffWeeks[1]}</span>
                         </div>
                         <div className="space-y-2">
-                          {consolationByWeek[16].map(matchup => renderMatchup(matchup, leagueData.league))}
+                          {consolationByRound[1].map(matchup => renderMatchup(matchup, leagueData.league))}
                         </div>
                       </>
                     )}
 
-                    {/* Week 17 */}
-                    {consolationByWeek[17].length > 0 && (
+                    {/* Round 3 */}
+                    {consolationByRound[2].length > 0 && (
                       <>
                         <div className="text-center py-2 border-b border-gray-300 dark:border-gray-600 mt-3">
-                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Finals • Week 17</span>
+                          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase">Finals • Week {playoffWeeks[2]}</span>
                         </div>
                         <div className="space-y-2">
-                          {consolationByWeek[17].map(matchup => renderMatchup(matchup, leagueData.league))}
+                          {consolationByRound[2].map(matchup => renderMatchup(matchup, leagueData.league))}
                         </div>
                       </>
                     )}
@@ -1,3 +1,4 @@
+import { useMemo } from 'react';
 import { useAllStandings } from '../../hooks/useLeagues';
 import { TeamLogo } from '../Common/TeamLogo';
 import { Trophy, Star } from 'lucide-react';
@@ -6,14 +7,30 @@ import { getLeagueName } from '../../constants/leagues';
 import type { LeagueTier } from '../../types';
 import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
 import { calculateRankings, identifyDivisionLeaders, getDivisionName } from '../../utils/ranking';
+import { calculateClinchScenarios, getRemainingRegularSeasonWeeks, type ClinchInfo } from '../../utils/clinch-calculator';
+import { ClinchBadge, ClinchLegend } from '../Common/ClinchBadge';
+import { getPlayoffTeamCount } from '../../utils/era-detection';
 
 const CURRENT_YEAR = '2025';
-const PLAYOFF_SPOTS = 6;
 
 export const PlayoffSeeding = () => {
   const { data: allStandings, isLoading, error } = useAllStandings();
   const { openTeamProfile } = useTeamProfileModal();
 
+  // Exact clinch scenarios enumerate thousands of outcomes, so only recompute when standings change
+  const clinchInfoByLeague = useMemo(() => {
+    const clinchInfo = new Map<string, Map<string, ClinchInfo>>();
+    (allStandings || []).filter(s => s.year === CURRENT_YEAR).forEach(leagueData => {
+      const matchupsByWeek = leagueData.matchupsByWeek;
+      if (!matchupsByWeek) return;
+      clinchInfo.set(
+        leagueData.league,
+        calculateClinchScenarios(leagueData.standings, matchupsByWeek, CURRENT_YEAR, getRemainingRegularSeasonWeeks(matchupsByWeek, CURRENT_YEAR))
+      );
+    });
+    return clinchInfo;
+  }, [allStandings]);
+
   if (isLoading) {
     return (
       <div className="card">
@@ -75,9 +92,12 @@ export const PlayoffSeeding = () => {
         </div>
 
         {/* Legend - shown once for entire section */}
-        <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
-          <Star className="w-3.5 h-3.5 text-gray-400" fill="currentColor" />
-          <span>Division Winner</span>
+        <div className="flex flex-col items-end gap-1.5">
+          <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <Star className="w-3.5 h-3.5 text-gray-400" fill="currentColor" />
+            <span>Division Winner</span>
+          </div>
+          <ClinchLegend />
         </div>
       </div>
 
@@ -95,12 +115,19 @@ export const PlayoffSeeding = () => {
           // Calculate rankings using the same logic as standings page
           const rankedStandings = calculateRankings(leagueData.standings, matchupsByWeek, CURRENT_YEAR);
 
-          // Get top 6 teams (playoff teams)
-          const playoffTeams = rankedStandings.slice(0, PLAYOFF_SPOTS);
+          // Get playoff teams (top 6)
+          const playoffTeams = rankedStandings.slice(0, getPlayoffTeamCount(CURRENT_YEAR, league));
 
           // Identify division leaders
           const divisionLeaderInfo = identifyDivisionLeaders(rankedStandings, matchupsByWeek, CURRENT_YEAR);
 
+          // Clinch/elimination badges
+          const clinchInfo = clinchInfoByLeague.get(league) || null;
+          const getTeamAbbreviation = (userId: string) => {
+            const standing = leagueData.standings.find(s => s.userId === userId);
+            return standing ? getCurrentAbbreviation(userId, standing.userInfo.abbreviation) : 'TBD';
+          };
+
           // Get division names
           const divisionNames = (leagueData as any).divisionNames;
           const hasDivisions = rankedStandings.some(s => s.division !== undefined && s.division !== null);
@@ -176,6 +203,7 @@ export const PlayoffSeeding = () => {
                             {(isFirstDivisionLeader || isSecondDivisionLeader || isThirdDivisionLeader) && (
                               <Star className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" fill="currentColor" />
                             )}
+                            <ClinchBadge info={clinchInfo?.get(team.userId)} getTeamLabel={getTeamAbbreviation} />
                           </div>
                           <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1.5 flex-wrap">
                             <span className="font-mono">
@@ -247,6 +275,7 @@ export const PlayoffSeeding = () => {
                                 {(isFirstDivisionLeader || isSecondDivisionLeader || isThirdDivisionLeader) && (
                                   <Star className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" fill="currentColor" />
                                 )}
+                                <ClinchBadge info={clinchInfo?.get(team.userId)} getTeamLabel={getTeamAbbreviation} />
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1.5 flex-wrap">
                                 <span className="font-mono">
@@ -315,6 +344,7 @@ export const PlayoffSeeding = () => {
                                 {(isFirstDivisionLeader || isSecondDivisionLeader || isThirdDivisionLeader) && (
                                   <Star className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" fill="currentColor" />
                                 )}
+                                <ClinchBadge info={clinchInfo?.get(team.userId)} getTeamLabel={getTeamAbbreviation} />
                               </div>
                               <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1.5 flex-wrap">
                                 <span className="font-mono">
@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import { TeamLogo } from '../Common/TeamLogo';
-import { Trophy, Medal, Award, TrendingDown, Calendar, Target, BarChart3, ChevronDown, ChevronUp, Percent, TrendingUp, Zap } from 'lucide-react';
+import { Trophy, Medal, Award, TrendingDown, Calendar, Target, BarChart3, ChevronDown, ChevronUp, Percent, TrendingUp, Zap, Users, Dices, ArrowLeftRight } from 'lucide-react';
+import type { AllPlayRecord } from '../../utils/all-play';
+import { formatLuck } from '../../utils/all-play';
+import type { MemberTradeRecord } from '../../utils/trade-analyzer';
 
 interface PlayerCareerStats {
   userId: string; // Deprecated: use ffuUserId instead
@@ -35,15 +38,17 @@ interface PlayerCareerStats {
   }>;
 }
 
-type SortKey = 'teamName' | 'record' | 'playoffRecord' | 'winPercentage' | 'ppg' | 'pointDifferential' | 'averageRank' | 'seasons' | 'firstPlace' | 'playoffAppearances';
+type SortKey = 'teamName' | 'record' | 'playoffRecord' | 'winPercentage' | 'ppg' | 'pointDifferential' | 'averageRank' | 'seasons' | 'firstPlace' | 'playoffAppearances' | 'allPlay' | 'luck' | 'tradeWinRate';
 type SortOrder = 'asc' | 'desc';
 
 interface AllMembersStatsTableProps {
   players: PlayerCareerStats[];
+  allPlayRecords?: Map<string, AllPlayRecord>; // Career totals keyed by ffuUserId (see calculateCareerAllPlay)
+  tradeRecords?: Map<string, MemberTradeRecord>; // Career trade records keyed by ffuUserId (see calculateTradeRecords)
   onClose: () => void;
 }
 
-export const AllMembersStatsTable = ({ players, onClose }: AllMembersStatsTableProps) => {
+export const AllMembersStatsTable = ({ players, allPlayRecords, tradeRecords, onClose }: AllMembersStatsTableProps) => {
   const [sortKey, setSortKey] = useState<SortKey>('winPercentage');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
 
@@ -79,6 +84,15 @@ export const AllMembersStatsTable = ({ players, onClose }: AllMembersStatsTableP
         return player.firstPlaceFinishes;
       case 'playoffAppearances':
         return player.playoffAppearances;
+      case 'allPlay': {
+        const allPlay = allPlayRecords?.get(player.ffuUserId);
+        const allPlayGames = allPlay ? allPlay.wins + allPlay.losses + allPlay.ties : 0;
+        return allPlay && allPlayGames > 0 ? (allPlay.wins + allPlay.ties * 0.5) / allPlayGames : 0;
+      }
+      case 'luck':
+        return allPlayRecords?.get(player.ffuUserId)?.luck || 0;
+      case 'tradeWinRate':
+        return tradeRecords?.get(player.ffuUserId)?.winRate ?? -1; // Members who never traded sort last
       default:
         return 0;
     }
@@ -152,12 +166,23 @@ export const AllMembersStatsTable = ({ players, onClose }: AllMembersStatsTableP
                   <th className="text-center text-xs">3rd Place</th>
                   <th className="text-center text-xs">Last Place</th>
                   <SortHeader sortKey="playoffAppearances">Playoffs</SortHeader>
+                  {allPlayRecords && (
+                    <>
+                      <SortHeader sortKey="allPlay">All-Play</SortHeader>
+                      <SortHeader sortKey="luck">Luck</SortHeader>
+                    </>
+                  )}
+                  {tradeRecords && (
+                    <SortHeader sortKey="tradeWinRate">Trade Win %</SortHeader>
+                  )}
                 </tr>
               </thead>
               <tbody>
                 {sortedPlayers.map((player) => {
                   const totalGames = player.totalWins + player.totalLosses;
                   const ppg = totalGames > 0 ? player.totalPointsFor / totalGames : 0;
+                  const allPlay = allPlayRecords?.get(player.ffuUserId);
+                  const tradeRecord = tradeRecords?.get(player.ffuUserId);
                   
                   return (
                     <tr key={player.ffuUserId || player.userId} className="table-row">
@@ -280,6 +305,40 @@ export const AllMembersStatsTable = ({ players, onClose }: AllMembersStatsTableP
                           </span>
                         </div>
                       </td>
+                      {allPlayRecords && (
+                        <>
+                          <td className="text-center">
+                            <div className="flex items-center justify-center space-x-1" title={allPlay ? `${allPlay.expectedWins.toFixed(1)} expected wins` : undefined}>
+                              <Users className="h-4 w-4 text-teal-600" />
+                              <span className="font-mono font-bold text-gray-900 dark:text-gray-100">
+                                {allPlay ? `${allPlay.wins}-${allPlay.losses}${allPlay.ties ? `-${allPlay.ties}` : ''}` : '—'}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="text-center">
+                            <div className="flex items-center justify-center space-x-1">
+                              <Dices className="h-4 w-4 text-pink-600" />
+                              <span className={`font-mono font-bold ${
+                                !allPlay || Math.abs(allPlay.luck) < 0.05
+                                  ? 'text-gray-900 dark:text-gray-100'
+                                  : allPlay.luck > 0 ? 'text-green-600' : 'text-red-600'
+                              }`}>
+                                {allPlay ? formatLuck(allPlay.luck) : '—'}
+                              </span>
+                            </div>
+                          </td>
+                        </>
+                      )}
+                      {tradeRecords && (
+                        <td className="text-center">
+                          <div className="flex items-center justify-center space-x-1" title={tradeRecord ? `${tradeRecord.wins}-${tradeRecord.losses}-${tradeRecord.ties} in ${tradeRecord.trades} trades` : undefined}>
+                            <ArrowLeftRight className="h-4 w-4 text-purple-600" />
+                            <span className="font-mono font-bold text-gray-900 dark:text-gray-100">
+                              {tradeRecord ? `${(tradeRecord.winRate * 100).toFixed(0)}%` : '—'}
+                            </span>
+                          </div>
+                        </td>
+                      )}
                     </tr>
                   );
                 })}
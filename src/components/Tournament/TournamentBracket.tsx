@@ -0,0 +1,128 @@
+import { Swords, Ticket } from 'lucide-react';
+import { TeamLogo } from '../Common/TeamLogo';
+import type { LeagueTier, MidSeasonTournamentData, TournamentMatchup, TournamentTeam } from '../../types';
+import { useTeamProfileModal } from '../../contexts/TeamProfileModalContext';
+import { TOURNAMENT_BRACKET_SIZE } from '../../services/tournament.service';
+
+interface TournamentBracketProps {
+  tournament: MidSeasonTournamentData;
+}
+
+const ROUND_NAMES = ['Round of 32', 'Round of 16', 'Quarterfinals', 'Semifinals', 'Finals'];
+
+const leagueDotMap: Record<LeagueTier, string> = {
+  PREMIER: 'bg-yellow-500',
+  MASTERS: 'bg-purple-500',
+  NATIONAL: 'bg-red-500'
+};
+
+export const TournamentBracket = ({ tournament }: TournamentBracketProps) => {
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const renderEmptyMatchup = (key: string) => (
+    <div key={key} className="bg-gray-50 dark:bg-gray-800/50 py-3 px-2 rounded-lg h-[92px] flex items-center justify-center border-2 border-dashed border-gray-300 dark:border-gray-600">
+      <span className="text-xs text-gray-400 dark:text-gray-500 italic">TBD</span>
+    </div>
+  );
+
+  const renderTeam = (team: TournamentTeam, isWinner: boolean) => (
+    <div className={`flex items-center justify-between ${isWinner ? 'bg-green-50 dark:bg-green-900/20 rounded-full px-1' : ''}`}>
+      <div className="flex items-center space-x-1.5 min-w-0 flex-1">
+        <TeamLogo
+          teamName={team.teamName}
+          abbreviation={team.abbreviation}
+          size="sm"
+          clickable
+          onClick={() => openTeamProfile(team.userId, team.teamName)}
+        />
+        <div className="min-w-0 flex-1">
+          <div className={`font-medium text-xs truncate flex items-center ${isWinner ? 'text-green-700 dark:text-green-300' : 'text-gray-900 dark:text-gray-100'}`}>
+            <span className={`inline-block w-1.5 h-1.5 rounded-full mr-1 flex-shrink-0 ${leagueDotMap[team.league]}`} title={team.league} />
+            {team.seed !== null && <span className="font-bold mr-1">#{team.seed}</span>}
+            <span className="truncate">{team.teamName}</span>
+            {team.isPlayInWinner && (
+              <span title="Play-in winner">
+                <Ticket className="h-3 w-3 ml-1 flex-shrink-0 text-gray-400 dark:text-gray-500" />
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+      <div className="text-xs font-mono font-bold text-gray-900 dark:text-gray-100 px-2">
+        {team.score.toFixed(2)}
+      </div>
+    </div>
+  );
+
+  const renderMatchup = (matchup: TournamentMatchup, key: string) => (
+    <div key={key} className="bg-gray-50 dark:bg-white/10 py-3 px-2 rounded-lg h-[92px]">
+      <div className="space-y-1">
+        {renderTeam(matchup.team1, matchup.winner === matchup.team1.userId)}
+        {matchup.team2 && renderTeam(matchup.team2, matchup.winner === matchup.team2.userId)}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Play-In Round */}
+      <div className="champion-highlight py-4 px-4 relative overflow-hidden border-l-4 bg-gray-100 dark:bg-gray-800/50">
+        <div className="mb-4">
+          <div className="flex items-center gap-2 mb-1">
+            <Ticket className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+            <span className="text-lg font-black text-gray-700 dark:text-gray-300 tracking-wide">
+              Play-In Round
+            </span>
+          </div>
+          <p className="text-[10px] text-gray-500 dark:text-gray-400 italic">
+            Week {tournament.playInRound.week} · Winners take the bottom four seeds
+          </p>
+        </div>
+        {tournament.playInRound.matchups.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {tournament.playInRound.matchups.map(matchup => renderMatchup(matchup, `play-in-${matchup.matchupId}`))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No play-in round this season.</p>
+        )}
+      </div>
+
+      {/* Main Bracket */}
+      <div className="champion-highlight py-4 px-4 relative overflow-hidden border-l-4 bg-gray-100 dark:bg-gray-800/50">
+        <div className="flex items-center gap-2 mb-4">
+          <Swords className="h-5 w-5 text-gray-700 dark:text-gray-300" />
+          <span className="text-lg font-black text-gray-700 dark:text-gray-300 tracking-wide">
+            Tournament Bracket
+          </span>
+        </div>
+
+        <div className="overflow-x-auto">
+          <div className="flex gap-6 min-w-[1100px]">
+            {ROUND_NAMES.map((name, roundIndex) => {
+              const round = tournament.rounds[roundIndex];
+              const matchupCount = TOURNAMENT_BRACKET_SIZE / Math.pow(2, roundIndex + 1);
+
+              return (
+                <div key={name} className="flex-1 flex flex-col">
+                  <div className="text-center py-1 mb-3">
+                    <span className="text-[10px] font-semibold text-gray-600 dark:text-gray-400 uppercase">{name}</span>
+                    {round && (
+                      <div className="text-[10px] text-gray-500 dark:text-gray-500">Week {round.week}</div>
+                    )}
+                  </div>
+                  <div className="flex-1 flex flex-col justify-around gap-4">
+                    {Array.from({ length: matchupCount }, (_, index) => {
+                      const matchup = round?.matchups.find(m => m.matchupId === index + 1);
+                      const key = `${name}-${index}`;
+                      return matchup ? renderMatchup(matchup, key) : renderEmptyMatchup(key);
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
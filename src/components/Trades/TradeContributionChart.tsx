@@ -0,0 +1,96 @@
+import type { TradeSide } from '../../types';
+
+interface TradeContributionChartProps {
+  sides: TradeSide[];
+  getTeamName: (userId: string) => string;
+}
+
+const SIDE_COLORS = ['#3b82f6', '#f59e0b', '#22c55e']; // blue-500, amber-500, green-500
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 16, right: 8, bottom: 24, left: 40 };
+
+// Week-by-week started points of each side's new players, playoff weeks shaded
+export const TradeContributionChart = ({ sides, getTeamName }: TradeContributionChartProps) => {
+  const weeks = sides[0]?.weeks || [];
+  if (weeks.length === 0) return null;
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxPoints = Math.max(...sides.flatMap(side => side.weeks.map(week => week.points)), 1);
+  const slotWidth = plotWidth / weeks.length;
+  const barWidth = Math.min((slotWidth * 0.8) / sides.length, 20);
+  const yScale = (points: number) => (points / maxPoints) * plotHeight;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {/* Playoff weeks */}
+        {weeks.map((week, index) => week.isPlayoff && (
+          <rect
+            key={`playoff-${week.week}`}
+            x={PADDING.left + index * slotWidth}
+            y={PADDING.top}
+            width={slotWidth}
+            height={plotHeight}
+            className="fill-yellow-100 dark:fill-yellow-900/30"
+          />
+        ))}
+
+        {/* Gridlines */}
+        {[0, 0.5, 1].map(fraction => {
+          const y = PADDING.top + plotHeight - fraction * plotHeight;
+          return (
+            <g key={fraction}>
+              <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y} y2={y} stroke="currentColor" className="text-gray-200 dark:text-gray-700" />
+              <text x={PADDING.left - 4} y={y + 3} textAnchor="end" fontSize="9" className="fill-gray-500 dark:fill-gray-400">
+                {Math.round(maxPoints * fraction)}
+              </text>
+            </g>
+          );
+        })}
+
+        {weeks.map((week, index) => {
+          const groupX = PADDING.left + index * slotWidth + (slotWidth - barWidth * sides.length) / 2;
+          return (
+            <g key={week.week}>
+              {sides.map((side, sideIndex) => {
+                const points = side.weeks[index]?.points || 0;
+                const height = yScale(points);
+                return (
+                  <rect
+                    key={side.userId}
+                    x={groupX + sideIndex * barWidth}
+                    y={PADDING.top + plotHeight - height}
+                    width={barWidth}
+                    height={height}
+                    fill={SIDE_COLORS[sideIndex % SIDE_COLORS.length]}
+                  >
+                    <title>{`Week ${week.week} ${getTeamName(side.userId)}: ${points.toFixed(1)}`}</title>
+                  </rect>
+                );
+              })}
+              <text x={PADDING.left + index * slotWidth + slotWidth / 2} y={CHART_HEIGHT - PADDING.bottom + 12} textAnchor="middle" fontSize="9" className="fill-gray-600 dark:fill-gray-300">
+                W{week.week}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="mt-2 flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {sides.map((side, sideIndex) => (
+          <span key={side.userId} className="inline-flex items-center gap-1">
+            <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SIDE_COLORS[sideIndex % SIDE_COLORS.length] }} />
+            {getTeamName(side.userId)}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1">
+          <span className="inline-block w-2.5 h-2.5 rounded-sm bg-yellow-100 dark:bg-yellow-900/30" />
+          Playoffs
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import type { LeagueSettings, LeagueTier } from '../types';
+
+// League rules per season and tier - the single source of truth for season length,
+// playoff format, promotion/relegation, roster and scoring. A rule change (an 18-week
+// season, 14-team leagues, a new tier) is an edit here; everything in
+// utils/era-detection.ts derives from it.
+
+const ESPN_SETTINGS: LeagueSettings = {
+  platform: 'ESPN',
+  teams: 12,
+  divisions: 0,
+  regularSeasonWeeks: 13,
+  playoffWeeks: [14, 15, 16],
+  playoffTeams: 6,
+  playoffByes: 2,
+  rosterSlots: ['QB', 'RB', 'RB', 'WR', 'WR', 'TE', 'FLEX', 'FLEX', 'DEF'],
+  scoringType: 'half_ppr',
+  promotionSpots: 0,
+  relegationSpots: 0
+};
+
+// Promotion/relegation started with the move to Sleeper
+const SLEEPER_SETTINGS: LeagueSettings = {
+  ...ESPN_SETTINGS,
+  platform: 'SLEEPER',
+  regularSeasonWeeks: 14,
+  playoffWeeks: [15, 16, 17],
+  promotionSpots: 2,
+  relegationSpots: 2
+};
+
+const SLEEPER_DIVISION_SETTINGS: LeagueSettings = {
+  ...SLEEPER_SETTINGS,
+  divisions: 3
+};
+
+// Only the tiers listed for a season existed that season
+export const LEAGUE_SETTINGS: Record<string, Partial<Record<LeagueTier, LeagueSettings>>> = {
+  '2018': { PREMIER: ESPN_SETTINGS, NATIONAL: ESPN_SETTINGS },
+  '2019': { PREMIER: ESPN_SETTINGS, NATIONAL: ESPN_SETTINGS },
+  '2020': { PREMIER: ESPN_SETTINGS, NATIONAL: ESPN_SETTINGS },
+  '2021': { PREMIER: SLEEPER_SETTINGS, NATIONAL: SLEEPER_SETTINGS },
+  '2022': { PREMIER: SLEEPER_SETTINGS, MASTERS: SLEEPER_SETTINGS, NATIONAL: SLEEPER_SETTINGS },
+  '2023': { PREMIER: SLEEPER_SETTINGS, MASTERS: SLEEPER_SETTINGS, NATIONAL: SLEEPER_SETTINGS },
+  '2024': { PREMIER: SLEEPER_SETTINGS, MASTERS: SLEEPER_SETTINGS, NATIONAL: SLEEPER_SETTINGS },
+  '2025': { PREMIER: SLEEPER_DIVISION_SETTINGS, MASTERS: SLEEPER_DIVISION_SETTINGS, NATIONAL: SLEEPER_DIVISION_SETTINGS }
+};
+
+const TIER_ORDER: LeagueTier[] = ['PREMIER', 'MASTERS', 'NATIONAL'];
+
+const CONFIGURED_YEARS = Object.keys(LEAGUE_SETTINGS).sort();
+
+// Seasons not configured yet carry the most recent rules forward; years before the
+// first season use the first season's rules
+const resolveSettingsYear = (year: string): string => {
+  const configured = CONFIGURED_YEARS.filter(configuredYear => configuredYear <= year);
+  return configured[configured.length - 1] || CONFIGURED_YEARS[0];
+};
+
+/**
+ * All tiers' settings for a season, in tier order
+ */
+export const getSeasonSettings = (year: string): Partial<Record<LeagueTier, LeagueSettings>> => {
+  return LEAGUE_SETTINGS[resolveSettingsYear(year)];
+};
+
+/**
+ * Tiers that played in a season
+ */
+export const getSeasonTiers = (year: string): LeagueTier[] => {
+  const seasonSettings = getSeasonSettings(year);
+  return TIER_ORDER.filter(tier => seasonSettings[tier]);
+};
+
+/**
+ * Settings for one league season. Without a tier (or for a tier that didn't play that
+ * season) this returns the season's top tier, which is enough for calendar questions
+ * since every tier shares the same weeks.
+ */
+export const getLeagueSettings = (year: string, league?: LeagueTier): LeagueSettings => {
+  const seasonSettings = getSeasonSettings(year);
+  return (league && seasonSettings[league]) || seasonSettings[getSeasonTiers(year)[0]]!;
+};
@@ -0,0 +1,119 @@
+import membersData from './members.json';
+
+// FFU member registry - one entry per person, keyed by ffuId. Each member owns every
+// platform identity they have played under, so renamed or replaced accounts still
+// resolve to one career. Edit members.json, not this file.
+
+// sleeper: a Sleeper user ID
+// co-owner: a Sleeper user ID co-managing the member's team
+// legacy: placeholder user ID the ESPN-era data files use for members who never had a Sleeper account
+// espn: an ESPN username
+type MemberIdentityType = 'sleeper' | 'co-owner' | 'legacy' | 'espn';
+
+interface MemberIdentity {
+  type: MemberIdentityType;
+  id: string;
+  from?: string; // First season the identity applies to (inclusive), open-ended if missing
+  to?: string; // Last season the identity applies to (inclusive), open-ended if missing
+}
+
+interface MemberRecord {
+  ffuId: string;
+  teamName: string;
+  abbreviation: string;
+  joinedYear: number;
+  isActive: boolean;
+  historicalTeamNames?: { [year: string]: string }; // Year -> team name
+  identities: MemberIdentity[];
+}
+
+interface UserConfig extends MemberRecord {
+  sleeperId: string; // The member's current user ID, the one live Sleeper data uses
+  espnUsername?: string; // For historical mapping
+}
+
+// Identity types that appear as a user ID in league data
+const USER_ID_TYPES: MemberIdentityType[] = ['sleeper', 'co-owner', 'legacy'];
+
+const isInRange = (identity: MemberIdentity, year: string): boolean => {
+  return (!identity.from || identity.from <= year) && (!identity.to || identity.to >= year);
+};
+
+// The member's own account still in use, falling back to the most recent one
+const getPrimaryUserId = (member: MemberRecord): string => {
+  const ownIds = member.identities.filter(identity => identity.type === 'sleeper' || identity.type === 'legacy');
+  const current = ownIds.find(identity => !identity.to);
+  const latest = [...ownIds].sort((a, b) => (b.to || '').localeCompare(a.to || ''))[0];
+  return (current || latest)?.id || member.identities[0]?.id || member.ffuId;
+};
+
+const toUserConfig = (member: MemberRecord): UserConfig => ({
+  ...member,
+  sleeperId: getPrimaryUserId(member),
+  espnUsername: member.identities.find(identity => identity.type === 'espn')?.id
+});
+
+export const MEMBERS: UserConfig[] = (membersData.members as MemberRecord[]).map(toUserConfig);
+
+const membersByFFUId = new Map(MEMBERS.map(member => [member.ffuId, member]));
+
+// One ID can belong to different members in different seasons (a co-owner who later
+// takes over their own team), so each ID keeps every claim with its range
+const claimsById = new Map<string, { member: UserConfig; identity: MemberIdentity }[]>();
+MEMBERS.forEach(member => member.identities.forEach(identity => {
+  const key = `${identity.type === 'espn' ? 'espn' : 'user'}:${identity.id}`;
+  claimsById.set(key, [...(claimsById.get(key) || []), { member, identity }]);
+}));
+
+const resolveClaim = (key: string, year?: string): UserConfig | undefined => {
+  const claims = claimsById.get(key);
+  if (!claims) return undefined;
+
+  const inSeason = year ? claims.find(claim => isInRange(claim.identity, year)) : undefined;
+  if (inSeason) return inSeason.member;
+
+  // Otherwise the claim still in effect wins
+  return (claims.find(claim => !claim.identity.to) || claims[claims.length - 1]).member;
+};
+
+/**
+ * Member owning a user ID (Sleeper account, co-owner or legacy placeholder), optionally
+ * as of a season
+ */
+export const resolveMemberByUserId = (userId: string, year?: string): UserConfig | undefined => {
+  if (!userId) return undefined;
+  return resolveClaim(`user:${userId}`, year);
+};
+
+export const resolveMemberByEspnUsername = (espnUsername: string, year?: string): UserConfig | undefined => {
+  if (!espnUsername) return undefined;
+  return resolveClaim(`espn:${espnUsername}`, year);
+};
+
+export const resolveMemberByFFUId = (ffuId: string): UserConfig | undefined => {
+  return membersByFFUId.get(ffuId);
+};
+
+/**
+ * The user ID a member's own team played under in a season - the inverse of
+ * resolveMemberByUserId, for turning ffuIds back into league data IDs
+ */
+export const getMemberUserIdForSeason = (ffuId: string, year: string): string | undefined => {
+  const member = membersByFFUId.get(ffuId);
+  if (!member) return undefined;
+  const inSeason = member.identities.find(identity =>
+    (identity.type === 'sleeper' || identity.type === 'legacy') && isInRange(identity, year)
+  );
+  return inSeason?.id || member.sleeperId;
+};
+
+/**
+ * Every user ID that has played as this member, in registry order
+ */
+export const getMemberUserIds = (ffuId: string): string[] => {
+  const member = membersByFFUId.get(ffuId);
+  if (!member) return [];
+  return member.identities.filter(identity => USER_ID_TYPES.includes(identity.type)).map(identity => identity.id);
+};
+
+export type { MemberIdentityType, MemberIdentity, MemberRecord, UserConfig };
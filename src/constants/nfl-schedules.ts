@@ -0,0 +1,33 @@
+import type { NFLSeasonSchedule } from '../types';
+
+// NFL regular season calendars keyed by season.
+// Regenerate with `npm run fetch-nfl-schedule`, which builds every season (dates, kickoffs
+// and matchups) from the nflverse games file. 2025 was carried over from the old
+// hand-maintained week table, so it has week dates but no games until regenerated.
+// Seasons missing here fall back to an estimated calendar (see utils/nfl-schedule.ts).
+export const NFL_SCHEDULES: Record<string, NFLSeasonSchedule> = {
+  '2025': {
+    season: '2025',
+    timeZone: 'America/New_York',
+    weeks: [
+      { week: 1, startDate: '2025-09-04', endDate: '2025-09-10' },
+      { week: 2, startDate: '2025-09-11', endDate: '2025-09-17' },
+      { week: 3, startDate: '2025-09-18', endDate: '2025-09-24' },
+      { week: 4, startDate: '2025-09-25', endDate: '2025-10-01' },
+      { week: 5, startDate: '2025-10-02', endDate: '2025-10-08' },
+      { week: 6, startDate: '2025-10-09', endDate: '2025-10-15' },
+      { week: 7, startDate: '2025-10-16', endDate: '2025-10-22' },
+      { week: 8, startDate: '2025-10-23', endDate: '2025-10-29' },
+      { week: 9, startDate: '2025-10-30', endDate: '2025-11-05' },
+      { week: 10, startDate: '2025-11-06', endDate: '2025-11-12' },
+      { week: 11, startDate: '2025-11-13', endDate: '2025-11-19' },
+      { week: 12, startDate: '2025-11-20', endDate: '2025-11-26' },
+      { week: 13, startDate: '2025-11-27', endDate: '2025-12-03' },
+      { week: 14, startDate: '2025-12-04', endDate: '2025-12-10' },
+      { week: 15, startDate: '2025-12-11', endDate: '2025-12-17' },
+      { week: 16, startDate: '2025-12-18', endDate: '2025-12-24' },
+      { week: 17, startDate: '2025-12-25', endDate: '2025-12-31' },
+      { week: 18, startDate: '2026-01-01', endDate: '2026-01-07' }
+    ]
+  }
+};
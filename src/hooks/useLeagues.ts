@@ -9,11 +9,23 @@ import type {
   UseAllStandingsReturn,
   UseLeagueStandingsReturn,
   UseWeekMatchupsReturn,
+  WeekMatchup,
   WeekMatchupsResponse,
   AllTimeRecords,
   UseHeadToHeadReturn,
   HeadToHeadStats,
-  HeadToHeadMatchup
+  HeadToHeadMatchup,
+  MidSeasonTournamentData,
+  MemberEloRating,
+  PlayerHistory,
+  PlayerData,
+  SeasonTransaction,
+  TradeAnalysis,
+  PickupValue,
+  DraftGrades,
+  DraftSlotSeason,
+  SeasonSeedingMismatches,
+  LineupSeason
 } from '../types';
 
 export const useAllStandings = (): UseAllStandingsReturn => {
@@ -262,4 +274,361 @@ export const useHeadToHeadMatchups = (player1Id: string, player2Id: string): Use
     isLoading: cacheLoading, 
     error: error || cacheError || undefined
   };
-};
\ No newline at end of file
+};
+export const useMidSeasonTournament = (year: string) => {
+  const [data, setData] = useState<MidSeasonTournamentData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const tournament = await leagueApi.getMidSeasonTournament(year);
+      setData(tournament);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch mid-season tournament';
+      setError(errorMessage);
+      console.error('Error fetching mid-season tournament:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [year]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useEloRatings = () => {
+  const [data, setData] = useState<MemberEloRating[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const ratings = await leagueApi.getEloRatings();
+      setData(ratings);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to calculate Elo ratings';
+      setError(errorMessage);
+      console.error('Error calculating Elo ratings:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+// Nothing is fetched until a year is given, so a page can load lineups only when a view needs them
+export const useSeasonLineupMatchups = (league: LeagueTier, year: string) => {
+  const [data, setData] = useState<Record<number, WeekMatchup[]> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    if (!league || !year) {
+      setData(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const matchups = await leagueApi.getSeasonLineupMatchups(league, year);
+      setData(matchups);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch season lineups';
+      setError(errorMessage);
+      console.error('Error fetching season lineups:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [league, year]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useLineupSeasons = () => {
+  const [data, setData] = useState<LineupSeason[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const seasons = await leagueApi.getLineupSeasons();
+      setData(seasons);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch lineups';
+      setError(errorMessage);
+      console.error('Error fetching lineups:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const usePlayerHistory = (playerId: string) => {
+  const [data, setData] = useState<PlayerHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const history = await leagueApi.getPlayerHistory(playerId);
+      setData(history);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch player history';
+      setError(errorMessage);
+      console.error('Error fetching player history:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [playerId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const usePlayerData = () => {
+  const [data, setData] = useState<PlayerData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const playerData = await leagueApi.getPlayerData();
+      setData(playerData);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch player data';
+      setError(errorMessage);
+      console.error('Error fetching player data:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useLeagueTransactions = (league: LeagueTier, year: string) => {
+  const [data, setData] = useState<SeasonTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const transactions = await leagueApi.getLeagueTransactions(league, year);
+      setData(transactions);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch transactions';
+      setError(errorMessage);
+      console.error('Error fetching transactions:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [league, year]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useTradeAnalyses = () => {
+  const [data, setData] = useState<TradeAnalysis[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const analyses = await leagueApi.getTradeAnalyses();
+      setData(analyses);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch trades';
+      setError(errorMessage);
+      console.error('Error fetching trades:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useTradeAnalysis = (league: LeagueTier, year: string, transactionId: string) => {
+  const [data, setData] = useState<TradeAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const analysis = await leagueApi.getTradeAnalysis(league, year, transactionId);
+      setData(analysis);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch trade';
+      setError(errorMessage);
+      console.error('Error fetching trade:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [league, year, transactionId]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const usePickups = () => {
+  const [data, setData] = useState<PickupValue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const pickups = await leagueApi.getPickups();
+      setData(pickups);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch pickups';
+      setError(errorMessage);
+      console.error('Error fetching pickups:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useDraftGrades = () => {
+  const [data, setData] = useState<DraftGrades>({ picks: [], teams: [] });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const grades = await leagueApi.getDraftGrades();
+      setData(grades);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch draft grades';
+      setError(errorMessage);
+      console.error('Error fetching draft grades:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useDraftSlotSeasons = () => {
+  const [data, setData] = useState<DraftSlotSeason[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const seasons = await leagueApi.getDraftSlotSeasons();
+      setData(seasons);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch draft slots';
+      setError(errorMessage);
+      console.error('Error fetching draft slots:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
+
+export const useSeedingMismatches = () => {
+  const [data, setData] = useState<SeasonSeedingMismatches[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string>();
+
+  const fetchData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(undefined);
+      const seasons = await leagueApi.getSeedingMismatches();
+      setData(seasons);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check seeding';
+      setError(errorMessage);
+      console.error('Error checking seeding:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, isLoading, error };
+};
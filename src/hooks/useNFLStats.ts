@@ -11,7 +11,7 @@ export const useNFLStats = (season: string = '2025'): UseNFLStatsReturn => {
 
   useEffect(() => {
     const fetchNFLStats = async () => {
-      const currentWeek = getCurrentNFLWeek();
+      const currentWeek = getCurrentNFLWeek(season);
 
       if (!currentWeek) {
         setIsLoading(false);
@@ -26,7 +26,7 @@ export const useNFLStats = (season: string = '2025'): UseNFLStatsReturn => {
         // Show current week's stats starting Thursday (when TNF begins)
         // If before Thursday, show previous week's stats
         let targetWeek = currentWeek;
-        const weekInfo = getNFLWeekInfo(currentWeek);
+        const weekInfo = getNFLWeekInfo(currentWeek, season);
         const now = new Date();
 
         if (weekInfo) {
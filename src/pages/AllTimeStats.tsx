@@ -1,30 +1,36 @@
 import { useEffect, useMemo, useState } from 'react';
-import { useAllStandings } from '../hooks/useLeagues';
+import { useAllStandings, useTradeAnalyses } from '../hooks/useLeagues';
 import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { ErrorMessage } from '../components/Common/ErrorMessage';
 import { TeamLogo } from '../components/Common/TeamLogo';
 import { LeagueBadge } from '../components/League/LeagueBadge';
 import { UPRHorserace } from '../components/League/UPRHorserace';
+import { EloLeaderboard } from '../components/Members/EloLeaderboard';
+import { LineupEfficiencyLeaderboard } from '../components/Members/LineupEfficiencyLeaderboard';
+import { PositionalScoringTable } from '../components/League/PositionalScoringTable';
 import { useUrlParams } from '../hooks/useUrlParams';
 import { getFFUIdBySleeperId, isActiveYear } from '../config/constants';
+import { getPlayoffTeamCount } from '../utils/era-detection';
 import type { UserInfo, LeagueTier } from '../types';
-import { Trophy, Medal, Award, TrendingDown, ChevronDown, ChevronUp } from 'lucide-react';
+import { Trophy, Medal, Award, TrendingDown, ChevronDown, ChevronUp, ArrowLeftRight } from 'lucide-react';
 import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import { calculateCareerAllPlay, formatLuck } from '../utils/all-play';
+import { calculateTradeRecords, type MemberTradeRecord } from '../utils/trade-analyzer';
 
-type AllTimeSortKey = 'teamName' | 'totalWins' | 'totalLosses' | 'winPercentage' | 'playoffWins' | 'playoffLosses' | 'totalPointsFor' | 'totalPointsAgainst' | 'pointDifferential' | 'averagePointsPerGame' | 'careerHighGame' | 'careerLowGame' | 'firstPlaceFinishes' | 'secondPlaceFinishes' | 'thirdPlaceFinishes' | 'lastPlaceFinishes' | 'seasonsPlayed' | 'premierSeasons' | 'mastersSeasons' | 'nationalSeasons' | 'averageSeasonRank' | 'averageUPR';
+type AllTimeSortKey = 'teamName' | 'totalWins' | 'totalLosses' | 'winPercentage' | 'playoffWins' | 'playoffLosses' | 'totalPointsFor' | 'totalPointsAgainst' | 'pointDifferential' | 'averagePointsPerGame' | 'careerHighGame' | 'careerLowGame' | 'firstPlaceFinishes' | 'secondPlaceFinishes' | 'thirdPlaceFinishes' | 'lastPlaceFinishes' | 'seasonsPlayed' | 'premierSeasons' | 'mastersSeasons' | 'nationalSeasons' | 'averageSeasonRank' | 'averageUPR' | 'allPlayWinPercentage' | 'luck' | 'tradeWinRate';
 type SeasonHistorySortKey = 'team' | 'year' | 'league' | 'record' | 'pointsFor' | 'avgPPG' | 'pointsAgainst' | 'placement' | 'upr';
 type SortOrder = 'asc' | 'desc';
 
-// Helper function to calculate playoff wins/losses based on placement
-const calculatePlayoffRecord = (placement: number): { wins: number; losses: number } => {
+// Helper function to calculate playoff wins/losses based on placement; every playoff
+// team below the semifinalists went out in the first round
+const calculatePlayoffRecord = (placement: number, playoffTeams: number): { wins: number; losses: number } => {
+  if (placement > playoffTeams) return { wins: 0, losses: 0 };
   switch (placement) {
     case 1: return { wins: 2, losses: 0 };
     case 2: return { wins: 2, losses: 1 };
     case 3: return { wins: 1, losses: 2 };
     case 4: return { wins: 1, losses: 2 };
-    case 5: return { wins: 0, losses: 1 };
-    case 6: return { wins: 0, losses: 1 };
-    default: return { wins: 0, losses: 0 };
+    default: return { wins: 0, losses: 1 };
   }
 };
 
@@ -55,6 +61,10 @@ interface AllTimePlayerStats {
   mastersSeasons: number;
   nationalSeasons: number;
   averageUPR: number;
+  allPlayWins: number;
+  allPlayLosses: number;
+  allPlayWinPercentage: number;
+  luck: number; // Career actual wins minus all-play expected wins
   seasonHistory: {
     year: string;
     league: string;
@@ -70,12 +80,13 @@ interface AllTimePlayerStats {
 
 export const AllTimeStats = () => {
   const { data: standings, isLoading, error } = useAllStandings();
+  const { data: tradeAnalyses } = useTradeAnalyses();
   const { openTeamProfile } = useTeamProfileModal();
 
   const { getParam, getBooleanParam, updateParams } = useUrlParams();
 
   // Initialize state with defaults
-  const [activeView, setActiveView] = useState<'career' | 'season' | 'horserace'>('career');
+  const [activeView, setActiveView] = useState<'career' | 'season' | 'horserace' | 'elo' | 'efficiency' | 'positions'>('career');
   const [showMinThreeSeasons, setShowMinThreeSeasons] = useState(false);
   const [allTimeSortKey, setAllTimeSortKey] = useState<AllTimeSortKey>('winPercentage');
   const [allTimeSortOrder, setAllTimeSortOrder] = useState<SortOrder>('desc');
@@ -85,18 +96,20 @@ export const AllTimeStats = () => {
   const [seasonSortOrder, setSeasonSortOrder] = useState<SortOrder>('desc');
   const [horseraceLeague, setHorseraceLeague] = useState<LeagueTier>('PREMIER');
   const [horseraceYear, setHorseraceYear] = useState<string>('2025');
+  const [positionsLeague, setPositionsLeague] = useState<LeagueTier>('PREMIER');
+  const [positionsYear, setPositionsYear] = useState<string>('2025');
 
   // Initialize from URL params on mount
   useEffect(() => {
     const view = getParam('view', 'career');
-    if (['career', 'season', 'horserace'].includes(view)) {
-      setActiveView(view as 'career' | 'season' | 'horserace');
+    if (['career', 'season', 'horserace', 'elo', 'efficiency', 'positions'].includes(view)) {
+      setActiveView(view as 'career' | 'season' | 'horserace' | 'elo' | 'efficiency' | 'positions');
     }
 
     setShowMinThreeSeasons(getBooleanParam('minThreeSeasons', false));
 
     const sortKey = getParam('sortKey', 'winPercentage');
-    const validKeys: AllTimeSortKey[] = ['teamName', 'totalWins', 'totalLosses', 'winPercentage', 'playoffWins', 'playoffLosses', 'totalPointsFor', 'totalPointsAgainst', 'pointDifferential', 'averagePointsPerGame', 'careerHighGame', 'careerLowGame', 'firstPlaceFinishes', 'secondPlaceFinishes', 'thirdPlaceFinishes', 'lastPlaceFinishes', 'seasonsPlayed', 'premierSeasons', 'mastersSeasons', 'nationalSeasons', 'averageSeasonRank', 'averageUPR'];
+    const validKeys: AllTimeSortKey[] = ['teamName', 'totalWins', 'totalLosses', 'winPercentage', 'playoffWins', 'playoffLosses', 'totalPointsFor', 'totalPointsAgainst', 'pointDifferential', 'averagePointsPerGame', 'careerHighGame', 'careerLowGame', 'firstPlaceFinishes', 'secondPlaceFinishes', 'thirdPlaceFinishes', 'lastPlaceFinishes', 'seasonsPlayed', 'premierSeasons', 'mastersSeasons', 'nationalSeasons', 'averageSeasonRank', 'averageUPR', 'allPlayWinPercentage', 'luck', 'tradeWinRate'];
     if (validKeys.includes(sortKey as AllTimeSortKey)) {
       setAllTimeSortKey(sortKey as AllTimeSortKey);
     }
@@ -126,6 +139,13 @@ export const AllTimeStats = () => {
     }
 
     setHorseraceYear(getParam('horseraceYear', '2025'));
+
+    const positionLeague = getParam('positionsLeague', 'PREMIER');
+    if (['PREMIER', 'MASTERS', 'NATIONAL'].includes(positionLeague)) {
+      setPositionsLeague(positionLeague as LeagueTier);
+    }
+
+    setPositionsYear(getParam('positionsYear', '2025'));
   }, []); // Empty dependency array - only run on mount
 
   // Mobile touch state for showing full team names (now unused since we use modal)
@@ -178,10 +198,12 @@ export const AllTimeStats = () => {
     updateParams({ sortKey: key, sortOrder: newOrder });
   };
 
-  const getAllTimeSortValue = (player: AllTimePlayerStats, key: AllTimeSortKey) => {
+  const getAllTimeSortValue = (player: AllTimePlayerStats, key: AllTimeSortKey, trades: Map<string, MemberTradeRecord>) => {
     switch (key) {
       case 'teamName':
         return player.userInfo.teamName.toLowerCase();
+      case 'tradeWinRate':
+        return trades.get(player.ffuUserId)?.winRate ?? null; // Members who never traded have no rate
       default:
         return player[key];
     }
@@ -248,6 +270,8 @@ export const AllTimeStats = () => {
 
     // Process all standings data
     standings.forEach(leagueData => {
+      const playoffTeams = getPlayoffTeamCount(leagueData.year, leagueData.league as LeagueTier);
+
       leagueData.standings.forEach(standing => {
         // Use FFU ID as primary key, with robust fallback logic
         let playerId = standing.ffuUserId;
@@ -285,6 +309,10 @@ export const AllTimeStats = () => {
             mastersSeasons: 0,
             nationalSeasons: 0,
             averageUPR: 0,
+            allPlayWins: 0,
+            allPlayLosses: 0,
+            allPlayWinPercentage: 0,
+            luck: 0,
             seasonHistory: []
           };
         }
@@ -320,9 +348,9 @@ export const AllTimeStats = () => {
           else if (standing.rank === leagueData.standings.length) player.lastPlaceFinishes++;
         }
 
-        // Check for playoff appearance (rank 6 or better = playoff berth)
+        // Check for playoff appearance (a playoff seed = playoff berth)
         // Only count playoff records for completed seasons
-        if (standing.rank <= 6 && !isActiveYear(leagueData.year)) {
+        if (standing.rank <= playoffTeams && !isActiveYear(leagueData.year)) {
           player.playoffAppearances++;
 
           // Use playoff results if available, otherwise use regular season rank
@@ -332,7 +360,7 @@ export const AllTimeStats = () => {
           );
 
           const finalPlacement = playoffFinish ? playoffFinish.placement : standing.rank;
-          const { wins, losses } = calculatePlayoffRecord(finalPlacement);
+          const { wins, losses } = calculatePlayoffRecord(finalPlacement, playoffTeams);
           player.playoffWins += wins;
           player.playoffLosses += losses;
         }
@@ -351,14 +379,17 @@ export const AllTimeStats = () => {
           pointsFor: standing.pointsFor || 0,
           pointsAgainst: standing.pointsAgainst || 0,
           rank: standing.rank,
-          playoffFinish: standing.rank <= 6 ? (playoffFinish?.placement || standing.rank) : undefined,
+          playoffFinish: standing.rank <= playoffTeams ? (playoffFinish?.placement || standing.rank) : undefined,
           unionPowerRating: standing.unionPowerRating
         });
       });
     });
 
+    // Career all-play is keyed by FFU ID, same as playerMap
+    const careerAllPlay = calculateCareerAllPlay(standings);
+
     // Calculate derived stats for each player (like PlayerStats component)
-    Object.values(playerMap).forEach(player => {
+    Object.entries(playerMap).forEach(([playerId, player]) => {
       // Sort season history by year (newest first)
       player.seasonHistory.sort((a, b) => b.year.localeCompare(a.year));
 
@@ -366,6 +397,16 @@ export const AllTimeStats = () => {
       const totalGames = player.totalWins + player.totalLosses + player.totalTies;
       player.winPercentage = totalGames > 0 ? ((player.totalWins + player.totalTies * 0.5) / totalGames) * 100 : 0;
 
+      // All-play record and luck (actual wins against all-play expected wins)
+      const allPlay = careerAllPlay.get(playerId);
+      if (allPlay) {
+        const allPlayGames = allPlay.wins + allPlay.losses + allPlay.ties;
+        player.allPlayWins = allPlay.wins;
+        player.allPlayLosses = allPlay.losses;
+        player.allPlayWinPercentage = allPlayGames > 0 ? ((allPlay.wins + allPlay.ties * 0.5) / allPlayGames) * 100 : 0;
+        player.luck = allPlay.luck;
+      }
+
       // Calculate average points per game
       player.averagePointsPerGame = totalGames > 0 ? player.totalPointsFor / totalGames : 0;
 
@@ -395,6 +436,9 @@ export const AllTimeStats = () => {
     return Object.values(playerMap);
   }, [standings]);
 
+  // Career trade records, scored after the fact (see utils/trade-analyzer.ts)
+  const tradeRecords = useMemo(() => calculateTradeRecords(tradeAnalyses), [tradeAnalyses]);
+
   const sortedAllTimeStats = useMemo(() => {
     let filteredStats = allTimeStats;
     
@@ -404,8 +448,13 @@ export const AllTimeStats = () => {
     }
     
     return [...filteredStats].sort((a, b) => {
-      const aValue = getAllTimeSortValue(a, allTimeSortKey);
-      const bValue = getAllTimeSortValue(b, allTimeSortKey);
+      const aValue = getAllTimeSortValue(a, allTimeSortKey, tradeRecords);
+      const bValue = getAllTimeSortValue(b, allTimeSortKey, tradeRecords);
+
+      // Missing values sort last in either direction
+      if (aValue === null || bValue === null) {
+        return (aValue === null ? 1 : 0) - (bValue === null ? 1 : 0);
+      }
 
       if (typeof aValue === 'string' && typeof bValue === 'string') {
         return allTimeSortOrder === 'asc'
@@ -417,7 +466,7 @@ export const AllTimeStats = () => {
         ? (aValue as number) - (bValue as number)
         : (bValue as number) - (aValue as number);
     });
-  }, [allTimeStats, allTimeSortKey, allTimeSortOrder, showMinThreeSeasons]);
+  }, [allTimeStats, allTimeSortKey, allTimeSortOrder, showMinThreeSeasons, tradeRecords]);
 
   const filteredSeasonHistory = useMemo(() => {
     if (!standings.length) return [];
@@ -538,6 +587,45 @@ export const AllTimeStats = () => {
               >
                 UPR Horserace
               </button>
+              <button
+                onClick={() => {
+                  setActiveView('elo');
+                  updateParams({ view: 'elo' });
+                }}
+                className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors duration-200 ${
+                  activeView === 'elo'
+                    ? 'border-ffu-red text-ffu-red dark:text-ffu-red'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                Elo Ratings
+              </button>
+              <button
+                onClick={() => {
+                  setActiveView('efficiency');
+                  updateParams({ view: 'efficiency' });
+                }}
+                className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors duration-200 ${
+                  activeView === 'efficiency'
+                    ? 'border-ffu-red text-ffu-red dark:text-ffu-red'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                Lineup Efficiency
+              </button>
+              <button
+                onClick={() => {
+                  setActiveView('positions');
+                  updateParams({ view: 'positions' });
+                }}
+                className={`py-2 px-1 border-b-2 font-medium text-sm transition-colors duration-200 ${
+                  activeView === 'positions'
+                    ? 'border-ffu-red text-ffu-red dark:text-ffu-red'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                Positional Scoring
+              </button>
             </nav>
           </div>
         </div>
@@ -631,12 +719,14 @@ export const AllTimeStats = () => {
             <div className="overflow-x-auto md:overflow-visible table-container" style={{
               WebkitOverflowScrolling: 'touch',
             }}>
-              <table className="table md:table-fixed w-full min-w-[1400px]">
+              <table className="table md:table-fixed w-full min-w-[1620px]">
                 <colgroup className="hidden md:table-column-group">
                   <col className="w-[12%]" />
                   <col className="w-[5%]" />
                   <col className="w-[4%]" />
                   <col className="w-[5%]" />
+                  <col className="w-[4%]" />
+                  <col className="w-[5%]" />
                   <col className="w-[5%]" />
                   <col className="w-[5%]" />
                   <col className="w-[5%]" />
@@ -649,6 +739,7 @@ export const AllTimeStats = () => {
                   <col className="w-[5%]" />
                   <col className="w-[4%]" />
                   <col className="w-[4%]" />
+                  <col className="w-[4%]" />
                 </colgroup>
                 <thead className="table-header">
                   <tr>
@@ -688,6 +779,30 @@ export const AllTimeStats = () => {
                         </div>
                       </div>
                     </th>
+                    <th
+                      className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 select-none px-1"
+                      onClick={() => handleAllTimeSort('allPlayWinPercentage')}
+                    >
+                      <div className="flex items-center justify-center text-xs">
+                        All-Play
+                        <div className="flex flex-col ml-1">
+                          <ChevronUp className={`h-3 w-3 ${allTimeSortKey === 'allPlayWinPercentage' && allTimeSortOrder === 'asc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                          <ChevronDown className={`h-3 w-3 -mt-1 ${allTimeSortKey === 'allPlayWinPercentage' && allTimeSortOrder === 'desc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                        </div>
+                      </div>
+                    </th>
+                    <th
+                      className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 select-none px-1"
+                      onClick={() => handleAllTimeSort('luck')}
+                    >
+                      <div className="flex items-center justify-center text-xs">
+                        Luck
+                        <div className="flex flex-col ml-1">
+                          <ChevronUp className={`h-3 w-3 ${allTimeSortKey === 'luck' && allTimeSortOrder === 'asc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                          <ChevronDown className={`h-3 w-3 -mt-1 ${allTimeSortKey === 'luck' && allTimeSortOrder === 'desc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                        </div>
+                      </div>
+                    </th>
                     <th
                       className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 select-none px-1"
                       onClick={() => handleAllTimeSort('playoffWins')}
@@ -844,151 +959,182 @@ export const AllTimeStats = () => {
                         </div>
                       </div>
                     </th>
+                    <th
+                      className="cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 select-none px-1"
+                      onClick={() => handleAllTimeSort('tradeWinRate')}
+                    >
+                      <div className="flex items-center justify-center text-xs">
+                        Trade Win %
+                        <div className="flex flex-col ml-1">
+                          <ChevronUp className={`h-3 w-3 ${allTimeSortKey === 'tradeWinRate' && allTimeSortOrder === 'asc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                          <ChevronDown className={`h-3 w-3 -mt-1 ${allTimeSortKey === 'tradeWinRate' && allTimeSortOrder === 'desc' ? 'text-blue-600' : 'text-gray-300'}`} />
+                        </div>
+                      </div>
+                    </th>
                   </tr>
                 </thead>
                 <tbody>
-                  {sortedAllTimeStats.map((player) => (
-                    <tr key={player.ffuUserId} className="table-row h-12">
-                      <td className="align-middle sticky left-0 z-10 bg-white dark:bg-[#121212] w-16 sm:w-auto pl-2">
-                        <div className="flex sm:hidden items-center justify-center h-full relative">
-                          <div 
-                            className="text-center cursor-pointer select-none"
-                            onTouchStart={() => handleTeamCellTouch(player.ffuUserId, player.userInfo.teamName)}
-                            onClick={() => handleTeamCellTouch(player.ffuUserId, player.userInfo.teamName)}
-                          >
+                  {sortedAllTimeStats.map((player) => {
+                    const tradeRecord = tradeRecords.get(player.ffuUserId);
+                    return (
+                      <tr key={player.ffuUserId} className="table-row h-12">
+                        <td className="align-middle sticky left-0 z-10 bg-white dark:bg-[#121212] w-16 sm:w-auto pl-2">
+                          <div className="flex sm:hidden items-center justify-center h-full relative">
+                            <div 
+                              className="text-center cursor-pointer select-none"
+                              onTouchStart={() => handleTeamCellTouch(player.ffuUserId, player.userInfo.teamName)}
+                              onClick={() => handleTeamCellTouch(player.ffuUserId, player.userInfo.teamName)}
+                            >
+                              <TeamLogo
+                                teamName={player.userInfo.teamName}
+                                size="sm"
+                                className="mx-auto mb-1 !w-8 !h-8"
+                              />
+                              <div className="text-xs text-gray-900 dark:text-gray-100 font-mono uppercase font-medium">
+                                {player.userInfo.abbreviation}
+                              </div>
+                            </div>
+                            {/* Mobile tooltip for full team name */}
+                            {touchedTeamCell === `${player.ffuUserId}-${player.userInfo.teamName}` && (
+                              <div className="absolute bottom-full left-0 mb-2 px-2 py-1 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded whitespace-nowrap z-50 shadow-lg">
+                                {player.userInfo.teamName}
+                                <div className="absolute top-full left-4 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900 dark:border-t-gray-700"></div>
+                              </div>
+                            )}
+                          </div>
+                          <div className="hidden sm:flex items-center space-x-1 h-full">
                             <TeamLogo
                               teamName={player.userInfo.teamName}
                               size="sm"
-                              className="mx-auto mb-1 !w-8 !h-8"
+                              className="flex-shrink-0 !w-6 !h-6"
+                              clickable
+                              onClick={() => openTeamProfile(player.ffuUserId, player.userInfo.teamName)}
                             />
-                            <div className="text-xs text-gray-900 dark:text-gray-100 font-mono uppercase font-medium">
-                              {player.userInfo.abbreviation}
+                            <div className="min-w-0 flex-1">
+                              <div className="font-medium text-gray-900 dark:text-gray-100 text-xs leading-tight break-words">
+                                {player.userInfo.teamName}
+                              </div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400 font-mono uppercase">
+                                {player.userInfo.abbreviation}
+                              </div>
                             </div>
                           </div>
-                          {/* Mobile tooltip for full team name */}
-                          {touchedTeamCell === `${player.ffuUserId}-${player.userInfo.teamName}` && (
-                            <div className="absolute bottom-full left-0 mb-2 px-2 py-1 bg-gray-900 dark:bg-gray-700 text-white text-xs rounded whitespace-nowrap z-50 shadow-lg">
-                              {player.userInfo.teamName}
-                              <div className="absolute top-full left-4 w-0 h-0 border-l-4 border-r-4 border-t-4 border-transparent border-t-gray-900 dark:border-t-gray-700"></div>
-                            </div>
-                          )}
-                        </div>
-                        <div className="hidden sm:flex items-center space-x-1 h-full">
-                          <TeamLogo
-                            teamName={player.userInfo.teamName}
-                            size="sm"
-                            className="flex-shrink-0 !w-6 !h-6"
-                            clickable
-                            onClick={() => openTeamProfile(player.ffuUserId, player.userInfo.teamName)}
-                          />
-                          <div className="min-w-0 flex-1">
-                            <div className="font-medium text-gray-900 dark:text-gray-100 text-xs leading-tight break-words">
-                              {player.userInfo.teamName}
-                            </div>
-                            <div className="text-xs text-gray-500 dark:text-gray-400 font-mono uppercase">
-                              {player.userInfo.abbreviation}
-                            </div>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">{player.totalWins}-{player.totalLosses}{player.totalTies > 0 ? `-${player.totalTies}` : ''}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">{player.winPercentage.toFixed(1)}%</span>
+                        </td>
+                        <td className="text-center align-middle" title={`${player.allPlayWins}-${player.allPlayLosses} against the whole league each week`}>
+                          <span className="text-sm font-medium font-mono">{player.allPlayWinPercentage.toFixed(1)}%</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className={`text-sm font-medium font-mono ${player.luck > 0 ? 'text-green-600' : player.luck < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
+                            {formatLuck(player.luck)}
+                          </span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">{player.playoffWins}-{player.playoffLosses}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">{player.totalPointsFor.toFixed(2)}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">{player.totalPointsAgainst.toFixed(2)}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className={`text-sm font-medium font-mono ${player.pointDifferential > 0 ? 'text-green-600' : player.pointDifferential < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
+                            {player.pointDifferential > 0 ? '+' : ''}{player.pointDifferential.toFixed(1)}
+                          </span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium text-blue-600 dark:text-blue-400 font-mono">
+                            {player.averagePointsPerGame.toFixed(2)}
+                          </span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono text-green-600 dark:text-green-400">
+                            {player.careerHighGame.toFixed(2)}
+                          </span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono text-red-600 dark:text-red-400">
+                            {player.careerLowGame ? player.careerLowGame.toFixed(2) : '—'}
+                          </span>
+                        </td>
+                        <td title={getPlacements(player)} className="text-center align-middle">
+                          <div className="text-xs space-y-0.5">
+                            {player.firstPlaceFinishes > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <Trophy className="h-3 w-3 text-yellow-600" />
+                                <span className="font-medium">{player.firstPlaceFinishes}</span>
+                              </div>
+                            )}
+                            {player.secondPlaceFinishes > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <Medal className="h-3 w-3 text-gray-500" />
+                                <span className="font-medium">{player.secondPlaceFinishes}</span>
+                              </div>
+                            )}
+                            {player.thirdPlaceFinishes > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <Award className="h-3 w-3 text-amber-600" />
+                                <span className="font-medium">{player.thirdPlaceFinishes}</span>
+                              </div>
+                            )}
                           </div>
-                        </div>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">{player.totalWins}-{player.totalLosses}{player.totalTies > 0 ? `-${player.totalTies}` : ''}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">{player.winPercentage.toFixed(1)}%</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">{player.playoffWins}-{player.playoffLosses}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">{player.totalPointsFor.toFixed(2)}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">{player.totalPointsAgainst.toFixed(2)}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className={`text-sm font-medium font-mono ${player.pointDifferential > 0 ? 'text-green-600' : player.pointDifferential < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
-                          {player.pointDifferential > 0 ? '+' : ''}{player.pointDifferential.toFixed(1)}
-                        </span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium text-blue-600 dark:text-blue-400 font-mono">
-                          {player.averagePointsPerGame.toFixed(2)}
-                        </span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono text-green-600 dark:text-green-400">
-                          {player.careerHighGame.toFixed(2)}
-                        </span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono text-red-600 dark:text-red-400">
-                          {player.careerLowGame ? player.careerLowGame.toFixed(2) : '—'}
-                        </span>
-                      </td>
-                      <td title={getPlacements(player)} className="text-center align-middle">
-                        <div className="text-xs space-y-0.5">
-                          {player.firstPlaceFinishes > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <Trophy className="h-3 w-3 text-yellow-600" />
-                              <span className="font-medium">{player.firstPlaceFinishes}</span>
-                            </div>
-                          )}
-                          {player.secondPlaceFinishes > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <Medal className="h-3 w-3 text-gray-500" />
-                              <span className="font-medium">{player.secondPlaceFinishes}</span>
-                            </div>
-                          )}
-                          {player.thirdPlaceFinishes > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <Award className="h-3 w-3 text-amber-600" />
-                              <span className="font-medium">{player.thirdPlaceFinishes}</span>
-                            </div>
-                          )}
-                        </div>
-                      </td>
-                      <td className="text-center align-middle">
-                        <div className="flex items-center justify-center space-x-1">
-                          {player.lastPlaceFinishes > 0 && <TrendingDown className="h-3 w-3 text-gray-400" />}
-                          <span className="text-sm font-medium">{player.lastPlaceFinishes}</span>
-                        </div>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium">{player.seasonsPlayed}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <div className="text-xs space-y-0.5">
-                          {player.premierSeasons > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <span className="premier-colors px-1 py-0.5 rounded text-xs font-bold">P</span>
-                              <span className="font-medium">{player.premierSeasons}</span>
-                            </div>
-                          )}
-                          {player.mastersSeasons > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <span className="masters-colors px-1 py-0.5 rounded text-xs font-bold">M</span>
-                              <span className="font-medium">{player.mastersSeasons}</span>
-                            </div>
-                          )}
-                          {player.nationalSeasons > 0 && (
-                            <div className="flex items-center justify-center space-x-1">
-                              <span className="national-colors px-1 py-0.5 rounded text-xs font-bold">N</span>
-                              <span className="font-medium">{player.nationalSeasons}</span>
-                            </div>
-                          )}
-                        </div>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium">#{player.averageSeasonRank.toFixed(1)}</span>
-                      </td>
-                      <td className="text-center align-middle">
-                        <span className="text-sm font-medium font-mono">
-                          {player.averageUPR ? player.averageUPR.toFixed(2) : 'N/A'}
-                        </span>
-                      </td>
-                    </tr>
-                  ))}
+                        </td>
+                        <td className="text-center align-middle">
+                          <div className="flex items-center justify-center space-x-1">
+                            {player.lastPlaceFinishes > 0 && <TrendingDown className="h-3 w-3 text-gray-400" />}
+                            <span className="text-sm font-medium">{player.lastPlaceFinishes}</span>
+                          </div>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium">{player.seasonsPlayed}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <div className="text-xs space-y-0.5">
+                            {player.premierSeasons > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <span className="premier-colors px-1 py-0.5 rounded text-xs font-bold">P</span>
+                                <span className="font-medium">{player.premierSeasons}</span>
+                              </div>
+                            )}
+                            {player.mastersSeasons > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <span className="masters-colors px-1 py-0.5 rounded text-xs font-bold">M</span>
+                                <span className="font-medium">{player.mastersSeasons}</span>
+                              </div>
+                            )}
+                            {player.nationalSeasons > 0 && (
+                              <div className="flex items-center justify-center space-x-1">
+                                <span className="national-colors px-1 py-0.5 rounded text-xs font-bold">N</span>
+                                <span className="font-medium">{player.nationalSeasons}</span>
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium">#{player.averageSeasonRank.toFixed(1)}</span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <span className="text-sm font-medium font-mono">
+                            {player.averageUPR ? player.averageUPR.toFixed(2) : 'N/A'}
+                          </span>
+                        </td>
+                        <td className="text-center align-middle">
+                          <div className="flex items-center justify-center space-x-1" title={tradeRecord ? `${tradeRecord.wins}-${tradeRecord.losses}-${tradeRecord.ties} in ${tradeRecord.trades} trades` : 'No scored trades'}>
+                            <ArrowLeftRight className="h-3 w-3 text-purple-600" />
+                            <span className="text-sm font-medium font-mono">
+                              {tradeRecord ? `${(tradeRecord.winRate * 100).toFixed(0)}%` : '—'}
+                            </span>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -1312,6 +1458,32 @@ export const AllTimeStats = () => {
           />
         </div>
       )}
+
+      {/* Cross-tier Elo Ratings View */}
+      {activeView === 'elo' && (
+        <EloLeaderboard />
+      )}
+
+      {/* Optimal Lineup Efficiency View */}
+      {activeView === 'efficiency' && (
+        <LineupEfficiencyLeaderboard />
+      )}
+
+      {/* League-wide Scoring by Position View */}
+      {activeView === 'positions' && (
+        <PositionalScoringTable
+          league={positionsLeague}
+          year={positionsYear}
+          onLeagueChange={(league) => {
+            setPositionsLeague(league);
+            updateParams({ positionsLeague: league });
+          }}
+          onYearChange={(year) => {
+            setPositionsYear(year);
+            updateParams({ positionsYear: year });
+          }}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
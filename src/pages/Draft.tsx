@@ -5,11 +5,12 @@ import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { DraftBoard } from '../components/Draft/DraftBoard';
 import { MobileDraftBoard } from '../components/Draft/MobileDraftBoard';
 import { DraftList } from '../components/Draft/DraftList';
-import type { DraftData, UserInfo, LeagueTier } from '../types';
+import type { DraftData, DraftGrades, UserInfo, LeagueTier } from '../types';
 import { dataService } from '../services/data.service';
+import { useDraftGrades } from '../hooks/useLeagues';
 import { LEAGUE_NAMES, AVAILABLE_YEARS, getAvailableLeaguesForYear } from '../constants/leagues';
 import { getUserInfoBySleeperId, getFFUIdBySleeperId, getDraftDate, isActiveYear } from '../config/constants';
-import { ChevronDown, Calendar, BarChart3 } from 'lucide-react';
+import { ChevronDown, Calendar, BarChart3, Dices } from 'lucide-react';
 import { historicalTeamResolver } from '../utils/historical-team-resolver';
 
 type ViewMode = 'board' | 'list';
@@ -20,6 +21,7 @@ export const Draft: React.FC = () => {
   const [userMap, setUserMap] = useState<Record<string, UserInfo>>({});
   const [isLoading, setIsLoading] = useState(false);
   const [, setError] = useState<string | undefined>();
+  const { data: allDraftGrades } = useDraftGrades();
 
   const baseUrl = import.meta.env.BASE_URL.replace(/\/$/, '');
   
@@ -37,6 +39,14 @@ export const Draft: React.FC = () => {
   // Era-aware available leagues and years
   const availableLeagues = useMemo(() => getAvailableLeaguesForYear(selectedYear), [selectedYear]);
   
+  // Grades for the draft on screen, once its season has been graded
+  const draftGrades = useMemo((): DraftGrades | undefined => {
+    if (!draftData) return undefined;
+    const isThisDraft = (grade: { year: string; league: LeagueTier }) => grade.year === draftData.year && grade.league === draftData.league;
+    const teams = allDraftGrades.teams.filter(isThisDraft);
+    return teams.length > 0 ? { picks: allDraftGrades.picks.filter(isThisDraft), teams } : undefined;
+  }, [allDraftGrades, draftData]);
+
   // Filter years to only show those where the selected league exists
   const availableYears = useMemo(() => {
     return AVAILABLE_YEARS.filter(year => getAvailableLeaguesForYear(year).includes(selectedLeague as LeagueTier));
@@ -215,6 +225,13 @@ export const Draft: React.FC = () => {
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Fun Facts</span>
             </Link>
+            <Link
+              to="/draft-slots"
+              className="flex items-center gap-2 px-4 py-2 bg-ffu-red text-white rounded hover:bg-red-700 transition-colors duration-200 text-sm font-medium"
+            >
+              <Dices className="h-4 w-4" />
+              <span className="hidden sm:inline">Draft Slots</span>
+            </Link>
           </div>
         </div>
         
@@ -333,7 +350,7 @@ export const Draft: React.FC = () => {
             <>
               {/* Desktop Draft Board */}
               <div className="hidden lg:block w-screen relative left-1/2 right-1/2 -ml-[50vw] -mr-[50vw] px-4">
-                <DraftBoard draftData={draftData} userMap={userMap} />
+                <DraftBoard draftData={draftData} userMap={userMap} grades={draftGrades} />
               </div>
               {/* Mobile Draft Board */}
               <div className="lg:hidden w-screen relative left-1/2 right-1/2 -ml-[50vw] -mr-[50vw] px-1 pb-8">
@@ -342,7 +359,7 @@ export const Draft: React.FC = () => {
             </>
           ) : (
             <div className="pb-8">
-              <DraftList draftData={draftData} userMap={userMap} />
+              <DraftList draftData={draftData} userMap={userMap} grades={draftGrades} />
             </div>
           )}
         </>
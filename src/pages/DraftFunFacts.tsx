@@ -2,6 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { DraftGradesLeaderboard } from '../components/Draft/DraftGradesLeaderboard';
 import type { DraftData, UserInfo, LeagueTier } from '../types';
 import { dataService } from '../services/data.service';
 import { getAllLeagueConfigs, getUserInfoBySleeperId, getFFUIdBySleeperId } from '../config/constants';
@@ -38,7 +39,7 @@ export const DraftFunFacts: React.FC = () => {
   const [error, setError] = useState<string>();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedPlayer, setSelectedPlayer] = useState<PlayerDraftInfo | null>(null);
-  const [activeTab, setActiveTab] = useState<'players' | 'teams'>('players');
+  const [activeTab, setActiveTab] = useState<'players' | 'teams' | 'grades'>('players');
   const [selectedTeamMember, setSelectedTeamMember] = useState<string>('');
   const [sortByDraftCount, setSortByDraftCount] = useState(false);
 
@@ -441,6 +442,16 @@ export const DraftFunFacts: React.FC = () => {
         >
           By Team Member
         </button>
+        <button
+          onClick={() => setActiveTab('grades')}
+          className={`flex-1 py-3 px-4 text-sm font-medium rounded-lg transition-colors duration-200 ${
+            activeTab === 'grades'
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 shadow-sm'
+              : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100'
+          }`}
+        >
+          Draft Grades
+        </button>
       </div>
 
       {activeTab === 'players' && (
@@ -756,6 +767,8 @@ export const DraftFunFacts: React.FC = () => {
         </>
       )}
 
+      {activeTab === 'grades' && <DraftGradesLeaderboard />}
+
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { useDraftSlotSeasons } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { DraftSlotChart } from '../components/Draft/DraftSlotChart';
+import { LEAGUE_NAMES } from '../constants/leagues';
+import { getCurrentAbbreviation, getUserInfoBySleeperId } from '../config/constants';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import { calculateDraftLuck, summarizeDraftSlots } from '../utils/draft-slots';
+import type { LeagueTier } from '../types';
+
+const LEAGUE_FILTERS: (LeagueTier | 'ALL')[] = ['ALL', 'PREMIER', 'MASTERS', 'NATIONAL'];
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatPlaces = (places: number) => `${places >= 0 ? '+' : ''}${places.toFixed(2)}`;
+
+export const DraftSlots = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: seasons, isLoading, error } = useDraftSlotSeasons();
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const selectedLeague = LEAGUE_FILTERS.includes(searchParams.get('league') as LeagueTier)
+    ? searchParams.get('league') as LeagueTier
+    : 'ALL';
+
+  const filteredSeasons = useMemo(() => {
+    return selectedLeague === 'ALL' ? seasons : seasons.filter(season => season.league === selectedLeague);
+  }, [seasons, selectedLeague]);
+
+  const slotSummaries = useMemo(() => summarizeDraftSlots(filteredSeasons), [filteredSeasons]);
+  const memberLuck = useMemo(() => calculateDraftLuck(filteredSeasons), [filteredSeasons]);
+
+  const handleLeagueChange = (league: LeagueTier | 'ALL') => {
+    const newParams = new URLSearchParams(searchParams);
+    if (league === 'ALL') {
+      newParams.delete('league');
+    } else {
+      newParams.set('league', league);
+    }
+    setSearchParams(newParams);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  const renderTeam = (userId: string) => {
+    const teamName = getUserInfoBySleeperId(userId)?.teamName || 'Unknown Team';
+    return (
+      <div className="flex items-center space-x-2">
+        <TeamLogo
+          teamName={teamName}
+          abbreviation={getCurrentAbbreviation(userId, getUserInfoBySleeperId(userId)?.abbreviation || 'UNK')}
+          size="sm"
+          clickable
+          onClick={() => openTeamProfile(userId, teamName)}
+        />
+        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{teamName}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          to="/drafts"
+          className="inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Drafts
+        </Link>
+        <h1 className="mt-2 text-xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Does the 1.01 Matter?</h1>
+        <p className="mt-1 sm:mt-2 text-xs sm:text-base text-gray-600 dark:text-gray-300">
+          Draft slot against final placement across {seasons.length} completed team seasons
+        </p>
+      </div>
+
+      <DraftSlotChart seasons={seasons} />
+
+      {/* League filter */}
+      <div className="flex flex-wrap gap-2">
+        {LEAGUE_FILTERS.map(league => (
+          <button
+            key={league}
+            onClick={() => handleLeagueChange(league)}
+            className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+              selectedLeague === league
+                ? 'bg-ffu-red text-white'
+                : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {league === 'ALL' ? 'All Leagues' : LEAGUE_NAMES[league]}
+          </button>
+        ))}
+      </div>
+
+      {/* By slot */}
+      <div className="card">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">By Draft Slot</h3>
+        {slotSummaries.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No completed seasons with draft data.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full table">
+              <thead className="table-header">
+                <tr>
+                  <th className="text-left">Slot</th>
+                  <th className="text-center">Seasons</th>
+                  <th className="text-center">Avg Finish</th>
+                  <th className="text-center">Playoffs</th>
+                  <th className="text-center">Titles</th>
+                </tr>
+              </thead>
+              <tbody>
+                {slotSummaries.map(summary => (
+                  <tr key={summary.draftSlot} className="table-row">
+                    <td className="font-bold font-mono text-gray-900 dark:text-gray-100">1.{summary.draftSlot.toString().padStart(2, '0')}</td>
+                    <td className="text-center font-mono text-gray-700 dark:text-gray-300">{summary.seasons}</td>
+                    <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{summary.averageFinish.toFixed(2)}</td>
+                    <td className="text-center font-mono text-gray-700 dark:text-gray-300">{formatRate(summary.playoffRate)}</td>
+                    <td className="text-center font-mono text-gray-700 dark:text-gray-300">{formatRate(summary.titleRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Luck of the draw */}
+      <div className="card">
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Luck of the Draw</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Draw is how many places the slots a member drew usually finish above a middle slot. Vs Draw is how many places the member finished above those slots' average.
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full table">
+            <thead className="table-header">
+              <tr>
+                <th className="text-left">Member</th>
+                <th className="text-center">Seasons</th>
+                <th className="text-center hidden sm:table-cell">Avg Slot</th>
+                <th className="text-center hidden sm:table-cell">Avg Finish</th>
+                <th className="text-center">Draw</th>
+                <th className="text-center">Vs Draw</th>
+                <th className="text-left hidden md:table-cell">History</th>
+              </tr>
+            </thead>
+            <tbody>
+              {memberLuck.map(member => (
+                <tr key={member.ffuUserId} className="table-row">
+                  <td>{renderTeam(member.userId)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300">{member.seasons.length}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{member.averageSlot.toFixed(1)}</td>
+                  <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">{member.averageFinish.toFixed(1)}</td>
+                  <td className={`text-center font-mono font-bold ${member.drawLuck >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {formatPlaces(member.drawLuck)}
+                  </td>
+                  <td className={`text-center font-mono ${member.finishOverExpected >= 0 ? 'text-green-700 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    {formatPlaces(member.finishOverExpected)}
+                  </td>
+                  <td className="hidden md:table-cell">
+                    <div className="flex flex-wrap gap-1">
+                      {member.seasons.map(season => (
+                        <span
+                          key={`${season.year}-${season.league}`}
+                          className={`px-1.5 py-0.5 text-[10px] font-mono rounded-sm ${season.league.toLowerCase()}-colors ${season.wonTitle ? 'font-bold' : ''}`}
+                          title={`${season.year} ${LEAGUE_NAMES[season.league]}: slot ${season.draftSlot}, finished ${season.finish}${season.wonTitle ? ' (champion)' : ''}`}
+                        >
+                          '{season.year.slice(-2)} #{season.draftSlot}→{season.finish}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
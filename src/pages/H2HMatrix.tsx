@@ -6,7 +6,9 @@ import { TeamLogo } from '../components/Common/TeamLogo';
 import { LeagueBadge } from '../components/League/LeagueBadge';
 import { ChevronDown, X, Calendar, ArrowUpDown, RotateCcw } from 'lucide-react';
 import { useUrlParams } from '../hooks/useUrlParams';
-import { CURRENT_YEAR } from '../config/constants';
+import { CURRENT_YEAR, getAllYears, getAvailableLeagues } from '../config/constants';
+import { calculateScheduleSwapMatrix, calculateScheduleStrength } from '../utils/schedule-swap';
+import { isRegularSeasonWeek } from '../utils/era-detection';
 import type { LeagueTier } from '../types';
 
 interface H2HRecord {
@@ -38,10 +40,17 @@ interface MatchupDetail {
 
 type LeagueFilter = LeagueTier | 'ALL_TIME';
 type HighlightOption = 'none' | 'lopsided' | 'closest' | 'most_played';
+type MatrixMode = 'h2h' | 'schedule_swap';
+
+// H2H pairs share one key; schedule swap cells are keyed by row team then schedule
+const getHighlightKey = (team1Id: string, team2Id: string, directed: boolean): string =>
+  directed ? `${team1Id}-${team2Id}` : [team1Id, team2Id].sort().join('-');
 
 export const H2HMatrix = () => {
   const { getParam, updateParams } = useUrlParams();
   const [selectedFilter, setSelectedFilter] = useState<LeagueFilter>('PREMIER');
+  const [matrixMode, setMatrixMode] = useState<MatrixMode>('h2h');
+  const [scheduleYear, setScheduleYear] = useState<string>(getAllYears()[0] || CURRENT_YEAR);
   const [sortByTeam, setSortByTeam] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [filterBySeasons, setFilterBySeasons] = useState(false);
@@ -58,11 +67,21 @@ export const H2HMatrix = () => {
   // Initialize from URL params on mount
   useEffect(() => {
     const filter = getParam('filter', 'PREMIER');
+    const mode = getParam('mode', 'h2h');
+    const year = getParam('year', '');
+    if (mode === 'schedule_swap') {
+      setMatrixMode(mode);
+    }
+    if (getAllYears().includes(year)) {
+      setScheduleYear(year);
+    }
     if (['PREMIER', 'MASTERS', 'NATIONAL', 'ALL_TIME'].includes(filter)) {
-      setSelectedFilter(filter as LeagueFilter);
+      setSelectedFilter(mode === 'schedule_swap' && filter === 'ALL_TIME' ? 'PREMIER' : filter as LeagueFilter);
     }
   }, []);
 
+  const isScheduleSwap = matrixMode === 'schedule_swap';
+
   const filterOptions: { value: LeagueFilter; label: string }[] = [
     { value: 'PREMIER', label: 'Premier - 2025' },
     { value: 'MASTERS', label: 'Masters - 2025' },
@@ -78,15 +97,25 @@ export const H2HMatrix = () => {
     }
   };
 
-  // Determine if a week is a playoff week based on year
-  const isPlayoffWeek = (year: string, week: number): boolean => {
-    const yearNum = parseInt(year);
-    // ESPN era: 2018-2020 had playoffs in weeks 14, 15, 16
-    // Sleeper era: 2021+ has playoffs in weeks 15, 16, 17
-    if (yearNum >= 2021) {
-      return week >= 15;
+
+  // Schedule swaps compare one league-season at a time
+  const scheduleFilterOptions: { value: LeagueFilter; label: string }[] = getAvailableLeagues(scheduleYear)
+    .map(league => ({ value: league, label: getLeagueName(league) }));
+
+  const handleModeChange = (mode: MatrixMode) => {
+    setMatrixMode(mode);
+    setSortByTeam(null);
+    setSortDirection('desc');
+    if (mode === 'schedule_swap') {
+      // Every schedule has the same number of games, so "most played" means nothing here
+      if (highlightOption === 'most_played') setHighlightOption('none');
+      const filter = selectedFilter === 'ALL_TIME' || !getAvailableLeagues(scheduleYear).includes(selectedFilter)
+        ? 'PREMIER'
+        : selectedFilter;
+      setSelectedFilter(filter);
+      updateParams({ mode, filter, year: scheduleYear });
     } else {
-      return week >= 14;
+      updateParams({ mode: null, year: null });
     }
   };
 
@@ -178,7 +207,7 @@ export const H2HMatrix = () => {
         const week = parseInt(weekStr);
 
         // Skip playoff weeks if exclude checkbox is enabled
-        if (excludePlayoffs && isPlayoffWeek(leagueData.year, week)) return;
+        if (excludePlayoffs && !isRegularSeasonWeek(week, leagueData.year, leagueData.league as LeagueTier)) return;
 
         weekMatchups.forEach((matchup: any) => {
           const winner = matchup.winner;
@@ -259,21 +288,54 @@ export const H2HMatrix = () => {
     });
 
     return { h2hMatrix: matrix, matchupDetails: details };
-  }, [standings, currentSeasonMembers, excludePlayoffs, isPlayoffWeek]);
+  }, [standings, currentSeasonMembers, excludePlayoffs]);
+
+  // Schedule swap: each team's regular season scores replayed against every other team's schedule
+  const { scheduleSwapMembers, scheduleSwapMatrix, scheduleStrength } = useMemo(() => {
+    const leagueData = isScheduleSwap
+      ? standings?.find(s => s.league === selectedFilter && s.year === scheduleYear)
+      : undefined;
+
+    if (!leagueData?.matchupsByWeek) return {
+      scheduleSwapMembers: [] as TeamInfo[],
+      scheduleSwapMatrix: new Map<string, Map<string, H2HRecord>>(),
+      scheduleStrength: []
+    };
+
+    const matrix = calculateScheduleSwapMatrix(leagueData.matchupsByWeek, scheduleYear);
+    const members = leagueData.standings
+      .filter(standing => matrix.has(standing.userId))
+      .map(standing => ({
+        userId: standing.userId,
+        teamName: standing.userInfo.teamName,
+        abbreviation: standing.userInfo.abbreviation
+      }))
+      .sort((a, b) => a.teamName.localeCompare(b.teamName));
+
+    return {
+      scheduleSwapMembers: members,
+      scheduleSwapMatrix: matrix,
+      scheduleStrength: calculateScheduleStrength(matrix)
+    };
+  }, [standings, isScheduleSwap, selectedFilter, scheduleYear]);
+
+  // The grid, sorting and highlighting all work off whichever matrix is active
+  const activeMembers = isScheduleSwap ? scheduleSwapMembers : currentSeasonMembers;
+  const activeMatrix = isScheduleSwap ? scheduleSwapMatrix : h2hMatrix;
 
   // Sort members based on selected team's record
   const sortedMembers = useMemo(() => {
     if (!sortByTeam) {
-      return currentSeasonMembers;
+      return activeMembers;
     }
 
-    const sorted = [...currentSeasonMembers].sort((a, b) => {
+    const sorted = [...activeMembers].sort((a, b) => {
       // Don't sort the selected team itself
       if (a.userId === sortByTeam) return -1;
       if (b.userId === sortByTeam) return 1;
 
-      const recordA = h2hMatrix.get(a.userId)?.get(sortByTeam);
-      const recordB = h2hMatrix.get(b.userId)?.get(sortByTeam);
+      const recordA = activeMatrix.get(a.userId)?.get(sortByTeam);
+      const recordB = activeMatrix.get(b.userId)?.get(sortByTeam);
 
       const winPctA = recordA && recordA.totalGames > 0 ? recordA.wins / recordA.totalGames : 0;
       const winPctB = recordB && recordB.totalGames > 0 ? recordB.wins / recordB.totalGames : 0;
@@ -286,7 +348,7 @@ export const H2HMatrix = () => {
     });
 
     return sorted;
-  }, [currentSeasonMembers, h2hMatrix, sortByTeam, sortDirection]);
+  }, [activeMembers, activeMatrix, sortByTeam, sortDirection]);
 
   // Handle team header click for sorting
   const handleTeamSort = (teamId: string) => {
@@ -315,14 +377,14 @@ export const H2HMatrix = () => {
       value: number; // The metric we're highlighting by
     }> = [];
 
-    // Calculate stats for all unique matchups
-    currentSeasonMembers.forEach(team1 => {
-      currentSeasonMembers.forEach(team2 => {
-        if (team1.userId < team2.userId) { // Only process each pair once
-          const record1 = h2hMatrix.get(team1.userId)?.get(team2.userId);
+    // Calculate stats for all unique matchups (every ordered pair for schedule swaps, which aren't symmetric)
+    activeMembers.forEach(team1 => {
+      activeMembers.forEach(team2 => {
+        if (isScheduleSwap ? team1.userId !== team2.userId : team1.userId < team2.userId) {
+          const record1 = activeMatrix.get(team1.userId)?.get(team2.userId);
 
           if (record1 && record1.totalGames > 0) {
-            const key = [team1.userId, team2.userId].sort().join('-');
+            const key = getHighlightKey(team1.userId, team2.userId, isScheduleSwap);
             const totalGames = record1.totalGames;
             const wins1 = record1.wins;
             const wins2 = record1.totalGames - record1.wins - (record1.ties || 0);
@@ -364,13 +426,12 @@ export const H2HMatrix = () => {
 
     // Return all matchups that meet threshold
     return new Set(matchupStats.map(m => m.key));
-  }, [highlightOption, currentSeasonMembers, h2hMatrix, highlightThreshold, minGames]);
+  }, [highlightOption, activeMembers, activeMatrix, isScheduleSwap, highlightThreshold, minGames]);
 
   // Check if a matchup should be highlighted
   const isHighlighted = (team1Id: string, team2Id: string): boolean => {
     if (team1Id === team2Id) return false;
-    const key = [team1Id, team2Id].sort().join('-');
-    return highlightedMatchups.has(key);
+    return highlightedMatchups.has(getHighlightKey(team1Id, team2Id, isScheduleSwap));
   };
 
   // Handle cell click to show matchup details
@@ -411,21 +472,49 @@ export const H2HMatrix = () => {
       <div className="space-y-6">
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Head-to-Head Matrix</h1>
-          <p className="mt-2 text-gray-600 dark:text-gray-400">All-time head-to-head records for current season members</p>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            {isScheduleSwap
+              ? 'Every team\'s record had it played every other team\'s schedule'
+              : 'All-time head-to-head records for current season members'}
+          </p>
+        </div>
+
+        {/* Matrix Mode Toggle */}
+        <div className="flex flex-wrap gap-2">
+          {([
+            { value: 'h2h', label: 'Head-to-Head' },
+            { value: 'schedule_swap', label: 'Schedule Swap' }
+          ] as { value: MatrixMode; label: string }[]).map(option => (
+            <button
+              key={option.value}
+              onClick={() => handleModeChange(option.value)}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${
+                matrixMode === option.value
+                  ? 'bg-ffu-red text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
 
         {/* H2H Matrix Table */}
-        {currentSeasonMembers.length > 0 ? (
+        {activeMembers.length > 0 ? (
           <div className="card overflow-x-auto">
             <div className="mb-4 flex items-start justify-between gap-4">
               <div>
                 <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
-                  {selectedFilter === 'ALL_TIME' ? 'All Members' : `${getLeagueName(selectedFilter as LeagueTier)} League - ${CURRENT_YEAR}`}
+                  {selectedFilter === 'ALL_TIME'
+                    ? 'All Members'
+                    : `${getLeagueName(selectedFilter as LeagueTier)} League - ${isScheduleSwap ? scheduleYear : CURRENT_YEAR}`}
                 </h2>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                  {selectedFilter === 'ALL_TIME'
-                    ? 'All-time records between all FFU members (rows beat columns)'
-                    : 'All-time records between current season members (rows beat columns)'}
+                  {isScheduleSwap
+                    ? 'Regular season record of each row team playing the column team\'s schedule'
+                    : selectedFilter === 'ALL_TIME'
+                      ? 'All-time records between all FFU members (rows beat columns)'
+                      : 'All-time records between current season members (rows beat columns)'}
                 </p>
               </div>
 
@@ -433,6 +522,35 @@ export const H2HMatrix = () => {
               <div className="flex flex-col gap-3">
                 {/* Dropdowns Row */}
                 <div className="flex flex-wrap items-center gap-3">
+                  {isScheduleSwap && (
+                    <div className="flex items-center gap-3">
+                      <label className="text-sm font-heading font-bold text-gray-800 dark:text-gray-200 uppercase tracking-wide whitespace-nowrap">
+                        Season
+                      </label>
+                      <div className="relative w-32">
+                        <select
+                          value={scheduleYear}
+                          onChange={(e) => {
+                            const year = e.target.value;
+                            const filter = getAvailableLeagues(year).includes(selectedFilter as LeagueTier) ? selectedFilter : 'PREMIER';
+                            setScheduleYear(year);
+                            setSelectedFilter(filter);
+                            setSortByTeam(null);
+                            updateParams({ year, filter });
+                          }}
+                          className="block w-full pl-3 pr-10 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none"
+                        >
+                          {getAllYears().map(year => (
+                            <option key={year} value={year}>{year}</option>
+                          ))}
+                        </select>
+                        <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
+                          <ChevronDown className="h-4 w-4 text-gray-400" />
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   <div className="flex items-center gap-3">
                     <label className="text-sm font-heading font-bold text-gray-800 dark:text-gray-200 uppercase tracking-wide whitespace-nowrap">
                       View
@@ -443,11 +561,12 @@ export const H2HMatrix = () => {
                         onChange={(e) => {
                           const filter = e.target.value as LeagueFilter;
                           setSelectedFilter(filter);
+                          if (isScheduleSwap) setSortByTeam(null);
                           updateParams({ filter });
                         }}
                         className="block w-full pl-3 pr-10 py-2 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none"
                       >
-                        {filterOptions.map(option => (
+                        {(isScheduleSwap ? scheduleFilterOptions : filterOptions).map(option => (
                           <option key={option.value} value={option.value}>{option.label}</option>
                         ))}
                       </select>
@@ -483,7 +602,7 @@ export const H2HMatrix = () => {
                         <option value="none">None</option>
                         <option value="lopsided">Most Lopsided</option>
                         <option value="closest">Closest Records</option>
-                        <option value="most_played">Most Played</option>
+                        {!isScheduleSwap && <option value="most_played">Most Played</option>}
                       </select>
                       <div className="absolute inset-y-0 right-0 flex items-center pr-2 pointer-events-none">
                         <ChevronDown className="h-4 w-4 text-gray-400" />
@@ -504,7 +623,7 @@ export const H2HMatrix = () => {
 
                 {/* Checkboxes and Slider Row */}
                 <div className="flex flex-wrap items-center gap-4">
-                  {selectedFilter === 'ALL_TIME' && (
+                  {selectedFilter === 'ALL_TIME' && !isScheduleSwap && (
                     <label className="flex items-center gap-2 cursor-pointer">
                       <input
                         type="checkbox"
@@ -518,17 +637,19 @@ export const H2HMatrix = () => {
                     </label>
                   )}
 
-                  <label className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={excludePlayoffs}
-                      onChange={(e) => setExcludePlayoffs(e.target.checked)}
-                      className="w-4 h-4 text-ffu-red bg-gray-100 border-gray-300 rounded focus:ring-ffu-red dark:focus:ring-ffu-red dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
-                    />
-                    <span className="text-sm font-medium text-gray-800 dark:text-gray-200 whitespace-nowrap">
-                      Exclude Playoffs
-                    </span>
-                  </label>
+                  {!isScheduleSwap && (
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={excludePlayoffs}
+                        onChange={(e) => setExcludePlayoffs(e.target.checked)}
+                        className="w-4 h-4 text-ffu-red bg-gray-100 border-gray-300 rounded focus:ring-ffu-red dark:focus:ring-ffu-red dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
+                      />
+                      <span className="text-sm font-medium text-gray-800 dark:text-gray-200 whitespace-nowrap">
+                        Exclude Playoffs
+                      </span>
+                    </label>
+                  )}
 
                   {highlightOption !== 'none' && (
                     <>
@@ -631,21 +752,30 @@ export const H2HMatrix = () => {
                       </td>
                       {sortedMembers.map(colTeam => {
                         if (rowTeam.userId === colTeam.userId) {
+                          // Playing your own schedule is your actual record
+                          const ownRecord = isScheduleSwap ? activeMatrix.get(rowTeam.userId)?.get(colTeam.userId) : undefined;
                           return (
                             <td
                               key={colTeam.userId}
                               className="bg-gray-100 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 p-2 text-center"
                             >
-                              <span className="text-xs text-gray-400 dark:text-gray-600">—</span>
+                              {ownRecord ? (
+                                <span className="text-sm font-bold font-mono text-gray-500 dark:text-gray-400">
+                                  {ownRecord.wins}-{ownRecord.losses}{ownRecord.ties > 0 ? `-${ownRecord.ties}` : ''}
+                                </span>
+                              ) : (
+                                <span className="text-xs text-gray-400 dark:text-gray-600">—</span>
+                              )}
                             </td>
                           );
                         }
 
-                        const record = h2hMatrix.get(rowTeam.userId)?.get(colTeam.userId);
+                        const record = activeMatrix.get(rowTeam.userId)?.get(colTeam.userId);
                         const wins = record?.wins || 0;
                         const losses = record?.losses || 0;
                         const ties = record?.ties || 0;
                         const totalGames = record?.totalGames || 0;
+                        const isClickable = totalGames > 0 && !isScheduleSwap; // Schedule swaps have no games to list
                         const highlighted = isHighlighted(rowTeam.userId, colTeam.userId);
 
                         // Determine cell color based on record
@@ -672,8 +802,8 @@ export const H2HMatrix = () => {
                         return (
                           <td
                             key={colTeam.userId}
-                            className={`${cellColor} ${borderClass} p-2 text-center ${totalGames > 0 ? 'cursor-pointer hover:opacity-75 transition-opacity' : ''}`}
-                            onClick={() => totalGames > 0 && handleCellClick(rowTeam, colTeam)}
+                            className={`${cellColor} ${borderClass} p-2 text-center ${isClickable ? 'cursor-pointer hover:opacity-75 transition-opacity' : ''}`}
+                            onClick={() => isClickable && handleCellClick(rowTeam, colTeam)}
                           >
                             {totalGames > 0 ? (
                               <div className="flex flex-col items-center">
@@ -699,12 +829,79 @@ export const H2HMatrix = () => {
             <div className="mt-4 text-xs text-gray-500 dark:text-gray-400">
               <p>• Green indicates winning record (60%+), Yellow indicates even record (40-60%), Red indicates losing record (&lt;40%)</p>
               <p>• Records show: Wins-Losses (Total Games)</p>
+              {isScheduleSwap && (
+                <p>• Weeks where the column team faced the row team are played against the column team instead. The diagonal is each team's actual record.</p>
+              )}
             </div>
           </div>
         ) : (
           <div className="card">
             <p className="text-center text-gray-500 dark:text-gray-400">
-              No data available for {selectedFilter === 'ALL_TIME' ? 'All Members' : getLeagueName(selectedFilter as LeagueTier)} league in {CURRENT_YEAR}
+              No data available for {selectedFilter === 'ALL_TIME' ? 'All Members' : getLeagueName(selectedFilter as LeagueTier)} league in {isScheduleSwap ? scheduleYear : CURRENT_YEAR}
+            </p>
+          </div>
+        )}
+
+        {/* Schedule Strength Ranking */}
+        {isScheduleSwap && scheduleStrength.length > 0 && (
+          <div className="card">
+            <div className="mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">Schedule Strength</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Average wins the rest of the league would have had with each team's schedule (hardest first)
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="text-left">#</th>
+                    <th className="text-left">Team</th>
+                    <th className="text-center">Avg Wins vs Schedule</th>
+                    <th className="text-center">Actual Wins</th>
+                    <th className="text-center hidden sm:table-cell">Avg Wins on Other Schedules</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scheduleStrength.map(strength => {
+                    const team = scheduleSwapMembers.find(member => member.userId === strength.userId);
+                    const scheduleDiff = strength.actualWins - strength.averageWinsAcrossSchedules;
+
+                    return (
+                      <tr key={strength.userId} className="table-row">
+                        <td className="font-bold text-gray-900 dark:text-gray-100">{strength.rank}</td>
+                        <td>
+                          <div className="flex items-center space-x-2">
+                            <TeamLogo
+                              teamName={team?.teamName || 'Unknown Team'}
+                              abbreviation={team?.abbreviation || 'UNK'}
+                              size="sm"
+                            />
+                            <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+                              {team?.teamName || 'Unknown Team'}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">
+                          {strength.averageWins.toFixed(1)}
+                        </td>
+                        <td className="text-center font-mono text-gray-700 dark:text-gray-300">
+                          {strength.actualWins}
+                          <span className={`ml-1 text-xs ${scheduleDiff > 0 ? 'text-green-600 dark:text-green-400' : scheduleDiff < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-400'}`}>
+                            ({scheduleDiff > 0 ? '+' : ''}{scheduleDiff.toFixed(1)})
+                          </span>
+                        </td>
+                        <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                          {strength.averageWinsAcrossSchedules.toFixed(1)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 italic">
+              The number beside actual wins is how many more (or fewer) wins a team's own schedule gave it than the average of everyone else's.
             </p>
           </div>
         )}
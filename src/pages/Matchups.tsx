@@ -7,8 +7,8 @@ import { TeamLogo } from '../components/Common/TeamLogo';
 import { LeagueBadge } from '../components/League/LeagueBadge';
 import { RosterModal } from '../components/Common/RosterModal';
 import type { LeagueTier } from '../types';
-import { USERS, getAllYears, getAvailableLeagues, getLeagueId, isActiveYear } from '../config/constants';
-import { getSeasonLength, isSleeperEra } from '../utils/era-detection';
+import { USERS, getAllYears, getAvailableLeagues, getLeagueId, getUserIdsByFFUId, isActiveYear } from '../config/constants';
+import { getLastRegularSeasonWeek, getSeasonLength, isSleeperEra } from '../utils/era-detection';
 import { ChevronDown, Filter } from 'lucide-react';
 import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
 import { shouldShowMatchupColors } from '../utils/nfl-schedule';
@@ -91,8 +91,8 @@ export const Matchups = () => {
     const weekNum = week === 'ALL' ? 0 : parseInt(week);
     let validWeekNum = isNaN(weekNum) ? 0 : weekNum;
 
-    // For active seasons, if selected week is playoff week (15-17), reset to All Weeks
-    if (isActiveYear(year) && validWeekNum >= 15) {
+    // For active seasons, if selected week is a playoff week, reset to All Weeks
+    if (isActiveYear(year) && validWeekNum > getLastRegularSeasonWeek(year)) {
       validWeekNum = 0;
     }
 
@@ -102,7 +102,7 @@ export const Matchups = () => {
 
   // Reset week selection if it becomes invalid when year changes
   useEffect(() => {
-    if (isActiveYear(selectedYear) && typeof selectedWeek === 'number' && selectedWeek >= 15 && selectedWeek !== 0) {
+    if (isActiveYear(selectedYear) && typeof selectedWeek === 'number' && selectedWeek > getLastRegularSeasonWeek(selectedYear) && selectedWeek !== 0) {
       setSelectedWeek(0); // Reset to All Weeks
       updateParams({ week: '0' });
     }
@@ -146,9 +146,9 @@ export const Matchups = () => {
     const totalWeeks = getSeasonLength(selectedYear);
     const allWeeks = Array.from({ length: totalWeeks }, (_, i) => i + 1);
 
-    // For active seasons, exclude playoff weeks 15-17 since they're TBD
+    // For active seasons, exclude playoff weeks since they're TBD
     if (isActiveYear(selectedYear)) {
-      return allWeeks.filter(week => week < 15);
+      return allWeeks.filter(week => week <= getLastRegularSeasonWeek(selectedYear));
     }
 
     return allWeeks;
@@ -177,7 +177,7 @@ export const Matchups = () => {
     // Map users to include their league for the selected year
     const usersWithLeagues = USERS.map(user => {
       // Determine if this user played in the selected league/year
-      const inSelectedLeague = usersInCurrentSelection.has(user.sleeperId);
+      const inSelectedLeague = getUserIdsByFFUId(user.ffuId).some(userId => usersInCurrentSelection.has(userId));
 
       // Assign league based on the selected league if they're in it, otherwise PAST
       const league: LeagueTier | 'PAST' = inSelectedLeague ? selectedLeague : 'PAST';
@@ -571,8 +571,8 @@ export const Matchups = () => {
 
           <div className="space-y-6 sm:space-y-8">
             {allWeeksData.map((weekData) => {
-              // For active seasons, don't show playoff weeks (15-17) as they're TBD
-              if (isActiveYear(selectedYear) && weekData.week >= 15) return null;
+              // For active seasons, don't show playoff weeks as they're TBD
+              if (isActiveYear(selectedYear) && weekData.week > getLastRegularSeasonWeek(selectedYear)) return null;
 
               const filteredMatchups = filterMatchupsByTeam(weekData.matchups || []);
               if (filteredMatchups.length === 0) return null; // Hide weeks with no matching games
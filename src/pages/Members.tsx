@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react';
-import { useAllStandings, useHeadToHeadMatchups } from '../hooks/useLeagues';
+import { useAllStandings, useHeadToHeadMatchups, useEloRatings } from '../hooks/useLeagues';
 import { useUrlPlayerState } from '../hooks/useUrlPlayerState';
 import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { ErrorMessage } from '../components/Common/ErrorMessage';
@@ -8,6 +8,7 @@ import { LeagueBadge } from '../components/League/LeagueBadge';
 import { CompareMembers } from '../components/Members/CompareMembers';
 import { PlayerSelector } from '../components/Members/PlayerSelector';
 import { LeagueProgressionChart } from '../components/Members/LeagueProgressionChart';
+import { EloHistoryChart } from '../components/Members/EloHistoryChart';
 import { getFFUIdBySleeperId, isActiveYear, CURRENT_YEAR } from '../config/constants';
 import type { LeagueTier, UserInfo } from '../types';
 import { Trophy, Medal, Award, TrendingDown, ChevronDown, ChevronUp, Share2, Check } from 'lucide-react';
@@ -128,6 +129,7 @@ interface PlayerCareerStats {
 
 export const Members = () => {
   const { data: standings, isLoading, error } = useAllStandings();
+  const { data: eloRatings } = useEloRatings();
   const [shareSuccess, setShareSuccess] = useState(false);
   const [sortKey, setSortKey] = useState<SeasonSortKey>('year');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
@@ -293,6 +295,7 @@ export const Members = () => {
   }, [standings]);
 
   const selectedPlayer = playerStats.find(p => p.userId === selectedPlayerId);
+  const selectedPlayerElo = eloRatings.find(rating => rating.ffuUserId === selectedPlayer?.ffuUserId);
   const selectedPlayer2 = playerStats.find(p => p.userId === selectedPlayer2Id);
 
   // Share functionality
@@ -616,6 +619,9 @@ export const Members = () => {
           {/* League Tier Progression Chart */}
           <LeagueProgressionChart seasonHistory={selectedPlayer.seasonHistory} />
 
+          {/* Cross-tier Elo Rating History */}
+          {selectedPlayerElo && <EloHistoryChart history={selectedPlayerElo.history} />}
+
           {/* Season History */}
           <div className="card">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Season History</h3>
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { ChevronDown, Trophy } from 'lucide-react';
+import { useUrlParams } from '../hooks/useUrlParams';
+import { useMidSeasonTournament } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { TournamentBracket } from '../components/Tournament/TournamentBracket';
+import { getAllYears, getUserInfoBySleeperId } from '../config/constants';
+import { isTournamentYear } from '../services/tournament.service';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+
+export const MidSeasonTournament = () => {
+  const { getParam, updateParams } = useUrlParams();
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const availableYears = getAllYears()
+    .filter(year => isTournamentYear(year))
+    .sort((a, b) => b.localeCompare(a));
+
+  // Initialize from URL params, falling back to the most recent tournament
+  const [selectedYear, setSelectedYear] = useState<string>(() => {
+    const urlYear = getParam('year', '');
+    return availableYears.includes(urlYear) ? urlYear : availableYears[0] || '';
+  });
+  const { data: tournament, isLoading, error } = useMidSeasonTournament(selectedYear);
+
+  const championInfo = tournament?.champion ? getUserInfoBySleeperId(tournament.champion.userId) : null;
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Mid-Season Tournament</h1>
+            <p className="mt-2 text-gray-600 dark:text-gray-300">
+              All three leagues in one 32-team bracket, Weeks 4–9
+            </p>
+          </div>
+
+          {/* Year Selector */}
+          <div className="relative">
+            <select
+              value={selectedYear}
+              onChange={(e) => {
+                const year = e.target.value;
+                setSelectedYear(year);
+                updateParams({ year });
+              }}
+              className="block w-full pl-4 pr-12 py-3 text-base font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none"
+            >
+              {availableYears.map(year => (
+                <option key={year} value={year}>{year} Season</option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+              <ChevronDown className="h-5 w-5 text-gray-400" />
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <ErrorMessage error={error} />
+        ) : !tournament ? (
+          <div className="card text-center text-gray-500 dark:text-gray-400">
+            No tournament data available for {selectedYear}.
+          </div>
+        ) : (
+          <>
+            {/* Champion */}
+            {tournament.champion && (
+              <div className="card flex items-center gap-4">
+                <div className="p-3 rounded-full bg-yellow-500">
+                  <Trophy className="h-6 w-6 text-white" />
+                </div>
+                <TeamLogo
+                  teamName={tournament.champion.teamName}
+                  abbreviation={championInfo?.abbreviation || 'UNK'}
+                  size="md"
+                  clickable
+                  onClick={() => openTeamProfile(tournament.champion!.userId, tournament.champion!.teamName)}
+                />
+                <div>
+                  <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                    {tournament.year} Tournament Champion
+                  </div>
+                  <div className="text-lg font-bold text-gray-900 dark:text-gray-100">
+                    {tournament.champion.teamName}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-300 font-mono">
+                    {tournament.champion.finalScore.toFixed(2)} in the final
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <TournamentBracket tournament={tournament} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,242 @@
+import { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { usePlayerHistory } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { LeagueBadge } from '../components/League/LeagueBadge';
+import { getCurrentAbbreviation, getDisplayTeamName, getUserInfoBySleeperId } from '../config/constants';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import { getBestPlayerGames, summarizePlayerTeams } from '../utils/player-history';
+
+const getPositionColor = (position: string): string => {
+  switch (position.toLowerCase()) {
+    case 'qb': return 'pos-qb-badge';
+    case 'rb': return 'pos-rb-badge';
+    case 'wr': return 'pos-wr-badge';
+    case 'te': return 'pos-te-badge';
+    case 'k': return 'pos-k-badge';
+    case 'def': return 'pos-def-badge';
+    default: return 'bg-gray-50 text-gray-600 dark:bg-gray-700 dark:text-gray-300';
+  }
+};
+
+export const PlayerProfile = () => {
+  const { playerId = '' } = useParams<{ playerId: string }>();
+  const { data: history, isLoading, error } = usePlayerHistory(playerId);
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const teamSummaries = useMemo(() => history ? summarizePlayerTeams(history.games) : [], [history]);
+  const bestGames = useMemo(() => history ? getBestPlayerGames(history.games) : [], [history]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  if (!history || (!history.player && history.drafts.length === 0 && history.games.length === 0)) {
+    return (
+      <div className="max-w-5xl mx-auto card text-center text-gray-500 dark:text-gray-400">
+        No FFU history found for player {playerId}.
+      </div>
+    );
+  }
+
+  const { player, drafts, games } = history;
+  const playerName = player?.full_name || `${player?.first_name || ''} ${player?.last_name || ''}`.trim() || 'Unknown Player';
+  const position = player?.position || '';
+  const averagePick = drafts.length > 0 ? drafts.reduce((sum, draft) => sum + draft.pickNumber, 0) / drafts.length : null;
+  const starts = games.filter(game => game.started);
+  const startedPoints = starts.reduce((sum, game) => sum + game.points, 0);
+
+  const getTeamName = (userId: string, year?: string) =>
+    getDisplayTeamName(userId, getUserInfoBySleeperId(userId)?.teamName || 'Unknown Team', year);
+
+  const renderTeam = (userId: string, year?: string) => {
+    const teamName = getTeamName(userId, year);
+    return (
+      <div className="flex items-center space-x-2">
+        <TeamLogo
+          teamName={teamName}
+          abbreviation={getCurrentAbbreviation(userId, getUserInfoBySleeperId(userId)?.abbreviation || 'UNK')}
+          size="sm"
+          clickable
+          onClick={() => openTeamProfile(userId, teamName)}
+        />
+        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{teamName}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="space-y-6">
+        <div>
+          <Link
+            to="/draft-fun-facts"
+            className="inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Draft Fun Facts
+          </Link>
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{playerName}</h1>
+            {position && (
+              <span className={`px-1.5 py-0.5 text-sm font-bold uppercase tracking-wider rounded-sm ${getPositionColor(position)}`}>
+                {position}
+              </span>
+            )}
+          </div>
+          {player?.team && (
+            <p className="mt-1 text-gray-600 dark:text-gray-300">{player.team}</p>
+          )}
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {[
+            { label: 'Times Drafted', value: drafts.length.toString() },
+            { label: 'Avg Pick', value: averagePick !== null ? averagePick.toFixed(1) : '—' },
+            { label: 'FFU Starts', value: starts.length.toString() },
+            { label: 'FFU Points', value: startedPoints.toFixed(2) }
+          ].map(stat => (
+            <div key={stat.label} className="card text-center">
+              <div className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400">{stat.label}</div>
+              <div className="mt-1 text-2xl font-bold font-mono text-gray-900 dark:text-gray-100">{stat.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Draft history */}
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Draft History</h3>
+          {drafts.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Never drafted in an FFU league.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="text-left">Season</th>
+                    <th className="text-center">Round</th>
+                    <th className="text-center">Pick</th>
+                    <th className="text-left">Team</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {drafts.map(draft => (
+                    <tr key={`${draft.year}-${draft.league}-${draft.pickNumber}`} className="table-row">
+                      <td>
+                        <div className="flex items-center gap-2">
+                          <LeagueBadge league={draft.league} />
+                          <span className="text-sm text-gray-700 dark:text-gray-300">{draft.year}</span>
+                        </div>
+                      </td>
+                      <td className="text-center font-mono text-gray-900 dark:text-gray-100">{draft.round}</td>
+                      <td className="text-center font-mono text-gray-900 dark:text-gray-100">#{draft.pickNumber}</td>
+                      <td>{renderTeam(draft.pickedBy, draft.year)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {games.length === 0 ? (
+          <div className="card text-sm text-gray-500 dark:text-gray-400">
+            No FFU lineup has included this player yet.
+          </div>
+        ) : (
+          <>
+            {/* FFU teams that started him */}
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">FFU Teams</h3>
+              {teamSummaries.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Rostered, but never started.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full table">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="text-left">Team</th>
+                        <th className="text-center hidden sm:table-cell">Seasons</th>
+                        <th className="text-center">Starts</th>
+                        <th className="text-center">Points</th>
+                        <th className="text-center">Avg</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {teamSummaries.map(summary => (
+                        <tr key={summary.userId} className="table-row">
+                          <td>{renderTeam(summary.userId)}</td>
+                          <td className="text-center text-sm text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                            {summary.firstYear === summary.lastYear ? summary.firstYear : `${summary.firstYear}–${summary.lastYear}`}
+                          </td>
+                          <td className="text-center font-mono text-gray-900 dark:text-gray-100">{summary.starts}</td>
+                          <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{summary.points.toFixed(2)}</td>
+                          <td className="text-center font-mono text-gray-700 dark:text-gray-300">{(summary.points / summary.starts).toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Best FFU games */}
+            {bestGames.length > 0 && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Best FFU Games</h3>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full table">
+                    <thead className="table-header">
+                      <tr>
+                        <th className="text-left">Game</th>
+                        <th className="text-left">Team</th>
+                        <th className="text-left hidden sm:table-cell">Opponent</th>
+                        <th className="text-center">Points</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {bestGames.map(game => (
+                        <tr key={`${game.year}-${game.league}-${game.week}-${game.userId}`} className="table-row">
+                          <td>
+                            <div className="flex items-center gap-2">
+                              <LeagueBadge league={game.league} />
+                              <span className="text-xs text-gray-500 dark:text-gray-400">{game.year} Wk {game.week}</span>
+                            </div>
+                          </td>
+                          <td>{renderTeam(game.userId, game.year)}</td>
+                          <td className="text-sm text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                            <span className={`mr-1 font-bold ${
+                              game.result === 'W' ? 'text-green-600 dark:text-green-400'
+                                : game.result === 'L' ? 'text-red-600 dark:text-red-400'
+                                  : 'text-gray-500 dark:text-gray-400'
+                            }`}>
+                              {game.result}
+                            </span>
+                            vs {getTeamName(game.opponentId, game.year)}
+                          </td>
+                          <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{game.points.toFixed(2)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -4,9 +4,14 @@ import { useLeagueStandings } from '../hooks/useLeagues';
 import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { ErrorMessage } from '../components/Common/ErrorMessage';
 import { CompactStandingsTable } from '../components/League/CompactStandingsTable';
+import { PlayoffOddsTable } from '../components/League/PlayoffOddsTable';
+import { StrengthOfScheduleTable } from '../components/League/StrengthOfScheduleTable';
 import { getLeagueName } from '../constants/leagues';
 import { getCurrentNFLWeek, isNFLWeekComplete } from '../utils/nfl-schedule';
+import { isRegularSeasonWeek } from '../utils/era-detection';
 import { isActiveYear } from '../config/constants';
+import { simulatePlayoffOdds, DEFAULT_SIMULATION_RUNS, type PlayoffOdds } from '../utils/playoff-simulator';
+import { Dices } from 'lucide-react';
 import type { LeagueTier, EnhancedLeagueSeasonData } from '../types';
 
 const CURRENT_YEAR = '2025';
@@ -23,8 +28,10 @@ export const PlayoffMachine = () => {
   const [matchupPredictions, setMatchupPredictions] = useState<Record<string, string>>({});
   const [simulatedStandings, setSimulatedStandings] = useState<EnhancedLeagueSeasonData | null>(null);
   const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+  const [playoffOdds, setPlayoffOdds] = useState<PlayoffOdds[] | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
 
-  const currentWeek = getCurrentNFLWeek();
+  const currentWeek = getCurrentNFLWeek(CURRENT_YEAR);
   const isCurrentSeason = isActiveYear(CURRENT_YEAR);
 
   // Calculate remaining weeks (only weeks that haven't been completed yet)
@@ -32,7 +39,7 @@ export const PlayoffMachine = () => {
   const remainingWeeks = leagueData && currentWeek
     ? Object.keys(matchupsByWeek)
         .map(Number)
-        .filter(week => week <= 14 && !isNFLWeekComplete(week)) // Only include incomplete weeks
+        .filter(week => isRegularSeasonWeek(week, CURRENT_YEAR, selectedLeague) && !isNFLWeekComplete(week, CURRENT_YEAR)) // Only include incomplete weeks
         .sort((a, b) => a - b)
     : [];
 
@@ -53,6 +60,11 @@ export const PlayoffMachine = () => {
     }
   }, [remainingWeeks.length, selectedWeek]);
 
+  // Simulated odds are stale once the league or any pick changes
+  useEffect(() => {
+    setPlayoffOdds(null);
+  }, [selectedLeague, matchupPredictions]);
+
   // Recalculate standings based on predictions
   useEffect(() => {
     if (!leagueData) return;
@@ -208,6 +220,24 @@ export const PlayoffMachine = () => {
     setMatchupPredictions({});
   };
 
+  const handleRunSimulation = () => {
+    setIsSimulating(true);
+    // Defer so the button can show its running state before the simulation blocks the thread
+    setTimeout(() => {
+      const odds = simulatePlayoffOdds({
+        standings: leagueData.standings,
+        matchupsByWeek,
+        year: CURRENT_YEAR,
+        remainingWeeks,
+        lockedResults: matchupPredictions
+      });
+      setPlayoffOdds(odds);
+      setIsSimulating(false);
+    }, 0);
+  };
+
+  const hasDivisions = leagueData.standings.some(s => s.division !== undefined && s.division !== null);
+
   return (
     <div className="max-w-6xl mx-auto space-y-6">
       {/* Header */}
@@ -254,6 +284,62 @@ export const PlayoffMachine = () => {
         </div>
       )}
 
+      {/* Playoff Odds */}
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+              Playoff Odds
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              Plays out the remaining schedule {DEFAULT_SIMULATION_RUNS.toLocaleString()} times using each team's scoring this season.
+              {Object.keys(matchupPredictions).length > 0 && ' Your picks are locked in.'}
+            </p>
+          </div>
+          <button
+            onClick={handleRunSimulation}
+            disabled={isSimulating || remainingWeeks.length === 0}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded transition-colors"
+          >
+            <Dices className="h-4 w-4" />
+            {isSimulating ? 'Simulating...' : playoffOdds ? 'Re-run Simulation' : 'Run Simulation'}
+          </button>
+        </div>
+
+        {playoffOdds ? (
+          <PlayoffOddsTable
+            odds={playoffOdds}
+            standings={leagueData.standings}
+            year={CURRENT_YEAR}
+            showDivisions={hasDivisions}
+          />
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {remainingWeeks.length === 0
+              ? 'No remaining regular season matchups to simulate.'
+              : 'Run the simulation to see each team\'s playoff, bye, division and seed odds.'}
+          </p>
+        )}
+      </div>
+
+      {/* Strength of Schedule */}
+      <div className="card">
+        <div className="mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            Strength of Schedule
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            Opponents faced and still to face, rated on this season's points per game, UPR and all-play win rate. Click a column to sort.
+          </p>
+        </div>
+        <StrengthOfScheduleTable
+          standings={leagueData.standings}
+          matchupsByWeek={matchupsByWeek}
+          year={CURRENT_YEAR}
+          remainingWeeks={remainingWeeks}
+        />
+      </div>
+
       {/* Remaining Matchups */}
       <div className="card">
         <div className="flex items-center justify-between mb-4">
@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useUrlParams } from '../hooks/useUrlParams';
 import { Link } from 'react-router-dom';
-import { useAllTimeRecords } from '../hooks/useLeagues';
+import { useAllTimeRecords, usePickups } from '../hooks/useLeagues';
 import { LoadingSpinner } from '../components/Common/LoadingSpinner';
 import { ErrorMessage } from '../components/Common/ErrorMessage';
 import { TeamLogo } from '../components/Common/TeamLogo';
@@ -9,8 +9,12 @@ import { LeagueBadge } from '../components/League/LeagueBadge';
 import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
 import type { LeagueTier } from '../types';
 import { ChevronDown, Filter } from 'lucide-react';
-import { USERS, CURRENT_YEAR } from '../config/constants';
+import { CURRENT_YEAR, findUserBySleeperId, getAllYears } from '../config/constants';
+import { isLeagueAvailableInYear, isPlayoffWeek } from '../utils/era-detection';
 import { TeamSelector } from '../components/Common/TeamSelector';
+import { LineupEfficiencyLeaderboard } from '../components/Members/LineupEfficiencyLeaderboard';
+import { WaiverWireLeaderboard } from '../components/Members/WaiverWireLeaderboard';
+import { getWaiverGemsByYear } from '../utils/waiver-pickups';
 
 export const Records = () => {
   const { getParam, updateParams } = useUrlParams();
@@ -32,6 +36,8 @@ export const Records = () => {
     selectedLeague === 'ALL' ? undefined : selectedLeague,
     selectedYear === 'ALL' ? undefined : selectedYear
   );
+  const { data: pickups } = usePickups();
+  const waiverGems = useMemo(() => getWaiverGemsByYear(pickups), [pickups]);
 
   // Initialize from URL params on mount
   useEffect(() => {
@@ -44,32 +50,17 @@ export const Records = () => {
   }, []); // Empty dependency array - only run on mount
 
   const leagues: (LeagueTier | 'ALL')[] = ['ALL', 'PREMIER', 'MASTERS', 'NATIONAL'];
-  const years = ['ALL', '2025', '2024', '2023', '2022', '2021', '2020', '2019', '2018'];
+  const years = ['ALL', ...getAllYears()];
   const validYearsByLeague: Record<string, string[]> = {
     ALL: years,
-    PREMIER: years,
-    NATIONAL: years,
-    MASTERS: ['ALL', '2025', '2024', '2023', '2022'], // no 2021, 2020
-  };
-
-  // Playoff weeks mapping by season
-  // Most seasons: weeks 15-17 are playoffs
-  // Some older seasons: weeks 14-16 are playoffs
-  const playoffWeeksByYear: Record<string, number[]> = {
-    '2025': [15, 16, 17],
-    '2024': [15, 16, 17],
-    '2023': [15, 16, 17],
-    '2022': [15, 16, 17],
-    '2021': [15, 16, 17],
-    '2020': [14, 15, 16],
-    '2019': [14, 15, 16],
-    '2018': [14, 15, 16],
+    PREMIER: ['ALL', ...getAllYears().filter(year => isLeagueAvailableInYear('PREMIER', year))],
+    NATIONAL: ['ALL', ...getAllYears().filter(year => isLeagueAvailableInYear('NATIONAL', year))],
+    MASTERS: ['ALL', ...getAllYears().filter(year => isLeagueAvailableInYear('MASTERS', year))],
   };
 
   // Helper function to check if a game is a playoff game
   const isPlayoffGame = (year: string, week: number): boolean => {
-    const playoffWeeks = playoffWeeksByYear[year];
-    return playoffWeeks ? playoffWeeks.includes(week) : false;
+    return isPlayoffWeek(week, year);
   };
 
   const filteredYears = useMemo(() => {
@@ -101,7 +92,7 @@ export const Records = () => {
 
     // Categorize teams by their current league (2025)
     const categorizedTeams = Array.from(teamsMap.values()).map(team => {
-      const user = USERS.find(u => u.sleeperId === team.userId);
+      const user = findUserBySleeperId(team.userId);
 
       // Determine current league based on standings/league data for current year
       // For now, we'll look at the most recent record to determine league
@@ -699,6 +690,73 @@ export const Records = () => {
           </div>
         )}
 
+        {/* Lineup efficiency follows the matchup table's league/year filters */}
+        <LineupEfficiencyLeaderboard
+          league={topScoresLeague === 'ALL' ? undefined : topScoresLeague}
+          year={topScoresYear === 'ALL' ? undefined : topScoresYear}
+        />
+
+        {/* Waiver gem of the year: each season's best pickup across all leagues */}
+        {waiverGems.length > 0 && (
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Waiver Gem of the Year</h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="text-left">Season</th>
+                    <th className="text-left">Player</th>
+                    <th className="text-left">Team</th>
+                    <th className="text-center">Points</th>
+                    <th className="text-center hidden sm:table-cell">FAAB</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {waiverGems.map(gem => {
+                    const user = findUserBySleeperId(gem.userId, gem.year);
+                    return (
+                      <tr key={gem.year} className="table-row">
+                        <td>
+                          <div className="flex items-center gap-2">
+                            <LeagueBadge league={gem.league} />
+                            <span className="text-sm text-gray-700 dark:text-gray-300">{gem.year} Wk {gem.week}</span>
+                          </div>
+                        </td>
+                        <td>
+                          <Link to={`/players/${gem.playerId}`} className="font-medium text-gray-900 dark:text-gray-100 text-sm hover:underline">
+                            {gem.playerInfo.name}
+                          </Link>
+                          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{gem.playerInfo.position}</span>
+                        </td>
+                        <td>
+                          <button
+                            onClick={() => openTeamProfile(gem.userId, user?.teamName || 'Unknown Team')}
+                            className="flex items-center space-x-2"
+                          >
+                            <TeamLogo teamName={user?.teamName || 'Unknown Team'} abbreviation={user?.abbreviation || 'UNK'} size="sm" />
+                            <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{user?.teamName || 'Unknown Team'}</span>
+                          </button>
+                        </td>
+                        <td className="text-center font-mono font-bold text-gray-900 dark:text-gray-100">{gem.points.toFixed(2)}</td>
+                        <td className="text-center font-mono text-gray-700 dark:text-gray-300 hidden sm:table-cell">
+                          {gem.faabBid !== undefined ? `$${gem.faabBid}` : 'FA'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Waiver wire leaderboards follow the matchup table's league/year filters */}
+        <WaiverWireLeaderboard
+          pickups={pickups}
+          league={topScoresLeague === 'ALL' ? undefined : topScoresLeague}
+          year={topScoresYear === 'ALL' ? undefined : topScoresYear}
+        />
+
         {!records && (
           <div className="text-center py-12">
             <div className="text-gray-500 dark:text-gray-400">
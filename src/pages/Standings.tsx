@@ -7,18 +7,25 @@ import { StandingsTable } from '../components/League/StandingsTable';
 import { TeamLogo } from '../components/Common/TeamLogo';
 import { getDisplayTeamName, getCurrentTeamName, getCurrentAbbreviation, isActiveYear } from '../config/constants';
 import { getLeagueName } from '../constants/leagues';
-import { ChevronDown, Crown, Star } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { ChevronDown, Crown, Shuffle, Star } from 'lucide-react';
 import type { LeagueTier } from '../types';
 import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
-import { calculateRankings, getTiebreakerInfo, identifyDivisionLeaders, getDivisionName } from '../utils/ranking';
+import { calculateRankings, getTiebreakerInfo, identifyDivisionLeaders, getDivisionName, supportsTiebreakers } from '../utils/ranking';
 import { StandingsTooltip } from '../components/Common/StandingsTooltip';
+import { TierZoneBadge } from '../components/Common/TierZoneBadge';
+import { NextSeasonProjection } from '../components/League/NextSeasonProjection';
+import { SeedingMismatchReport } from '../components/League/SeedingMismatchReport';
+import { getFinalOrder, getTierZones, hasPromotionRelegation } from '../utils/promotion-relegation';
+import { isSleeperEra } from '../utils/era-detection';
+import { BestBallStandingsTable } from '../components/League/BestBallStandingsTable';
 
-// Component to render StandingsTable with matchup data for active seasons
+// Component to render StandingsTable with matchup data for tiebreakers
 const StandingsTableWithMatchups = ({ leagueData, league, year }: { leagueData: any, league: string, year: string }) => {
   const { data: fullLeagueData } = useLeagueStandings(league as LeagueTier, year);
 
-  // For active seasons, use full league data if available to get matchups
-  const matchupsByWeek = (isActiveYear(year) && fullLeagueData) ?
+  // Use full league data if available to get matchups (tiebreakers for Sleeper-era seasons, all-play for every season)
+  const matchupsByWeek = fullLeagueData ?
     (fullLeagueData as any).matchupsByWeek : undefined;
 
   // Get division names from either fullLeagueData or leagueData
@@ -51,6 +58,7 @@ export const Standings = () => {
   const { data: standings, isLoading, error } = useAllStandings();
   const [selectedYear, setSelectedYear] = useState<string>('');
   const [selectedLeague, setSelectedLeague] = useState<string | null>(null);
+  const [showBestBall, setShowBestBall] = useState(() => getParam('view', '') === 'bestBall');
   const { openTeamProfile } = useTeamProfileModal();
 
   // Get available years (safe even when standings is empty)
@@ -124,6 +132,12 @@ export const Standings = () => {
   // Filter standings by selected year
   const yearStandings = standings.filter(s => s.year === currentYear);
   const isActiveSeason = isActiveYear(currentYear);
+  const canShowBestBall = isSleeperEra(currentYear);
+
+  const handleBestBallToggle = (enabled: boolean) => {
+    setShowBestBall(enabled);
+    updateParams({ view: enabled ? 'bestBall' : null });
+  };
 
   return (
     <div className="max-w-5xl mx-auto">
@@ -145,6 +159,15 @@ export const Standings = () => {
             </button>
           )} */}
 
+          {/* Alternative formats for this season */}
+          <Link
+            to={`/standings-explorer?year=${currentYear}&league=${selectedLeague || 'PREMIER'}`}
+            className="flex items-center gap-2 px-4 py-3 text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-colors"
+          >
+            <Shuffle className="h-4 w-4" />
+            <span className="hidden sm:inline">Explore Formats</span>
+          </Link>
+
           {/* Year Selector */}
           <div className="relative">
             <select
@@ -187,6 +210,17 @@ export const Standings = () => {
                 const hasDivisions = rankedStandings.some(s => s.division !== undefined && s.division !== null);
                 const divisionLeaders = hasDivisions ? identifyDivisionLeaders(rankedStandings, matchupsByWeek, currentYear) : null;
 
+                // Past seasons show final placements, so tooltips explain the rebuilt regular season seed
+                const seededStandings = !isActiveSeason && matchupsByWeek && supportsTiebreakers(currentYear)
+                  ? calculateRankings(leagueData.standings, matchupsByWeek, currentYear)
+                  : null;
+
+                const tierZones = getTierZones(
+                  league as LeagueTier,
+                  currentYear,
+                  isActiveSeason ? rankedStandings.map(s => s.userId) : getFinalOrder(leagueData.standings)
+                );
+
                 const getLeagueColors = (leagueType: string) => {
                   const colorMap = {
                     PREMIER: {
@@ -228,7 +262,10 @@ export const Standings = () => {
                     {/* All teams */}
                     <div className="space-y-3 mb-4">
                       {rankedStandings.map((standing, index) => {
-                        const tiebreakerInfo = getTiebreakerInfo(rankedStandings, index, matchupsByWeek, currentYear);
+                        const seedIndex = seededStandings ? seededStandings.findIndex(s => s.userId === standing.userId) : -1;
+                        const tiebreakerInfo = seededStandings
+                          ? getTiebreakerInfo(seededStandings, seedIndex, matchupsByWeek, currentYear)
+                          : getTiebreakerInfo(rankedStandings, index, matchupsByWeek, currentYear);
                         const isFirstDivisionLeader = divisionLeaders?.firstDivisionLeader === standing.userId;
                         const isSecondDivisionLeader = divisionLeaders?.secondDivisionLeader === standing.userId;
                         const isThirdDivisionLeader = divisionLeaders?.thirdDivisionLeader === standing.userId;
@@ -280,6 +317,7 @@ export const Standings = () => {
                               {isActiveSeason && isThirdDivisionLeader && (
                                 <Star className="w-3 h-3 text-amber-600 fill-amber-600" />
                               )}
+                              <TierZoneBadge zone={tierZones.get(standing.userId)} isFinal={!isActiveSeason} />
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1 flex-wrap min-h-[20px]">
                               <span>
@@ -299,7 +337,11 @@ export const Standings = () => {
                               )}
                               <span className="inline-flex items-center" style={{ minWidth: tiebreakerInfo ? 'auto' : '20px', minHeight: '20px' }}>
                                 {tiebreakerInfo && (
-                                  <StandingsTooltip tiebreakerInfo={tiebreakerInfo} size="sm" />
+                                  <StandingsTooltip
+                                    tiebreakerInfo={tiebreakerInfo}
+                                    size="sm"
+                                    title={seededStandings ? `Regular Season Seed #${seedIndex + 1}` : undefined}
+                                  />
                                 )}
                               </span>
                             </div>
@@ -320,6 +362,20 @@ export const Standings = () => {
                 );
               })}
           </div>
+
+          {/* Next season tiers from this season's promotions and relegations */}
+          {!isActiveSeason && hasPromotionRelegation(currentYear) && yearStandings.length > 0 && (
+            <NextSeasonProjection seasons={yearStandings} year={currentYear} />
+          )}
+
+          {/* Every past season whose rebuilt seeds disagree with its bracket */}
+          <SeedingMismatchReport
+            onSelectSeason={(year, league) => {
+              setSelectedYear(year);
+              updateParams({ year });
+              setSelectedLeague(league);
+            }}
+          />
         </div>
       )}
 
@@ -377,12 +433,34 @@ export const Standings = () => {
                 </button>
               );
             })}
+
+            {/* Actual vs best ball standings (needs Sleeper lineups) */}
+            {canShowBestBall && (
+              <div className="flex sm:ml-auto">
+                {[false, true].map(enabled => (
+                  <button
+                    key={String(enabled)}
+                    onClick={() => handleBestBallToggle(enabled)}
+                    className={`px-4 py-2 text-sm font-medium transition-colors ${
+                      showBestBall === enabled
+                        ? 'bg-ffu-red text-white'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {enabled ? 'Best Ball' : 'Actual'}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
           
           {/* Full table for selected league */}
           {(() => {
             const leagueData = yearStandings.find(s => s.league === selectedLeague);
             if (!leagueData) return null;
+            if (canShowBestBall && showBestBall) {
+              return <BestBallStandingsTable league={selectedLeague as LeagueTier} year={currentYear} />;
+            }
             return (
               <StandingsTableWithMatchups
                 leagueData={leagueData}
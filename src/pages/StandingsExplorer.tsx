@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, Minus } from 'lucide-react';
+import { useUrlParams } from '../hooks/useUrlParams';
+import { useLeagueStandings, useSeasonLineupMatchups } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { getAllYears, getAvailableLeagues, getDisplayTeamName, getCurrentAbbreviation } from '../config/constants';
+import { getLeagueName } from '../constants/leagues';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import { compareSeeds, STANDINGS_FORMATS } from '../utils/alternative-standings';
+import type { StandingsFormat } from '../utils/alternative-standings';
+import { getPlayoffTeamCount } from '../utils/era-detection';
+import type { LeagueTier } from '../types';
+
+const selectClassName = 'block w-full pl-4 pr-12 py-3 text-base font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none';
+
+export const StandingsExplorer = () => {
+  const { getParam, updateParams } = useUrlParams();
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const availableYears = getAllYears();
+
+  // Initialize from URL params, falling back to the most recent season's top tier
+  const [selectedYear, setSelectedYear] = useState<string>(() => {
+    const urlYear = getParam('year', '');
+    return availableYears.includes(urlYear) ? urlYear : availableYears[0] || '';
+  });
+  const [selectedLeague, setSelectedLeague] = useState<LeagueTier>(() => {
+    const urlLeague = getParam('league', 'PREMIER') as LeagueTier;
+    return getAvailableLeagues(selectedYear).includes(urlLeague) ? urlLeague : 'PREMIER';
+  });
+  const [format, setFormat] = useState<StandingsFormat>(() => {
+    const urlFormat = getParam('format', 'median') as StandingsFormat;
+    return STANDINGS_FORMATS.some(f => f.value === urlFormat) ? urlFormat : 'median';
+  });
+
+  const { data: leagueData, isLoading: standingsLoading, error: standingsError } = useLeagueStandings(selectedLeague, selectedYear);
+  // Best ball needs every lineup; seasons without stored lineups load them from Sleeper
+  const isBestBall = format === 'bestBall';
+  const { data: lineupMatchups, isLoading: lineupsLoading, error: lineupsError } = useSeasonLineupMatchups(selectedLeague, isBestBall ? selectedYear : '');
+  const isLoading = standingsLoading || (isBestBall && lineupsLoading);
+  const error = standingsError || (isBestBall ? lineupsError : undefined);
+  const playoffSpots = getPlayoffTeamCount(selectedYear, selectedLeague);
+
+  const seeds = useMemo(() => {
+    const matchupsByWeek = isBestBall ? lineupMatchups : leagueData?.matchupsByWeek;
+    if (!leagueData || !matchupsByWeek) return [];
+    return compareSeeds(leagueData.standings, matchupsByWeek, selectedYear, format, selectedLeague);
+  }, [leagueData, lineupMatchups, isBestBall, selectedYear, format, selectedLeague]);
+
+  const newlyIn = seeds.filter(seed => seed.makesPlayoffs && !seed.madePlayoffs);
+  const newlyOut = seeds.filter(seed => !seed.makesPlayoffs && seed.madePlayoffs);
+  const selectedFormat = STANDINGS_FORMATS.find(f => f.value === format)!;
+
+  const getTeamName = (userId: string) => {
+    const standing = leagueData?.standings.find(s => s.userId === userId);
+    return standing ? getDisplayTeamName(userId, standing.userInfo.teamName, selectedYear) : 'Unknown Team';
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Standings Explorer</h1>
+          <p className="mt-2 text-gray-600 dark:text-gray-300">
+            How each season would have ended under a different format
+          </p>
+        </div>
+
+        {/* Season and league selectors */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="relative">
+            <select
+              value={selectedYear}
+              onChange={(e) => {
+                const year = e.target.value;
+                const league = getAvailableLeagues(year).includes(selectedLeague) ? selectedLeague : 'PREMIER';
+                setSelectedYear(year);
+                setSelectedLeague(league);
+                updateParams({ year, league });
+              }}
+              className={selectClassName}
+            >
+              {availableYears.map(year => (
+                <option key={year} value={year}>{year} Season</option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+              <ChevronDown className="h-5 w-5 text-gray-400" />
+            </div>
+          </div>
+          <div className="relative">
+            <select
+              value={selectedLeague}
+              onChange={(e) => {
+                const league = e.target.value as LeagueTier;
+                setSelectedLeague(league);
+                updateParams({ league });
+              }}
+              className={selectClassName}
+            >
+              {getAvailableLeagues(selectedYear).map(league => (
+                <option key={league} value={league}>{getLeagueName(league)} League</option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center pr-3 pointer-events-none">
+              <ChevronDown className="h-5 w-5 text-gray-400" />
+            </div>
+          </div>
+        </div>
+
+        {/* Format selector */}
+        <div className="flex flex-wrap gap-2">
+          {STANDINGS_FORMATS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setFormat(option.value);
+                updateParams({ format: option.value });
+              }}
+              className={`px-4 py-2 text-sm font-medium transition-colors ${
+                format === option.value
+                  ? 'bg-ffu-red text-white'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400">{selectedFormat.description}</p>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <ErrorMessage error={error} />
+        ) : seeds.length === 0 ? (
+          <div className="card text-center text-gray-500 dark:text-gray-400">
+            {isBestBall && lineupMatchups
+              ? `No lineups for ${getLeagueName(selectedLeague)} ${selectedYear}. Best ball needs every regular season lineup from Sleeper.`
+              : `No matchup data available for ${getLeagueName(selectedLeague)} ${selectedYear}.`}
+          </div>
+        ) : (
+          <>
+            {/* Playoff picture changes */}
+            {format !== 'actual' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="card">
+                  <h3 className="text-sm font-bold uppercase tracking-wide text-green-700 dark:text-green-400 mb-2">
+                    Would Have Made Playoffs
+                  </h3>
+                  {newlyIn.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No changes</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm text-gray-900 dark:text-gray-100">
+                      {newlyIn.map(seed => (
+                        <li key={seed.userId}>
+                          {getTeamName(seed.userId)} <span className="text-gray-500 dark:text-gray-400">(#{seed.actualSeed} → #{seed.alternativeSeed})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="card">
+                  <h3 className="text-sm font-bold uppercase tracking-wide text-red-700 dark:text-red-400 mb-2">
+                    Would Have Missed Playoffs
+                  </h3>
+                  {newlyOut.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No changes</p>
+                  ) : (
+                    <ul className="space-y-1 text-sm text-gray-900 dark:text-gray-100">
+                      {newlyOut.map(seed => (
+                        <li key={seed.userId}>
+                          {getTeamName(seed.userId)} <span className="text-gray-500 dark:text-gray-400">(#{seed.actualSeed} → #{seed.alternativeSeed})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Seed table */}
+            <div className="card">
+              <div className="overflow-x-auto">
+                <table className="min-w-full table">
+                  <thead className="table-header">
+                    <tr>
+                      <th className="text-left">Seed</th>
+                      <th className="text-left">Team</th>
+                      <th className="text-center">{format === 'points' ? 'PF' : 'Record'}</th>
+                      <th className="text-center">Actual Seed</th>
+                      <th className="text-center">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {seeds.map(seed => {
+                      const { standing } = seed;
+                      return (
+                        <tr
+                          key={seed.userId}
+                          className={`table-row ${seed.alternativeSeed === playoffSpots ? 'border-b-2 border-gray-400 dark:border-gray-500' : ''}`}
+                        >
+                          <td className="font-bold text-gray-900 dark:text-gray-100">{seed.alternativeSeed}</td>
+                          <td>
+                            <div className="flex items-center space-x-2">
+                              <TeamLogo
+                                teamName={standing.userInfo.teamName}
+                                abbreviation={getCurrentAbbreviation(standing.userId, standing.userInfo.abbreviation)}
+                                size="sm"
+                                clickable
+                                onClick={() => openTeamProfile(standing.userId, standing.userInfo.teamName)}
+                              />
+                              <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">
+                                {getTeamName(seed.userId)}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="text-center font-mono text-gray-900 dark:text-gray-100">
+                            {format === 'points'
+                              ? standing.pointsFor.toFixed(2)
+                              : `${standing.wins}-${standing.losses}${standing.ties ? `-${standing.ties}` : ''}`}
+                          </td>
+                          <td className="text-center font-mono text-gray-700 dark:text-gray-300">{seed.actualSeed}</td>
+                          <td className="text-center">
+                            <span className={`inline-flex items-center gap-0.5 font-mono font-bold text-sm ${
+                              seed.seedChange > 0 ? 'text-green-600 dark:text-green-400'
+                                : seed.seedChange < 0 ? 'text-red-600 dark:text-red-400'
+                                  : 'text-gray-400'
+                            }`}>
+                              {seed.seedChange > 0 ? <ArrowUp className="h-3.5 w-3.5" />
+                                : seed.seedChange < 0 ? <ArrowDown className="h-3.5 w-3.5" />
+                                  : <Minus className="h-3.5 w-3.5" />}
+                              {seed.seedChange !== 0 && Math.abs(seed.seedChange)}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 italic">
+                Actual seeds are rebuilt from the regular season with the league's tiebreakers. The line marks the {playoffSpots}-team playoff cut.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
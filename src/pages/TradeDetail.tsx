@@ -0,0 +1,150 @@
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { useTradeAnalysis } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { LeagueBadge } from '../components/League/LeagueBadge';
+import { TradeContributionChart } from '../components/Trades/TradeContributionChart';
+import { getCurrentAbbreviation, getDisplayTeamName, getUserInfoBySleeperId } from '../config/constants';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import type { LeagueTier } from '../types';
+
+export const TradeDetail = () => {
+  const { year = '', league = '', transactionId = '' } = useParams<{ year: string; league: string; transactionId: string }>();
+  const leagueTier = league.toUpperCase() as LeagueTier;
+  const { data: analysis, isLoading, error } = useTradeAnalysis(leagueTier, year, transactionId);
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const getTeamName = (userId: string) =>
+    getDisplayTeamName(userId, getUserInfoBySleeperId(userId)?.teamName || 'Unknown Team', year);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorMessage error={error} />;
+  }
+
+  if (!analysis) {
+    return (
+      <div className="max-w-5xl mx-auto card text-center text-gray-500 dark:text-gray-400">
+        No trade {transactionId} found in {year} {leagueTier}.
+      </div>
+    );
+  }
+
+  const { transaction, sides, winner, margin } = analysis;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="space-y-6">
+        <div>
+          <Link
+            to={`/transactions?league=${leagueTier}&year=${year}&type=trade`}
+            className="inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Transactions
+          </Link>
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Trade Analysis</h1>
+            <LeagueBadge league={leagueTier} />
+          </div>
+          <p className="mt-1 text-gray-600 dark:text-gray-300">
+            {year} Week {transaction.week} · {new Date(transaction.timestamp).toLocaleDateString()}
+          </p>
+        </div>
+
+        {/* Verdict */}
+        <div className="card flex items-center gap-3">
+          <Trophy className={`h-6 w-6 ${winner ? 'text-yellow-600' : 'text-gray-400'}`} />
+          <div>
+            <div className="text-lg font-bold text-gray-900 dark:text-gray-100">
+              {winner ? `${getTeamName(winner)} won the trade by ${margin.toFixed(1)}` : 'Even trade'}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Points the acquired players scored in each new owner's starting lineup for the rest of the season. Playoff points count double.
+            </div>
+          </div>
+        </div>
+
+        {/* Sides */}
+        <div className={`grid grid-cols-1 gap-4 ${sides.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {sides.map(side => {
+            const teamName = getTeamName(side.userId);
+            return (
+              <div key={side.userId} className={`card ${side.userId === winner ? 'ring-2 ring-yellow-500' : ''}`}>
+                <div className="flex items-center space-x-2 mb-4">
+                  <TeamLogo
+                    teamName={teamName}
+                    abbreviation={getCurrentAbbreviation(side.userId, getUserInfoBySleeperId(side.userId)?.abbreviation || 'UNK')}
+                    size="sm"
+                    clickable
+                    onClick={() => openTeamProfile(side.userId, teamName)}
+                  />
+                  <span className="font-bold text-gray-900 dark:text-gray-100">{teamName}</span>
+                </div>
+
+                <div className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">Received</div>
+                <div className="space-y-1 text-sm">
+                  {side.acquiredPlayers.map(move => (
+                    <div key={move.playerId} className="flex items-center justify-between gap-2">
+                      <span>
+                        <Link to={`/players/${move.playerId}`} className="font-medium text-gray-900 dark:text-gray-100 hover:underline">{move.playerInfo.name}</Link>
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{move.playerInfo.position}</span>
+                      </span>
+                      <span className="font-mono text-gray-700 dark:text-gray-300">{(side.playerPoints[move.playerId] || 0).toFixed(1)}</span>
+                    </div>
+                  ))}
+                  {side.acquiredPicks.map(pick => (
+                    <div key={`${pick.season}-${pick.round}-${pick.originalOwner}`} className="text-gray-700 dark:text-gray-300">
+                      {pick.season} Round {pick.round} pick
+                      {pick.originalOwner !== side.userId && (
+                        <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({getTeamName(pick.originalOwner)})</span>
+                      )}
+                    </div>
+                  ))}
+                  {side.faabReceived > 0 && (
+                    <div className="text-gray-700 dark:text-gray-300">${side.faabReceived} FAAB</div>
+                  )}
+                  {side.acquiredPlayers.length + side.acquiredPicks.length === 0 && side.faabReceived === 0 && (
+                    <div className="text-gray-500 dark:text-gray-400">Nothing</div>
+                  )}
+                </div>
+
+                <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600 grid grid-cols-3 gap-2 text-center">
+                  <div>
+                    <div className="text-lg font-bold font-mono text-gray-900 dark:text-gray-100">{side.points.toFixed(1)}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">Started Pts</div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-bold font-mono text-gray-900 dark:text-gray-100">{side.playoffPoints.toFixed(1)}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400" title={`${side.decisivePlayoffWins} playoff wins decided by the acquired starters`}>
+                      Playoff Pts{side.decisivePlayoffWins > 0 ? ` (${side.decisivePlayoffWins}W)` : ''}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-lg font-bold font-mono text-gray-900 dark:text-gray-100">{side.score.toFixed(1)}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">Score</div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Weekly contributions */}
+        <div className="card">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Weekly Contribution</h3>
+          <TradeContributionChart sides={sides} getTeamName={getTeamName} />
+        </div>
+      </div>
+    </div>
+  );
+};
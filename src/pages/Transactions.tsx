@@ -0,0 +1,257 @@
+import { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ChevronDown } from 'lucide-react';
+import { useLeagueTransactions } from '../hooks/useLeagues';
+import { LoadingSpinner } from '../components/Common/LoadingSpinner';
+import { ErrorMessage } from '../components/Common/ErrorMessage';
+import { TeamLogo } from '../components/Common/TeamLogo';
+import { LEAGUE_NAMES, AVAILABLE_YEARS, getAvailableLeaguesForYear } from '../constants/leagues';
+import { getCurrentAbbreviation, getDisplayTeamName, getFFUIdBySleeperId, getUserIdsByFFUId, getUserInfoBySleeperId, isSleeperEra } from '../config/constants';
+import { useTeamProfileModal } from '../contexts/TeamProfileModalContext';
+import { TRANSACTION_TYPE_LABELS, filterTransactions } from '../utils/transactions';
+import type { LeagueTier, SeasonTransaction, TransactionType } from '../types';
+
+const SELECT_CLASS = 'block w-full pl-2 sm:pl-4 pr-6 sm:pr-12 py-2 sm:py-3 text-sm sm:text-base font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-ffu-red focus:border-ffu-red rounded hover:border-gray-400 dark:hover:border-gray-500 transition-colors duration-200 appearance-none';
+
+const TYPE_BADGE_CLASSES: Record<TransactionType, string> = {
+  trade: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+  waiver: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300',
+  free_agent: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  commissioner: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+};
+
+// Transactions only exist for Sleeper-era seasons
+const SLEEPER_YEARS = AVAILABLE_YEARS.filter(isSleeperEra);
+
+export const Transactions = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { openTeamProfile } = useTeamProfileModal();
+
+  const selectedYear = SLEEPER_YEARS.includes(searchParams.get('year') || '') ? searchParams.get('year')! : SLEEPER_YEARS[0];
+  const availableLeagues = getAvailableLeaguesForYear(selectedYear);
+  const selectedLeague = availableLeagues.includes(searchParams.get('league') as LeagueTier)
+    ? searchParams.get('league') as LeagueTier
+    : availableLeagues[0];
+  const selectedMember = searchParams.get('member') || 'ALL';
+  const selectedType = (searchParams.get('type') || 'ALL') as TransactionType | 'ALL';
+
+  const { data: transactions, isLoading, error } = useLeagueTransactions(selectedLeague, selectedYear);
+
+  const members = useMemo(() => {
+    const userIds = [...new Set(transactions.flatMap(transaction => transaction.userIds))];
+    return userIds
+      .map(userId => ({
+        ffuId: getFFUIdBySleeperId(userId, selectedYear) || userId,
+        teamName: getDisplayTeamName(userId, getUserInfoBySleeperId(userId)?.teamName || 'Unknown Team', selectedYear)
+      }))
+      .sort((a, b) => a.teamName.localeCompare(b.teamName));
+  }, [transactions, selectedYear]);
+
+  const filteredTransactions = useMemo(() => {
+    const memberUserIds = selectedMember === 'ALL'
+      ? undefined
+      : [selectedMember, ...getUserIdsByFFUId(selectedMember)];
+    return filterTransactions(transactions, {
+      userIds: memberUserIds,
+      type: selectedType === 'ALL' ? undefined : selectedType
+    }).reverse();
+  }, [transactions, selectedMember, selectedType]);
+
+  const updateParams = (updates: Record<string, string>) => {
+    const newParams = new URLSearchParams(searchParams);
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value === 'ALL') {
+        newParams.delete(key);
+      } else {
+        newParams.set(key, value);
+      }
+    });
+    setSearchParams(newParams);
+  };
+
+  const getTeamName = (userId: string) =>
+    getDisplayTeamName(userId, getUserInfoBySleeperId(userId)?.teamName || 'Unknown Team', selectedYear);
+
+  const renderTeam = (userId: string) => {
+    const teamName = getTeamName(userId);
+    return (
+      <div className="flex items-center space-x-2">
+        <TeamLogo
+          teamName={teamName}
+          abbreviation={getCurrentAbbreviation(userId, getUserInfoBySleeperId(userId)?.abbreviation || 'UNK')}
+          size="sm"
+          clickable
+          onClick={() => openTeamProfile(userId, teamName)}
+        />
+        <span className="font-medium text-gray-900 dark:text-gray-100 text-sm">{teamName}</span>
+      </div>
+    );
+  };
+
+  // What each team involved gained and gave up
+  const renderMoves = (transaction: SeasonTransaction) => (
+    <div className="space-y-2">
+      {transaction.userIds.map(userId => {
+        const adds = transaction.adds.filter(move => move.userId === userId);
+        const drops = transaction.drops.filter(move => move.userId === userId);
+        const picks = transaction.draftPicks.filter(pick => pick.to === userId);
+        const faab = transaction.faabTransfers.filter(transfer => transfer.to === userId);
+        if (adds.length + drops.length + picks.length + faab.length === 0) return null;
+
+        return (
+          <div key={userId} className="text-sm">
+            {transaction.userIds.length > 1 && (
+              <div className="text-xs font-bold uppercase tracking-wide text-gray-500 dark:text-gray-400">{getTeamName(userId)} receives</div>
+            )}
+            {adds.map(move => (
+              <div key={`add-${move.playerId}`} className="text-green-700 dark:text-green-400">
+                + <Link to={`/players/${move.playerId}`} className="hover:underline">{move.playerInfo.name}</Link>
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{move.playerInfo.position}{move.playerInfo.team ? ` · ${move.playerInfo.team}` : ''}</span>
+              </div>
+            ))}
+            {picks.map(pick => (
+              <div key={`pick-${pick.season}-${pick.round}-${pick.originalOwner}`} className="text-green-700 dark:text-green-400">
+                + {pick.season} Round {pick.round} pick
+                {pick.originalOwner !== userId && (
+                  <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">({getTeamName(pick.originalOwner)})</span>
+                )}
+              </div>
+            ))}
+            {faab.map(transfer => (
+              <div key={`faab-${transfer.from}`} className="text-green-700 dark:text-green-400">+ ${transfer.amount} FAAB</div>
+            ))}
+            {drops.map(move => (
+              <div key={`drop-${move.playerId}`} className="text-red-600 dark:text-red-400">
+                − <Link to={`/players/${move.playerId}`} className="hover:underline">{move.playerInfo.name}</Link>
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">{move.playerInfo.position}{move.playerInfo.team ? ` · ${move.playerInfo.team}` : ''}</span>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Transactions</h1>
+          <p className="mt-1 sm:mt-2 text-xs sm:text-base text-gray-600 dark:text-gray-300">Trades, waiver claims and free agent moves</p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4">
+          {[
+            {
+              key: 'league',
+              value: selectedLeague,
+              options: availableLeagues.map(league => ({ value: league, label: LEAGUE_NAMES[league] }))
+            },
+            {
+              key: 'year',
+              value: selectedYear,
+              options: SLEEPER_YEARS.map(year => ({ value: year, label: year }))
+            },
+            {
+              key: 'member',
+              value: selectedMember,
+              options: [{ value: 'ALL', label: 'All Teams' }, ...members.map(member => ({ value: member.ffuId, label: member.teamName }))]
+            },
+            {
+              key: 'type',
+              value: selectedType,
+              options: [
+                { value: 'ALL', label: 'All Types' },
+                ...Object.entries(TRANSACTION_TYPE_LABELS).map(([value, label]) => ({ value, label }))
+              ]
+            }
+          ].map(filter => (
+            <div key={filter.key} className="relative min-w-0">
+              <select
+                value={filter.value}
+                onChange={(e) => updateParams(
+                  // A new season has a different set of teams
+                  filter.key === 'league' || filter.key === 'year'
+                    ? { [filter.key]: e.target.value, member: 'ALL' }
+                    : { [filter.key]: e.target.value }
+                )}
+                className={SELECT_CLASS}
+              >
+                {filter.options.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <div className="absolute inset-y-0 right-0 flex items-center pr-1 sm:pr-3 pointer-events-none">
+                <ChevronDown className="h-3 w-3 sm:h-5 sm:w-5 text-gray-400" />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center min-h-64">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <ErrorMessage error={error} />
+        ) : transactions.length === 0 ? (
+          <div className="card text-center text-sm text-gray-500 dark:text-gray-400">
+            No transactions stored for {LEAGUE_NAMES[selectedLeague]} {selectedYear}. Transactions are saved when season data is regenerated from Sleeper.
+          </div>
+        ) : filteredTransactions.length === 0 ? (
+          <div className="card text-center text-sm text-gray-500 dark:text-gray-400">
+            No transactions match these filters.
+          </div>
+        ) : (
+          <div className="card">
+            <div className="overflow-x-auto">
+              <table className="min-w-full table">
+                <thead className="table-header">
+                  <tr>
+                    <th className="text-left">When</th>
+                    <th className="text-left">Type</th>
+                    <th className="text-left hidden sm:table-cell">Teams</th>
+                    <th className="text-left">Moves</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredTransactions.map(transaction => (
+                    <tr key={transaction.transactionId} className="table-row align-top">
+                      <td className="whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">Week {transaction.week}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{new Date(transaction.timestamp).toLocaleDateString()}</div>
+                      </td>
+                      <td className="whitespace-nowrap">
+                        <span className={`px-2 py-0.5 text-xs font-bold rounded-sm ${TYPE_BADGE_CLASSES[transaction.type]}`}>
+                          {TRANSACTION_TYPE_LABELS[transaction.type]}
+                        </span>
+                        {transaction.waiverBid !== undefined && (
+                          <div className="mt-1 text-xs font-mono text-gray-500 dark:text-gray-400">${transaction.waiverBid} bid</div>
+                        )}
+                        {transaction.type === 'trade' && (
+                          <Link
+                            to={`/trades/${selectedYear}/${selectedLeague.toLowerCase()}/${transaction.transactionId}`}
+                            className="mt-1 block text-xs font-medium text-ffu-red hover:underline"
+                          >
+                            Who won?
+                          </Link>
+                        )}
+                      </td>
+                      <td className="hidden sm:table-cell">
+                        <div className="space-y-1">
+                          {transaction.userIds.map(userId => <div key={userId}>{renderTeam(userId)}</div>)}
+                        </div>
+                      </td>
+                      <td>{renderMoves(transaction)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
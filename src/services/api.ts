@@ -1,11 +1,26 @@
 import { SleeperService } from './sleeper.service';
 import { LeagueService } from './league.service';
+import { tournamentService } from './tournament.service';
 import { getSeasonLength } from '../utils/era-detection';
+import { calculateEloRatings } from '../utils/elo-calculator';
+import { dataService } from './data.service';
 import type { 
   LeagueTier,
   EnhancedLeagueSeasonData,
+  WeekMatchup,
   WeekMatchupsResponse,
-  AllTimeRecords
+  AllTimeRecords,
+  MidSeasonTournamentData,
+  MemberEloRating,
+  PlayerHistory,
+  PlayerData,
+  SeasonTransaction,
+  TradeAnalysis,
+  PickupValue,
+  DraftGrades,
+  DraftSlotSeason,
+  SeasonSeedingMismatches,
+  LineupSeason
 } from '../types';
 
 // Initialize services
@@ -78,6 +93,73 @@ export const leagueApi = {
   getAllMatchupsForComparison: async () => {
     return await leagueService.getAllMatchupsForComparison();
   },
+
+  // Get the mid-season tournament bracket for a season (null if no tournament that year)
+  getMidSeasonTournament: async (year: string): Promise<MidSeasonTournamentData | null> => {
+    return await tournamentService.loadMidSeasonTournamentData(year);
+  },
+
+  // Get cross-tier Elo ratings for every member, built from all matchups since 2018
+  getEloRatings: async (): Promise<MemberEloRating[]> => {
+    const allMatchupData = await leagueService.getAllMatchupsForComparison();
+    return calculateEloRatings(allMatchupData);
+  },
+
+  // Get cached NFL player data (names and positions), null if it hasn't been generated
+  getPlayerData: async (): Promise<PlayerData | null> => {
+    return await dataService.loadPlayerData();
+  },
+
+  // Get a season's matchups with lineups, from stored lineups or else Sleeper's weekly matchups
+  getSeasonLineupMatchups: async (league: LeagueTier, year: string): Promise<Record<number, WeekMatchup[]>> => {
+    return await leagueService.getSeasonLineupMatchups(league, year);
+  },
+
+  // Get matchups with lineups for every Sleeper-era league season
+  getLineupSeasons: async (): Promise<LineupSeason[]> => {
+    return await leagueService.getAllLineupSeasons();
+  },
+
+  // Get every FFU draft pick and lineup appearance for an NFL player
+  getPlayerHistory: async (playerId: string): Promise<PlayerHistory> => {
+    return await leagueService.getPlayerHistory(playerId);
+  },
+
+  // Get completed trades, waiver claims and free agent moves for a Sleeper-era league season
+  getLeagueTransactions: async (league: LeagueTier, year: string): Promise<SeasonTransaction[]> => {
+    return await leagueService.getLeagueTransactions(league, year);
+  },
+
+  // Get every Sleeper-era trade, scored by what each side's new players started for it
+  getTradeAnalyses: async (): Promise<TradeAnalysis[]> => {
+    return await leagueService.getAllTradeAnalyses();
+  },
+
+  // Get one scored trade, null if the season has no trade with that ID
+  getTradeAnalysis: async (league: LeagueTier, year: string, transactionId: string): Promise<TradeAnalysis | null> => {
+    const analyses = await leagueService.getSeasonTradeAnalyses(league, year);
+    return analyses.find(analysis => analysis.transaction.transactionId === transactionId) || null;
+  },
+
+  // Get every Sleeper-era waiver claim and free agent add, valued by what the player started for the manager
+  getPickups: async (): Promise<PickupValue[]> => {
+    return await leagueService.getAllPickups();
+  },
+
+  // Get Sleeper-era draft grades: every pick and team draft scored against actual season production
+  getDraftGrades: async (): Promise<DraftGrades> => {
+    return await leagueService.getAllDraftGrades();
+  },
+
+  // Get draft slot and final placement for every team in every completed season
+  getDraftSlotSeasons: async (): Promise<DraftSlotSeason[]> => {
+    return await leagueService.getAllDraftSlotSeasons();
+  },
+
+  // Check recomputed seeds against the played bracket for every completed Sleeper-era season
+  getSeedingMismatches: async (): Promise<SeasonSeedingMismatches[]> => {
+    return await leagueService.getAllSeedingMismatches();
+  },
 };
 
 export { sleeperService, leagueService };
\ No newline at end of file
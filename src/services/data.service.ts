@@ -1,8 +1,13 @@
-import type { LeagueTier, EnhancedLeagueSeasonData, WeekMatchupsResponse } from '../types';
-import { isHistoricalYear, isCurrentYear, getAvailableLeagues, isEspnEra } from '../config/constants';
+import type { LeagueTier, EnhancedLeagueSeasonData, WeekMatchupsResponse, WeekMatchup, TeamLineup } from '../types';
+import { isHistoricalYear, isCurrentYear, getAvailableLeagues, isEspnEra, getUserByFFUId, getUserById } from '../config/constants';
 import { calculateUPR, getRegularSeasonUPRData, calculateRegularSeasonRecord } from '../utils/upr-calculator';
+import { getSeedingMismatches } from '../utils/ranking';
+import { findMovementDiscrepancies } from '../utils/promotion-relegation';
+import { getPlayoffWeeks, getSeasonLength } from '../utils/era-detection';
+import { HISTORICAL_DATA_SCHEMA_VERSION, getSchemaVersion, normalizeHistoricalData } from '../utils/data-schema';
 
 export interface HistoricalLeagueData {
+  schemaVersion?: number; // Missing for v1 files (see utils/data-schema.ts)
   league: LeagueTier;
   year: string;
   leagueId: string;
@@ -10,9 +15,10 @@ export interface HistoricalLeagueData {
   playoffResults: any[];
   promotions: string[];
   relegations: string[];
-  matchupsByWeek: Record<number, any[]>; // All matchups for each week
+  matchupsByWeek: Record<number, any[]>; // All matchups for each week (Sleeper era matchups may carry lineups)
   memberGameStats?: Record<string, { highGame: number; lowGame: number; games: number[] }>; // High/low game stats per member
   draftData?: import('../types').DraftData; // Draft data if available
+  transactions?: import('../types').SeasonTransaction[]; // Completed trades, waiver claims and free agent moves (Sleeper era only)
   divisionNames?: Record<number, string>; // Division number to name mapping (Sleeper era only)
 }
 
@@ -20,7 +26,8 @@ export class DataService {
   private baseUrl = import.meta.env.BASE_URL.replace(/\/$/, ''); // Remove trailing slash
 
   /**
-   * Load league data from static JSON file (works for all years - no live API calls)
+   * Load league data from static JSON file (works for all years - no live API calls).
+   * Accepts both schema versions and returns them in the same shape.
    */
   async loadHistoricalLeagueData(league: LeagueTier, year: string): Promise<HistoricalLeagueData | null> {
     console.log(`📊 DataService: Loading data for ${league} ${year}`);
@@ -39,9 +46,12 @@ export class DataService {
         console.warn(`📊 DataService: HTTP ${response.status} - No data found for ${league} ${year}`);
         return null;
       }
-      const data = await response.json();
+      const data: HistoricalLeagueData = await response.json();
+      if (getSchemaVersion(data) > HISTORICAL_DATA_SCHEMA_VERSION) {
+        console.warn(`📊 DataService: ${league} ${year} uses schema v${data.schemaVersion}, newer than supported v${HISTORICAL_DATA_SCHEMA_VERSION}`);
+      }
       console.log(`📊 DataService: Successfully loaded ${league} ${year} with ${data.standings?.length || 0} teams`);
-      return data;
+      return normalizeHistoricalData(data);
     } catch (error) {
       console.error(`📊 DataService: Failed to load data for ${league} ${year}:`, error);
       return null;
@@ -181,6 +191,27 @@ export class DataService {
       .sort((a, b) => a.week - b.week);
   }
 
+  /**
+   * Get stored lineups for the matchup between two members, in the order the members were passed
+   */
+  getMatchupLineups(
+    historicalData: HistoricalLeagueData,
+    week: number,
+    userId1: string,
+    userId2: string
+  ): [TeamLineup, TeamLineup] | null {
+    const matchup: WeekMatchup | undefined = historicalData.matchupsByWeek[week]?.find((m: WeekMatchup) =>
+      (m.winner === userId1 && m.loser === userId2) || (m.winner === userId2 && m.loser === userId1)
+    );
+    if (!matchup?.lineups) {
+      return null;
+    }
+
+    return matchup.winner === userId1
+      ? [matchup.lineups.winner, matchup.lineups.loser]
+      : [matchup.lineups.loser, matchup.lineups.winner];
+  }
+
   /**
    * Calculate high/low game stats for each member from matchup data
    */
@@ -318,28 +349,12 @@ export class DataService {
     playoffWeeks: number[];
     availableLeagues: LeagueTier[];
   } {
-    if (isEspnEra(year)) {
-      return {
-        era: 'ESPN',
-        totalWeeks: 16,
-        playoffWeeks: [14, 15, 16],
-        availableLeagues: ['PREMIER', 'NATIONAL']
-      };
-    } else if (isHistoricalYear(year)) {
-      return {
-        era: 'Sleeper',
-        totalWeeks: 17,
-        playoffWeeks: [15, 16, 17],
-        availableLeagues: ['PREMIER', 'MASTERS', 'NATIONAL']
-      };
-    } else {
-      return {
-        era: 'Current',
-        totalWeeks: 17,
-        playoffWeeks: [15, 16, 17],
-        availableLeagues: ['PREMIER', 'MASTERS', 'NATIONAL']
-      };
-    }
+    return {
+      era: isEspnEra(year) ? 'ESPN' : isHistoricalYear(year) ? 'Sleeper' : 'Current',
+      totalWeeks: getSeasonLength(year),
+      playoffWeeks: getPlayoffWeeks(year),
+      availableLeagues: getAvailableLeagues(year)
+    };
   }
 
   /**
@@ -382,6 +397,59 @@ export class DataService {
       warnings.push(`Week ${maxWeek} exceeds expected ${eraInfo.totalWeeks} for ${eraInfo.era} era`);
     }
 
+    // Check that every team reference is a known member who played in this league season
+    const resolveMember = (id: string) => getUserByFFUId(id) || getUserById(id, data.year);
+    const seasonMembers = new Set<string>();
+    (data.standings || []).forEach(standing => {
+      const member = resolveMember(standing.ffuUserId || standing.userId);
+      if (!member) {
+        errors.push(`Standings team ${standing.ffuUserId || standing.userId} is not in USERS`);
+        return;
+      }
+      if (standing.userId && standing.ffuUserId && getUserById(standing.userId, data.year)?.ffuId !== standing.ffuUserId) {
+        errors.push(`Standings team ${standing.userId} is stored as ${standing.ffuUserId} but USERS has it as ${getUserById(standing.userId, data.year)?.ffuId}`);
+      }
+      seasonMembers.add(member.ffuId);
+    });
+
+    const checkReference = (id: string, location: string) => {
+      const member = resolveMember(id);
+      if (!member) {
+        errors.push(`${location} references ${id}, which is not in USERS`);
+      } else if (!seasonMembers.has(member.ffuId)) {
+        errors.push(`${location} references ${member.ffuId}, who is not in the ${data.year} ${data.league} standings`);
+      }
+    };
+    (data.playoffResults || []).forEach(result => checkReference(result.ffuUserId || result.userId, 'Playoff results'));
+    (data.promotions || []).forEach(id => checkReference(id, 'Promotions'));
+    (data.relegations || []).forEach(id => checkReference(id, 'Relegations'));
+    Object.entries(data.matchupsByWeek || {}).forEach(([week, matchups]) => matchups.forEach(matchup => {
+      checkReference(matchup.winner, `Week ${week} matchup`);
+      checkReference(matchup.loser, `Week ${week} matchup`);
+    }));
+    Object.keys(data.memberGameStats || {}).forEach(id => checkReference(id, 'Member game stats'));
+    new Set((data.draftData?.picks || []).map(pick => pick.pickedBy)).forEach(id => checkReference(id, 'Draft picks'));
+    new Set((data.transactions || []).flatMap(transaction => [
+      ...transaction.userIds,
+      ...transaction.draftPicks.flatMap(pick => [pick.originalOwner, pick.from, pick.to])
+    ])).forEach(id => checkReference(id, 'Transactions'));
+
+    // Check that recomputed seeds agree with the bracket that was played
+    getSeedingMismatches(data.standings || [], data.matchupsByWeek || {}, data.year).forEach(mismatch => {
+      warnings.push(
+        `${mismatch.userId} recomputes as seed ${mismatch.recomputedSeed} (${mismatch.expectedTier}) but the bracket has them as ${mismatch.actualTier}`
+      );
+    });
+
+    // Check stored promotions/relegations against the rules
+    findMovementDiscrepancies(data, data.year).forEach(discrepancy => {
+      warnings.push(
+        discrepancy.inStoredData
+          ? `${discrepancy.userId} is stored as a ${discrepancy.movement} but did not finish in the ${discrepancy.movement} spots`
+          : `${discrepancy.userId} finished in the ${discrepancy.movement} spots but is missing from ${discrepancy.movement === 'promotion' ? 'promotions' : 'relegations'}`
+      );
+    });
+
     return {
       isValid: errors.length === 0,
       warnings,
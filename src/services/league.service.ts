@@ -1,6 +1,8 @@
 import { SleeperService } from './sleeper.service';
 import { dataService } from './data.service';
-import { getAllLeagueConfigs, validateLeagueAndYear, getUserInfoBySleeperId, getUserInfoByFFUId, getFFUIdBySleeperId, getLeagueConfig } from '../config/constants';
+import { nflStatsService } from './nfl-stats.service';
+import type { HistoricalLeagueData } from './data.service';
+import { getAllLeagueConfigs, validateLeagueAndYear, getUserInfoBySleeperId, getUserInfoByFFUId, getFFUIdBySleeperId, getLeagueConfig, isActiveYear } from '../config/constants';
 import { getCurrentNFLWeek, getNFLScheduleDebugInfo, isNFLWeekComplete } from '../utils/nfl-schedule';
 import type {
   LeagueSeasonData,
@@ -10,11 +12,38 @@ import type {
   AllTimeRecords,
   GameRecord,
   SeasonRecord,
-  SleeperRoster
+  SleeperRoster,
+  DraftData,
+  DraftGrades,
+  DraftSlotSeason,
+  SeasonSeedingMismatches,
+  LineupSeason,
+  PlayerHistory,
+  SeasonTransaction,
+  TradeAnalysis,
+  PickupValue
 } from '../types';
+import { getPlayerDrafts, getPlayerGames } from '../utils/player-history';
+import { normalizeTransactions } from '../utils/transactions';
+import { getRegularSeasonWeeks, getSeasonLength, isSleeperEra } from '../utils/era-detection';
+import { analyzeTrade } from '../utils/trade-analyzer';
+import { attachSleeperLineups, getSleeperWeeklyLineups, getStoredWeeklyLineups } from '../utils/weekly-lineups';
+import type { WeeklyLineups } from '../utils/weekly-lineups';
+import { gradeDrafts } from '../utils/draft-grades';
+import type { WeeklyPlayerPoints } from '../utils/draft-grades';
+import { getDraftSlotSeasons } from '../utils/draft-slots';
+import { getSeedingMismatches, supportsTiebreakers } from '../utils/ranking';
+import { analyzePickups } from '../utils/waiver-pickups';
+
+interface SeasonLineups {
+  historicalData: HistoricalLeagueData;
+  lineups: WeeklyLineups;
+  matchupsByWeek: Record<number, WeekMatchup[]>; // Stored matchups, with lineups wherever Sleeper has them
+}
 
 export class LeagueService {
   private sleeperService: SleeperService;
+  private seasonLineups = new Map<string, Promise<SeasonLineups>>();
 
   constructor(sleeperService: SleeperService) {
     this.sleeperService = sleeperService;
@@ -74,7 +103,7 @@ export class LeagueService {
   // Method to neutralize winner/loser roles for active weeks
   private neutralizeActiveWeekMatchups(matchups: WeekMatchup[], year: string, week: number): WeekMatchup[] {
     // Only neutralize for 2025 season during incomplete weeks
-    if (year !== '2025' || isNFLWeekComplete(week)) {
+    if (year !== '2025' || isNFLWeekComplete(week, year)) {
       return matchups;
     }
 
@@ -110,8 +139,8 @@ export class LeagueService {
       return matchups;
     }
 
-    const currentNFLWeek = getCurrentNFLWeek();
-    const debugInfo = getNFLScheduleDebugInfo();
+    const currentNFLWeek = getCurrentNFLWeek(year);
+    const debugInfo = getNFLScheduleDebugInfo(year);
     
     console.log(`Live data check for ${league} ${year} week ${week}:`, {
       requestedWeek: week,
@@ -296,7 +325,7 @@ export class LeagueService {
     let matchups: WeekMatchup[];
 
     // For the current active week in 2025, prioritize live Sleeper API data
-    if (year === '2025' && getCurrentNFLWeek() === week) {
+    if (year === '2025' && getCurrentNFLWeek(year) === week) {
       console.log(`Active week detected for ${league} ${year} week ${week}, using live Sleeper API data`);
       try {
         matchups = await this.getLiveWeekMatchups(league, year, week);
@@ -760,4 +789,294 @@ export class LeagueService {
 
     return allMatchupData;
   }
-}
\ No newline at end of file
+
+  /**
+   * Everything FFU knows about one NFL player: every draft pick spent on him and
+   * every lineup he appeared in. Seasons without stored lineups use Sleeper's weekly matchups.
+   */
+  async getPlayerHistory(playerId: string): Promise<PlayerHistory> {
+    const allLeagues = getAllLeagueConfigs();
+
+    const [playerData, seasons, lineupSeasons] = await Promise.all([
+      dataService.loadPlayerData(),
+      Promise.all(allLeagues.map(async (leagueConfig) => {
+        try {
+          return await dataService.loadHistoricalLeagueData(leagueConfig.tier, leagueConfig.year);
+        } catch (error) {
+          console.warn(`Failed to load ${leagueConfig.tier} ${leagueConfig.year} for player history:`, error);
+          return null;
+        }
+      })),
+      this.getAllLineupSeasons()
+    ]);
+
+    const loadedSeasons = seasons.filter((season): season is NonNullable<typeof season> => season !== null);
+    const drafts = loadedSeasons
+      .map(season => dataService.getDraftData(season))
+      .filter((draft): draft is DraftData => draft !== null);
+
+    return {
+      playerId,
+      player: dataService.getPlayerById(playerId, playerData),
+      drafts: getPlayerDrafts(playerId, drafts),
+      games: getPlayerGames(playerId, lineupSeasons)
+    };
+  }
+
+  /**
+   * Completed trades, waiver claims and free agent moves for a Sleeper-era league season.
+   * Seasons generated before transactions were stored fall back to the live Sleeper API.
+   */
+  async getLeagueTransactions(league: LeagueTier, year: string): Promise<SeasonTransaction[]> {
+    if (!validateLeagueAndYear(league, year)) {
+      throw new Error(`League ${league} for year ${year} not found`);
+    }
+    if (!isSleeperEra(year)) {
+      return [];
+    }
+
+    const historicalData = await dataService.loadHistoricalLeagueData(league, year);
+    if (historicalData?.transactions) {
+      return historicalData.transactions;
+    }
+
+    const leagueConfig = getLeagueConfig(league, year);
+    if (!leagueConfig) {
+      throw new Error(`No league config found for ${league} ${year}`);
+    }
+
+    const [transactions, rosters, playerData] = await Promise.all([
+      this.sleeperService.getAllSeasonTransactions(leagueConfig.sleeperId),
+      this.sleeperService.getLeagueRosters(leagueConfig.sleeperId),
+      dataService.loadPlayerData()
+    ]);
+    return normalizeTransactions(transactions, rosters, playerData?.players || {});
+  }
+
+  /**
+   * Every trade in a Sleeper-era league season, scored by what each side's new players
+   * went on to start for it. Seasons without stored lineups use Sleeper's weekly matchups.
+   */
+  async getSeasonTradeAnalyses(league: LeagueTier, year: string): Promise<TradeAnalysis[]> {
+    const trades = (await this.getLeagueTransactions(league, year)).filter(transaction => transaction.type === 'trade');
+    if (trades.length === 0) {
+      return [];
+    }
+
+    const { historicalData, lineups } = await this.getSeasonLineups(league, year);
+    const season = { year, league, matchupsByWeek: historicalData.matchupsByWeek };
+    return trades.map(trade => analyzeTrade(trade, season, lineups.starters));
+  }
+
+  // Lineups for every week of a season, from stored lineups or else Sleeper's weekly matchups.
+  // Completed seasons don't change, so each one is only fetched once.
+  private getSeasonLineups(league: LeagueTier, year: string): Promise<SeasonLineups> {
+    if (isActiveYear(year)) {
+      return this.loadSeasonLineups(league, year);
+    }
+
+    const key = `${league}-${year}`;
+    if (!this.seasonLineups.has(key)) {
+      const lineups = this.loadSeasonLineups(league, year);
+      lineups.catch(() => this.seasonLineups.delete(key));
+      this.seasonLineups.set(key, lineups);
+    }
+    return this.seasonLineups.get(key)!;
+  }
+
+  private async loadSeasonLineups(league: LeagueTier, year: string): Promise<SeasonLineups> {
+    const historicalData = await dataService.loadHistoricalLeagueData(league, year);
+    if (!historicalData) {
+      throw new Error(`No static data found for ${league} ${year}. Please run the data generation script.`);
+    }
+
+    let lineups = getStoredWeeklyLineups(historicalData.matchupsByWeek);
+    let matchupsByWeek = historicalData.matchupsByWeek;
+    if (Object.keys(lineups.starters).length === 0) {
+      const leagueId = getLeagueConfig(league, year)?.sleeperId || historicalData.leagueId;
+      const [weeks, rosters, playerData] = await Promise.all([
+        this.sleeperService.getAllSeasonMatchups(leagueId, 1, getSeasonLength(year, league)),
+        this.sleeperService.getLeagueRosters(leagueId),
+        dataService.loadPlayerData()
+      ]);
+      lineups = getSleeperWeeklyLineups(weeks, rosters);
+      matchupsByWeek = attachSleeperLineups(matchupsByWeek, weeks, rosters, playerData);
+    }
+
+    return { historicalData, lineups, matchupsByWeek };
+  }
+
+  /**
+   * A season's matchups with lineups on every game Sleeper has them for: stored lineups,
+   * or else Sleeper's weekly matchups. ESPN-era seasons come back as stored, without lineups.
+   */
+  async getSeasonLineupMatchups(league: LeagueTier, year: string): Promise<Record<number, WeekMatchup[]>> {
+    if (!isSleeperEra(year)) {
+      const historicalData = await dataService.loadHistoricalLeagueData(league, year);
+      return historicalData?.matchupsByWeek || {};
+    }
+
+    const { matchupsByWeek } = await this.getSeasonLineups(league, year);
+    return matchupsByWeek;
+  }
+
+  /**
+   * Matchups with lineups for every Sleeper-era league season (see getSeasonLineupMatchups)
+   */
+  async getAllLineupSeasons(): Promise<LineupSeason[]> {
+    const sleeperLeagues = getAllLeagueConfigs().filter(leagueConfig => isSleeperEra(leagueConfig.year));
+
+    const seasons = await Promise.all(sleeperLeagues.map(async (leagueConfig) => {
+      try {
+        const { matchupsByWeek } = await this.getSeasonLineups(leagueConfig.tier, leagueConfig.year);
+        return [{ year: leagueConfig.year, league: leagueConfig.tier, matchupsByWeek }];
+      } catch (error) {
+        console.warn(`Failed to load lineups for ${leagueConfig.tier} ${leagueConfig.year}:`, error);
+        return [];
+      }
+    }));
+
+    return seasons.flat();
+  }
+
+  /**
+   * Scored trades from every Sleeper-era league season, newest first
+   */
+  async getAllTradeAnalyses(): Promise<TradeAnalysis[]> {
+    const sleeperLeagues = getAllLeagueConfigs().filter(leagueConfig => isSleeperEra(leagueConfig.year));
+
+    const seasons = await Promise.all(sleeperLeagues.map(async (leagueConfig) => {
+      try {
+        return await this.getSeasonTradeAnalyses(leagueConfig.tier, leagueConfig.year);
+      } catch (error) {
+        console.warn(`Failed to analyze trades for ${leagueConfig.tier} ${leagueConfig.year}:`, error);
+        return [];
+      }
+    }));
+
+    return seasons.flat().sort((a, b) => b.transaction.timestamp - a.transaction.timestamp);
+  }
+
+  /**
+   * Every waiver claim and free agent add in a Sleeper-era league season, valued by what
+   * the player started for the manager before being dropped
+   */
+  async getSeasonPickups(league: LeagueTier, year: string): Promise<PickupValue[]> {
+    const transactions = await this.getLeagueTransactions(league, year);
+    if (!transactions.some(transaction => transaction.type === 'waiver' || transaction.type === 'free_agent')) {
+      return [];
+    }
+
+    const { lineups } = await this.getSeasonLineups(league, year);
+    return analyzePickups(transactions, { year, league }, lineups.starters);
+  }
+
+  /**
+   * Valued pickups from every Sleeper-era league season
+   */
+  async getAllPickups(): Promise<PickupValue[]> {
+    const sleeperLeagues = getAllLeagueConfigs().filter(leagueConfig => isSleeperEra(leagueConfig.year));
+
+    const seasons = await Promise.all(sleeperLeagues.map(async (leagueConfig) => {
+      try {
+        return await this.getSeasonPickups(leagueConfig.tier, leagueConfig.year);
+      } catch (error) {
+        console.warn(`Failed to analyze pickups for ${leagueConfig.tier} ${leagueConfig.year}:`, error);
+        return [];
+      }
+    }));
+
+    return seasons.flat();
+  }
+
+  /**
+   * Grades for every Sleeper-era draft, scored against the season its picks went on to
+   * have. Expected value at each slot comes from all of these drafts together.
+   */
+  async getAllDraftGrades(): Promise<DraftGrades> {
+    const sleeperLeagues = getAllLeagueConfigs().filter(leagueConfig => isSleeperEra(leagueConfig.year));
+
+    // Every league in a season shares the NFL's stats, so load each season once
+    const playerPointsByYear = new Map<string, Promise<WeeklyPlayerPoints>>();
+    const getPlayerPoints = (year: string) => {
+      if (!playerPointsByYear.has(year)) {
+        playerPointsByYear.set(year, this.getRegularSeasonPlayerPoints(year));
+      }
+      return playerPointsByYear.get(year)!;
+    };
+
+    const seasons = await Promise.all(sleeperLeagues.map(async (leagueConfig) => {
+      try {
+        const [{ historicalData, lineups }, playerPoints] = await Promise.all([
+          this.getSeasonLineups(leagueConfig.tier, leagueConfig.year),
+          getPlayerPoints(leagueConfig.year)
+        ]);
+        const draft = dataService.getDraftData(historicalData);
+        return draft && draft.picks.length > 0 ? [{ draft, lineups, playerPoints }] : [];
+      } catch (error) {
+        console.warn(`Failed to grade the ${leagueConfig.tier} ${leagueConfig.year} draft:`, error);
+        return [];
+      }
+    }));
+
+    return gradeDrafts(seasons.flat());
+  }
+
+  // FFU fantasy points for every NFL player in each regular season week, rostered or not
+  private async getRegularSeasonPlayerPoints(year: string): Promise<WeeklyPlayerPoints> {
+    const weeks = getRegularSeasonWeeks(year);
+    const weeklyPoints = await Promise.all(weeks.map(week => nflStatsService.getWeeklyPlayerPoints(year, week)));
+    return Object.fromEntries(weeks.map((week, index) => [week, weeklyPoints[index]]));
+  }
+
+  /**
+   * Draft slot and final placement for every team in every completed season with draft data
+   */
+  async getAllDraftSlotSeasons(): Promise<DraftSlotSeason[]> {
+    const completedLeagues = getAllLeagueConfigs().filter(leagueConfig => !isActiveYear(leagueConfig.year));
+
+    const seasons = await Promise.all(completedLeagues.map(async (leagueConfig) => {
+      try {
+        const historicalData = await dataService.loadHistoricalLeagueData(leagueConfig.tier, leagueConfig.year);
+        if (!historicalData) return [];
+        return getDraftSlotSeasons({
+          year: leagueConfig.year,
+          league: leagueConfig.tier,
+          standings: historicalData.standings,
+          draftData: dataService.getDraftData(historicalData) || undefined
+        });
+      } catch (error) {
+        console.warn(`Failed to load draft slots for ${leagueConfig.tier} ${leagueConfig.year}:`, error);
+        return [];
+      }
+    }));
+
+    return seasons.flat();
+  }
+
+  /**
+   * Recomputed seeds against the played bracket for every completed Sleeper-era season,
+   * including the seasons that agree
+   */
+  async getAllSeedingMismatches(): Promise<SeasonSeedingMismatches[]> {
+    const completedLeagues = getAllLeagueConfigs()
+      .filter(leagueConfig => supportsTiebreakers(leagueConfig.year) && !isActiveYear(leagueConfig.year));
+
+    const seasons = await Promise.all(completedLeagues.map(async (leagueConfig) => {
+      try {
+        const historicalData = await dataService.loadHistoricalLeagueData(leagueConfig.tier, leagueConfig.year);
+        if (!historicalData) return [];
+        return [{
+          year: leagueConfig.year,
+          league: leagueConfig.tier,
+          mismatches: getSeedingMismatches(historicalData.standings, historicalData.matchupsByWeek || {}, leagueConfig.year)
+        }];
+      } catch (error) {
+        console.warn(`Failed to check seeding for ${leagueConfig.tier} ${leagueConfig.year}:`, error);
+        return [];
+      }
+    }));
+
+    return seasons.flat();
+  }
+}
@@ -186,6 +186,14 @@ export class NFLStatsService {
     }
   }
 
+  /**
+   * FFU fantasy points for every player with stats in one NFL week, keyed by player ID
+   */
+  async getWeeklyPlayerPoints(season: string, week: number): Promise<Record<string, number>> {
+    const stats = await this.getWeeklyStats(season, week);
+    return Object.fromEntries(stats.map(stat => [stat.player_id, stat.pts_half_ppr || 0]));
+  }
+
   async getWeeklyLeaders(season: string, week: number): Promise<NFLWeeklyLeaders> {
     // Fetch both NFL stats and FFU starter data in parallel
     const [stats, starterData] = await Promise.all([
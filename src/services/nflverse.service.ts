@@ -1,8 +1,10 @@
-import type { NFLverseRosterEntry, HistoricalTeamData } from '../types';
+import type { NFLverseRosterEntry, HistoricalTeamData, NFLverseGame, NFLSeasonSchedule } from '../types';
 
 export class NFLverseService {
   private baseUrl = 'https://github.com/nflverse/nflverse-data/releases/latest/download';
+  private gamesUrl = 'https://github.com/nflverse/nfldata/raw/master/data/games.csv';
   private cache: Map<string, NFLverseRosterEntry[]> = new Map();
+  private gamesCache: Map<string, NFLverseGame[]> = new Map();
 
   async fetchRosterDataForSeason(season: number): Promise<NFLverseRosterEntry[]> {
     const cacheKey = `rosters_${season}`;
@@ -79,6 +81,88 @@ export class NFLverseService {
     });
   }
 
+  async fetchAllGames(): Promise<NFLverseGame[]> {
+    const cacheKey = 'all_games';
+
+    if (this.gamesCache.has(cacheKey)) {
+      return this.gamesCache.get(cacheKey)!;
+    }
+
+    try {
+      const response = await fetch(this.gamesUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch games data: ${response.statusText}`);
+      }
+
+      const csvText = await response.text();
+      const allGames = this.parseGamesCSV(csvText);
+
+      this.gamesCache.set(cacheKey, allGames);
+      return allGames;
+    } catch (error) {
+      console.error('Failed to fetch NFLverse games data:', error);
+      return [];
+    }
+  }
+
+  parseGamesCSV(csvText: string): NFLverseGame[] {
+    const lines = csvText.trim().split('\n');
+    const headers = lines[0].split(',').map(header => header.replace(/"/g, '').trim());
+
+    return lines.slice(1).map(line => {
+      const values = this.parseCSVLine(line);
+      const entry: Record<string, string | number> = {};
+
+      headers.forEach((header, index) => {
+        const value = values[index]?.replace(/"/g, '').trim() || '';
+        entry[header] = header === 'season' || header === 'week' ? parseInt(value, 10) || 0 : value;
+      });
+
+      return entry as unknown as NFLverseGame;
+    });
+  }
+
+  /**
+   * Regular season calendar from one season of games. Weeks start on their first game
+   * day and end on the Wednesday grace day, cut short if the next week has already started.
+   * nflverse kickoff times are US Eastern.
+   */
+  buildSeasonSchedule(games: NFLverseGame[], season: number): NFLSeasonSchedule {
+    const regularSeason = games.filter(game => game.season === season && game.game_type === 'REG');
+    const weekNumbers = [...new Set(regularSeason.map(game => game.week))].sort((a, b) => a - b);
+    const addDays = (date: string, days: number) => {
+      const [year, month, day] = date.split('-').map(Number);
+      return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+    };
+
+    const weeks = weekNumbers.map(week => {
+      const weekGames = regularSeason
+        .filter(game => game.week === week)
+        .sort((a, b) => `${a.gameday} ${a.gametime}`.localeCompare(`${b.gameday} ${b.gametime}`));
+      return {
+        week,
+        startDate: weekGames[0].gameday,
+        endDate: addDays(weekGames[weekGames.length - 1].gameday, 2),
+        games: weekGames.map(game => ({
+          gameId: game.game_id,
+          awayTeam: game.away_team,
+          homeTeam: game.home_team,
+          gameday: game.gameday,
+          gametime: game.gametime
+        }))
+      };
+    });
+
+    weeks.forEach((week, index) => {
+      const nextWeek = weeks[index + 1];
+      if (nextWeek && week.endDate >= nextWeek.startDate) {
+        week.endDate = addDays(nextWeek.startDate, -1);
+      }
+    });
+
+    return { season: String(season), timeZone: 'America/New_York', weeks };
+  }
+
   private parseCSVLine(line: string): string[] {
     const result: string[] = [];
     let current = '';
@@ -180,5 +264,6 @@ export class NFLverseService {
 
   clearCache(): void {
     this.cache.clear();
+    this.gamesCache.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,376 @@
+import type { LeagueTier, SleeperDraft, SleeperLeague, SleeperRoster, SleeperUser } from '../types';
+import { SleeperService } from './sleeper.service';
+import { CURRENT_YEAR, HISTORICAL_YEARS, LEAGUES, USERS, getAllYears, getUserById } from '../config/constants';
+import type { MemberRecord } from '../config/member-registry';
+import { getLeagueSettings } from '../config/league-settings';
+
+const TIER_ORDER: LeagueTier[] = ['PREMIER', 'MASTERS', 'NATIONAL'];
+const NON_STARTER_SLOTS = ['BN', 'IR', 'TAXI'];
+
+export interface RolloverLeague {
+  tier: LeagueTier;
+  sleeperId: string;
+  name: string;
+  draftDate: string | null; // DRAFT_DATES format, e.g. 'Wednesday 9/3 8:30pm ET'
+  memberIds: string[]; // Sleeper user IDs of roster owners
+  alreadyConfigured: boolean;
+}
+
+export interface RolloverNewUser {
+  ffuId: string;
+  sleeperId: string;
+  displayName: string;
+  teamName: string;
+  abbreviation: string; // Suggested, check before applying
+  league: LeagueTier;
+}
+
+export interface RolloverCheck {
+  level: 'error' | 'warning';
+  league?: LeagueTier;
+  message: string;
+}
+
+export interface SeasonRolloverPlan {
+  year: string;
+  leagues: RolloverLeague[];
+  newUsers: RolloverNewUser[];
+  returningUsers: string[]; // FFU IDs
+  checks: RolloverCheck[];
+}
+
+// Source files the patch edits, keyed by repo-relative path
+export interface RolloverSourceFiles {
+  constants: { path: string; content: string };
+  members: { path: string; content: string };
+  leagueSettings: { path: string; content: string };
+}
+
+const formatDraftDate = (startTime: number): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/New_York',
+    weekday: 'long',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  }).formatToParts(new Date(startTime));
+  const getPart = (type: string) => parts.find(part => part.type === type)?.value || '';
+  return `${getPart('weekday')} ${getPart('month')}/${getPart('day')} ${getPart('hour')}:${getPart('minute')}${getPart('dayPeriod').toLowerCase()} ET`;
+};
+
+const suggestAbbreviation = (teamName: string, taken: Set<string>): string => {
+  const words = teamName.replace(/[^A-Za-z0-9 ]/g, '').split(/\s+/).filter(word => word && !/^the$/i.test(word));
+  const base = (words.length > 1 ? words.map(word => word[0]).join('') : words[0] || 'TEAM').toUpperCase().slice(0, 4);
+  let abbreviation = base;
+  for (let suffix = 2; taken.has(abbreviation); suffix++) {
+    abbreviation = `${base.slice(0, 3)}${suffix}`;
+  }
+  taken.add(abbreviation);
+  return abbreviation;
+};
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Line-based unified diff (LCS), good enough for the small config files the rollover edits
+ */
+const createUnifiedDiff = (path: string, before: string, after: string, context: number = 3): string => {
+  if (before === after) return '';
+
+  const toLines = (text: string) => (text.endsWith('\n') ? text.slice(0, -1) : text).split('\n');
+  const a = toLines(before);
+  const b = toLines(after);
+
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: { type: ' ' | '-' | '+'; line: string; aIndex: number; bIndex: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i], aIndex: i++, bIndex: j++ });
+    } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: '-', line: a[i], aIndex: i++, bIndex: j });
+    } else {
+      ops.push({ type: '+', line: b[j], aIndex: i, bIndex: j++ });
+    }
+  }
+
+  const changed = ops.map((op, index) => (op.type === ' ' ? -1 : index)).filter(index => index !== -1);
+  const hunks: string[] = [];
+  let start = 0;
+  while (start < changed.length) {
+    let end = start;
+    while (end + 1 < changed.length && changed[end + 1] - changed[end] <= context * 2) end++;
+
+    const from = Math.max(0, changed[start] - context);
+    const to = Math.min(ops.length - 1, changed[end] + context);
+    const hunkOps = ops.slice(from, to + 1);
+    const oldCount = hunkOps.filter(op => op.type !== '+').length;
+    const newCount = hunkOps.filter(op => op.type !== '-').length;
+
+    hunks.push(
+      `@@ -${ops[from].aIndex + 1},${oldCount} +${ops[from].bIndex + 1},${newCount} @@\n` +
+      hunkOps.map(op => `${op.type}${op.line}`).join('\n')
+    );
+    start = end + 1;
+  }
+
+  return `--- a/${path}\n+++ b/${path}\n${hunks.join('\n')}\n`;
+};
+
+/**
+ * Stands up a new season from its Sleeper league IDs: the LEAGUES/CURRENT_YEAR/
+ * HISTORICAL_YEARS/DRAFT_DATES edits in config/constants.ts, new members in
+ * config/members.json and the season's entry in config/league-settings.ts,
+ * checked against what Sleeper reports.
+ */
+export class SeasonRolloverService {
+  private sleeperService: SleeperService;
+
+  constructor(sleeperService: SleeperService) {
+    this.sleeperService = sleeperService;
+  }
+
+  async planRollover(year: string, leagueIds: Partial<Record<LeagueTier, string>>): Promise<SeasonRolloverPlan> {
+    const checks: RolloverCheck[] = [];
+    const tiers = TIER_ORDER.filter(tier => leagueIds[tier]);
+
+    if (tiers.length === 0) {
+      throw new Error('No league IDs given');
+    }
+    if (year < CURRENT_YEAR) {
+      checks.push({ level: 'warning', message: `${year} is before the current season (${CURRENT_YEAR}), CURRENT_YEAR and HISTORICAL_YEARS will be left as is` });
+    }
+
+    const fetched = await Promise.all(tiers.map(async tier => {
+      const leagueId = leagueIds[tier]!;
+      const [league, users, rosters, drafts] = await Promise.all([
+        this.sleeperService.getLeague(leagueId),
+        this.sleeperService.getLeagueUsers(leagueId),
+        this.sleeperService.getLeagueRosters(leagueId),
+        this.sleeperService.getLeagueDrafts(leagueId).catch(() => [] as SleeperDraft[])
+      ]);
+      return { tier, leagueId, league, users, rosters, drafts };
+    }));
+
+    const leagues = fetched.map(({ tier, leagueId, league, rosters, drafts }) => {
+      checks.push(...this.checkLeague(year, tier, league, rosters));
+
+      const draft = drafts.find(d => d.season === year) || drafts[0];
+      if (!draft?.start_time) {
+        checks.push({ level: 'warning', league: tier, message: 'No draft scheduled yet, DRAFT_DATES will say TBD' });
+      }
+
+      const alreadyConfigured = LEAGUES.some(l => l.year === year && l.tier === tier);
+      if (alreadyConfigured) {
+        checks.push({ level: 'warning', league: tier, message: `${year} ${tier} is already in LEAGUES and will be left as is` });
+      }
+
+      return {
+        tier,
+        sleeperId: leagueId,
+        name: league.name,
+        draftDate: draft?.start_time ? formatDraftDate(draft.start_time) : null,
+        memberIds: rosters.map(roster => roster.owner_id).filter(Boolean),
+        alreadyConfigured
+      };
+    });
+
+    // Every member plays in exactly one league
+    const leagueByMember = new Map<string, LeagueTier>();
+    leagues.forEach(league => league.memberIds.forEach(memberId => {
+      const otherLeague = leagueByMember.get(memberId);
+      if (otherLeague) {
+        checks.push({ level: 'error', league: league.tier, message: `Sleeper user ${memberId} also owns a roster in ${otherLeague}` });
+      }
+      leagueByMember.set(memberId, league.tier);
+    }));
+
+    const usersById = new Map<string, SleeperUser>();
+    fetched.forEach(({ users }) => users.forEach(user => usersById.set(user.user_id, user)));
+
+    const takenAbbreviations = new Set(USERS.map(user => user.abbreviation.toUpperCase()));
+    let nextFfuNumber = Math.max(0, ...USERS.map(user => /^ffu-(\d{3})$/.exec(user.ffuId)).filter(Boolean).map(match => parseInt(match![1], 10))) + 1;
+
+    const newUsers = leagues.flatMap(league => league.memberIds
+      .filter(memberId => !getUserById(memberId, year))
+      .map(memberId => {
+        const sleeperUser = usersById.get(memberId);
+        const teamName = sleeperUser?.metadata?.team_name || sleeperUser?.display_name || memberId;
+        return {
+          ffuId: `ffu-${String(nextFfuNumber++).padStart(3, '0')}`,
+          sleeperId: memberId,
+          displayName: sleeperUser?.display_name || memberId,
+          teamName,
+          abbreviation: suggestAbbreviation(teamName, takenAbbreviations),
+          league: league.tier
+        };
+      }));
+
+    const returningUsers = [...new Set(Array.from(leagueByMember.keys())
+      .map(memberId => getUserById(memberId, year)?.ffuId)
+      .filter((ffuId): ffuId is string => !!ffuId))];
+
+    return { year, leagues, newUsers, returningUsers, checks };
+  }
+
+  /**
+   * Compare a Sleeper league against the rules the season will be configured with
+   * (the most recent LEAGUE_SETTINGS entry carries forward)
+   */
+  private checkLeague(year: string, tier: LeagueTier, league: SleeperLeague, rosters: SleeperRoster[]): RolloverCheck[] {
+    const checks: RolloverCheck[] = [];
+    const settings = getLeagueSettings(year, tier);
+    const warn = (message: string) => checks.push({ level: 'warning', league: tier, message });
+
+    if (league.season !== year) {
+      checks.push({ level: 'error', league: tier, message: `League ${league.league_id} is for the ${league.season} season, not ${year}` });
+    }
+    if (league.total_rosters !== settings.teams) {
+      warn(`${league.total_rosters} teams on Sleeper, settings expect ${settings.teams}`);
+    }
+
+    const openRosters = rosters.filter(roster => !roster.owner_id).length;
+    if (openRosters > 0) {
+      warn(`${openRosters} roster(s) have no owner yet`);
+    }
+
+    const divisions = league.settings.divisions || 0;
+    if (divisions !== settings.divisions) {
+      warn(`${divisions} divisions on Sleeper, settings expect ${settings.divisions}`);
+    }
+    if (divisions > 0) {
+      const unassigned = rosters.filter(roster => !roster.settings?.division).length;
+      if (unassigned > 0) {
+        warn(`${unassigned} roster(s) are not assigned to a division`);
+      }
+      const unnamed = Array.from({ length: divisions }, (_, index) => index + 1)
+        .filter(division => !league.metadata?.[`division_${division}`]);
+      if (unnamed.length > 0) {
+        warn(`Division(s) ${unnamed.join(', ')} have no name`);
+      }
+    }
+
+    if (league.settings.playoff_week_start !== settings.regularSeasonWeeks + 1) {
+      warn(`Playoffs start week ${league.settings.playoff_week_start} on Sleeper, settings expect week ${settings.regularSeasonWeeks + 1}`);
+    }
+    if (league.settings.playoff_teams !== undefined && league.settings.playoff_teams !== settings.playoffTeams) {
+      warn(`${league.settings.playoff_teams} playoff teams on Sleeper, settings expect ${settings.playoffTeams}`);
+    }
+
+    const starterSlots = (league.roster_positions || []).filter(slot => !NON_STARTER_SLOTS.includes(slot));
+    if (starterSlots.length > 0 && starterSlots.join(',') !== settings.rosterSlots.join(',')) {
+      warn(`Starting lineup is ${starterSlots.join('/')} on Sleeper, settings expect ${settings.rosterSlots.join('/')}`);
+    }
+
+    return checks;
+  }
+
+  /**
+   * Apply a plan to the config sources and return it as a unified diff for review
+   * (`git apply` from the repo root)
+   */
+  buildRolloverPatch(plan: SeasonRolloverPlan, files: RolloverSourceFiles): string {
+    return [
+      createUnifiedDiff(files.constants.path, files.constants.content, this.applyToConstants(plan, files.constants.content)),
+      createUnifiedDiff(files.members.path, files.members.content, this.applyToMembers(plan, files.members.content)),
+      createUnifiedDiff(files.leagueSettings.path, files.leagueSettings.content, this.applyToLeagueSettings(plan, files.leagueSettings.content))
+    ].join('');
+  }
+
+  private applyToConstants(plan: SeasonRolloverPlan, content: string): string {
+    const lines = content.split('\n');
+    const findLine = (predicate: (line: string) => boolean, label: string) => {
+      const index = lines.findIndex(predicate);
+      if (index === -1) throw new Error(`Could not find ${label} in config/constants.ts`);
+      return index;
+    };
+
+    // Last season's leagues are done
+    lines.forEach((line, index) => {
+      const match = /year: '(\d{4})'.*status: 'active'/.exec(line);
+      if (match && match[1] < plan.year) {
+        lines[index] = line.replace("status: 'active'", "status: 'completed'");
+      }
+    });
+
+    // New leagues go first under their tier's heading
+    plan.leagues.filter(league => !league.alreadyConfigured).forEach(league => {
+      const heading = findLine(line => line.trim() === `// ${league.tier} LEAGUE`, `the ${league.tier} LEAGUE heading`);
+      lines.splice(heading + 1, 0,
+        `  { sleeperId: ${quote(league.sleeperId)}, year: ${quote(plan.year)}, tier: ${quote(league.tier)}, status: 'active', startYear: ${plan.year} },`);
+    });
+
+    // Every earlier season is served from the static data. Replaying a past season
+    // (e.g. from recorded fixtures) never moves the current season back.
+    if (plan.year >= CURRENT_YEAR) {
+      const historicalYears = [...new Set([...HISTORICAL_YEARS, ...getAllYears(), CURRENT_YEAR])]
+        .filter(year => year < plan.year)
+        .sort();
+      const historicalLine = findLine(line => line.startsWith('export const HISTORICAL_YEARS'), 'HISTORICAL_YEARS');
+      lines[historicalLine] = `export const HISTORICAL_YEARS = [${historicalYears.map(quote).join(', ')}] as const;`;
+
+      const currentYearLine = findLine(line => line.startsWith('export const CURRENT_YEAR'), 'CURRENT_YEAR');
+      lines[currentYearLine] = lines[currentYearLine].replace(/'\d{4}'/, quote(plan.year));
+    }
+
+    if (!lines.some(line => line.trim().startsWith(`${quote(plan.year)}: {`))) {
+      const draftDatesLine = findLine(line => line.startsWith('export const DRAFT_DATES'), 'DRAFT_DATES');
+      lines.splice(draftDatesLine + 1, 0,
+        `  ${quote(plan.year)}: {`,
+        ...plan.leagues.map((league, index) =>
+          `    ${league.tier}: ${quote(league.draftDate || 'TBD')}${index < plan.leagues.length - 1 ? ',' : ''}`),
+        '  },');
+    }
+
+    return lines.join('\n');
+  }
+
+  private applyToMembers(plan: SeasonRolloverPlan, content: string): string {
+    if (plan.newUsers.length === 0) return content;
+
+    const registry: { members: MemberRecord[] } = JSON.parse(content);
+    registry.members.push(...plan.newUsers.map(user => ({
+      ffuId: user.ffuId,
+      teamName: user.teamName,
+      abbreviation: user.abbreviation,
+      joinedYear: parseInt(plan.year, 10),
+      isActive: true,
+      identities: [{ type: 'sleeper' as const, id: user.sleeperId }]
+    })));
+
+    return `${JSON.stringify(registry, null, 2)}\n`;
+  }
+
+  private applyToLeagueSettings(plan: SeasonRolloverPlan, content: string): string {
+    const lines = content.split('\n');
+    const yearLines = lines
+      .map((line, index) => ({ index, match: /^ {2}'(\d{4})': \{(.*)\},?$/.exec(line) }))
+      .filter((entry): entry is { index: number; match: RegExpExecArray } => !!entry.match);
+
+    if (yearLines.some(({ match }) => match[1] === plan.year) || yearLines.length === 0) {
+      return content;
+    }
+
+    // The new season starts from the latest season's presets
+    const latest = yearLines[yearLines.length - 1];
+    const presets = new Map(Array.from(latest.match[2].matchAll(/(\w+): (\w+)/g), match => [match[1], match[2]]));
+    const fallbackPreset = presets.values().next().value;
+    const entries = plan.leagues.map(league => `${league.tier}: ${presets.get(league.tier) || fallbackPreset}`);
+
+    if (!lines[latest.index].endsWith(',')) {
+      lines[latest.index] += ',';
+    }
+    lines.splice(latest.index + 1, 0, `  ${quote(plan.year)}: { ${entries.join(', ')} }`);
+
+    return lines.join('\n');
+  }
+}
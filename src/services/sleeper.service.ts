@@ -1,14 +1,47 @@
-import type { SleeperLeague, SleeperUser, SleeperRoster, SleeperMatchup, SleeperDraft, SleeperDraftPick } from '../types';
+import type { SleeperLeague, SleeperUser, SleeperRoster, SleeperMatchup, SleeperDraft, SleeperDraftPick, SleeperTransaction } from '../types';
+
+export type SleeperFetch = (url: string) => Promise<Response>;
+
+const SLEEPER_API_URL = 'https://api.sleeper.app/v1';
+
+/**
+ * A fetch that replays recorded Sleeper responses, keyed by API path (e.g. `/league/123/users`).
+ * Unrecorded paths answer 404.
+ */
+export const createFixtureFetch = (fixtures: Record<string, unknown>): SleeperFetch => async (url: string) => {
+  const path = url.replace(SLEEPER_API_URL, '');
+  return path in fixtures
+    ? new Response(JSON.stringify(fixtures[path]), { status: 200 })
+    : new Response('', { status: 404, statusText: `No fixture for ${path}` });
+};
+
+/**
+ * Wraps a fetch so every successful Sleeper response is also saved into `fixtures`,
+ * ready to be written out and replayed with createFixtureFetch.
+ */
+export const createRecordingFetch = (fixtures: Record<string, unknown>, fetchFn: SleeperFetch = url => fetch(url)): SleeperFetch => async (url: string) => {
+  const response = await fetchFn(url);
+  if (response.ok) {
+    fixtures[url.replace(SLEEPER_API_URL, '')] = await response.clone().json();
+  }
+  return response;
+};
 
 export class SleeperService {
-  private baseUrl = 'https://api.sleeper.app/v1';
+  private baseUrl = SLEEPER_API_URL;
+  private fetchFn: SleeperFetch;
+
+  // Fetch is injectable so tooling can run against recorded fixtures
+  constructor(fetchFn: SleeperFetch = url => fetch(url)) {
+    this.fetchFn = fetchFn;
+  }
 
   private async fetchWithRetry(url: string, maxRetries: number = 3): Promise<any> {
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        const response = await fetch(url);
+        const response = await this.fetchFn(url);
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
@@ -72,7 +105,7 @@ export class SleeperService {
   }
 
   async getWinnersBracket(leagueId: string): Promise<any[]> {
-    const response = await fetch(`${this.baseUrl}/league/${leagueId}/winners_bracket`);
+    const response = await this.fetchFn(`${this.baseUrl}/league/${leagueId}/winners_bracket`);
     if (!response.ok) {
       throw new Error(`Failed to fetch winners bracket for league ${leagueId}: ${response.statusText}`);
     }
@@ -80,7 +113,7 @@ export class SleeperService {
   }
 
   async getLosersBracket(leagueId: string): Promise<any[]> {
-    const response = await fetch(`${this.baseUrl}/league/${leagueId}/losers_bracket`);
+    const response = await this.fetchFn(`${this.baseUrl}/league/${leagueId}/losers_bracket`);
     if (!response.ok) {
       throw new Error(`Failed to fetch losers bracket for league ${leagueId}: ${response.statusText}`);
     }
@@ -88,7 +121,7 @@ export class SleeperService {
   }
 
   async getUser(userId: string): Promise<SleeperUser> {
-    const response = await fetch(`${this.baseUrl}/user/${userId}`);
+    const response = await this.fetchFn(`${this.baseUrl}/user/${userId}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch user ${userId}: ${response.statusText}`);
     }
@@ -130,8 +163,29 @@ export class SleeperService {
     return results.filter(result => result.matchups.length > 0);
   }
 
+  // Sleeper groups transactions by round (the week they were processed in)
+  async getTransactions(leagueId: string, round: number): Promise<SleeperTransaction[]> {
+    const url = `${this.baseUrl}/league/${leagueId}/transactions/${round}`;
+    return this.fetchWithRetry(url);
+  }
+
+  async getAllSeasonTransactions(leagueId: string, startRound: number = 1, endRound: number = 18): Promise<SleeperTransaction[]> {
+    const roundPromises = [];
+    for (let round = startRound; round <= endRound; round++) {
+      roundPromises.push(
+        this.getTransactions(leagueId, round).catch(error => {
+          console.warn(`Failed to fetch transactions for round ${round} of league ${leagueId}:`, error);
+          return [] as SleeperTransaction[];
+        })
+      );
+    }
+
+    const results = await Promise.all(roundPromises);
+    return results.flat();
+  }
+
   async getLeagueDrafts(leagueId: string): Promise<SleeperDraft[]> {
-    const response = await fetch(`${this.baseUrl}/league/${leagueId}/drafts`);
+    const response = await this.fetchFn(`${this.baseUrl}/league/${leagueId}/drafts`);
     if (!response.ok) {
       throw new Error(`Failed to fetch drafts for league ${leagueId}: ${response.statusText}`);
     }
@@ -139,7 +193,7 @@ export class SleeperService {
   }
 
   async getDraft(draftId: string): Promise<SleeperDraft> {
-    const response = await fetch(`${this.baseUrl}/draft/${draftId}`);
+    const response = await this.fetchFn(`${this.baseUrl}/draft/${draftId}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch draft ${draftId}: ${response.statusText}`);
     }
@@ -147,7 +201,7 @@ export class SleeperService {
   }
 
   async getDraftPicks(draftId: string): Promise<SleeperDraftPick[]> {
-    const response = await fetch(`${this.baseUrl}/draft/${draftId}/picks`);
+    const response = await this.fetchFn(`${this.baseUrl}/draft/${draftId}/picks`);
     if (!response.ok) {
       throw new Error(`Failed to fetch draft picks for draft ${draftId}: ${response.statusText}`);
     }
@@ -155,7 +209,7 @@ export class SleeperService {
   }
 
   async getUserDrafts(userId: string, sport: string = 'nfl', season: string): Promise<SleeperDraft[]> {
-    const response = await fetch(`${this.baseUrl}/user/${userId}/drafts/${sport}/${season}`);
+    const response = await this.fetchFn(`${this.baseUrl}/user/${userId}/drafts/${sport}/${season}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch drafts for user ${userId} in ${sport} ${season}: ${response.statusText}`);
     }
@@ -163,7 +217,7 @@ export class SleeperService {
   }
 
   async getNFLPlayers(): Promise<Record<string, any>> {
-    const response = await fetch(`${this.baseUrl}/players/nfl`);
+    const response = await this.fetchFn(`${this.baseUrl}/players/nfl`);
     if (!response.ok) {
       throw new Error(`Failed to fetch NFL players: ${response.statusText}`);
     }
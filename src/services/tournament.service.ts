@@ -0,0 +1,342 @@
+import type {
+  LeagueTier,
+  MidSeasonTournamentData,
+  TournamentMatchup,
+  TournamentRound,
+  TournamentTeam,
+  WeekMatchup
+} from '../types';
+import { dataService, type HistoricalLeagueData } from './data.service';
+import {
+  getAvailableLeagues,
+  getDisplayTeamName,
+  getFFUIdBySleeperId,
+  getUserInfoBySleeperId,
+  isActiveYear
+} from '../config/constants';
+import { isNFLWeekComplete } from '../utils/nfl-schedule';
+
+// Mid-season tournament format (see MID_SEASON_TOURNAMENT.md)
+export const TOURNAMENT_PLAY_IN_WEEK = 4;
+export const TOURNAMENT_BRACKET_SIZE = 32;
+
+const TOURNAMENT_ROUNDS: { name: string; week: number }[] = [
+  { name: 'Round of 32', week: 5 },
+  { name: 'Round of 16', week: 6 },
+  { name: 'Quarterfinals', week: 7 },
+  { name: 'Semifinals', week: 8 },
+  { name: 'Finals', week: 9 }
+];
+
+/**
+ * A member's regular season results, indexed by week, used to seed and resolve the tournament
+ */
+interface TournamentEntrant {
+  userId: string;
+  league: LeagueTier;
+  scores: Record<number, number>;
+  results: Record<number, 'W' | 'L' | 'T'>;
+}
+
+interface EntrantSnapshot {
+  entrant: TournamentEntrant;
+  wins: number;
+  losses: number;
+  ties: number;
+  totalPoints: number;
+}
+
+/**
+ * Tournament is only held in seasons where all three leagues exist
+ */
+export const isTournamentYear = (year: string): boolean => {
+  return getAvailableLeagues(year).length === 3;
+};
+
+/**
+ * Standard single-elimination seed order (1 v 32, 16 v 17, 8 v 25, ...)
+ * Adjacent pairs play each other, so seeds 1 and 2 can only meet in the final
+ */
+export const getBracketSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const nextSize = order.length * 2;
+    order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+  }
+  return order;
+};
+
+export class TournamentService {
+  /**
+   * Load all three leagues for a season and build the tournament from their weekly scores
+   */
+  async loadMidSeasonTournamentData(year: string): Promise<MidSeasonTournamentData | null> {
+    if (!isTournamentYear(year)) {
+      console.warn(`🏆 TournamentService: No mid-season tournament in ${year}`);
+      return null;
+    }
+
+    const leagueData = await Promise.all(
+      getAvailableLeagues(year).map(league => dataService.loadHistoricalLeagueData(league, year))
+    );
+
+    const loadedLeagues = leagueData.filter((data): data is HistoricalLeagueData => data !== null);
+    if (loadedLeagues.length !== leagueData.length) {
+      console.warn(`🏆 TournamentService: Missing league data for ${year}, cannot build tournament`);
+      return null;
+    }
+
+    return this.buildTournament(year, loadedLeagues);
+  }
+
+  /**
+   * Build the play-in round, the seeded 32-team bracket and every resolved round
+   * from the regular season matchups of each league
+   */
+  buildTournament(year: string, leagueData: HistoricalLeagueData[]): MidSeasonTournamentData | null {
+    const entrants = leagueData.flatMap(data => this.getEntrants(data));
+    const playInSize = 2 * (entrants.length - TOURNAMENT_BRACKET_SIZE);
+
+    if (playInSize < 0) {
+      console.warn(`🏆 TournamentService: Only ${entrants.length} teams in ${year}, need ${TOURNAMENT_BRACKET_SIZE}`);
+      return null;
+    }
+
+    // Play-in field is set before Week 4 kicks off, so it uses results through Week 3
+    const prePlayInSnapshots = entrants.map(entrant => this.getSnapshot(entrant, TOURNAMENT_PLAY_IN_WEEK - 1));
+    const playInField = this.selectPlayInField(prePlayInSnapshots, playInSize);
+    const playInIds = new Set(playInField.map(snapshot => snapshot.entrant.userId));
+
+    // Pair the best play-in team with the worst (1 v 8, 2 v 7, ...)
+    const playInWeekPlayed = this.isWeekPlayed(year, TOURNAMENT_PLAY_IN_WEEK);
+    const playInMatchups: TournamentMatchup[] = [];
+    for (let i = 0; i < playInField.length / 2; i++) {
+      const higher = playInField[i];
+      const lower = playInField[playInField.length - 1 - i];
+      playInMatchups.push(this.createMatchup(
+        i + 1,
+        this.toTournamentTeam(higher, null, TOURNAMENT_PLAY_IN_WEEK),
+        this.toTournamentTeam(lower, null, TOURNAMENT_PLAY_IN_WEEK),
+        playInWeekPlayed
+      ));
+    }
+
+    const playInRound = {
+      week: TOURNAMENT_PLAY_IN_WEEK,
+      isComplete: playInMatchups.every(matchup => matchup.winner !== null),
+      matchups: playInMatchups
+    };
+
+    const rounds: TournamentRound[] = [];
+
+    // The main bracket can only be seeded once the play-in week is final
+    if (!playInRound.isComplete) {
+      return { year, playInRound, rounds };
+    }
+
+    const playInWinnerIds = new Set(playInMatchups.map(matchup => matchup.winner!));
+    const seedingSnapshots = entrants.map(entrant => this.getSnapshot(entrant, TOURNAMENT_PLAY_IN_WEEK));
+    const autoQualifiers = this.sortBySeeding(seedingSnapshots.filter(s => !playInIds.has(s.entrant.userId)));
+    const playInWinners = this.sortBySeeding(seedingSnapshots.filter(s => playInWinnerIds.has(s.entrant.userId)));
+
+    // Auto-qualifiers take the top seeds, play-in winners fill the bottom of the bracket
+    const seededField = [...autoQualifiers, ...playInWinners];
+    const seedOrder = getBracketSeedOrder(TOURNAMENT_BRACKET_SIZE);
+
+    // Bracket slots hold the snapshot and seed of whoever currently occupies them
+    let slots: { snapshot: EntrantSnapshot; seed: number }[] = seedOrder.map(seed => ({
+      snapshot: seededField[seed - 1],
+      seed
+    }));
+
+    for (let roundIndex = 0; roundIndex < TOURNAMENT_ROUNDS.length; roundIndex++) {
+      const { name, week } = TOURNAMENT_ROUNDS[roundIndex];
+      const weekPlayed = this.isWeekPlayed(year, week);
+      const matchups: TournamentMatchup[] = [];
+      const advancing: typeof slots = [];
+
+      for (let i = 0; i < slots.length; i += 2) {
+        // Higher seed is always listed first
+        const [top, bottom] = slots[i].seed < slots[i + 1].seed
+          ? [slots[i], slots[i + 1]]
+          : [slots[i + 1], slots[i]];
+        const matchup = this.createMatchup(
+          i / 2 + 1,
+          this.toTournamentTeam(top.snapshot, top.seed, week, playInWinnerIds),
+          this.toTournamentTeam(bottom.snapshot, bottom.seed, week, playInWinnerIds),
+          weekPlayed
+        );
+        matchups.push(matchup);
+
+        if (matchup.winner) {
+          advancing.push(matchup.winner === top.snapshot.entrant.userId ? top : bottom);
+        }
+      }
+
+      const isComplete = advancing.length === matchups.length;
+      rounds.push({ roundNumber: roundIndex + 1, name, week, isComplete, matchups });
+
+      // Later rounds stay TBD until every game in this round is decided
+      if (!isComplete) {
+        break;
+      }
+      slots = advancing;
+    }
+
+    const finalRound = rounds[TOURNAMENT_ROUNDS.length - 1];
+    const finalMatchup = finalRound?.isComplete ? finalRound.matchups[0] : undefined;
+    const championTeam = finalMatchup
+      ? [finalMatchup.team1, finalMatchup.team2].find(team => team?.userId === finalMatchup.winner)
+      : undefined;
+
+    return {
+      year,
+      playInRound,
+      rounds,
+      champion: championTeam
+        ? {
+            userId: championTeam.userId,
+            ffuUserId: championTeam.ffuUserId,
+            teamName: championTeam.teamName,
+            finalScore: championTeam.score
+          }
+        : undefined
+    };
+  }
+
+  /**
+   * Collect each member's weekly scores and results from a league's regular season matchups
+   */
+  private getEntrants(data: HistoricalLeagueData): TournamentEntrant[] {
+    const entrants = new Map<string, TournamentEntrant>();
+
+    data.standings.forEach(standing => {
+      const userId = standing.userId || standing.ffuUserId;
+      entrants.set(userId, { userId, league: data.league, scores: {}, results: {} });
+    });
+
+    const lastTournamentWeek = TOURNAMENT_ROUNDS[TOURNAMENT_ROUNDS.length - 1].week;
+
+    Object.entries(data.matchupsByWeek || {}).forEach(([weekStr, matchups]) => {
+      const week = parseInt(weekStr);
+      if (week > lastTournamentWeek) return;
+
+      (matchups as WeekMatchup[]).forEach(matchup => {
+        const winner = entrants.get(matchup.winner);
+        const loser = entrants.get(matchup.loser);
+        const isTie = matchup.winnerScore === matchup.loserScore;
+
+        if (winner) {
+          winner.scores[week] = matchup.winnerScore;
+          winner.results[week] = isTie ? 'T' : 'W';
+        }
+        if (loser) {
+          loser.scores[week] = matchup.loserScore;
+          loser.results[week] = isTie ? 'T' : 'L';
+        }
+      });
+    });
+
+    return Array.from(entrants.values());
+  }
+
+  /**
+   * Record and cumulative points through a given week
+   */
+  private getSnapshot(entrant: TournamentEntrant, throughWeek: number): EntrantSnapshot {
+    let wins = 0;
+    let losses = 0;
+    let ties = 0;
+    let totalPoints = 0;
+
+    for (let week = 1; week <= throughWeek; week++) {
+      const result = entrant.results[week];
+      if (result === 'W') wins++;
+      else if (result === 'L') losses++;
+      else if (result === 'T') ties++;
+      totalPoints += entrant.scores[week] || 0;
+    }
+
+    return { entrant, wins, losses, ties, totalPoints: Math.round(totalPoints * 100) / 100 };
+  }
+
+  /**
+   * Winless teams qualify automatically; remaining spots go to the lowest scorers.
+   * Returned in play-in seed order (best first).
+   */
+  private selectPlayInField(snapshots: EntrantSnapshot[], playInSize: number): EntrantSnapshot[] {
+    if (playInSize === 0) return [];
+
+    const byPointsAscending = (a: EntrantSnapshot, b: EntrantSnapshot) => a.totalPoints - b.totalPoints;
+    const winless = snapshots.filter(s => s.wins === 0 && s.ties === 0).sort(byPointsAscending);
+    const others = snapshots.filter(s => s.wins > 0 || s.ties > 0).sort(byPointsAscending);
+
+    const field = [...winless, ...others].slice(0, playInSize);
+    return this.sortBySeeding(field);
+  }
+
+  /**
+   * Seeding order: best win percentage, then most total points
+   */
+  private sortBySeeding(snapshots: EntrantSnapshot[]): EntrantSnapshot[] {
+    const getWinPct = (s: EntrantSnapshot) => {
+      const games = s.wins + s.losses + s.ties;
+      return games > 0 ? (s.wins + s.ties * 0.5) / games : 0;
+    };
+
+    return [...snapshots].sort((a, b) => {
+      const winPctDiff = getWinPct(b) - getWinPct(a);
+      if (winPctDiff !== 0) return winPctDiff;
+      return b.totalPoints - a.totalPoints;
+    });
+  }
+
+  /**
+   * Resolve a matchup from the teams' scores that week.
+   * Ties go to the higher seed (team1 is always the higher seed).
+   */
+  private createMatchup(
+    matchupId: number,
+    team1: TournamentTeam,
+    team2: TournamentTeam,
+    weekPlayed: boolean
+  ): TournamentMatchup {
+    let winner: string | null = null;
+    if (weekPlayed) {
+      winner = team2.score > team1.score ? team2.userId : team1.userId;
+    }
+    return { matchupId, team1, team2, winner };
+  }
+
+  private toTournamentTeam(
+    snapshot: EntrantSnapshot,
+    seed: number | null,
+    week: number,
+    playInWinnerIds?: Set<string>
+  ): TournamentTeam {
+    const { entrant, wins, losses, ties, totalPoints } = snapshot;
+    const userInfo = getUserInfoBySleeperId(entrant.userId);
+
+    return {
+      userId: entrant.userId,
+      ffuUserId: getFFUIdBySleeperId(entrant.userId) || entrant.userId,
+      teamName: getDisplayTeamName(entrant.userId, userInfo?.teamName || 'Unknown Team'),
+      abbreviation: userInfo?.abbreviation || 'UNK',
+      score: entrant.scores[week] || 0,
+      record: ties > 0 ? `${wins}-${losses}-${ties}` : `${wins}-${losses}`,
+      totalPoints,
+      seed,
+      league: entrant.league,
+      ...(playInWinnerIds?.has(entrant.userId) ? { isPlayInWinner: true } : {})
+    };
+  }
+
+  /**
+   * Historical weeks are always final; the active season waits for the NFL week to finish
+   */
+  private isWeekPlayed(year: string, week: number): boolean {
+    return !isActiveYear(year) || isNFLWeekComplete(week, year);
+  }
+}
+
+export const tournamentService = new TournamentService();
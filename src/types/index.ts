@@ -40,6 +40,22 @@ export interface EnhancedUserInfo extends UserInfo {
   sleeperId?: string; // For backward compatibility
 }
 
+export interface LineupPlayer {
+  playerId: string;
+  points: number;
+  position?: string; // Player's position when the data was generated
+}
+
+export interface TeamLineup {
+  starters: LineupPlayer[]; // Lineup slot order, empty slots have playerId '0'
+  bench: LineupPlayer[];
+}
+
+export interface MatchupLineups {
+  winner: TeamLineup;
+  loser: TeamLineup;
+}
+
 export interface WeekMatchup {
   winner: string;
   loser: string;
@@ -48,6 +64,7 @@ export interface WeekMatchup {
   winnerRecord?: string;
   loserRecord?: string;
   placementType?: string;
+  lineups?: MatchupLineups; // Sleeper era only, so box scores don't depend on the live API
 }
 
 export interface SeasonStandings {
@@ -100,6 +117,24 @@ export interface MemberHistory {
 
 export type LeagueTier = 'PREMIER' | 'MASTERS' | 'NATIONAL';
 
+export type LeaguePlatform = 'ESPN' | 'SLEEPER';
+export type ScoringType = 'standard' | 'half_ppr' | 'ppr';
+
+// Rules for one league in one season (see config/league-settings.ts)
+export interface LeagueSettings {
+  platform: LeaguePlatform;
+  teams: number;
+  divisions: number; // 0 when the league has no divisions
+  regularSeasonWeeks: number;
+  playoffWeeks: number[]; // In round order, the last one is the championship
+  playoffTeams: number;
+  playoffByes: number; // Top seeds that skip the first round
+  rosterSlots: string[]; // Starting lineup in slot order
+  scoringType: ScoringType;
+  promotionSpots: number; // Top finishers who move up a tier, 0 when there's no promotion/relegation
+  relegationSpots: number; // Bottom finishers who move down a tier
+}
+
 // Sleeper API types
 export interface SleeperLeague {
   league_id: string;
@@ -107,8 +142,10 @@ export interface SleeperLeague {
   season: string;
   season_type: string;
   total_rosters: number;
+  roster_positions?: string[]; // Lineup slots in order, including BN/IR
   settings: {
     playoff_week_start: number;
+    playoff_teams?: number;
     league_average_match: number;
     divisions?: number; // Number of divisions
   };
@@ -126,6 +163,9 @@ export interface SleeperUser {
   display_name: string;
   username: string;
   avatar: string;
+  metadata?: {
+    team_name?: string; // League-specific team name (league users endpoint only)
+  };
 }
 
 export interface SleeperRoster {
@@ -209,6 +249,35 @@ export interface SleeperDraftPick {
   };
 }
 
+// Draft pick ownership change, as it appears on a trade
+export interface SleeperTradedPick {
+  season: string;
+  round: number;
+  roster_id: number; // Original owner
+  previous_owner_id: number;
+  owner_id: number; // New owner
+}
+
+export type SleeperTransactionType = 'trade' | 'waiver' | 'free_agent' | 'commissioner';
+
+export interface SleeperTransaction {
+  transaction_id: string;
+  type: SleeperTransactionType;
+  status: 'complete' | 'failed' | 'pending' | string;
+  leg: number; // Week (Sleeper calls it the round)
+  created: number;
+  status_updated: number;
+  creator: string; // User ID
+  roster_ids: number[];
+  consenter_ids?: number[] | null;
+  adds: Record<string, number> | null; // Player ID -> receiving roster ID
+  drops: Record<string, number> | null; // Player ID -> releasing roster ID
+  draft_picks: SleeperTradedPick[];
+  waiver_budget: { sender: number; receiver: number; amount: number }[]; // FAAB traded between rosters
+  settings?: { waiver_bid?: number; seq?: number } | null;
+  metadata?: { notes?: string } | null;
+}
+
 export interface SleeperPlayer {
   player_id: string;
   active: boolean;
@@ -492,6 +561,152 @@ export interface DraftData {
   status: string;
 }
 
+export interface DraftPickGrade {
+  year: string;
+  league: LeagueTier;
+  pickNumber: number;
+  round: number;
+  playerId: string;
+  playerInfo: DraftPick['playerInfo'];
+  pickedBy: string;
+  seasonPoints: number; // The player's full regular season points, rostered or not
+  startedPoints: number; // Regular season points in the drafting team's starting lineup
+  expectedPoints: number; // Average season points of picks around this slot in every graded FFU draft
+  valueOverExpected: number;
+}
+
+export interface TeamDraftGrade {
+  year: string;
+  league: LeagueTier;
+  userId: string;
+  picks: number;
+  seasonPoints: number;
+  startedPoints: number;
+  expectedPoints: number;
+  valueOverExpected: number;
+  zScore: number; // Against every graded team draft
+  grade: string;
+}
+
+export interface DraftGrades {
+  picks: DraftPickGrade[];
+  teams: TeamDraftGrade[];
+}
+
+export interface DraftSlotSeason {
+  year: string;
+  league: LeagueTier;
+  userId: string;
+  draftSlot: number;
+  teams: number;
+  finish: number; // Final placement, playoffs included
+  madePlayoffs: boolean;
+  wonTitle: boolean;
+}
+
+export type SeedTier = 'bye' | 'playoffs' | 'missed';
+
+export interface SeedingMismatch {
+  userId: string;
+  recomputedSeed: number;
+  expectedTier: SeedTier;
+  actualTier: SeedTier;
+}
+
+export interface SeasonSeedingMismatches {
+  year: string;
+  league: LeagueTier;
+  mismatches: SeedingMismatch[]; // Empty when the recomputed seeds agree with the bracket
+}
+
+// A Sleeper-era season's matchups with lineups, stored or from Sleeper's weekly matchups
+export interface LineupSeason {
+  year: string;
+  league: LeagueTier;
+  matchupsByWeek: Record<number, WeekMatchup[]>;
+}
+
+// Transactions stored with season data (Sleeper era only); team references are season user IDs
+export type TransactionType = SleeperTransactionType;
+
+export interface TransactionPlayerMove {
+  playerId: string;
+  playerInfo: {
+    name: string;
+    position: string;
+    team: string | null;
+  };
+  userId: string; // Team receiving (adds) or releasing (drops) the player
+}
+
+export interface TransactionDraftPick {
+  season: string;
+  round: number;
+  originalOwner: string; // User ID the pick originally belonged to
+  from: string;
+  to: string;
+}
+
+export interface SeasonTransaction {
+  transactionId: string;
+  type: TransactionType;
+  week: number;
+  timestamp: number; // When the transaction was processed (ms)
+  userIds: string[]; // Every team involved
+  adds: TransactionPlayerMove[];
+  drops: TransactionPlayerMove[];
+  draftPicks: TransactionDraftPick[]; // Trades only
+  faabTransfers: { from: string; to: string; amount: number }[]; // Trades only
+  waiverBid?: number; // FAAB bid, waiver claims only
+}
+
+// Retrospective trade scoring (see utils/trade-analyzer.ts)
+export interface TradeWeekContribution {
+  week: number;
+  points: number; // Acquired players' points in the new owner's starting lineup
+  isPlayoff: boolean;
+}
+
+export interface TradeSide {
+  userId: string;
+  acquiredPlayers: TransactionPlayerMove[];
+  acquiredPicks: TransactionDraftPick[];
+  faabReceived: number;
+  weeks: TradeWeekContribution[]; // Every week from the trade to the end of the season
+  playerPoints: Record<string, number>; // Started points per acquired player
+  points: number; // Started points for the rest of the season, playoffs included
+  playoffPoints: number;
+  decisivePlayoffWins: number; // Playoff wins the acquired starters outscored the margin of
+  score: number; // points + playoffPoints, so playoff points count double
+}
+
+export interface TradeAnalysis {
+  year: string;
+  league: LeagueTier;
+  transaction: SeasonTransaction;
+  sides: TradeSide[];
+  winner: string | null; // User ID of the side with the best score, null when even
+  margin: number; // Winner's score over the runner-up
+}
+
+// Waiver and free agent add, valued by what the player went on to start for the manager (see utils/waiver-pickups.ts)
+export interface PickupValue {
+  year: string;
+  league: LeagueTier;
+  transactionId: string;
+  type: 'waiver' | 'free_agent';
+  week: number;
+  timestamp: number;
+  userId: string;
+  playerId: string;
+  playerInfo: TransactionPlayerMove['playerInfo'];
+  faabBid?: number; // Waiver claims only
+  droppedWeek: number | null; // Week the manager dropped or traded the player, null if kept all season
+  starts: number;
+  points: number; // Started points from the add until the player left the roster
+  costPerPoint: number | null; // FAAB per started point, null without a bid or points
+}
+
 export interface HistoricalLeagueDataWithDrafts {
   league: LeagueTier;
   year: string;
@@ -503,6 +718,7 @@ export interface HistoricalLeagueDataWithDrafts {
   matchupsByWeek: Record<number, WeekMatchup[]>;
   memberGameStats?: Record<string, { highGame: number; lowGame: number; games: number[] }>;
   draftData?: DraftData;
+  transactions?: SeasonTransaction[];
   divisionNames?: Record<number, string>; // Division number to name mapping (Sleeper era only)
 }
 
@@ -548,6 +764,41 @@ export interface NFLverseRosterEntry {
   av: number;
 }
 
+// Row of the nflverse games file (one per game, kickoff times in US Eastern time)
+export interface NFLverseGame {
+  game_id: string;
+  season: number;
+  game_type: string; // REG, WC, DIV, CON, SB
+  week: number;
+  gameday: string; // YYYY-MM-DD
+  weekday: string;
+  gametime: string; // HH:MM
+  away_team: string;
+  home_team: string;
+}
+
+// NFL season calendar types
+export interface NFLScheduledGame {
+  gameId: string;
+  awayTeam: string;
+  homeTeam: string;
+  gameday: string; // YYYY-MM-DD in the schedule's time zone
+  gametime: string; // HH:MM kickoff in the schedule's time zone
+}
+
+export interface NFLScheduleWeek {
+  week: number;
+  startDate: string; // First game day (YYYY-MM-DD)
+  endDate: string; // Grace day after Tuesday score finalization (YYYY-MM-DD)
+  games?: NFLScheduledGame[]; // Missing for seasons that only have week dates
+}
+
+export interface NFLSeasonSchedule {
+  season: string;
+  timeZone: string; // IANA time zone for dates and kickoff times
+  weeks: NFLScheduleWeek[];
+}
+
 export interface HistoricalTeamData {
   [playerKey: string]: {
     [season: number]: {
@@ -567,3 +818,107 @@ export interface PlayerTeamMapping {
   matchedOn: 'exact_name' | 'fuzzy_name' | 'manual';
 }
 
+
+// Mid-season tournament types
+export interface TournamentTeam {
+  userId: string;
+  ffuUserId: string;
+  teamName: string;
+  abbreviation: string;
+  score: number;
+  record: string; // "4-0"
+  totalPoints: number; // Cumulative points through the seeding week
+  seed: number | null; // null for play-in teams
+  league: LeagueTier;
+  isPlayInWinner?: boolean;
+}
+
+export interface TournamentMatchup {
+  matchupId: number;
+  team1: TournamentTeam;
+  team2: TournamentTeam | null; // null for bye
+  winner: string | null; // userId, null if incomplete
+}
+
+export interface TournamentRound {
+  roundNumber: number;
+  name: string; // "Round of 32", "Round of 16", etc.
+  week: number;
+  isComplete: boolean;
+  matchups: TournamentMatchup[];
+}
+
+export interface TournamentPlayInRound {
+  week: number;
+  isComplete: boolean;
+  matchups: TournamentMatchup[];
+}
+
+export interface MidSeasonTournamentData {
+  year: string;
+  playInRound: TournamentPlayInRound;
+  rounds: TournamentRound[];
+  champion?: {
+    userId: string;
+    ffuUserId: string;
+    teamName: string;
+    finalScore: number;
+  };
+}
+
+// Cross-tier Elo rating types
+export interface EloRatingPoint {
+  year: string;
+  week: number;
+  league: LeagueTier;
+  rating: number;
+}
+
+export interface MemberEloRating {
+  userId: string; // Most recent season user ID, for names and logos
+  ffuUserId: string;
+  rating: number;
+  peakRating: number;
+  peakYear: string;
+  lowRating: number;
+  gamesPlayed: number;
+  lastYear: string;
+  lastLeague: LeagueTier;
+  history: EloRatingPoint[]; // One point per game, oldest first
+}
+
+// FFU player history types
+export interface PlayerDraftRecord {
+  year: string;
+  league: LeagueTier;
+  round: number;
+  pickNumber: number;
+  draftSlot: number;
+  pickedBy: string; // Sleeper user ID
+}
+
+export interface PlayerGameRecord {
+  year: string;
+  league: LeagueTier;
+  week: number;
+  userId: string; // FFU team that rostered him that week
+  opponentId: string;
+  points: number;
+  started: boolean;
+  result: 'W' | 'L' | 'T';
+}
+
+export interface PlayerTeamSummary {
+  userId: string;
+  starts: number;
+  points: number; // Points scored while in the starting lineup
+  firstYear: string;
+  lastYear: string;
+}
+
+export interface PlayerHistory {
+  playerId: string;
+  player: SleeperPlayer | null;
+  drafts: PlayerDraftRecord[]; // Oldest first
+  games: PlayerGameRecord[]; // Every lineup he appeared in, oldest first
+}
@@ -0,0 +1,131 @@
+import type { WeekMatchup } from '../types';
+import { isRegularSeasonWeek } from './era-detection';
+import { isNFLWeekComplete } from './nfl-schedule';
+import { getFFUIdBySleeperId, isActiveYear } from '../config/constants';
+
+export interface AllPlayRecord {
+  userId: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  actualWins: number; // Ties count as half a win
+  expectedWins: number; // Sum of weekly all-play win rates
+  luck: number; // actualWins - expectedWins
+  weeks: number;
+}
+
+const createRecord = (userId: string): AllPlayRecord => ({
+  userId,
+  wins: 0,
+  losses: 0,
+  ties: 0,
+  actualWins: 0,
+  expectedWins: 0,
+  luck: 0,
+  weeks: 0
+});
+
+/**
+ * All-play record for one season: every week, each team is scored against every other
+ * team in the league, not just its opponent. Expected wins are the weekly all-play win
+ * rates summed, so a team that outscores 8 of 11 others earns 0.73 expected wins that week.
+ * Regular season weeks only (1-13 ESPN era, 1-14 Sleeper era).
+ */
+export function calculateAllPlayRecords(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string
+): Map<string, AllPlayRecord> {
+  const records = new Map<string, AllPlayRecord>();
+  const isActiveSeason = isActiveYear(year);
+
+  const getRecord = (userId: string) => {
+    if (!records.has(userId)) {
+      records.set(userId, createRecord(userId));
+    }
+    return records.get(userId)!;
+  };
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year)) return;
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) return;
+
+    const playedMatchups = matchups.filter(matchup =>
+      matchup.winner && matchup.loser && (matchup.winnerScore || matchup.loserScore)
+    );
+
+    const weekScores: { userId: string; score: number; actualWins: number }[] = [];
+    playedMatchups.forEach(matchup => {
+      const isTie = matchup.winnerScore === matchup.loserScore;
+      weekScores.push({ userId: matchup.winner, score: matchup.winnerScore, actualWins: isTie ? 0.5 : 1 });
+      weekScores.push({ userId: matchup.loser, score: matchup.loserScore, actualWins: isTie ? 0.5 : 0 });
+    });
+
+    if (weekScores.length < 2) return;
+
+    weekScores.forEach(team => {
+      const record = getRecord(team.userId);
+      let wins = 0;
+      let losses = 0;
+      let ties = 0;
+
+      weekScores.forEach(other => {
+        if (other.userId === team.userId) return;
+        if (team.score > other.score) wins++;
+        else if (team.score < other.score) losses++;
+        else ties++;
+      });
+
+      record.wins += wins;
+      record.losses += losses;
+      record.ties += ties;
+      record.expectedWins += (wins + ties * 0.5) / (weekScores.length - 1);
+      record.actualWins += team.actualWins;
+      record.weeks += 1;
+    });
+  });
+
+  records.forEach(record => {
+    record.luck = record.actualWins - record.expectedWins;
+  });
+
+  return records;
+}
+
+/**
+ * Career all-play totals across every season a member played, ESPN era included.
+ * Keyed by FFU ID so seasons played under different Sleeper accounts add up; each
+ * record's userId is the member's most recent season user ID.
+ */
+export function calculateCareerAllPlay(
+  seasons: { year: string; matchupsByWeek?: Record<number, WeekMatchup[]> }[]
+): Map<string, AllPlayRecord> {
+  const careerRecords = new Map<string, AllPlayRecord>();
+
+  const latestYears = new Map<string, string>();
+
+  seasons.forEach(season => {
+    if (!season.matchupsByWeek) return;
+
+    calculateAllPlayRecords(season.matchupsByWeek, season.year).forEach((seasonRecord, userId) => {
+      const ffuId = getFFUIdBySleeperId(userId, season.year) || userId;
+      const career = careerRecords.get(ffuId) || createRecord(userId);
+      if (season.year >= (latestYears.get(ffuId) || '')) {
+        career.userId = userId;
+        latestYears.set(ffuId, season.year);
+      }
+      career.wins += seasonRecord.wins;
+      career.losses += seasonRecord.losses;
+      career.ties += seasonRecord.ties;
+      career.actualWins += seasonRecord.actualWins;
+      career.expectedWins += seasonRecord.expectedWins;
+      career.luck += seasonRecord.luck;
+      career.weeks += seasonRecord.weeks;
+      careerRecords.set(ffuId, career);
+    });
+  });
+
+  return careerRecords;
+}
+
+export const formatLuck = (luck: number): string => `${luck > 0 ? '+' : ''}${luck.toFixed(1)}`;
@@ -0,0 +1,254 @@
+import type { EnhancedSeasonStandings, LeagueTier, WeekMatchup } from '../types';
+import { calculateRankings } from './ranking';
+import { calculateAllPlayRecords } from './all-play';
+import { getPlayoffTeamCount, getRosterSlots, isRegularSeasonWeek, isSleeperEra } from './era-detection';
+import { isNFLWeekComplete } from './nfl-schedule';
+import { isActiveYear } from '../config/constants';
+import { calculateLineupEfficiency } from './lineup-efficiency';
+
+export type StandingsFormat = 'actual' | 'median' | 'points' | 'allPlay' | 'bestBall';
+
+export const STANDINGS_FORMATS: { value: StandingsFormat; label: string; description: string }[] = [
+  { value: 'actual', label: 'Actual', description: 'Head-to-head record, as played' },
+  { value: 'median', label: 'Median Game', description: 'An extra win or loss each week against the league median score' },
+  { value: 'points', label: 'Points Only', description: 'Ranked purely by points for, no divisions' },
+  { value: 'allPlay', label: 'All-Play', description: 'Every team plays every other team every week' },
+  { value: 'bestBall', label: 'Best Ball', description: 'Every team starts its optimal lineup every week' }
+];
+
+export interface AlternativeSeed {
+  userId: string;
+  standing: EnhancedSeasonStandings; // Record under the alternative format
+  actualSeed: number;
+  alternativeSeed: number;
+  seedChange: number; // Positive = better seed under the alternative format
+  madePlayoffs: boolean;
+  makesPlayoffs: boolean;
+}
+
+/**
+ * Extra win/loss per team from playing the league median each regular season week
+ */
+export function calculateMedianRecords(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string
+): Map<string, { wins: number; losses: number; ties: number }> {
+  const records = new Map<string, { wins: number; losses: number; ties: number }>();
+  const isActiveSeason = isActiveYear(year);
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year)) return;
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) return;
+
+    const weekScores = matchups
+      .filter(matchup => matchup.winner && matchup.loser && (matchup.winnerScore || matchup.loserScore))
+      .flatMap(matchup => [
+        { userId: matchup.winner, score: matchup.winnerScore },
+        { userId: matchup.loser, score: matchup.loserScore }
+      ]);
+    if (weekScores.length < 2) return;
+
+    const sortedScores = weekScores.map(team => team.score).sort((a, b) => a - b);
+    const middle = Math.floor(sortedScores.length / 2);
+    const median = sortedScores.length % 2 === 0
+      ? (sortedScores[middle - 1] + sortedScores[middle]) / 2
+      : sortedScores[middle];
+
+    weekScores.forEach(({ userId, score }) => {
+      const record = records.get(userId) || { wins: 0, losses: 0, ties: 0 };
+      if (score > median) record.wins += 1;
+      else if (score < median) record.losses += 1;
+      else record.ties += 1;
+      records.set(userId, record);
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Regular season matchups re-decided with each team's optimal lineup. Playoff weeks are
+ * left as played. Returns null outside the Sleeper era or when any played regular season
+ * matchup is missing lineups, since a partial season can't be re-decided fairly. Seasons
+ * without stored lineups get them from LeagueService.getSeasonLineupMatchups.
+ */
+export function calculateBestBallMatchups(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  league?: LeagueTier
+): Record<number, WeekMatchup[]> | null {
+  if (!isSleeperEra(year)) return null;
+
+  const isActiveSeason = isActiveYear(year);
+  const slots = getRosterSlots(year, league);
+  const bestBallMatchups: Record<number, WeekMatchup[]> = {};
+  let hasLineups = false;
+  let isComplete = true;
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year) || (isActiveSeason && !isNFLWeekComplete(week, year))) {
+      bestBallMatchups[week] = matchups;
+      return;
+    }
+
+    bestBallMatchups[week] = matchups.map(matchup => {
+      if (!matchup.winner || !matchup.loser || (!matchup.winnerScore && !matchup.loserScore)) return matchup;
+      if (!matchup.lineups) {
+        isComplete = false;
+        return matchup;
+      }
+      hasLineups = true;
+
+      const winnerScore = calculateLineupEfficiency(matchup.lineups.winner, slots).optimalPoints;
+      const loserScore = calculateLineupEfficiency(matchup.lineups.loser, slots).optimalPoints;
+      return loserScore > winnerScore
+        ? {
+          ...matchup,
+          winner: matchup.loser,
+          loser: matchup.winner,
+          winnerScore: loserScore,
+          loserScore: winnerScore,
+          lineups: { winner: matchup.lineups.loser, loser: matchup.lineups.winner }
+        }
+        : { ...matchup, winnerScore, loserScore };
+    });
+  });
+
+  return hasLineups && isComplete ? bestBallMatchups : null;
+}
+
+export const hasBestBallData = (matchupsByWeek: Record<number, WeekMatchup[]>, year: string, league?: LeagueTier): boolean =>
+  calculateBestBallMatchups(matchupsByWeek, year, league) !== null;
+
+/**
+ * Regular season wins, losses, ties and points straight from the matchups
+ */
+function calculateMatchupRecords(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string
+): Map<string, { wins: number; losses: number; ties: number; pointsFor: number; pointsAgainst: number }> {
+  const records = new Map<string, { wins: number; losses: number; ties: number; pointsFor: number; pointsAgainst: number }>();
+  const isActiveSeason = isActiveYear(year);
+  const getRecord = (userId: string) => {
+    const record = records.get(userId) || { wins: 0, losses: 0, ties: 0, pointsFor: 0, pointsAgainst: 0 };
+    records.set(userId, record);
+    return record;
+  };
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year)) return;
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) return;
+
+    matchups.forEach(matchup => {
+      if (!matchup.winner || !matchup.loser) return;
+      if (!matchup.winnerScore && !matchup.loserScore) return;
+
+      const winner = getRecord(matchup.winner);
+      const loser = getRecord(matchup.loser);
+      winner.pointsFor += matchup.winnerScore;
+      winner.pointsAgainst += matchup.loserScore;
+      loser.pointsFor += matchup.loserScore;
+      loser.pointsAgainst += matchup.winnerScore;
+
+      if (matchup.winnerScore === matchup.loserScore) {
+        winner.ties += 1;
+        loser.ties += 1;
+      } else {
+        winner.wins += 1;
+        loser.losses += 1;
+      }
+    });
+  });
+
+  return records;
+}
+
+/**
+ * Recompute a season's standings under another format. Records are rebuilt and then
+ * ranked with calculateRankings, so divisions and tiebreakers follow the real rules.
+ */
+export function buildAlternativeStandings(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  format: StandingsFormat,
+  league?: LeagueTier
+): EnhancedSeasonStandings[] {
+  switch (format) {
+    case 'median': {
+      const medianRecords = calculateMedianRecords(matchupsByWeek, year);
+      return calculateRankings(standings.map(standing => {
+        const median = medianRecords.get(standing.userId);
+        return median ? {
+          ...standing,
+          wins: standing.wins + median.wins,
+          losses: standing.losses + median.losses,
+          ties: (standing.ties || 0) + median.ties
+        } : standing;
+      }), matchupsByWeek, year);
+    }
+    case 'points':
+      // Equal records and no divisions or matchups leave points for as the only tiebreaker
+      return calculateRankings(standings.map(standing => ({
+        ...standing,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        division: undefined
+      })));
+    case 'allPlay': {
+      const allPlayRecords = calculateAllPlayRecords(matchupsByWeek, year);
+      return calculateRankings(standings.map(standing => {
+        const allPlay = allPlayRecords.get(standing.userId);
+        return allPlay ? { ...standing, wins: allPlay.wins, losses: allPlay.losses, ties: allPlay.ties } : standing;
+      }), matchupsByWeek, year);
+    }
+    case 'bestBall': {
+      // Head-to-head tiebreakers use the re-decided games too
+      const bestBallMatchups = calculateBestBallMatchups(matchupsByWeek, year, league);
+      if (!bestBallMatchups) return calculateRankings(standings, matchupsByWeek, year);
+      const bestBallRecords = calculateMatchupRecords(bestBallMatchups, year);
+      return calculateRankings(standings.map(standing => {
+        const record = bestBallRecords.get(standing.userId);
+        return record ? { ...standing, ...record } : standing;
+      }), bestBallMatchups, year);
+    }
+    default:
+      return calculateRankings(standings, matchupsByWeek, year);
+  }
+}
+
+/**
+ * Seed-by-seed comparison of an alternative format against the actual regular season
+ */
+export function compareSeeds(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  format: StandingsFormat,
+  league?: LeagueTier
+): AlternativeSeed[] {
+  if (format === 'bestBall' && !hasBestBallData(matchupsByWeek, year, league)) return [];
+
+  const actual = buildAlternativeStandings(standings, matchupsByWeek, year, 'actual', league);
+  const alternative = buildAlternativeStandings(standings, matchupsByWeek, year, format, league);
+  const actualSeeds = new Map(actual.map((standing, index) => [standing.userId, index + 1]));
+  const playoffSpots = getPlayoffTeamCount(year, league);
+
+  return alternative.map((standing, index) => {
+    const actualSeed = actualSeeds.get(standing.userId) || index + 1;
+    const alternativeSeed = index + 1;
+    return {
+      userId: standing.userId,
+      standing,
+      actualSeed,
+      alternativeSeed,
+      seedChange: actualSeed - alternativeSeed,
+      madePlayoffs: actualSeed <= playoffSpots,
+      makesPlayoffs: alternativeSeed <= playoffSpots
+    };
+  });
+}
@@ -0,0 +1,499 @@
+import type { EnhancedSeasonStandings, WeekMatchup } from '../types';
+import { calculateRankings, identifyDivisionLeaders } from './ranking';
+import { isNFLWeekComplete } from './nfl-schedule';
+import { getPlayoffByeCount, getPlayoffTeamCount, isRegularSeasonWeek } from './era-detection';
+import { isActiveYear } from '../config/constants';
+import {
+  getCompletedMatchupsByWeek,
+  getRemainingMatchups,
+  withSimulatedResults,
+  type RemainingMatchup
+} from './playoff-simulator';
+
+// Every outcome is enumerated (2^games scenarios) once this few games can still matter.
+// Games between two eliminated teams are fixed first, and the limit covers the final week
+// of a 12-team league while keeping the enumeration quick enough to run on render. Before
+// that, statuses come from best/worst-case record bounds, which never report a false
+// clinch or elimination but can be a week late.
+export const EXACT_SCENARIO_GAME_LIMIT = 6;
+
+export interface RequiredResult {
+  week: number;
+  winner: string;
+  loser: string;
+}
+
+export interface ClinchInfo {
+  userId: string;
+  clinchedPlayoffs: boolean;
+  clinchedBye: boolean; // Top-2 seed
+  clinchedDivision: boolean;
+  eliminated: boolean; // From the playoffs
+  eliminatedFromBye: boolean;
+  eliminatedFromDivision: boolean;
+  playoffMagicNumber: number | null; // Own wins + losses by the first team outside the line needed to clinch
+  divisionMagicNumber: number | null; // Own wins + losses by the closest division rival needed to clinch
+  clinchPath: RequiredResult[] | null; // Minimal results that guarantee a playoff spot (exact mode only)
+  isExact: boolean;
+}
+
+export interface ClinchBadge {
+  code: 'z' | 'y' | 'x' | 'e';
+  label: string;
+}
+
+// Per-scenario outcome flags for one team
+const WORST_PLAYOFF = 1;
+const BEST_PLAYOFF = 2;
+const WORST_BYE = 4;
+const BEST_BYE = 8;
+const WORST_DIVISION = 16;
+const BEST_DIVISION = 32;
+
+/**
+ * Regular season weeks still to be played in an active season (none for completed seasons)
+ */
+export function getRemainingRegularSeasonWeeks(
+  matchupsByWeek: Record<number, WeekMatchup[]> | undefined,
+  year: string
+): number[] {
+  if (!matchupsByWeek || !isActiveYear(year)) {
+    return [];
+  }
+
+  return Object.keys(matchupsByWeek)
+    .map(Number)
+    .filter(week => isRegularSeasonWeek(week, year) && !isNFLWeekComplete(week, year))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Work out what each team has clinched or been eliminated from.
+ * Uses exact scenario enumeration when few enough games remain, record bounds otherwise.
+ */
+export function calculateClinchScenarios(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  remainingWeeks: number[]
+): Map<string, ClinchInfo> {
+  const allRemainingMatchups = getRemainingMatchups(matchupsByWeek, remainingWeeks);
+  const boundsInfo = calculateFromBounds(standings, allRemainingMatchups, year);
+
+  // A game between two eliminated teams can't move anyone across the playoff, bye or
+  // division lines: both teams finish behind enough others whatever happens, and neither
+  // can lead its division. Fix those results and enumerate only the rest.
+  const isEliminated = (userId: string) => boundsInfo.get(userId)?.eliminated ?? false;
+  const fixedMatchups = allRemainingMatchups.filter(({ team1, team2 }) => isEliminated(team1) && isEliminated(team2));
+  const remainingMatchups = allRemainingMatchups.filter(matchup => !fixedMatchups.includes(matchup));
+
+  if (remainingMatchups.length > EXACT_SCENARIO_GAME_LIMIT) {
+    return boundsInfo;
+  }
+
+  const fixedResults: WeekMatchup[] = fixedMatchups.map(({ team1, team2 }) => ({ winner: team1, loser: team2, winnerScore: 0, loserScore: 0 }));
+  const baseStandings = standings.map(standing => ({
+    ...standing,
+    wins: standing.wins + fixedResults.filter(result => result.winner === standing.userId).length,
+    losses: standing.losses + fixedResults.filter(result => result.loser === standing.userId).length
+  }));
+  const completedMatchupsByWeek = withSimulatedResults(getCompletedMatchupsByWeek(matchupsByWeek, remainingWeeks), fixedResults);
+  const settledFlags = new Map<string, number>();
+  boundsInfo.forEach((info, userId) => {
+    const flags = getSettledFlags(info);
+    if (flags !== null) settledFlags.set(userId, flags);
+  });
+  const outcomes = enumerateScenarios(baseStandings, completedMatchupsByWeek, remainingMatchups, year, settledFlags);
+  const scenarioCount = 1 << remainingMatchups.length;
+
+  // Without divisions nobody can lead one, so there's no division race to be out of
+  const hasDivisions = standings.some(s => s.division !== undefined && s.division !== null);
+
+  const result = new Map<string, ClinchInfo>();
+  standings.forEach(standing => {
+    const flags = outcomes.get(standing.userId)!;
+    const all = (flag: number) => flags.every(f => (f & flag) !== 0);
+    const none = (flag: number) => flags.every(f => (f & flag) === 0);
+    const bounds = boundsInfo.get(standing.userId)!;
+
+    const clinchedPlayoffs = all(WORST_PLAYOFF);
+    const eliminated = none(BEST_PLAYOFF);
+
+    result.set(standing.userId, {
+      ...bounds,
+      clinchedPlayoffs,
+      clinchedBye: all(WORST_BYE),
+      clinchedDivision: bounds.clinchedDivision || all(WORST_DIVISION),
+      eliminated,
+      eliminatedFromBye: none(BEST_BYE),
+      eliminatedFromDivision: hasDivisions && (bounds.eliminatedFromDivision || none(BEST_DIVISION)),
+      playoffMagicNumber: clinchedPlayoffs ? 0 : eliminated ? null : bounds.playoffMagicNumber,
+      clinchPath: clinchedPlayoffs || eliminated
+        ? null
+        : findClinchPath(standing.userId, flags, remainingMatchups, scenarioCount),
+      isExact: true
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Badge shown next to a team: z = clinched bye, y = clinched division, x = clinched playoffs, e = eliminated
+ */
+export function getClinchBadge(info?: ClinchInfo): ClinchBadge | null {
+  if (!info) return null;
+  if (info.clinchedBye) return { code: 'z', label: 'Clinched first-round bye' };
+  if (info.clinchedDivision) return { code: 'y', label: 'Clinched division' };
+  if (info.clinchedPlayoffs) return { code: 'x', label: 'Clinched playoff spot' };
+  if (info.eliminated) return { code: 'e', label: 'Eliminated from playoff contention' };
+  return null;
+}
+
+/**
+ * Describe what a team still needs, e.g. "Win vs ABC + DEF loses to GHI"
+ */
+export function describeClinchPath(
+  info: ClinchInfo,
+  getTeamLabel: (userId: string) => string
+): string | null {
+  if (!info.clinchPath || info.clinchPath.length === 0) return null;
+
+  return info.clinchPath
+    .map(result => {
+      if (result.winner === info.userId) return `Win vs ${getTeamLabel(result.loser)} (Wk ${result.week})`;
+      if (result.loser === info.userId) return `Lose to ${getTeamLabel(result.winner)} (Wk ${result.week})`;
+      return `${getTeamLabel(result.winner)} beats ${getTeamLabel(result.loser)} (Wk ${result.week})`;
+    })
+    .join(' + ');
+}
+
+/**
+ * Record-based bounds. Ties on record are always resolved against the team being checked,
+ * and the division rules (top-2 leaders take seeds 1-2, a 3rd leader can be bumped to 6th)
+ * are treated as pushing the team down.
+ */
+function calculateFromBounds(
+  standings: EnhancedSeasonStandings[],
+  remainingMatchups: RemainingMatchup[],
+  year: string
+): Map<string, ClinchInfo> {
+  const playoffSpots = getPlayoffTeamCount(year);
+  const byeSpots = getPlayoffByeCount(year);
+  const remainingGames = new Map<string, number>(standings.map(s => [s.userId, 0]));
+  remainingMatchups.forEach(({ team1, team2 }) => {
+    remainingGames.set(team1, (remainingGames.get(team1) || 0) + 1);
+    remainingGames.set(team2, (remainingGames.get(team2) || 0) + 1);
+  });
+
+  // Ties count as half a win, matching the win percentage used for ranking
+  const minPoints = new Map(standings.map(s => [s.userId, s.wins + (s.ties || 0) * 0.5]));
+  const maxPoints = new Map(standings.map(s => [s.userId, minPoints.get(s.userId)! + remainingGames.get(s.userId)!]));
+
+  const hasDivisions = standings.some(s => s.division !== undefined && s.division !== null);
+  const divisions = new Map<number, EnhancedSeasonStandings[]>();
+  standings.forEach(standing => {
+    const division = standing.division ?? 0;
+    if (!divisions.has(division)) divisions.set(division, []);
+    divisions.get(division)!.push(standing);
+  });
+
+  // Current record order, used to find the team a magic number is counted against
+  const currentOrder = [...standings].sort((a, b) => minPoints.get(b.userId)! - minPoints.get(a.userId)!);
+
+  const result = new Map<string, ClinchInfo>();
+  standings.forEach(team => {
+    const teamMin = minPoints.get(team.userId)!;
+    const teamMax = maxPoints.get(team.userId)!;
+    const others = standings.filter(s => s.userId !== team.userId);
+    const divisionRivals = hasDivisions
+      ? divisions.get(team.division ?? 0)!.filter(s => s.userId !== team.userId)
+      : [];
+    const otherDivisions = hasDivisions
+      ? Array.from(divisions.entries()).filter(([division]) => division !== (team.division ?? 0)).map(([, teams]) => teams)
+      : [];
+
+    // Teams that could still finish level with or ahead of this team's worst case
+    const canCatch = others.filter(s => maxPoints.get(s.userId)! >= teamMin).length;
+    // Teams already guaranteed to finish ahead of this team's best case
+    const guaranteedAhead = others.filter(s => minPoints.get(s.userId)! > teamMax).length;
+
+    const clinchedDivision = hasDivisions && divisionRivals.every(s => maxPoints.get(s.userId)! < teamMin);
+    const eliminatedFromDivision = hasDivisions && divisionRivals.some(s => minPoints.get(s.userId)! > teamMax);
+
+    // Other divisions whose leader could finish below this team but still be seeded ahead of it
+    const lowerLeaders = otherDivisions.filter(teams => teams.every(s => minPoints.get(s.userId)! <= teamMin)).length;
+
+    const clinchedPlayoffs = clinchedDivision || canCatch + lowerLeaders <= playoffSpots - 1;
+    const eliminated = (!hasDivisions || eliminatedFromDivision) && guaranteedAhead >= playoffSpots;
+
+    const clinchedBye = hasDivisions
+      ? clinchedDivision && otherDivisions.filter(teams => teams.some(s => maxPoints.get(s.userId)! >= teamMin)).length < byeSpots
+      : canCatch < byeSpots;
+    const eliminatedFromBye = hasDivisions
+      ? eliminatedFromDivision || otherDivisions.filter(teams => teams.some(s => minPoints.get(s.userId)! > teamMax)).length >= byeSpots
+      : guaranteedAhead >= byeSpots;
+
+    // Classic magic number against the team holding the last playoff spot among the others: its max wins - own wins + 1
+    const chaser = currentOrder.filter(s => s.userId !== team.userId)[playoffSpots - 1];
+    const playoffMagicNumber = clinchedPlayoffs
+      ? 0
+      : eliminated || !chaser
+        ? null
+        : Math.max(0, Math.floor(maxPoints.get(chaser.userId)! - teamMin) + 1);
+
+    const closestRivalMax = Math.max(...divisionRivals.map(s => maxPoints.get(s.userId)!));
+    const divisionMagicNumber = !hasDivisions || eliminatedFromDivision
+      ? null
+      : clinchedDivision
+        ? 0
+        : Math.max(0, Math.floor(closestRivalMax - teamMin) + 1);
+
+    result.set(team.userId, {
+      userId: team.userId,
+      clinchedPlayoffs,
+      clinchedBye,
+      clinchedDivision,
+      eliminated,
+      eliminatedFromBye,
+      eliminatedFromDivision,
+      playoffMagicNumber,
+      divisionMagicNumber,
+      clinchPath: null,
+      isExact: false
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Scenario flags for a team whose every line is already decided by the record bounds, or null
+ */
+function getSettledFlags(info: ClinchInfo): number | null {
+  if (info.eliminated) return 0;
+  const byeSettled = info.clinchedBye || info.eliminatedFromBye;
+  const divisionSettled = info.clinchedDivision || info.eliminatedFromDivision;
+  if (!info.clinchedPlayoffs || !byeSettled || !divisionSettled) return null;
+
+  return WORST_PLAYOFF | BEST_PLAYOFF |
+    (info.clinchedBye ? WORST_BYE | BEST_BYE : 0) |
+    (info.clinchedDivision ? WORST_DIVISION | BEST_DIVISION : 0);
+}
+
+/**
+ * Rank every combination of remaining results. Points for is unknown for unplayed games,
+ * so a team tied on record is ranked twice: once losing every points tiebreaker (worst case)
+ * and once winning them all (best case). Teams the record bounds have already settled skip the ranking.
+ */
+function enumerateScenarios(
+  standings: EnhancedSeasonStandings[],
+  completedMatchupsByWeek: Record<number, WeekMatchup[]>,
+  remainingMatchups: RemainingMatchup[],
+  year: string,
+  settledFlags: Map<string, number>
+): Map<string, number[]> {
+  const scenarioCount = 1 << remainingMatchups.length;
+  const playoffSpots = getPlayoffTeamCount(year);
+  const byeSpots = getPlayoffByeCount(year);
+  const outcomes = new Map<string, number[]>(standings.map(s => [s.userId, new Array<number>(scenarioCount).fill(0)]));
+
+  const getFlags = (ranked: EnhancedSeasonStandings[], scenarioMatchups: Record<number, WeekMatchup[]>, userId: string) => {
+    const index = ranked.findIndex(s => s.userId === userId);
+    const hasDivisions = ranked.some(s => s.division !== undefined && s.division !== null);
+    const isLeader = hasDivisions && identifyDivisionLeaders(ranked, scenarioMatchups, year).allLeaders.has(userId);
+    return {
+      playoff: index < playoffSpots,
+      bye: index < byeSpots,
+      division: isLeader
+    };
+  };
+
+  for (let scenario = 0; scenario < scenarioCount; scenario++) {
+    const scenarioStandings = standings.map(s => ({ ...s }));
+    const byUserId = new Map(scenarioStandings.map(s => [s.userId, s]));
+    const simulatedMatchups: WeekMatchup[] = [];
+
+    remainingMatchups.forEach(({ team1, team2 }, gameIndex) => {
+      const team1Wins = (scenario & (1 << gameIndex)) !== 0;
+      const winner = team1Wins ? team1 : team2;
+      const loser = team1Wins ? team2 : team1;
+      const winnerStanding = byUserId.get(winner);
+      const loserStanding = byUserId.get(loser);
+      if (winnerStanding) winnerStanding.wins += 1;
+      if (loserStanding) loserStanding.losses += 1;
+      simulatedMatchups.push({ winner, loser, winnerScore: 0, loserScore: 0 });
+    });
+
+    const scenarioMatchups = withSimulatedResults(completedMatchupsByWeek, simulatedMatchups);
+    const baseRanking = calculateRankings(scenarioStandings, scenarioMatchups, year);
+    const baseLeaders = identifyDivisionLeaders(baseRanking, scenarioMatchups, year);
+    const winPcts = scenarioStandings.map(s => getWinPct(s));
+
+    scenarioStandings.forEach((standing, teamIndex) => {
+      const settled = settledFlags.get(standing.userId);
+      if (settled !== undefined) {
+        outcomes.get(standing.userId)![scenario] = settled;
+        return;
+      }
+
+      const isTiedOnRecord = winPcts.some((pct, otherIndex) => otherIndex !== teamIndex && pct === winPcts[teamIndex]);
+      let worst;
+      let best;
+
+      const seedRange = isTiedOnRecord ? getTiedSeedRange(scenarioStandings, standing.userId, baseLeaders) : null;
+      const isSameSide = (line: number) => !!seedRange && (seedRange[1] < line || seedRange[0] >= line);
+
+      if (seedRange && isSameSide(playoffSpots) && isSameSide(byeSpots)) {
+        worst = best = {
+          playoff: seedRange[0] < playoffSpots,
+          bye: seedRange[0] < byeSpots,
+          division: false
+        };
+      } else if (isTiedOnRecord) {
+        const rankWithPoints = (pointsFor: number) => {
+          const adjusted = scenarioStandings.map(s => s.userId === standing.userId ? { ...s, pointsFor } : s);
+          return getFlags(calculateRankings(adjusted, scenarioMatchups, year), scenarioMatchups, standing.userId);
+        };
+        // More points can only help, so a team short of every line at best is short of them at worst
+        best = rankWithPoints(Infinity);
+        worst = best.playoff || best.bye || best.division ? rankWithPoints(-Infinity) : best;
+      } else {
+        const index = baseRanking.findIndex(s => s.userId === standing.userId);
+        worst = best = {
+          playoff: index < playoffSpots,
+          bye: index < byeSpots,
+          division: baseLeaders.allLeaders.has(standing.userId)
+        };
+      }
+
+      outcomes.get(standing.userId)![scenario] =
+        (worst.playoff ? WORST_PLAYOFF : 0) |
+        (best.playoff ? BEST_PLAYOFF : 0) |
+        (worst.bye ? WORST_BYE : 0) |
+        (best.bye ? BEST_BYE : 0) |
+        (worst.division ? WORST_DIVISION : 0) |
+        (best.division ? BEST_DIVISION : 0);
+    });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Seeds (0-indexed, inclusive) a team tied on record can land on however points for breaks the
+ * tie, or null when points for could also decide its division. Points for only orders teams on
+ * the same record, and a 3rd division leader bumped into the last playoff seed can push the rest
+ * down one.
+ */
+function getTiedSeedRange(
+  standings: EnhancedSeasonStandings[],
+  userId: string,
+  leaders: { top2Leaders: Set<string>; allLeaders: Set<string> }
+): [number, number] | null {
+  const team = standings.find(s => s.userId === userId)!;
+  const winPct = getWinPct(team);
+  const hasDivisions = standings.some(s => s.division !== undefined && s.division !== null);
+
+  if (!hasDivisions) {
+    const first = standings.filter(s => getWinPct(s) > winPct).length;
+    return [first, first + standings.filter(s => getWinPct(s) === winPct).length - 1];
+  }
+
+  const divisionLeader = standings.find(s => leaders.allLeaders.has(s.userId) && (s.division ?? 0) === (team.division ?? 0));
+  if (!divisionLeader || getWinPct(divisionLeader) <= winPct) {
+    return null;
+  }
+
+  const others = standings.filter(s => !leaders.top2Leaders.has(s.userId));
+  const first = leaders.top2Leaders.size + others.filter(s => getWinPct(s) > winPct).length;
+  return [first, first + others.filter(s => getWinPct(s) === winPct).length];
+}
+
+/**
+ * Find a minimal set of results (no result can be dropped) that guarantees a playoff spot.
+ * Starts from the team winning out, adds the most helpful other results until every
+ * remaining scenario clinches, then drops any result that turns out to be unnecessary.
+ */
+function findClinchPath(
+  userId: string,
+  flags: number[],
+  remainingMatchups: RemainingMatchup[],
+  scenarioCount: number
+): RequiredResult[] | null {
+  // Conditions map game index -> whether team1 wins
+  const clinchRate = (conditions: Map<number, boolean>) => {
+    let matching = 0;
+    let clinching = 0;
+    for (let scenario = 0; scenario < scenarioCount; scenario++) {
+      let matches = true;
+      for (const [gameIndex, team1Wins] of conditions) {
+        if (((scenario & (1 << gameIndex)) !== 0) !== team1Wins) {
+          matches = false;
+          break;
+        }
+      }
+      if (!matches) continue;
+      matching++;
+      if (flags[scenario] & WORST_PLAYOFF) clinching++;
+    }
+    return matching > 0 ? clinching / matching : 0;
+  };
+
+  let conditions = new Map<number, boolean>();
+  remainingMatchups.forEach((matchup, gameIndex) => {
+    if (matchup.team1 === userId) conditions.set(gameIndex, true);
+    if (matchup.team2 === userId) conditions.set(gameIndex, false);
+  });
+
+  // Winning out isn't always enough (or even helpful) once tiebreakers are involved
+  if (clinchRate(conditions) === 0) {
+    conditions = new Map();
+  }
+  if (clinchRate(conditions) === 0) {
+    return null;
+  }
+
+  while (clinchRate(conditions) < 1) {
+    let bestCondition: [number, boolean] | null = null;
+    let bestRate = -1;
+
+    for (let gameIndex = 0; gameIndex < remainingMatchups.length; gameIndex++) {
+      if (conditions.has(gameIndex)) continue;
+      for (const team1Wins of [true, false]) {
+        const rate = clinchRate(new Map(conditions).set(gameIndex, team1Wins));
+        if (rate > bestRate) {
+          bestRate = rate;
+          bestCondition = [gameIndex, team1Wins];
+        }
+      }
+    }
+
+    if (!bestCondition) return null;
+    conditions.set(bestCondition[0], bestCondition[1]);
+  }
+
+  // Drop other teams' results first, then the team's own games
+  const isOwnGame = (gameIndex: number) =>
+    remainingMatchups[gameIndex].team1 === userId || remainingMatchups[gameIndex].team2 === userId;
+  const removalOrder = Array.from(conditions.keys()).sort((a, b) => Number(isOwnGame(a)) - Number(isOwnGame(b)));
+  removalOrder.forEach(gameIndex => {
+    const withoutCondition = new Map(conditions);
+    withoutCondition.delete(gameIndex);
+    if (clinchRate(withoutCondition) === 1) {
+      conditions = withoutCondition;
+    }
+  });
+
+  return Array.from(conditions.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([gameIndex, team1Wins]) => {
+      const { week, team1, team2 } = remainingMatchups[gameIndex];
+      return { week, winner: team1Wins ? team1 : team2, loser: team1Wins ? team2 : team1 };
+    });
+}
+
+function getWinPct(standing: EnhancedSeasonStandings): number {
+  const games = standing.wins + standing.losses + (standing.ties || 0);
+  return games > 0 ? (standing.wins + (standing.ties || 0) * 0.5) / games : 0;
+}
@@ -0,0 +1,115 @@
+import type { HistoricalLeagueData } from '../services/data.service';
+import { getFFUIdBySleeperId, getUserByFFUId, getUserIdForSeason } from '../config/constants';
+
+// Static season files (public/data/<year>/<league>.json) come in two shapes:
+// v1 (no schemaVersion) - teams are keyed by Sleeper user ID or historical-* placeholder
+// v2 - teams are keyed by ffuUserId everywhere (standings, playoff results, promotions,
+//      relegations, matchup winner/loser, member game stats, draft order and picks, and
+//      transactions)
+// The app still reads season user IDs, so loaded data carries both IDs either way.
+export const HISTORICAL_DATA_SCHEMA_VERSION = 2;
+
+export const getSchemaVersion = (data: { schemaVersion?: number }): number => {
+  return data.schemaVersion ?? 1;
+};
+
+/**
+ * Rewrite every team reference in a season file with mapId, leaving everything else as is
+ */
+const mapTeamIds = (
+  data: HistoricalLeagueData,
+  mapId: (id: string) => string,
+  mapEntry: <T extends { userId?: string; ffuUserId?: string }>(entry: T) => T
+): HistoricalLeagueData => {
+  const mapped: HistoricalLeagueData = {
+    ...data,
+    standings: data.standings.map(mapEntry),
+    playoffResults: data.playoffResults.map(mapEntry),
+    promotions: data.promotions.map(mapId),
+    relegations: data.relegations.map(mapId),
+    matchupsByWeek: Object.fromEntries(Object.entries(data.matchupsByWeek).map(([week, matchups]) => [
+      week,
+      matchups.map(matchup => ({ ...matchup, winner: mapId(matchup.winner), loser: mapId(matchup.loser) }))
+    ]))
+  };
+
+  if (data.memberGameStats) {
+    mapped.memberGameStats = Object.fromEntries(
+      Object.entries(data.memberGameStats).map(([id, stats]) => [mapId(id), stats])
+    );
+  }
+
+  if (data.draftData) {
+    mapped.draftData = {
+      ...data.draftData,
+      draftOrder: Object.fromEntries(
+        Object.entries(data.draftData.draftOrder || {}).map(([id, slot]) => [mapId(id), slot])
+      ),
+      picks: data.draftData.picks.map(pick => ({
+        ...pick,
+        pickedBy: mapId(pick.pickedBy),
+        userInfo: pick.userInfo && mapEntry(pick.userInfo)
+      }))
+    };
+  }
+
+  if (data.transactions) {
+    mapped.transactions = data.transactions.map(transaction => ({
+      ...transaction,
+      userIds: transaction.userIds.map(mapId),
+      adds: transaction.adds.map(move => ({ ...move, userId: mapId(move.userId) })),
+      drops: transaction.drops.map(move => ({ ...move, userId: mapId(move.userId) })),
+      draftPicks: transaction.draftPicks.map(pick => ({
+        ...pick,
+        originalOwner: mapId(pick.originalOwner),
+        from: mapId(pick.from),
+        to: mapId(pick.to)
+      })),
+      faabTransfers: transaction.faabTransfers.map(transfer => ({ ...transfer, from: mapId(transfer.from), to: mapId(transfer.to) }))
+    }));
+  }
+
+  return mapped;
+};
+
+// Unknown IDs pass through untouched, validateHistoricalData reports them
+const toFFUId = (id: string, year: string): string => {
+  return getUserByFFUId(id) ? id : getFFUIdBySleeperId(id, year) || id;
+};
+
+const toSeasonUserId = (id: string, year: string): string => {
+  return getUserIdForSeason(id, year) || id;
+};
+
+/**
+ * v1 -> v2: key a season file by ffuUserId (the migration script's transform). Safe to
+ * run on v2 files too - ffuUserIds map to themselves, so it only fills in what's missing.
+ */
+export const migrateToFFUIds = (data: HistoricalLeagueData): HistoricalLeagueData => {
+  const mapId = (id: string) => toFFUId(id, data.year);
+  const migrated = mapTeamIds(data, mapId, entry => {
+    const { userId, ffuUserId, ...rest } = entry;
+    return { ffuUserId: ffuUserId || mapId(userId || ''), ...rest } as typeof entry;
+  });
+
+  return { schemaVersion: HISTORICAL_DATA_SCHEMA_VERSION, ...migrated };
+};
+
+/**
+ * Any version -> the shape the app reads: team references are season user IDs and
+ * every standing, playoff result and pick carries both userId and ffuUserId
+ */
+export const normalizeHistoricalData = (data: HistoricalLeagueData): HistoricalLeagueData => {
+  if (getSchemaVersion(data) < HISTORICAL_DATA_SCHEMA_VERSION) {
+    return mapTeamIds(data, id => id, entry => ({
+      ...entry,
+      ffuUserId: entry.ffuUserId || toFFUId(entry.userId || '', data.year)
+    }));
+  }
+
+  const mapId = (id: string) => toSeasonUserId(id, data.year);
+  return mapTeamIds(data, mapId, entry => ({
+    userId: mapId(entry.ffuUserId || ''),
+    ...entry
+  }));
+};
@@ -0,0 +1,183 @@
+import type { DraftData, DraftGrades, DraftPickGrade, TeamDraftGrade } from '../types';
+import type { WeeklyLineups } from './weekly-lineups';
+import { getRegularSeasonWeeks } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export interface DraftManagerSummary {
+  ffuUserId: string;
+  userId: string; // Most recent user ID, for names and logos
+  drafts: number;
+  seasonPoints: number;
+  startedPoints: number;
+  valueOverExpected: number;
+  averageValueOverExpected: number;
+  grade: string; // From the average z-score of the member's drafts
+}
+
+// FFU fantasy points per player ID for each week of a season
+export type WeeklyPlayerPoints = Record<number, Record<string, number>>;
+
+export interface DraftYearHighlights {
+  year: string;
+  bestPicks: DraftPickGrade[];
+  busts: DraftPickGrade[];
+}
+
+// Picks on either side of a slot that set its expected value, to smooth out single drafts
+const EXPECTATION_WINDOW = 2;
+
+const GRADE_THRESHOLDS: [number, string][] = [
+  [1.5, 'A+'],
+  [1, 'A'],
+  [0.75, 'A-'],
+  [0.5, 'B+'],
+  [0.25, 'B'],
+  [0, 'B-'],
+  [-0.25, 'C+'],
+  [-0.5, 'C'],
+  [-0.75, 'C-'],
+  [-1.25, 'D']
+];
+
+/**
+ * Letter grade for a z-score against every graded team draft
+ */
+export function getDraftLetterGrade(zScore: number): string {
+  return GRADE_THRESHOLDS.find(([threshold]) => zScore >= threshold)?.[1] || 'F';
+}
+
+/**
+ * Grade drafts against what their picks produced. Each pick's season points (the player's
+ * full regular season, wherever he was rostered) are compared to the average season points
+ * of picks around the same overall slot in every draft passed in, and each team's draft is
+ * graded on its total value over expectation.
+ */
+export function gradeDrafts(
+  seasons: { draft: DraftData; lineups: WeeklyLineups; playerPoints: WeeklyPlayerPoints }[]
+): DraftGrades {
+  const producedPicks = seasons.flatMap(({ draft, lineups, playerPoints }) => {
+    const weeks = getRegularSeasonWeeks(draft.year, draft.league);
+    return draft.picks.map(pick => {
+      let seasonPoints = 0;
+      let startedPoints = 0;
+      weeks.forEach(week => {
+        seasonPoints += playerPoints[week]?.[pick.playerId] || 0;
+        startedPoints += lineups.starters[week]?.[pick.pickedBy]?.[pick.playerId] || 0;
+      });
+      return { draft, pick, seasonPoints, startedPoints };
+    });
+  });
+
+  const pointsBySlot = new Map<number, number[]>();
+  producedPicks.forEach(({ pick, seasonPoints }) => {
+    pointsBySlot.set(pick.pickNumber, [...(pointsBySlot.get(pick.pickNumber) || []), seasonPoints]);
+  });
+  const getExpectedPoints = (pickNumber: number) => {
+    const nearby: number[] = [];
+    for (let slot = pickNumber - EXPECTATION_WINDOW; slot <= pickNumber + EXPECTATION_WINDOW; slot++) {
+      nearby.push(...(pointsBySlot.get(slot) || []));
+    }
+    return nearby.reduce((sum, points) => sum + points, 0) / nearby.length;
+  };
+
+  const picks: DraftPickGrade[] = producedPicks.map(({ draft, pick, seasonPoints, startedPoints }) => {
+    const expectedPoints = getExpectedPoints(pick.pickNumber);
+    return {
+      year: draft.year,
+      league: draft.league,
+      pickNumber: pick.pickNumber,
+      round: pick.round,
+      playerId: pick.playerId,
+      playerInfo: pick.playerInfo,
+      pickedBy: pick.pickedBy,
+      seasonPoints,
+      startedPoints,
+      expectedPoints,
+      valueOverExpected: seasonPoints - expectedPoints
+    };
+  });
+
+  const teamTotals = new Map<string, Omit<TeamDraftGrade, 'zScore' | 'grade'>>();
+  picks.forEach(pick => {
+    const key = `${pick.year}-${pick.league}-${pick.pickedBy}`;
+    const team = teamTotals.get(key) || {
+      year: pick.year,
+      league: pick.league,
+      userId: pick.pickedBy,
+      picks: 0,
+      seasonPoints: 0,
+      startedPoints: 0,
+      expectedPoints: 0,
+      valueOverExpected: 0
+    };
+    team.picks++;
+    team.seasonPoints += pick.seasonPoints;
+    team.startedPoints += pick.startedPoints;
+    team.expectedPoints += pick.expectedPoints;
+    team.valueOverExpected += pick.valueOverExpected;
+    teamTotals.set(key, team);
+  });
+
+  const totals = Array.from(teamTotals.values());
+  const mean = totals.reduce((sum, team) => sum + team.valueOverExpected, 0) / (totals.length || 1);
+  const stdDev = Math.sqrt(totals.reduce((sum, team) => sum + (team.valueOverExpected - mean) ** 2, 0) / (totals.length || 1));
+
+  const teams: TeamDraftGrade[] = totals
+    .map(team => {
+      const zScore = stdDev > 0 ? (team.valueOverExpected - mean) / stdDev : 0;
+      return { ...team, zScore, grade: getDraftLetterGrade(zScore) };
+    })
+    .sort((a, b) => b.valueOverExpected - a.valueOverExpected);
+
+  return { picks, teams };
+}
+
+/**
+ * Career draft totals per member, best drafter first
+ */
+export function summarizeDraftManagers(teams: TeamDraftGrade[]): DraftManagerSummary[] {
+  const summaries = new Map<string, DraftManagerSummary>();
+  const totalZScores = new Map<string, number>();
+
+  [...teams].sort((a, b) => a.year.localeCompare(b.year)).forEach(team => {
+    const ffuUserId = getFFUIdBySleeperId(team.userId, team.year) || team.userId;
+    const summary = summaries.get(ffuUserId) || {
+      ffuUserId,
+      userId: team.userId,
+      drafts: 0,
+      seasonPoints: 0,
+      startedPoints: 0,
+      valueOverExpected: 0,
+      averageValueOverExpected: 0,
+      grade: 'F'
+    };
+
+    summary.userId = team.userId;
+    summary.drafts++;
+    summary.seasonPoints += team.seasonPoints;
+    summary.startedPoints += team.startedPoints;
+    summary.valueOverExpected += team.valueOverExpected;
+    summary.averageValueOverExpected = summary.valueOverExpected / summary.drafts;
+    totalZScores.set(ffuUserId, (totalZScores.get(ffuUserId) || 0) + team.zScore);
+    summary.grade = getDraftLetterGrade(totalZScores.get(ffuUserId)! / summary.drafts);
+    summaries.set(ffuUserId, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.averageValueOverExpected - a.averageValueOverExpected);
+}
+
+/**
+ * The best and worst picks of each draft year across every league, newest year first
+ */
+export function getDraftHighlightsByYear(picks: DraftPickGrade[], count = 5): DraftYearHighlights[] {
+  const years = [...new Set(picks.map(pick => pick.year))].sort((a, b) => b.localeCompare(a));
+
+  return years.map(year => {
+    const ranked = picks.filter(pick => pick.year === year).sort((a, b) => b.valueOverExpected - a.valueOverExpected);
+    return {
+      year,
+      bestPicks: ranked.slice(0, count),
+      busts: ranked.slice(-count).reverse()
+    };
+  });
+}
@@ -0,0 +1,112 @@
+import type { DraftData, DraftSlotSeason, LeagueTier, SeasonStandings } from '../types';
+import { getPlayoffTeamCount } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export interface DraftSlotSummary {
+  draftSlot: number;
+  seasons: number;
+  averageFinish: number;
+  playoffRate: number;
+  titleRate: number;
+}
+
+export interface MemberDraftLuck {
+  ffuUserId: string;
+  userId: string; // Most recent user ID, for names and logos
+  seasons: DraftSlotSeason[]; // Oldest first
+  averageSlot: number;
+  expectedFinish: number; // Average finish of the slots the member drew
+  averageFinish: number;
+  drawLuck: number; // Places the draw was worth against a middle slot, positive is a good draw
+  finishOverExpected: number; // Places finished above what the drawn slots usually finish
+}
+
+/**
+ * Draft slot and final placement for every team in a completed season. Teams missing from
+ * the draft order (mid-season replacements) take the slot whose picks they made.
+ */
+export function getDraftSlotSeasons(season: {
+  year: string;
+  league: LeagueTier;
+  standings: SeasonStandings[];
+  draftData?: DraftData;
+}): DraftSlotSeason[] {
+  const { year, league, standings, draftData } = season;
+  if (!draftData) return [];
+
+  const slots = new Map(Object.entries(draftData.draftOrder || {}));
+  const takenSlots = new Set(slots.values());
+  for (let slot = 1; slot <= draftData.settings.teams; slot++) {
+    if (takenSlots.has(slot)) continue;
+    const pickForSlot = draftData.picks.find(pick => pick.draftSlot === slot && !slots.has(pick.pickedBy));
+    if (pickForSlot) slots.set(pickForSlot.pickedBy, slot);
+  }
+
+  const playoffSpots = getPlayoffTeamCount(year, league);
+  return standings.flatMap(standing => {
+    const draftSlot = slots.get(standing.userId);
+    if (!draftSlot) return [];
+    return [{
+      year,
+      league,
+      userId: standing.userId,
+      draftSlot,
+      teams: standings.length,
+      finish: standing.rank,
+      madePlayoffs: standing.rank <= playoffSpots,
+      wonTitle: standing.rank === 1
+    }];
+  });
+}
+
+/**
+ * Average finish, playoff rate and title rate for each draft slot
+ */
+export function summarizeDraftSlots(seasons: DraftSlotSeason[]): DraftSlotSummary[] {
+  const bySlot = new Map<number, DraftSlotSeason[]>();
+  seasons.forEach(season => {
+    bySlot.set(season.draftSlot, [...(bySlot.get(season.draftSlot) || []), season]);
+  });
+
+  return Array.from(bySlot.entries())
+    .map(([draftSlot, slotSeasons]) => ({
+      draftSlot,
+      seasons: slotSeasons.length,
+      averageFinish: slotSeasons.reduce((sum, season) => sum + season.finish, 0) / slotSeasons.length,
+      playoffRate: slotSeasons.filter(season => season.madePlayoffs).length / slotSeasons.length,
+      titleRate: slotSeasons.filter(season => season.wonTitle).length / slotSeasons.length
+    }))
+    .sort((a, b) => a.draftSlot - b.draftSlot);
+}
+
+/**
+ * Each member's luck of the draw: the slots they drew, what those slots usually finish
+ * across every season passed in, and how the member did against that. Luckiest first.
+ */
+export function calculateDraftLuck(seasons: DraftSlotSeason[]): MemberDraftLuck[] {
+  const slotFinish = new Map(summarizeDraftSlots(seasons).map(summary => [summary.draftSlot, summary.averageFinish]));
+  const byMember = new Map<string, DraftSlotSeason[]>();
+
+  [...seasons].sort((a, b) => a.year.localeCompare(b.year)).forEach(season => {
+    const ffuUserId = getFFUIdBySleeperId(season.userId, season.year) || season.userId;
+    byMember.set(ffuUserId, [...(byMember.get(ffuUserId) || []), season]);
+  });
+
+  return Array.from(byMember.entries())
+    .map(([ffuUserId, memberSeasons]) => {
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const expectedFinish = average(memberSeasons.map(season => slotFinish.get(season.draftSlot) || 0));
+      const averageFinish = average(memberSeasons.map(season => season.finish));
+      return {
+        ffuUserId,
+        userId: memberSeasons[memberSeasons.length - 1].userId,
+        seasons: memberSeasons,
+        averageSlot: average(memberSeasons.map(season => season.draftSlot)),
+        expectedFinish,
+        averageFinish,
+        drawLuck: average(memberSeasons.map(season => (season.teams + 1) / 2)) - expectedFinish,
+        finishOverExpected: expectedFinish - averageFinish
+      };
+    })
+    .sort((a, b) => b.drawLuck - a.drawLuck);
+}
@@ -0,0 +1,109 @@
+import type { LeagueTier, MemberEloRating } from '../types';
+import { getAvailableLeagues } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export const ELO_BASE_RATING = 1500;
+export const ELO_K_FACTOR = 20;
+
+// Share of the gap to the tier baseline that is closed at the start of each season
+export const SEASON_REGRESSION = 0.25;
+
+// Top tier baseline sits this far above the base rating, bottom tier this far below
+export const TIER_SPREAD = 100;
+
+interface SeasonWeekMatchups {
+  year: string;
+  league: LeagueTier;
+  week: number;
+  matchups: { winner: string; loser: string; winnerScore: number; loserScore: number }[];
+}
+
+/**
+ * Expected rating for a tier in a season. Games are only played within a tier, so this
+ * is what lets a Premier rating be compared with a National one: new members start here
+ * and every member regresses toward the baseline of the tier they play in next.
+ */
+export function getTierBaseline(league: LeagueTier, year: string): number {
+  const tiers = getAvailableLeagues(year);
+  const tierIndex = tiers.indexOf(league);
+  if (tierIndex === -1 || tiers.length < 2) return ELO_BASE_RATING;
+
+  // Spread tiers evenly from +TIER_SPREAD (top) to -TIER_SPREAD (bottom)
+  return ELO_BASE_RATING + TIER_SPREAD - (tierIndex / (tiers.length - 1)) * TIER_SPREAD * 2;
+}
+
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * Process every matchup from the first season onward in chronological order.
+ * Playoff and consolation games count; unplayed games (0-0) are skipped.
+ */
+export function calculateEloRatings(allMatchupData: SeasonWeekMatchups[]): MemberEloRating[] {
+  const ratings = new Map<string, MemberEloRating>();
+
+  const sortedWeeks = [...allMatchupData].sort((a, b) =>
+    a.year.localeCompare(b.year) || a.week - b.week
+  );
+
+  // Keyed by FFU ID so a member who changed platform accounts keeps one rating
+  const getRating = (userId: string, league: LeagueTier, year: string): MemberEloRating => {
+    const ffuUserId = getFFUIdBySleeperId(userId, year) || userId;
+    let member = ratings.get(ffuUserId);
+    const baseline = getTierBaseline(league, year);
+
+    if (!member) {
+      member = {
+        userId,
+        ffuUserId,
+        rating: baseline,
+        peakRating: baseline,
+        peakYear: year,
+        lowRating: baseline,
+        gamesPlayed: 0,
+        lastYear: year,
+        lastLeague: league,
+        history: []
+      };
+      ratings.set(ffuUserId, member);
+    } else if (member.lastYear !== year) {
+      // New season: regress toward the baseline of the tier they now play in
+      member.rating = baseline + (member.rating - baseline) * (1 - SEASON_REGRESSION);
+    }
+
+    member.userId = userId;
+    member.lastYear = year;
+    member.lastLeague = league;
+    return member;
+  };
+
+  sortedWeeks.forEach(({ year, league, week, matchups }) => {
+    matchups.forEach(matchup => {
+      if (!matchup.winner || !matchup.loser) return;
+      if (!matchup.winnerScore && !matchup.loserScore) return;
+
+      const winner = getRating(matchup.winner, league, year);
+      const loser = getRating(matchup.loser, league, year);
+
+      const isTie = matchup.winnerScore === matchup.loserScore;
+      const winnerExpected = getExpectedScore(winner.rating, loser.rating);
+      const change = ELO_K_FACTOR * ((isTie ? 0.5 : 1) - winnerExpected);
+
+      winner.rating += change;
+      loser.rating -= change;
+
+      [winner, loser].forEach(member => {
+        member.gamesPlayed += 1;
+        member.history.push({ year, week, league, rating: member.rating });
+        if (member.rating > member.peakRating) {
+          member.peakRating = member.rating;
+          member.peakYear = year;
+        }
+        member.lowRating = Math.min(member.lowRating, member.rating);
+      });
+    });
+  });
+
+  return Array.from(ratings.values()).sort((a, b) => b.rating - a.rating);
+}
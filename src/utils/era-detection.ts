@@ -1,49 +1,57 @@
 import type { LeagueTier } from '../types';
+import { getLeagueSettings, getSeasonTiers } from '../config/league-settings';
 
-// Era detection utilities for distinguishing between ESPN (2018-2020) and Sleeper (2021+) eras
+// Era and season-structure helpers, all derived from the per-season settings in config/league-settings.ts
+// ESPN (2018-2020) and Sleeper (2021+) eras are the settings' platform
 
 export const isEspnEra = (year: string): boolean => {
-  const yearNum = parseInt(year);
-  return yearNum >= 2018 && yearNum <= 2020;
+  return getLeagueSettings(year).platform === 'ESPN';
 };
 
 export const isSleeperEra = (year: string): boolean => {
-  const yearNum = parseInt(year);
-  return yearNum >= 2021;
+  return getLeagueSettings(year).platform === 'SLEEPER';
 };
 
-// Get playoff weeks based on era
-export const getPlayoffWeeks = (year: string): number[] => {
-  return isEspnEra(year) ? [14, 15, 16] : [15, 16, 17];
+// Get playoff weeks for a season
+export const getPlayoffWeeks = (year: string, league?: LeagueTier): number[] => {
+  return getLeagueSettings(year, league).playoffWeeks;
 };
 
 // Get total fantasy weeks for year
-export const getSeasonLength = (year: string): number => {
-  return isEspnEra(year) ? 16 : 17;
+export const getSeasonLength = (year: string, league?: LeagueTier): number => {
+  return Math.max(...getPlayoffWeeks(year, league));
 };
 
 // Get regular season weeks (excludes playoffs)
-export const getRegularSeasonWeeks = (year: string): number[] => {
-  const playoffWeeks = getPlayoffWeeks(year);
-  const regularSeasonLength = Math.min(...playoffWeeks) - 1;
-  
+export const getRegularSeasonWeeks = (year: string, league?: LeagueTier): number[] => {
+  const regularSeasonLength = getLeagueSettings(year, league).regularSeasonWeeks;
+
   return Array.from({ length: regularSeasonLength }, (_, i) => i + 1);
 };
 
-// Get available leagues for year (ESPN era had no Masters league, Masters started in 2022)
+// Get the last regular season week
+export const getLastRegularSeasonWeek = (year: string, league?: LeagueTier): number => {
+  return getLeagueSettings(year, league).regularSeasonWeeks;
+};
+
+// Get number of teams that make the playoffs
+export const getPlayoffTeamCount = (year: string, league?: LeagueTier): number => {
+  return getLeagueSettings(year, league).playoffTeams;
+};
+
+// Get number of top seeds with a first-round bye
+export const getPlayoffByeCount = (year: string, league?: LeagueTier): number => {
+  return getLeagueSettings(year, league).playoffByes;
+};
+
+// Get the starting lineup slots, in slot order
+export const getRosterSlots = (year: string, league?: LeagueTier): string[] => {
+  return getLeagueSettings(year, league).rosterSlots;
+};
+
+// Get available leagues for year (ESPN era and 2021 had no Masters league)
 export const getAvailableLeagues = (year: string): LeagueTier[] => {
-  const yearNum = parseInt(year);
-  
-  if (isEspnEra(year)) {
-    // ESPN era: only Premier and National
-    return ['PREMIER', 'NATIONAL'];
-  } else if (yearNum === 2021) {
-    // 2021: Sleeper era but Masters not yet introduced
-    return ['PREMIER', 'NATIONAL'];
-  } else {
-    // 2022+: All three leagues
-    return ['PREMIER', 'MASTERS', 'NATIONAL'];
-  }
+  return getSeasonTiers(year);
 };
 
 // Check if a specific league existed in a given year
@@ -55,7 +63,7 @@ export const isLeagueAvailableInYear = (league: LeagueTier, year: string): boole
 // Get era-specific league configuration
 export const getEraInfo = (year: string) => {
   const era = isEspnEra(year) ? 'ESPN' : 'Sleeper';
-  
+
   return {
     era,
     isEspnEra: isEspnEra(year),
@@ -70,25 +78,25 @@ export const getEraInfo = (year: string) => {
 };
 
 // Helper to determine if a week is a playoff week
-export const isPlayoffWeek = (week: number, year: string): boolean => {
-  return getPlayoffWeeks(year).includes(week);
+export const isPlayoffWeek = (week: number, year: string, league?: LeagueTier): boolean => {
+  return getPlayoffWeeks(year, league).includes(week);
 };
 
 // Helper to determine if a week is a regular season week
-export const isRegularSeasonWeek = (week: number, year: string): boolean => {
-  return getRegularSeasonWeeks(year).includes(week);
+export const isRegularSeasonWeek = (week: number, year: string, league?: LeagueTier): boolean => {
+  return week >= 1 && week <= getLastRegularSeasonWeek(year, league);
 };
 
-// Get playoff round name based on week and era
-export const getPlayoffRoundName = (week: number, year: string): string | null => {
-  const playoffWeeks = getPlayoffWeeks(year);
-  
+// Get playoff round name, counting back from the championship
+export const getPlayoffRoundName = (week: number, year: string, league?: LeagueTier): string | null => {
+  const playoffWeeks = getPlayoffWeeks(year, league);
+
   if (!playoffWeeks.includes(week)) {
     return null;
   }
-  
-  const playoffIndex = playoffWeeks.indexOf(week);
-  const roundNames = ['Quarterfinal', 'Semifinal', 'Championship'];
-  
-  return roundNames[playoffIndex] || null;
-};
\ No newline at end of file
+
+  const roundsFromFinal = playoffWeeks.length - 1 - playoffWeeks.indexOf(week);
+  const roundNames = ['Championship', 'Semifinal', 'Quarterfinal'];
+
+  return roundNames[roundsFromFinal] || `Round ${playoffWeeks.indexOf(week) + 1}`;
+};
@@ -4,6 +4,7 @@ import type {
   HistoricalTeamData, 
   PlayerTeamMapping
 } from '../types';
+import { isEspnEra, isSleeperEra } from './era-detection';
 
 interface HistoricalTeamCache {
   lastUpdated: string;
@@ -25,9 +26,6 @@ export class HistoricalTeamResolver {
   private dataLoaded = false;
   private baseUrl = import.meta.env.BASE_URL.replace(/\/$/, '');
 
-  // Sleeper era years (when historical team data is needed)
-  private readonly SLEEPER_ERA_START = 2021;
-
   // Map NFLverse team abbreviations to standard NFL abbreviations
   private normalizeTeamAbbreviation(team: string, draftYear?: number): string {
     const teamMap: Record<string, string> = {
@@ -94,12 +92,12 @@ export class HistoricalTeamResolver {
 
   // Check if a year is in the Sleeper era (when historical data should be applied)
   private isSleeperEra(year: number): boolean {
-    return year >= this.SLEEPER_ERA_START;
+    return isSleeperEra(String(year));
   }
 
   // Check if a year is in the ESPN era
   private isEspnEra(year: number): boolean {
-    return year >= 2018 && year <= 2020;
+    return isEspnEra(String(year));
   }
 
   async resolvePlayerTeam(
@@ -0,0 +1,156 @@
+import type { LeagueTier, LineupPlayer, TeamLineup, WeekMatchup } from '../types';
+import { getRosterSlots } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export const FLEX_POSITIONS = ['RB', 'WR', 'TE'];
+
+export interface LineupEfficiency {
+  userId: string;
+  opponentId: string;
+  year: string;
+  week: number;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPoints: number; // Points left on the bench (optimal - actual)
+  efficiency: number; // actual / optimal (0-1)
+  lostDueToLineup: boolean; // Lost, but the optimal lineup would have outscored the opponent
+}
+
+export interface EfficiencySummary {
+  userId: string; // Most recent season user ID
+  ffuUserId: string;
+  games: number;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPoints: number;
+  efficiency: number;
+  lineupLosses: number;
+}
+
+const isEligible = (position: string | undefined, slot: string): boolean =>
+  !!position && (slot === 'FLEX' ? FLEX_POSITIONS.includes(position) : position === slot);
+
+/**
+ * Best possible lineup from everyone on the roster that week. Dedicated slots take the
+ * top scorers at their position first, then FLEX takes the best of what's left, which
+ * is optimal because every FLEX-eligible position also has dedicated slots.
+ */
+export function calculateOptimalLineup(
+  players: LineupPlayer[],
+  slots: readonly string[]
+): { points: number; lineup: LineupPlayer[] } {
+  const available = [...players].sort((a, b) => b.points - a.points);
+  const orderedSlots = [...slots].sort((a, b) => Number(a === 'FLEX') - Number(b === 'FLEX'));
+  const lineup: LineupPlayer[] = [];
+
+  orderedSlots.forEach(slot => {
+    const index = available.findIndex(player => isEligible(player.position, slot));
+    if (index === -1) return;
+    lineup.push(available[index]);
+    available.splice(index, 1);
+  });
+
+  return { points: lineup.reduce((sum, player) => sum + player.points, 0), lineup };
+}
+
+/**
+ * Actual vs optimal points for one lineup
+ * @param slots - The season's starting lineup slots (see getRosterSlots)
+ */
+export function calculateLineupEfficiency(
+  lineup: TeamLineup,
+  slots: readonly string[]
+): { actualPoints: number; optimalPoints: number } {
+  const actualPoints = lineup.starters.reduce((sum, player) => sum + player.points, 0);
+  const { points } = calculateOptimalLineup([...lineup.starters, ...lineup.bench].filter(player => player.playerId !== '0'), slots);
+  // Players without a stored position can't be placed, so never report an optimal below what was actually scored
+  return { actualPoints, optimalPoints: Math.max(points, actualPoints) };
+}
+
+/**
+ * Efficiency for both sides of every matchup that has lineups, against the league's
+ * starting lineup that season
+ */
+export function calculateSeasonEfficiency(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  league?: LeagueTier
+): LineupEfficiency[] {
+  const results: LineupEfficiency[] = [];
+  const slots = getRosterSlots(year, league);
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+
+    matchups.forEach(matchup => {
+      if (!matchup.lineups || (!matchup.winnerScore && !matchup.loserScore)) return;
+
+      const winner = calculateLineupEfficiency(matchup.lineups.winner, slots);
+      const loser = calculateLineupEfficiency(matchup.lineups.loser, slots);
+      const isTie = matchup.winnerScore === matchup.loserScore;
+
+      const toEfficiency = (
+        userId: string,
+        opponentId: string,
+        team: { actualPoints: number; optimalPoints: number },
+        opponentScore: number,
+        lost: boolean
+      ): LineupEfficiency => ({
+        userId,
+        opponentId,
+        year,
+        week,
+        actualPoints: team.actualPoints,
+        optimalPoints: team.optimalPoints,
+        benchPoints: team.optimalPoints - team.actualPoints,
+        efficiency: team.optimalPoints > 0 ? team.actualPoints / team.optimalPoints : 1,
+        lostDueToLineup: lost && team.optimalPoints > opponentScore
+      });
+
+      results.push(toEfficiency(matchup.winner, matchup.loser, winner, matchup.loserScore, false));
+      results.push(toEfficiency(matchup.loser, matchup.winner, loser, matchup.winnerScore, !isTie));
+    });
+  });
+
+  return results;
+}
+
+/**
+ * Roll weekly efficiency up per member (one season or a whole career). Members are
+ * matched by FFU ID, so a career spans every Sleeper account the member played under.
+ */
+export function summarizeEfficiency(entries: LineupEfficiency[]): EfficiencySummary[] {
+  const summaries = new Map<string, EfficiencySummary>();
+  const latestYears = new Map<string, string>();
+
+  entries.forEach(entry => {
+    const ffuUserId = getFFUIdBySleeperId(entry.userId, entry.year) || entry.userId;
+    const summary = summaries.get(ffuUserId) || {
+      userId: entry.userId,
+      ffuUserId,
+      games: 0,
+      actualPoints: 0,
+      optimalPoints: 0,
+      benchPoints: 0,
+      efficiency: 0,
+      lineupLosses: 0
+    };
+    summary.games += 1;
+    summary.actualPoints += entry.actualPoints;
+    summary.optimalPoints += entry.optimalPoints;
+    summary.benchPoints += entry.benchPoints;
+    if (entry.lostDueToLineup) summary.lineupLosses += 1;
+    if (entry.year >= (latestYears.get(ffuUserId) || '')) {
+      summary.userId = entry.userId;
+      latestYears.set(ffuUserId, entry.year);
+    }
+    summaries.set(ffuUserId, summary);
+  });
+
+  return Array.from(summaries.values()).map(summary => ({
+    ...summary,
+    efficiency: summary.optimalPoints > 0 ? summary.actualPoints / summary.optimalPoints : 1
+  }));
+}
+
+export const formatEfficiency = (efficiency: number): string => `${(efficiency * 100).toFixed(1)}%`;
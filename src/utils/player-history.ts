@@ -0,0 +1,96 @@
+import type { DraftData, LeagueTier, PlayerDraftRecord, PlayerGameRecord, PlayerTeamSummary, WeekMatchup } from '../types';
+
+const compareSeasons = (a: { year: string; league: LeagueTier }, b: { year: string; league: LeagueTier }) =>
+  a.year.localeCompare(b.year) || a.league.localeCompare(b.league);
+
+/**
+ * Every FFU draft pick spent on a player
+ */
+export function getPlayerDrafts(playerId: string, drafts: DraftData[]): PlayerDraftRecord[] {
+  return drafts
+    .flatMap(draft => draft.picks
+      .filter(pick => pick.playerId === playerId)
+      .map(pick => ({
+        year: draft.year,
+        league: draft.league,
+        round: pick.round,
+        pickNumber: pick.pickNumber,
+        draftSlot: pick.draftSlot,
+        pickedBy: pick.pickedBy
+      })))
+    .sort(compareSeasons);
+}
+
+/**
+ * Every lineup (starter or bench) a player appeared in. Matchups without lineups
+ * contribute nothing.
+ */
+export function getPlayerGames(
+  playerId: string,
+  seasons: { year: string; league: LeagueTier; matchupsByWeek: Record<number, WeekMatchup[]> }[]
+): PlayerGameRecord[] {
+  const games: PlayerGameRecord[] = [];
+
+  seasons.forEach(({ year, league, matchupsByWeek }) => {
+    Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+      const week = parseInt(weekStr);
+
+      matchups.forEach(matchup => {
+        if (!matchup.lineups) return;
+        const isTie = matchup.winnerScore === matchup.loserScore;
+        const sides = [
+          { userId: matchup.winner, opponentId: matchup.loser, lineup: matchup.lineups.winner, result: isTie ? 'T' : 'W' },
+          { userId: matchup.loser, opponentId: matchup.winner, lineup: matchup.lineups.loser, result: isTie ? 'T' : 'L' }
+        ] as const;
+
+        sides.forEach(({ userId, opponentId, lineup, result }) => {
+          const starter = lineup.starters.find(player => player.playerId === playerId);
+          const benched = starter ? undefined : lineup.bench.find(player => player.playerId === playerId);
+          const appearance = starter || benched;
+          if (!appearance) return;
+
+          games.push({ year, league, week, userId, opponentId, points: appearance.points, started: !!starter, result });
+        });
+      });
+    });
+  });
+
+  return games.sort((a, b) => compareSeasons(a, b) || a.week - b.week);
+}
+
+/**
+ * Starts and points per FFU team, most points first
+ */
+export function summarizePlayerTeams(games: PlayerGameRecord[]): PlayerTeamSummary[] {
+  const summaries = new Map<string, PlayerTeamSummary>();
+
+  games.forEach(game => {
+    const summary = summaries.get(game.userId) || {
+      userId: game.userId,
+      starts: 0,
+      points: 0,
+      firstYear: game.year,
+      lastYear: game.year
+    };
+    if (game.started) {
+      summary.starts += 1;
+      summary.points += game.points;
+    }
+    if (game.year < summary.firstYear) summary.firstYear = game.year;
+    if (game.year > summary.lastYear) summary.lastYear = game.year;
+    summaries.set(game.userId, summary);
+  });
+
+  return Array.from(summaries.values())
+    .filter(summary => summary.starts > 0)
+    .sort((a, b) => b.points - a.points);
+}
+
+/**
+ * A player's highest-scoring FFU starts
+ */
+export const getBestPlayerGames = (games: PlayerGameRecord[], limit = 10): PlayerGameRecord[] =>
+  games
+    .filter(game => game.started)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit);
@@ -0,0 +1,226 @@
+import type { EnhancedSeasonStandings, WeekMatchup } from '../types';
+import { calculateRankings, identifyDivisionLeaders } from './ranking';
+import { getPlayoffByeCount, getPlayoffTeamCount } from './era-detection';
+
+export const DEFAULT_SIMULATION_RUNS = 5000;
+
+// Teams with fewer scored games than this fall back to the league-wide distribution
+const MIN_GAMES_FOR_DISTRIBUTION = 2;
+
+// Simulated games are filed under week 1 so H2H tiebreakers (which skip unplayed weeks) count them
+const SIMULATED_RESULTS_WEEK = 1;
+
+export interface ScoringDistribution {
+  mean: number;
+  stdDev: number;
+}
+
+export interface PlayoffOdds {
+  userId: string;
+  makePlayoffs: number; // 0-1
+  firstRoundBye: number; // 0-1
+  winDivision: number; // 0-1
+  seedOdds: number[]; // Index 0 = 1st seed
+  averageWins: number;
+}
+
+export interface PlayoffSimulationOptions {
+  standings: EnhancedSeasonStandings[];
+  matchupsByWeek: Record<number, WeekMatchup[]>;
+  year: string;
+  remainingWeeks: number[];
+  lockedResults?: Record<string, string>; // `${week}-${idx}` -> winner userId (Playoff Machine picks)
+  runs?: number;
+  random?: () => number;
+}
+
+export interface RemainingMatchup {
+  key: string; // `${week}-${idx}`, matches Playoff Machine pick keys
+  week: number;
+  team1: string;
+  team2: string;
+}
+
+/**
+ * Unplayed regular season matchups (winner/loser are just the two teams until the week is played)
+ */
+export function getRemainingMatchups(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  remainingWeeks: number[]
+): RemainingMatchup[] {
+  return remainingWeeks.flatMap(week =>
+    (matchupsByWeek[week] || [])
+      .map((matchup, idx) => ({ key: `${week}-${idx}`, week, team1: matchup.winner, team2: matchup.loser }))
+      .filter(matchup => matchup.team1 && matchup.team2)
+  );
+}
+
+export function getCompletedMatchupsByWeek(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  remainingWeeks: number[]
+): Record<number, WeekMatchup[]> {
+  const remaining = new Set(remainingWeeks);
+  const completed: Record<number, WeekMatchup[]> = {};
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!remaining.has(week)) {
+      completed[week] = matchups;
+    }
+  });
+  return completed;
+}
+
+/**
+ * Add hypothetical results to the completed matchups so ranking tiebreakers see them
+ */
+export function withSimulatedResults(
+  completedMatchupsByWeek: Record<number, WeekMatchup[]>,
+  simulatedMatchups: WeekMatchup[]
+): Record<number, WeekMatchup[]> {
+  return {
+    ...completedMatchupsByWeek,
+    [SIMULATED_RESULTS_WEEK]: [...(completedMatchupsByWeek[SIMULATED_RESULTS_WEEK] || []), ...simulatedMatchups]
+  };
+}
+
+/**
+ * Build each team's scoring distribution from the weeks that have already been played
+ */
+export function getScoringDistributions(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  remainingWeeks: number[]
+): Map<string, ScoringDistribution> {
+  const remaining = new Set(remainingWeeks);
+  const scoresByTeam = new Map<string, number[]>(standings.map(s => [s.userId, []]));
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    if (remaining.has(parseInt(weekStr))) return;
+
+    matchups.forEach(matchup => {
+      if (!matchup.winnerScore && !matchup.loserScore) return;
+      scoresByTeam.get(matchup.winner)?.push(matchup.winnerScore);
+      scoresByTeam.get(matchup.loser)?.push(matchup.loserScore);
+    });
+  });
+
+  const allScores = Array.from(scoresByTeam.values()).flat();
+  const leagueDistribution = toDistribution(allScores.length > 0 ? allScores : [100]);
+
+  const distributions = new Map<string, ScoringDistribution>();
+  scoresByTeam.forEach((scores, userId) => {
+    distributions.set(
+      userId,
+      scores.length >= MIN_GAMES_FOR_DISTRIBUTION ? toDistribution(scores) : leagueDistribution
+    );
+  });
+  return distributions;
+}
+
+/**
+ * Play out the remaining regular season many times and tally where each team finishes.
+ * Every run is ranked with calculateRankings, so division leaders, the bumped 3rd leader
+ * and H2H tiebreakers are applied exactly as in the real standings.
+ */
+export function simulatePlayoffOdds({
+  standings,
+  matchupsByWeek,
+  year,
+  remainingWeeks,
+  lockedResults = {},
+  runs = DEFAULT_SIMULATION_RUNS,
+  random = Math.random
+}: PlayoffSimulationOptions): PlayoffOdds[] {
+  const distributions = getScoringDistributions(standings, matchupsByWeek, remainingWeeks);
+  const playoffSpots = getPlayoffTeamCount(year);
+  const byeSpots = getPlayoffByeCount(year);
+
+  // Completed weeks are shared by every run
+  const completedMatchupsByWeek = getCompletedMatchupsByWeek(matchupsByWeek, remainingWeeks);
+  const remainingMatchups = getRemainingMatchups(matchupsByWeek, remainingWeeks);
+
+  const tallies = new Map(standings.map(s => [s.userId, {
+    playoffs: 0,
+    byes: 0,
+    divisions: 0,
+    wins: 0,
+    seeds: new Array<number>(standings.length).fill(0)
+  }]));
+
+  for (let run = 0; run < runs; run++) {
+    const runStandings = new Map(standings.map(s => [s.userId, { ...s }]));
+    const simulatedMatchups: WeekMatchup[] = [];
+
+    remainingMatchups.forEach(({ key, team1, team2 }) => {
+      const team1Standing = runStandings.get(team1);
+      const team2Standing = runStandings.get(team2);
+      if (!team1Standing || !team2Standing) return;
+
+      const team1Score = sampleScore(distributions.get(team1)!, random);
+      const team2Score = sampleScore(distributions.get(team2)!, random);
+      const lockedWinner = lockedResults[key];
+
+      // Locked picks keep the sampled scores but force the chosen winner
+      const team1Wins = lockedWinner ? lockedWinner === team1 : team1Score >= team2Score;
+      const [winner, loser] = team1Wins ? [team1Standing, team2Standing] : [team2Standing, team1Standing];
+      const winnerScore = Math.max(team1Score, team2Score);
+      const loserScore = Math.min(team1Score, team2Score);
+
+      winner.wins += 1;
+      winner.pointsFor += winnerScore;
+      winner.pointsAgainst += loserScore;
+      loser.losses += 1;
+      loser.pointsFor += loserScore;
+      loser.pointsAgainst += winnerScore;
+
+      simulatedMatchups.push({ winner: winner.userId, loser: loser.userId, winnerScore, loserScore });
+    });
+
+    const runMatchupsByWeek = withSimulatedResults(completedMatchupsByWeek, simulatedMatchups);
+
+    const ranked = calculateRankings(Array.from(runStandings.values()), runMatchupsByWeek, year);
+    const hasDivisions = ranked.some(s => s.division !== undefined && s.division !== null);
+    const divisionLeaders = hasDivisions
+      ? identifyDivisionLeaders(ranked, runMatchupsByWeek, year).allLeaders
+      : new Set<string>();
+
+    ranked.forEach((standing, index) => {
+      const tally = tallies.get(standing.userId);
+      if (!tally) return;
+
+      tally.seeds[index] += 1;
+      tally.wins += standing.wins;
+      if (index < playoffSpots) tally.playoffs += 1;
+      if (index < byeSpots) tally.byes += 1;
+      if (divisionLeaders.has(standing.userId)) tally.divisions += 1;
+    });
+  }
+
+  return standings.map(standing => {
+    const tally = tallies.get(standing.userId)!;
+    return {
+      userId: standing.userId,
+      makePlayoffs: tally.playoffs / runs,
+      firstRoundBye: tally.byes / runs,
+      winDivision: tally.divisions / runs,
+      seedOdds: tally.seeds.map(count => count / runs),
+      averageWins: tally.wins / runs
+    };
+  });
+}
+
+function toDistribution(scores: number[]): ScoringDistribution {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const variance = scores.reduce((sum, score) => sum + Math.pow(score - mean, 2), 0) / scores.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Draw a weekly score from a normal distribution (Box-Muller), floored at zero
+ */
+function sampleScore({ mean, stdDev }: ScoringDistribution, random: () => number): number {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  return Math.max(0, Math.round((mean + z * stdDev) * 100) / 100);
+}
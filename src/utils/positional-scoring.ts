@@ -0,0 +1,112 @@
+import type { LeagueTier, PlayerData, TeamLineup, WeekMatchup } from '../types';
+import { getRosterSlots, isRegularSeasonWeek } from './era-detection';
+import { isNFLWeekComplete } from './nfl-schedule';
+import { isActiveYear } from '../config/constants';
+
+export const SCORING_POSITIONS = ['QB', 'RB', 'WR', 'TE', 'FLEX', 'K', 'DEF'] as const;
+export type ScoringPosition = typeof SCORING_POSITIONS[number];
+export type PositionPoints = Record<ScoringPosition, number>;
+
+export interface WeeklyPositionPoints {
+  week: number;
+  points: PositionPoints;
+}
+
+export interface TeamPositionalScoring {
+  userId: string;
+  weeks: WeeklyPositionPoints[];
+  season: PositionPoints; // Regular season totals
+  total: number;
+  ranks: PositionPoints; // League rank per position (1 = most points)
+}
+
+export const emptyPositionPoints = (): PositionPoints => ({ QB: 0, RB: 0, WR: 0, TE: 0, FLEX: 0, K: 0, DEF: 0 });
+
+const isScoringPosition = (position: string): position is ScoringPosition =>
+  (SCORING_POSITIONS as readonly string[]).includes(position);
+
+/**
+ * Starter points by position for one lineup. Starters are stored in slot order, so
+ * anyone in a FLEX slot counts as FLEX; everyone else counts at their own position,
+ * falling back to PlayerData when the lineup didn't store one.
+ */
+export function getLineupPositionPoints(
+  lineup: TeamLineup,
+  slots: readonly string[],
+  playerData?: PlayerData | null
+): PositionPoints {
+  const points = emptyPositionPoints();
+
+  lineup.starters.forEach((player, index) => {
+    if (player.playerId === '0') return;
+    const slot = slots[index];
+    const position = slot === 'FLEX'
+      ? 'FLEX'
+      : player.position || playerData?.players[player.playerId]?.position || slot;
+    if (position && isScoringPosition(position)) {
+      points[position] += player.points;
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Points by position for every team in a season, week by week and in total, with
+ * league ranks. Only regular season weeks with lineups count, read against the
+ * league's roster slots that season.
+ */
+export function calculatePositionalScoring(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  league?: LeagueTier,
+  playerData?: PlayerData | null
+): TeamPositionalScoring[] {
+  const isActiveSeason = isActiveYear(year);
+  const slots = getRosterSlots(year, league);
+  const teams = new Map<string, { weeks: WeeklyPositionPoints[]; season: PositionPoints }>();
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year)) return;
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) return;
+
+    matchups.forEach(matchup => {
+      if (!matchup.lineups) return;
+
+      [
+        { userId: matchup.winner, lineup: matchup.lineups.winner },
+        { userId: matchup.loser, lineup: matchup.lineups.loser }
+      ].forEach(({ userId, lineup }) => {
+        const team = teams.get(userId) || { weeks: [], season: emptyPositionPoints() };
+        const points = getLineupPositionPoints(lineup, slots, playerData);
+        team.weeks.push({ week, points });
+        SCORING_POSITIONS.forEach(position => {
+          team.season[position] += points[position];
+        });
+        teams.set(userId, team);
+      });
+    });
+  });
+
+  const results: TeamPositionalScoring[] = Array.from(teams.entries()).map(([userId, team]) => ({
+    userId,
+    weeks: team.weeks.sort((a, b) => a.week - b.week),
+    season: team.season,
+    total: SCORING_POSITIONS.reduce((sum, position) => sum + team.season[position], 0),
+    ranks: emptyPositionPoints()
+  }));
+
+  // Equal totals share a rank
+  SCORING_POSITIONS.forEach(position => {
+    const sorted = [...results].sort((a, b) => b.season[position] - a.season[position]);
+    sorted.forEach((team, index) => {
+      const previous = sorted[index - 1];
+      team.ranks[position] = previous && previous.season[position] === team.season[position]
+        ? previous.ranks[position]
+        : index + 1;
+    });
+  });
+
+  return results;
+}
@@ -0,0 +1,169 @@
+import type { LeagueTier } from '../types';
+import { getAvailableLeagues } from './era-detection';
+import { getLeagueSettings } from '../config/league-settings';
+
+export type TierZone = 'promotion' | 'relegation';
+
+export interface TierMovement {
+  league: LeagueTier;
+  promotions: string[];
+  relegations: string[];
+}
+
+export interface TierMovementDiscrepancy {
+  league: LeagueTier;
+  userId: string;
+  movement: TierZone;
+  inStoredData: boolean; // true = stored array has the team but the rules don't
+}
+
+export interface ProjectedTierMember {
+  userId: string;
+  fromLeague: LeagueTier;
+  movement?: 'promoted' | 'relegated';
+}
+
+export interface NextSeasonProjection {
+  year: string;
+  tiers: { league: LeagueTier; members: ProjectedTierMember[] }[];
+  discrepancies: TierMovementDiscrepancy[];
+  tierStructureChanges: boolean; // Next season adds or removes a tier, so the projection is approximate
+}
+
+interface TierSeason {
+  league: string;
+  standings: { userId: string; rank: number }[];
+  promotions?: string[];
+  relegations?: string[];
+}
+
+export const hasPromotionRelegation = (year: string): boolean => getLeagueSettings(year).promotionSpots > 0;
+
+/**
+ * Tiers in order from top (Premier) to bottom for a season
+ */
+export const getTierOrder = (year: string): LeagueTier[] => getAvailableLeagues(year);
+
+/**
+ * Apply the promotion/relegation rules to one tier's standings, with the number of
+ * spots from the league's settings that season.
+ * Standings are taken in order, so pass final placements for completed seasons
+ * and the live ranking for the active season.
+ */
+export function getTierMovement(
+  league: LeagueTier,
+  year: string,
+  orderedUserIds: string[]
+): TierMovement {
+  const tiers = getTierOrder(year);
+  const tierIndex = tiers.indexOf(league);
+
+  if (!hasPromotionRelegation(year) || tierIndex === -1) {
+    return { league, promotions: [], relegations: [] };
+  }
+
+  const { promotionSpots, relegationSpots } = getLeagueSettings(year, league);
+  const isTopTier = tierIndex === 0;
+  const isBottomTier = tierIndex === tiers.length - 1;
+
+  return {
+    league,
+    promotions: isTopTier || promotionSpots === 0 ? [] : orderedUserIds.slice(0, promotionSpots),
+    relegations: isBottomTier || relegationSpots === 0 ? [] : orderedUserIds.slice(-relegationSpots)
+  };
+}
+
+/**
+ * Final placement order for a completed season
+ */
+export function getFinalOrder(standings: { userId: string; rank: number }[]): string[] {
+  return [...standings].sort((a, b) => a.rank - b.rank).map(s => s.userId);
+}
+
+/**
+ * Promotion/relegation zone for each team in the live standings
+ */
+export function getTierZones(
+  league: LeagueTier,
+  year: string,
+  orderedUserIds: string[]
+): Map<string, TierZone> {
+  const movement = getTierMovement(league, year, orderedUserIds);
+  const zones = new Map<string, TierZone>();
+  movement.promotions.forEach(userId => zones.set(userId, 'promotion'));
+  movement.relegations.forEach(userId => zones.set(userId, 'relegation'));
+  return zones;
+}
+
+/**
+ * Compare the rules-driven movement for a completed season against the stored arrays
+ */
+export function findMovementDiscrepancies(season: TierSeason, year: string): TierMovementDiscrepancy[] {
+  const league = season.league as LeagueTier;
+  const computed = getTierMovement(league, year, getFinalOrder(season.standings));
+  const discrepancies: TierMovementDiscrepancy[] = [];
+
+  const compare = (movement: TierZone, computedIds: string[], storedIds: string[]) => {
+    const computedSet = new Set(computedIds);
+    const storedSet = new Set(storedIds);
+    computedIds
+      .filter(userId => !storedSet.has(userId))
+      .forEach(userId => discrepancies.push({ league, userId, movement, inStoredData: false }));
+    storedIds
+      .filter(userId => !computedSet.has(userId))
+      .forEach(userId => discrepancies.push({ league, userId, movement, inStoredData: true }));
+  };
+
+  compare('promotion', computed.promotions, season.promotions || []);
+  compare('relegation', computed.relegations, season.relegations || []);
+
+  return discrepancies;
+}
+
+/**
+ * Project next season's tier membership from a completed season's final standings
+ */
+export function projectNextSeasonTiers(seasons: TierSeason[], year: string): NextSeasonProjection {
+  const tiers = getTierOrder(year);
+  const nextYear = (parseInt(year) + 1).toString();
+
+  const movements = new Map<LeagueTier, TierMovement>();
+  const discrepancies: TierMovementDiscrepancy[] = [];
+
+  tiers.forEach(league => {
+    const season = seasons.find(s => s.league === league);
+    if (!season) return;
+    movements.set(league, getTierMovement(league, year, getFinalOrder(season.standings)));
+    discrepancies.push(...findMovementDiscrepancies(season, year));
+  });
+
+  const projectedTiers = tiers.map((league, tierIndex) => {
+    const season = seasons.find(s => s.league === league);
+    const movement = movements.get(league);
+    const movers = new Set([...(movement?.promotions || []), ...(movement?.relegations || [])]);
+
+    const stayers: ProjectedTierMember[] = (season?.standings || [])
+      .filter(s => !movers.has(s.userId))
+      .map(s => ({ userId: s.userId, fromLeague: league }));
+
+    const belowTier = tiers[tierIndex + 1];
+    const aboveTier = tiers[tierIndex - 1];
+    const promotedIn: ProjectedTierMember[] = belowTier
+      ? (movements.get(belowTier)?.promotions || []).map(userId => ({ userId, fromLeague: belowTier, movement: 'promoted' }))
+      : [];
+    const relegatedIn: ProjectedTierMember[] = aboveTier
+      ? (movements.get(aboveTier)?.relegations || []).map(userId => ({ userId, fromLeague: aboveTier, movement: 'relegated' }))
+      : [];
+
+    return { league, members: [...promotedIn, ...stayers, ...relegatedIn] };
+  });
+
+  const nextTiers = getTierOrder(nextYear);
+
+  return {
+    year: nextYear,
+    tiers: projectedTiers,
+    discrepancies,
+    tierStructureChanges: nextTiers.length !== tiers.length || nextTiers.some((tier, index) => tiers[index] !== tier)
+  };
+}
@@ -1,6 +1,7 @@
-import type { EnhancedSeasonStandings } from '../types';
+import type { EnhancedSeasonStandings, SeedTier, SeedingMismatch, WeekMatchup } from '../types';
 import { isNFLWeekComplete } from './nfl-schedule';
-import { isActiveYear, getDisplayTeamName } from '../config/constants';
+import { getPlayoffByeCount, getPlayoffTeamCount, getPlayoffWeeks, isRegularSeasonWeek, isSleeperEra } from './era-detection';
+import { isActiveYear, getDisplayTeamName, CURRENT_YEAR } from '../config/constants';
 
 export interface RankingTiebreakers {
   pointsFor: number;
@@ -45,44 +46,67 @@ export interface DivisionGroup {
 }
 
 /**
- * Get head-to-head record between two teams for current season only
+ * H2H tiebreakers can be rebuilt for any Sleeper-era season (active or historical)
+ * from its matchups. ESPN-era seasons keep their stored ranks.
  */
-export function getHeadToHeadRecord(
-  team1Id: string,
-  team2Id: string,
-  matchupsByWeek?: Record<number, any[]>,
-  year?: string
-): { team1Wins: number; team2Wins: number; totalGames: number } {
-  if (!matchupsByWeek || !year || !isActiveYear(year)) {
-    return { team1Wins: 0, team2Wins: 0, totalGames: 0 };
+export function supportsTiebreakers(year?: string): year is string {
+  return !!year && isSleeperEra(year);
+}
+
+// Regular season wins keyed by `${winner}|${loser}`, built once per matchups object since
+// sorting a single standings table asks for the same season's H2H records many times
+const headToHeadWinsCache = new WeakMap<Record<number, WeekMatchup[]>, { year: string; wins: Map<string, number> }>();
+
+function getHeadToHeadWins(matchupsByWeek: Record<number, WeekMatchup[]>, year: string): Map<string, number> {
+  const cached = headToHeadWinsCache.get(matchupsByWeek);
+  if (cached && cached.year === year) {
+    return cached.wins;
   }
 
-  let team1Wins = 0;
-  let team2Wins = 0;
-  let totalGames = 0;
+  const isActiveSeason = isActiveYear(year);
+  const wins = new Map<string, number>();
 
   Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
     const week = parseInt(weekStr);
 
+    // Playoff games never count toward seeding
+    if (!isRegularSeasonWeek(week, year)) {
+      return;
+    }
+
     // Only count completed weeks for active season
-    if (!isNFLWeekComplete(week)) {
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) {
       return;
     }
 
     matchups.forEach(matchup => {
-      if ((matchup.winner === team1Id && matchup.loser === team2Id) ||
-          (matchup.winner === team2Id && matchup.loser === team1Id)) {
-        totalGames++;
-        if (matchup.winner === team1Id) {
-          team1Wins++;
-        } else if (matchup.winner === team2Id) {
-          team2Wins++;
-        }
-      }
+      const key = `${matchup.winner}|${matchup.loser}`;
+      wins.set(key, (wins.get(key) || 0) + 1);
     });
   });
 
-  return { team1Wins, team2Wins, totalGames };
+  headToHeadWinsCache.set(matchupsByWeek, { year, wins });
+  return wins;
+}
+
+/**
+ * Get head-to-head record between two teams in a season's regular season
+ */
+export function getHeadToHeadRecord(
+  team1Id: string,
+  team2Id: string,
+  matchupsByWeek?: Record<number, any[]>,
+  year?: string
+): { team1Wins: number; team2Wins: number; totalGames: number } {
+  if (!matchupsByWeek || !supportsTiebreakers(year)) {
+    return { team1Wins: 0, team2Wins: 0, totalGames: 0 };
+  }
+
+  const wins = getHeadToHeadWins(matchupsByWeek, year);
+  const team1Wins = wins.get(`${team1Id}|${team2Id}`) || 0;
+  const team2Wins = wins.get(`${team2Id}|${team1Id}`) || 0;
+
+  return { team1Wins, team2Wins, totalGames: team1Wins + team2Wins };
 }
 
 /**
@@ -106,8 +130,8 @@ function compareTeamRecords(
     return bWinPct - aWinPct;
   }
 
-  // 2. Tiebreaker for active season: Head-to-head record
-  if (year && isActiveYear(year) && matchupsByWeek) {
+  // 2. Tiebreaker: Head-to-head record
+  if (supportsTiebreakers(year) && matchupsByWeek) {
     const h2h = getHeadToHeadRecord(a.userId, b.userId, matchupsByWeek, year);
     if (h2h.totalGames > 0) {
       if (h2h.team1Wins !== h2h.team2Wins) {
@@ -233,7 +257,7 @@ function checkAggregateH2H(
   matchupsByWeek?: Record<number, any[]>,
   year?: string
 ): { isTied: boolean; records: Map<string, number>; winPcts?: Map<string, number> } {
-  if (!matchupsByWeek || !year || !isActiveYear(year)) {
+  if (!matchupsByWeek || !supportsTiebreakers(year)) {
     return { isTied: true, records: new Map() };
   }
 
@@ -285,8 +309,8 @@ function rankByRecord(
 
 /**
  * Rank teams with division logic:
- * - Top 2 division leaders get seeds 1-2
- * - Remaining teams get seeds 3+ by record
+ * - Top division leaders get the bye seeds (1-2)
+ * - Remaining teams get the seeds after them by record
  */
 function rankWithDivisions(
   standings: EnhancedSeasonStandings[],
@@ -317,9 +341,13 @@ function rankWithDivisions(
   // Sort division leaders by record using proper tiebreakers
   const sortedDivisionLeaders = sortWithTiebreakers(divisionLeaders, matchupsByWeek, year);
 
-  // Top 2 division leaders get seeds 1-2
-  const top2Leaders = sortedDivisionLeaders.slice(0, 2);
-  const thirdLeader = sortedDivisionLeaders[2]; // 3rd division leader (if exists)
+  const seasonYear = year ?? CURRENT_YEAR;
+  const byeSeeds = getPlayoffByeCount(seasonYear);
+  const playoffSeeds = getPlayoffTeamCount(seasonYear);
+
+  // Top division leaders get the bye seeds (1-2)
+  const top2Leaders = sortedDivisionLeaders.slice(0, byeSeeds);
+  const thirdLeader = sortedDivisionLeaders[byeSeeds]; // 3rd division leader (if exists)
 
   // Everyone else (non-top-2-leaders)
   const divisionLeaderIds = new Set(top2Leaders.map(leader => leader.userId));
@@ -331,16 +359,16 @@ function rankWithDivisions(
   // Combine: top 2 leaders first, then everyone else
   let finalOrder = [...top2Leaders, ...sortedOtherTeams];
 
-  // Special case: If 3rd division leader is ranked 7th or worse, bump them to 6th
+  // Special case: If 3rd division leader is out of the playoff seeds (7th or worse), bump them to the last one (6th)
   if (thirdLeader) {
     const thirdLeaderIndex = finalOrder.findIndex(team => team.userId === thirdLeader.userId);
 
-    if (thirdLeaderIndex >= 6) { // 7th position or worse (0-indexed, so 6+)
+    if (thirdLeaderIndex >= playoffSeeds) { // 0-indexed, so playoffSeeds is the first seed out
       // Remove 3rd leader from their current position
       finalOrder.splice(thirdLeaderIndex, 1);
-      // Insert at position 6 (6th seed, index 5) and mark as bumped
+      // Insert at the last playoff seed and mark as bumped
       const bumpedLeader = { ...thirdLeader, isThirdDivisionLeaderBumped: true };
-      finalOrder.splice(5, 0, bumpedLeader);
+      finalOrder.splice(playoffSeeds - 1, 0, bumpedLeader);
     }
   }
 
@@ -375,8 +403,8 @@ function assignRanks(
       // Check if not tied with previous team
       let isNotTied = currentWinPct !== prevWinPct;
 
-      // For active season, also check head-to-head and points for
-      if (!isNotTied && year && isActiveYear(year) && matchupsByWeek) {
+      // When tiebreakers apply, also check head-to-head and points for
+      if (!isNotTied && supportsTiebreakers(year) && matchupsByWeek) {
         const h2h = getHeadToHeadRecord(currentStanding.userId, prevStanding.userId, matchupsByWeek, year);
         if (h2h.totalGames > 0 && h2h.team1Wins !== h2h.team2Wins) {
           isNotTied = true;
@@ -462,8 +490,8 @@ export function identifyDivisionLeaders(
   // Sort division leaders by record
   const sortedDivisionLeaders = sortWithTiebreakers(divisionLeaders, matchupsByWeek, year);
 
-  // Top 2 leaders
-  const top2Leaders = sortedDivisionLeaders.slice(0, 2);
+  // Leaders holding the bye seeds (top 2)
+  const top2Leaders = sortedDivisionLeaders.slice(0, getPlayoffByeCount(year ?? CURRENT_YEAR));
 
   return {
     top2Leaders: new Set(top2Leaders.map(leader => leader.userId)),
@@ -487,7 +515,7 @@ export function getTiebreakerInfo(
   matchupsByWeek?: Record<number, any[]>,
   year?: string
 ): TiebreakerInfo | null {
-  if (!year || !isActiveYear(year) || !matchupsByWeek) {
+  if (!supportsTiebreakers(year) || !matchupsByWeek) {
     return null;
   }
 
@@ -766,4 +794,65 @@ export function groupStandingsByDivision(
     });
 
   return divisions;
-}
\ No newline at end of file
+}
+
+/**
+ * Compare recomputed seeds against the bracket that was actually played.
+ * Stored standings `rank` is the final placement (after playoffs), not the seed, so the
+ * comparison uses seed tiers read from the bracket: first-round quarterfinalists are the
+ * non-bye playoff seeds and teams that first appear in the semifinals had a bye.
+ * Pass `rankedStandings` when calculateRankings has already been run on these standings.
+ */
+export function getSeedingMismatches(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  rankedStandings?: EnhancedSeasonStandings[]
+): SeedingMismatch[] {
+  if (!supportsTiebreakers(year) || isActiveYear(year)) {
+    return [];
+  }
+
+  const getParticipants = (week: number, placementType: string): Set<string> => {
+    const participants = new Set<string>();
+    (matchupsByWeek[week] || [])
+      .filter(matchup => matchup.placementType === placementType)
+      .forEach(matchup => {
+        participants.add(matchup.winner);
+        participants.add(matchup.loser);
+      });
+    return participants;
+  };
+
+  const [quarterfinalWeek, semifinalWeek] = getPlayoffWeeks(year);
+  const playoffSeeds = getPlayoffTeamCount(year);
+  const byeSeeds = getPlayoffByeCount(year);
+  const quarterfinalists = getParticipants(quarterfinalWeek, 'Quarterfinal');
+  const semifinalists = getParticipants(semifinalWeek, 'Semifinal');
+
+  // Without a complete bracket there is nothing to compare against
+  if (quarterfinalists.size === 0 || semifinalists.size === 0) {
+    return [];
+  }
+
+  const getActualTier = (userId: string): SeedTier => {
+    if (semifinalists.has(userId) && !quarterfinalists.has(userId)) return 'bye';
+    if (quarterfinalists.has(userId)) return 'playoffs';
+    return 'missed';
+  };
+
+  const getExpectedTier = (seed: number): SeedTier => {
+    if (seed <= byeSeeds) return 'bye';
+    if (seed <= playoffSeeds) return 'playoffs';
+    return 'missed';
+  };
+
+  return (rankedStandings || calculateRankings(standings, matchupsByWeek, year))
+    .map((standing, index) => ({
+      userId: standing.userId,
+      recomputedSeed: index + 1,
+      expectedTier: getExpectedTier(index + 1),
+      actualTier: getActualTier(standing.userId)
+    }))
+    .filter(result => result.expectedTier !== result.actualTier);
+}
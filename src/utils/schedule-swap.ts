@@ -0,0 +1,116 @@
+import type { WeekMatchup } from '../types';
+import { isRegularSeasonWeek } from './era-detection';
+import { isNFLWeekComplete } from './nfl-schedule';
+import { isActiveYear } from '../config/constants';
+
+export interface ScheduleSwapRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  totalGames: number;
+}
+
+export interface ScheduleStrength {
+  userId: string;
+  averageWins: number; // Average wins every other team would have with this schedule
+  actualWins: number; // Wins with the team's own schedule (ties count half)
+  averageWinsAcrossSchedules: number; // This team's average wins with everyone else's schedule
+  rank: number; // 1 = hardest schedule
+}
+
+/**
+ * N×N matrix: matrix.get(A).get(B) is A's record had A played B's schedule with A's own weekly scores.
+ * When B's opponent in a week was A itself, A plays B instead (A takes B's place, so B takes A's).
+ * The diagonal (A with A's schedule) is A's actual regular season record.
+ */
+export function calculateScheduleSwapMatrix(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string
+): Map<string, Map<string, ScheduleSwapRecord>> {
+  const isActiveSeason = isActiveYear(year);
+
+  // Per week: each team's score and opponent
+  const weeks: { scores: Map<string, number>; opponents: Map<string, string> }[] = [];
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    const week = parseInt(weekStr);
+    if (!isRegularSeasonWeek(week, year)) return;
+    if (isActiveSeason && !isNFLWeekComplete(week, year)) return;
+
+    const scores = new Map<string, number>();
+    const opponents = new Map<string, string>();
+    matchups.forEach(matchup => {
+      if (!matchup.winner || !matchup.loser) return;
+      if (!matchup.winnerScore && !matchup.loserScore) return;
+      scores.set(matchup.winner, matchup.winnerScore);
+      scores.set(matchup.loser, matchup.loserScore);
+      opponents.set(matchup.winner, matchup.loser);
+      opponents.set(matchup.loser, matchup.winner);
+    });
+
+    if (scores.size > 0) {
+      weeks.push({ scores, opponents });
+    }
+  });
+
+  const teams = new Set<string>();
+  weeks.forEach(({ scores }) => scores.forEach((_, userId) => teams.add(userId)));
+
+  const matrix = new Map<string, Map<string, ScheduleSwapRecord>>();
+
+  teams.forEach(teamA => {
+    const row = new Map<string, ScheduleSwapRecord>();
+
+    teams.forEach(teamB => {
+      const record: ScheduleSwapRecord = { wins: 0, losses: 0, ties: 0, totalGames: 0 };
+
+      weeks.forEach(({ scores, opponents }) => {
+        const teamAScore = scores.get(teamA);
+        const scheduledOpponent = opponents.get(teamB);
+        if (teamAScore === undefined || !scheduledOpponent) return;
+
+        // Facing yourself on B's schedule means facing B
+        const opponent = scheduledOpponent === teamA ? teamB : scheduledOpponent;
+        const opponentScore = scores.get(opponent);
+        if (opponentScore === undefined) return;
+
+        record.totalGames += 1;
+        if (teamAScore > opponentScore) record.wins += 1;
+        else if (teamAScore < opponentScore) record.losses += 1;
+        else record.ties += 1;
+      });
+
+      row.set(teamB, record);
+    });
+
+    matrix.set(teamA, row);
+  });
+
+  return matrix;
+}
+
+/**
+ * Rank schedules from hardest to easiest by how many wins the rest of the league
+ * would average against them
+ */
+export function calculateScheduleStrength(
+  matrix: Map<string, Map<string, ScheduleSwapRecord>>
+): ScheduleStrength[] {
+  const teams = Array.from(matrix.keys());
+  const getWins = (record?: ScheduleSwapRecord) => record ? record.wins + record.ties * 0.5 : 0;
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return teams
+    .map(userId => {
+      const others = teams.filter(other => other !== userId);
+      return {
+        userId,
+        averageWins: average(others.map(other => getWins(matrix.get(other)?.get(userId)))),
+        actualWins: getWins(matrix.get(userId)?.get(userId)),
+        averageWinsAcrossSchedules: average(others.map(other => getWins(matrix.get(userId)?.get(other)))),
+        rank: 0
+      };
+    })
+    .sort((a, b) => a.averageWins - b.averageWins)
+    .map((strength, index) => ({ ...strength, rank: index + 1 }));
+}
@@ -0,0 +1,100 @@
+import type { EnhancedSeasonStandings, WeekMatchup } from '../types';
+import { isRegularSeasonWeek } from './era-detection';
+import { calculateAllPlayRecords } from './all-play';
+import { calculateRegularSeasonStats, calculateUPR } from './upr-calculator';
+import { getCompletedMatchupsByWeek, getRemainingMatchups } from './playoff-simulator';
+import { getRemainingRegularSeasonWeeks } from './clinch-calculator';
+
+export interface OpponentStrength {
+  games: number;
+  opponentPointsFor: number; // Opponents' average points per game
+  opponentUPR: number;
+  opponentAllPlayPct: number; // Opponents' all-play win rate (0-1)
+}
+
+export interface StrengthOfSchedule {
+  userId: string;
+  played: OpponentStrength;
+  remaining: OpponentStrength;
+}
+
+interface TeamStrength {
+  pointsPerGame: number;
+  upr: number;
+  allPlayPct: number;
+}
+
+const averageOpponents = (opponents: string[], teamStrengths: Map<string, TeamStrength>): OpponentStrength => {
+  const rated = opponents
+    .map(opponent => teamStrengths.get(opponent))
+    .filter((strength): strength is TeamStrength => strength !== undefined);
+  const average = (getValue: (strength: TeamStrength) => number) =>
+    rated.length > 0 ? rated.reduce((sum, strength) => sum + getValue(strength), 0) / rated.length : 0;
+
+  return {
+    games: opponents.length,
+    opponentPointsFor: average(strength => strength.pointsPerGame),
+    opponentUPR: average(strength => strength.upr),
+    opponentAllPlayPct: average(strength => strength.allPlayPct)
+  };
+};
+
+/**
+ * Strength of schedule for games already played and games still to come. Opponents are
+ * rated on the regular season played so far: points per game, UPR and all-play win rate.
+ * A team that faces the same opponent twice counts that opponent twice.
+ */
+export function calculateStrengthOfSchedule(
+  standings: EnhancedSeasonStandings[],
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  year: string,
+  remainingWeeks: number[] = getRemainingRegularSeasonWeeks(matchupsByWeek, year)
+): Map<string, StrengthOfSchedule> {
+  const completedMatchupsByWeek = getCompletedMatchupsByWeek(matchupsByWeek, remainingWeeks);
+  const allPlayRecords = calculateAllPlayRecords(completedMatchupsByWeek, year);
+
+  const teamStrengths = new Map<string, TeamStrength>();
+  standings.forEach(standing => {
+    const stats = calculateRegularSeasonStats(standing.userId, completedMatchupsByWeek, year);
+    const allPlay = allPlayRecords.get(standing.userId);
+    const allPlayGames = allPlay ? allPlay.wins + allPlay.losses + allPlay.ties : 0;
+
+    teamStrengths.set(standing.userId, {
+      pointsPerGame: stats.averageScore,
+      upr: calculateUPR(stats),
+      allPlayPct: allPlay && allPlayGames > 0 ? (allPlay.wins + allPlay.ties * 0.5) / allPlayGames : 0
+    });
+  });
+
+  const playedOpponents = new Map<string, string[]>(standings.map(s => [s.userId, []]));
+  Object.entries(completedMatchupsByWeek).forEach(([weekStr, matchups]) => {
+    if (!isRegularSeasonWeek(parseInt(weekStr), year)) return;
+
+    matchups.forEach(matchup => {
+      if (!matchup.winner || !matchup.loser) return;
+      if (!matchup.winnerScore && !matchup.loserScore) return;
+      playedOpponents.get(matchup.winner)?.push(matchup.loser);
+      playedOpponents.get(matchup.loser)?.push(matchup.winner);
+    });
+  });
+
+  const remainingOpponents = new Map<string, string[]>(standings.map(s => [s.userId, []]));
+  getRemainingMatchups(matchupsByWeek, remainingWeeks.filter(week => isRegularSeasonWeek(week, year)))
+    .forEach(matchup => {
+      remainingOpponents.get(matchup.team1)?.push(matchup.team2);
+      remainingOpponents.get(matchup.team2)?.push(matchup.team1);
+    });
+
+  const results = new Map<string, StrengthOfSchedule>();
+  standings.forEach(standing => {
+    results.set(standing.userId, {
+      userId: standing.userId,
+      played: averageOpponents(playedOpponents.get(standing.userId) || [], teamStrengths),
+      remaining: averageOpponents(remainingOpponents.get(standing.userId) || [], teamStrengths)
+    });
+  });
+
+  return results;
+}
+
+export const formatAllPlayPct = (pct: number): string => pct.toFixed(3).replace(/^0/, '');
@@ -0,0 +1,109 @@
+import type { LeagueTier, SeasonTransaction, TradeAnalysis, TradeSide, TradeWeekContribution, WeekMatchup } from '../types';
+import type { WeeklyStarters } from './weekly-lineups';
+import { getPlayoffWeeks, getSeasonLength } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export interface MemberTradeRecord {
+  ffuUserId: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number; // Ties count as half a win
+}
+
+/**
+ * Score a trade after the fact: each side gets the points its acquired players scored in
+ * its starting lineup from the trade week to the end of the season. Playoff points count
+ * twice, and a playoff win is decisive when the acquired starters outscored the margin.
+ */
+export function analyzeTrade(
+  trade: SeasonTransaction,
+  season: { year: string; league: LeagueTier; matchupsByWeek: Record<number, WeekMatchup[]> },
+  weeklyStarters: WeeklyStarters
+): TradeAnalysis {
+  const { year, league, matchupsByWeek } = season;
+  const playoffWeeks = getPlayoffWeeks(year, league);
+  const lastWeek = getSeasonLength(year, league);
+
+  const sides: TradeSide[] = trade.userIds.map(userId => {
+    const acquiredPlayers = trade.adds.filter(move => move.userId === userId);
+    const acquiredIds = new Set(acquiredPlayers.map(move => move.playerId));
+
+    const weeks: TradeWeekContribution[] = [];
+    const playerPoints: Record<string, number> = Object.fromEntries(acquiredPlayers.map(move => [move.playerId, 0]));
+    let decisivePlayoffWins = 0;
+    for (let week = trade.week; week <= lastWeek; week++) {
+      const lineup = weeklyStarters[week]?.[userId] || {};
+      let points = 0;
+      Object.entries(lineup).forEach(([playerId, starterPoints]) => {
+        if (!acquiredIds.has(playerId)) return;
+        playerPoints[playerId] += starterPoints;
+        points += starterPoints;
+      });
+      const isPlayoff = playoffWeeks.includes(week);
+
+      if (isPlayoff && points > 0) {
+        const win = (matchupsByWeek[week] || []).find(matchup => matchup.winner === userId && matchup.winnerScore > matchup.loserScore);
+        if (win && points > win.winnerScore - win.loserScore) decisivePlayoffWins++;
+      }
+      weeks.push({ week, points, isPlayoff });
+    }
+
+    const points = weeks.reduce((sum, week) => sum + week.points, 0);
+    const playoffPoints = weeks.filter(week => week.isPlayoff).reduce((sum, week) => sum + week.points, 0);
+
+    return {
+      userId,
+      acquiredPlayers,
+      acquiredPicks: trade.draftPicks.filter(pick => pick.to === userId),
+      faabReceived: trade.faabTransfers.filter(transfer => transfer.to === userId).reduce((sum, transfer) => sum + transfer.amount, 0),
+      weeks,
+      playerPoints,
+      points,
+      playoffPoints,
+      decisivePlayoffWins,
+      score: points + playoffPoints
+    };
+  });
+
+  const ranked = [...sides].sort((a, b) => b.score - a.score);
+  const margin = ranked.length > 1 ? ranked[0].score - ranked[1].score : 0;
+
+  return {
+    year,
+    league,
+    transaction: trade,
+    sides,
+    winner: margin > 0 ? ranked[0].userId : null,
+    margin
+  };
+}
+
+/**
+ * Career trade records keyed by ffuUserId. A three-way trade is a win for its best side
+ * and a loss for the other two.
+ */
+export function calculateTradeRecords(analyses: TradeAnalysis[]): Map<string, MemberTradeRecord> {
+  const records = new Map<string, MemberTradeRecord>();
+
+  analyses.forEach(analysis => {
+    analysis.sides.forEach(side => {
+      const ffuUserId = getFFUIdBySleeperId(side.userId, analysis.year) || side.userId;
+      const record = records.get(ffuUserId) || { ffuUserId, trades: 0, wins: 0, losses: 0, ties: 0, winRate: 0 };
+
+      record.trades++;
+      if (analysis.winner === null) {
+        record.ties++;
+      } else if (analysis.winner === side.userId) {
+        record.wins++;
+      } else {
+        record.losses++;
+      }
+      record.winRate = (record.wins + record.ties * 0.5) / record.trades;
+      records.set(ffuUserId, record);
+    });
+  });
+
+  return records;
+}
@@ -0,0 +1,83 @@
+import type { SeasonTransaction, SleeperRoster, SleeperTransaction, TransactionPlayerMove, TransactionType } from '../types';
+
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  trade: 'Trade',
+  waiver: 'Waiver Claim',
+  free_agent: 'Free Agent',
+  commissioner: 'Commissioner'
+};
+
+/**
+ * Turn raw Sleeper transactions into the stored shape: completed moves only, rosters
+ * resolved to user IDs and players to name/position/team, oldest first.
+ * scripts/generate-historical-data.js mirrors this when writing season files.
+ */
+export const normalizeTransactions = (
+  transactions: SleeperTransaction[],
+  rosters: SleeperRoster[],
+  playerMap: Record<string, { full_name?: string; first_name?: string; last_name?: string; position?: string; team?: string | null }>
+): SeasonTransaction[] => {
+  const ownerByRosterId = new Map(rosters.map(roster => [roster.roster_id, roster.owner_id]));
+  const toUserId = (rosterId: number) => ownerByRosterId.get(rosterId) || `roster-${rosterId}`;
+
+  const toMoves = (moves: Record<string, number> | null): TransactionPlayerMove[] => {
+    return Object.entries(moves || {}).map(([playerId, rosterId]) => {
+      const player = playerMap[playerId] || {};
+      return {
+        playerId,
+        playerInfo: {
+          name: player.full_name || `${player.first_name || ''} ${player.last_name || ''}`.trim() || 'Unknown Player',
+          position: player.position || 'UNK',
+          team: player.team || null
+        },
+        userId: toUserId(rosterId)
+      };
+    });
+  };
+
+  return transactions
+    .filter(transaction => transaction.status === 'complete')
+    .map(transaction => {
+      const normalized: SeasonTransaction = {
+        transactionId: transaction.transaction_id,
+        type: transaction.type,
+        week: transaction.leg,
+        timestamp: transaction.status_updated || transaction.created,
+        userIds: transaction.roster_ids.map(toUserId),
+        adds: toMoves(transaction.adds),
+        drops: toMoves(transaction.drops),
+        draftPicks: (transaction.draft_picks || []).map(pick => ({
+          season: pick.season,
+          round: pick.round,
+          originalOwner: toUserId(pick.roster_id),
+          from: toUserId(pick.previous_owner_id),
+          to: toUserId(pick.owner_id)
+        })),
+        faabTransfers: (transaction.waiver_budget || []).map(transfer => ({
+          from: toUserId(transfer.sender),
+          to: toUserId(transfer.receiver),
+          amount: transfer.amount
+        }))
+      };
+
+      if (transaction.type === 'waiver' && transaction.settings?.waiver_bid !== undefined) {
+        normalized.waiverBid = transaction.settings.waiver_bid;
+      }
+
+      return normalized;
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Transactions involving a team (by any of its user IDs) and/or of one type
+ */
+export const filterTransactions = (
+  transactions: SeasonTransaction[],
+  filters: { userIds?: string[]; type?: TransactionType }
+): SeasonTransaction[] => {
+  return transactions.filter(transaction =>
+    (!filters.type || transaction.type === filters.type) &&
+    (!filters.userIds || transaction.userIds.some(userId => filters.userIds!.includes(userId)))
+  );
+};
@@ -44,7 +44,7 @@ export const getRegularSeasonUPRData = (
     }
 
     // For active seasons (2025), only include completed weeks
-    if (year === '2025' && !isNFLWeekComplete(week)) {
+    if (year === '2025' && !isNFLWeekComplete(week, year)) {
       return;
     }
 
@@ -93,7 +93,7 @@ export const calculateRegularSeasonRecord = (
     }
 
     // For active seasons (2025), only include completed weeks
-    if (year === '2025' && !isNFLWeekComplete(week)) {
+    if (year === '2025' && !isNFLWeekComplete(week, year)) {
       return;
     }
 
@@ -143,7 +143,7 @@ export const calculateRegularSeasonStats = (
     }
 
     // For active seasons (2025), only include completed weeks
-    if (year === '2025' && !isNFLWeekComplete(week)) {
+    if (year === '2025' && !isNFLWeekComplete(week, year)) {
       return;
     }
 
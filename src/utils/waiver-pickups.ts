@@ -0,0 +1,119 @@
+import type { LeagueTier, PickupValue, SeasonTransaction } from '../types';
+import type { WeeklyStarters } from './weekly-lineups';
+import { getSeasonLength } from './era-detection';
+import { getFFUIdBySleeperId } from '../config/constants';
+
+export interface PickupManagerSummary {
+  ffuUserId: string;
+  userId: string; // Most recent user ID, for names and logos
+  pickups: number;
+  waiverClaims: number;
+  freeAgentAdds: number;
+  starts: number;
+  points: number;
+  faabSpent: number;
+  pointsPerPickup: number;
+}
+
+/**
+ * Value every waiver claim and free agent add in a season: the points the player scored in
+ * the manager's starting lineup from the add until the manager dropped or traded the player
+ * (the week of the drop counts, in case the player started first).
+ */
+export function analyzePickups(
+  transactions: SeasonTransaction[],
+  season: { year: string; league: LeagueTier },
+  weeklyStarters: WeeklyStarters
+): PickupValue[] {
+  const { year, league } = season;
+  const lastWeek = getSeasonLength(year, league);
+  const ordered = [...transactions].sort((a, b) => a.timestamp - b.timestamp);
+
+  return ordered.flatMap((transaction, index) => {
+    if (transaction.type !== 'waiver' && transaction.type !== 'free_agent') return [];
+    const type = transaction.type;
+
+    return transaction.adds.map(add => {
+      const departure = ordered.slice(index + 1).find(later =>
+        later.drops.some(drop => drop.playerId === add.playerId && drop.userId === add.userId)
+      );
+      const droppedWeek = departure ? departure.week : null;
+
+      let starts = 0;
+      let points = 0;
+      for (let week = transaction.week; week <= (droppedWeek ?? lastWeek); week++) {
+        const starterPoints = weeklyStarters[week]?.[add.userId]?.[add.playerId];
+        if (starterPoints === undefined) continue;
+        starts++;
+        points += starterPoints;
+      }
+
+      const faabBid = type === 'waiver' ? transaction.waiverBid : undefined;
+      return {
+        year,
+        league,
+        transactionId: transaction.transactionId,
+        type,
+        week: transaction.week,
+        timestamp: transaction.timestamp,
+        userId: add.userId,
+        playerId: add.playerId,
+        playerInfo: add.playerInfo,
+        faabBid,
+        droppedWeek,
+        starts,
+        points,
+        costPerPoint: faabBid && points > 0 ? faabBid / points : null
+      };
+    });
+  });
+}
+
+/**
+ * Pickup totals per manager, most active first
+ */
+export function summarizePickupManagers(pickups: PickupValue[]): PickupManagerSummary[] {
+  const summaries = new Map<string, PickupManagerSummary>();
+
+  [...pickups].sort((a, b) => a.timestamp - b.timestamp).forEach(pickup => {
+    const ffuUserId = getFFUIdBySleeperId(pickup.userId, pickup.year) || pickup.userId;
+    const summary = summaries.get(ffuUserId) || {
+      ffuUserId,
+      userId: pickup.userId,
+      pickups: 0,
+      waiverClaims: 0,
+      freeAgentAdds: 0,
+      starts: 0,
+      points: 0,
+      faabSpent: 0,
+      pointsPerPickup: 0
+    };
+
+    summary.userId = pickup.userId;
+    summary.pickups++;
+    if (pickup.type === 'waiver') summary.waiverClaims++;
+    else summary.freeAgentAdds++;
+    summary.starts += pickup.starts;
+    summary.points += pickup.points;
+    summary.faabSpent += pickup.faabBid || 0;
+    summary.pointsPerPickup = summary.points / summary.pickups;
+    summaries.set(ffuUserId, summary);
+  });
+
+  return Array.from(summaries.values()).sort((a, b) => b.pickups - a.pickups || b.points - a.points);
+}
+
+/**
+ * The best pickup of each season across every league, newest season first
+ */
+export function getWaiverGemsByYear(pickups: PickupValue[]): PickupValue[] {
+  const gems = new Map<string, PickupValue>();
+  pickups.forEach(pickup => {
+    const best = gems.get(pickup.year);
+    if (pickup.points > 0 && (!best || pickup.points > best.points)) {
+      gems.set(pickup.year, pickup);
+    }
+  });
+
+  return Array.from(gems.values()).sort((a, b) => b.year.localeCompare(a.year));
+}
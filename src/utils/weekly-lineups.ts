@@ -0,0 +1,110 @@
+import type { LineupPlayer, PlayerData, SleeperMatchup, SleeperRoster, TeamLineup, WeekMatchup } from '../types';
+
+// Week -> user ID -> player ID -> points
+export type WeeklyPlayerPoints = Record<number, Record<string, Record<string, number>>>;
+
+// Starters only
+export type WeeklyStarters = WeeklyPlayerPoints;
+
+export interface WeeklyLineups {
+  starters: WeeklyStarters;
+  rosters: WeeklyPlayerPoints; // Starters and bench
+}
+
+const toPoints = (players: TeamLineup['starters']) =>
+  Object.fromEntries(players.filter(player => player.playerId !== '0').map(player => [player.playerId, player.points]));
+
+/**
+ * Lineups stored with each matchup. Seasons generated before lineups were stored come back empty.
+ */
+export function getStoredWeeklyLineups(matchupsByWeek: Record<number, WeekMatchup[]>): WeeklyLineups {
+  const lineups: WeeklyLineups = { starters: {}, rosters: {} };
+
+  Object.entries(matchupsByWeek).forEach(([weekStr, matchups]) => {
+    matchups.forEach(matchup => {
+      if (!matchup.lineups) return;
+      const week = parseInt(weekStr);
+      lineups.starters[week] = lineups.starters[week] || {};
+      lineups.rosters[week] = lineups.rosters[week] || {};
+      [
+        { userId: matchup.winner, lineup: matchup.lineups.winner },
+        { userId: matchup.loser, lineup: matchup.lineups.loser }
+      ].forEach(({ userId, lineup }) => {
+        lineups.starters[week][userId] = toPoints(lineup.starters);
+        lineups.rosters[week][userId] = toPoints([...lineup.starters, ...lineup.bench]);
+      });
+    });
+  });
+
+  return lineups;
+}
+
+/**
+ * Lineups from raw Sleeper matchups (starters, players + players_points), for seasons without stored lineups
+ */
+export function getSleeperWeeklyLineups(
+  weeks: { week: number; matchups: SleeperMatchup[] }[],
+  rosters: SleeperRoster[]
+): WeeklyLineups {
+  const ownerByRosterId = new Map(rosters.map(roster => [roster.roster_id, roster.owner_id]));
+  const lineups: WeeklyLineups = { starters: {}, rosters: {} };
+
+  weeks.forEach(({ week, matchups }) => {
+    lineups.starters[week] = {};
+    lineups.rosters[week] = {};
+    matchups.forEach(matchup => {
+      const userId = ownerByRosterId.get(matchup.roster_id);
+      if (!userId) return;
+      const toSleeperPoints = (playerIds: string[]) => Object.fromEntries(
+        playerIds.filter(playerId => playerId !== '0').map(playerId => [playerId, matchup.players_points?.[playerId] || 0])
+      );
+      lineups.starters[week][userId] = toSleeperPoints(matchup.starters || []);
+      lineups.rosters[week][userId] = toSleeperPoints([...new Set([...(matchup.starters || []), ...(matchup.players || [])])]);
+    });
+  });
+
+  return lineups;
+}
+
+/**
+ * Stored matchups with lineups filled in from raw Sleeper matchups, for seasons generated
+ * before lineups were stored. Starters keep Sleeper's slot order; Sleeper matchups don't
+ * carry positions, so those come from PlayerData.
+ */
+export function attachSleeperLineups(
+  matchupsByWeek: Record<number, WeekMatchup[]>,
+  weeks: { week: number; matchups: SleeperMatchup[] }[],
+  rosters: SleeperRoster[],
+  playerData?: PlayerData | null
+): Record<number, WeekMatchup[]> {
+  const ownerByRosterId = new Map(rosters.map(roster => [roster.roster_id, roster.owner_id]));
+  const sleeperWeeks = new Map(weeks.map(({ week, matchups }) => [week, matchups]));
+
+  const toTeamLineup = (matchup: SleeperMatchup): TeamLineup => {
+    const starters = matchup.starters || [];
+    const toLineupPlayer = (playerId: string): LineupPlayer => ({
+      playerId,
+      points: matchup.players_points?.[playerId] || 0,
+      position: playerData?.players[playerId]?.position
+    });
+    return {
+      starters: starters.map(toLineupPlayer),
+      bench: (matchup.players || []).filter(playerId => !starters.includes(playerId)).map(toLineupPlayer)
+    };
+  };
+
+  return Object.fromEntries(Object.entries(matchupsByWeek).map(([weekStr, matchups]) => {
+    const teamLineups = new Map<string, TeamLineup>();
+    (sleeperWeeks.get(parseInt(weekStr)) || []).forEach(matchup => {
+      const userId = ownerByRosterId.get(matchup.roster_id);
+      if (userId) teamLineups.set(userId, toTeamLineup(matchup));
+    });
+
+    return [weekStr, matchups.map(matchup => {
+      if (matchup.lineups) return matchup;
+      const winner = teamLineups.get(matchup.winner);
+      const loser = teamLineups.get(matchup.loser);
+      return winner && loser ? { ...matchup, lineups: { winner, loser } } : matchup;
+    })];
+  }));
+}